@@ -0,0 +1,414 @@
+'use client';
+
+import type { TaskStatus } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import { usePathname, useRouter } from 'next/navigation';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { fuzzyFilter } from './fuzzyMatch';
+import { useI18n } from './I18nContext';
+import { keyboardShortcuts, useShortcuts } from './keyboardShortcuts';
+
+/** Task the keyboard is on (j/k in the list), offered by the edit action */
+type ActiveTask = { id: string; titulo: string };
+
+type CommandPaletteContextType = {
+  setActiveTask: (task: ActiveTask | null) => void;
+};
+
+type PaletteAction = {
+  id: string;
+  label: string;
+  shortcut?: string;
+  run: () => void;
+};
+
+type PaletteItem =
+  | { kind: 'action'; action: PaletteAction }
+  | {
+      kind: 'task';
+      task: { id: string; titulo: string; status: TaskStatus };
+    };
+
+/** Tasks listed before anything is typed (newest first) */
+const recentTaskCount = 5;
+/** Tasks listed for a query */
+const maxTaskResults = 8;
+
+const CommandPaletteContext = createContext<
+  CommandPaletteContextType | undefined
+>(undefined);
+
+/**
+ * Task page being viewed (`/tasks/[id]` or its edit page), if any
+ */
+function getTaskIdFromPath(pathname: string) {
+  const match = /^\/tasks\/([^/]+)(?:\/edit)?$/.exec(pathname);
+  if (!match || match[1] === 'new' || match[1] === 'import') return null;
+  return match[1];
+}
+
+/**
+ * Command palette (Ctrl/⌘+K) and the global shortcuts
+ *
+ * Features:
+ * - Fuzzy search over actions (navigation, new task, edit task) in the
+ *   user's language
+ *   and over the user's tasks by title (`task.list`, loaded on first open)
+ * - Arrow keys + Enter, or the mouse; Shift+Enter on a task opens its edit page
+ * - `n` opens the new task page, `?` the overlay listing every shortcut
+ *   (`keyboardShortcuts`); j/k/e/x belong to TaskList/TaskItem
+ *
+ * Decisions:
+ * - Provider (like ToastProvider) so TaskList can tell which task the
+ *   keyboard is on: the edit action edits it, or the task page being viewed
+ * - Ctrl/⌘+K also works inside form fields (it types nothing); single-key
+ *   shortcuts don't (see useShortcuts)
+ * - Disabled for anonymous visitors (`isEnabled`): there are no tasks to
+ *   search and the pages would redirect to login
+ * - Focus returns to where it was when the palette closes
+ */
+export function CommandPaletteProvider({
+  children,
+  isEnabled,
+}: {
+  children: React.ReactNode;
+  isEnabled: boolean;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [activeTask, setActiveTask] = useState<ActiveTask | null>(null);
+
+  const router = useRouter();
+  const pathname = usePathname();
+  const { t } = useI18n();
+  const previousFocus = useRef<HTMLElement | null>(null);
+
+  const { data: tasks } = trpc.task.list.useQuery(undefined, {
+    enabled: isEnabled && isOpen,
+    staleTime: 30_000,
+  });
+
+  const open = useCallback(() => {
+    previousFocus.current = document.activeElement as HTMLElement | null;
+    setQuery('');
+    setHighlighted(0);
+    setIsHelpOpen(false);
+    setIsOpen(true);
+  }, []);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    previousFocus.current?.focus();
+    previousFocus.current = null;
+  }, []);
+
+  // Ctrl/⌘+K: handled apart from useShortcuts, which ignores modifiers
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'k') return;
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      event.preventDefault();
+      if (isOpen) close();
+      else open();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEnabled, isOpen, open, close]);
+
+  useShortcuts(
+    {
+      n: () => router.push('/tasks/new'),
+      '?': () => setIsHelpOpen(true),
+      ...(isHelpOpen && { Escape: () => setIsHelpOpen(false) }),
+    },
+    isEnabled && !isOpen
+  );
+
+  const editTaskId = activeTask?.id ?? getTaskIdFromPath(pathname);
+
+  const actions = useMemo(() => {
+    const navigate = (href: string) => () => router.push(href);
+    const list: PaletteAction[] = [
+      {
+        id: 'new',
+        label: t('commandPalette.newTask'),
+        shortcut: 'n',
+        run: navigate('/tasks/new'),
+      },
+    ];
+    if (editTaskId) {
+      list.push({
+        id: 'edit',
+        label: activeTask
+          ? t('commandPalette.editTask', { titulo: activeTask.titulo })
+          : t('commandPalette.edit'),
+        shortcut: 'e',
+        run: navigate(`/tasks/${editTaskId}/edit`),
+      });
+    }
+    list.push(
+      { id: 'home', label: t('commandPalette.goHome'), run: navigate('/') },
+      {
+        id: 'board',
+        label: t('commandPalette.goBoard'),
+        run: navigate('/board'),
+      },
+      {
+        id: 'calendar',
+        label: t('commandPalette.goCalendar'),
+        run: navigate('/calendar'),
+      },
+      {
+        id: 'projects',
+        label: t('commandPalette.goProjects'),
+        run: navigate('/projects'),
+      },
+      { id: 'tags', label: t('commandPalette.goTags'), run: navigate('/tags') },
+      {
+        id: 'trash',
+        label: t('commandPalette.goTrash'),
+        run: navigate('/trash'),
+      },
+      {
+        id: 'import',
+        label: t('commandPalette.import'),
+        run: navigate('/tasks/import'),
+      },
+      {
+        id: 'help',
+        label: t('commandPalette.help'),
+        shortcut: '?',
+        run: () => setIsHelpOpen(true),
+      }
+    );
+    return list;
+  }, [router, editTaskId, activeTask, t]);
+
+  const items: PaletteItem[] = [
+    ...fuzzyFilter(actions, query, (action) => action.label).map(
+      (action): PaletteItem => ({ kind: 'action', action })
+    ),
+    ...(query.trim()
+      ? fuzzyFilter(tasks ?? [], query, (task) => task.titulo).slice(
+          0,
+          maxTaskResults
+        )
+      : (tasks ?? []).slice(0, recentTaskCount)
+    ).map((task): PaletteItem => ({ kind: 'task', task })),
+  ];
+  const highlightedIndex = Math.min(highlighted, items.length - 1);
+
+  const select = (item: PaletteItem, edit = false) => {
+    close();
+    if (item.kind === 'action') {
+      item.action.run();
+    } else {
+      router.push(`/tasks/${item.task.id}${edit ? '/edit' : ''}`);
+    }
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(
+        (highlightedIndex + step + items.length) % Math.max(items.length, 1)
+      );
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const item = items[highlightedIndex];
+      if (item) select(item, e.shiftKey);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const contextValue = useMemo(() => ({ setActiveTask }), []);
+  const firstTaskIndex = items.findIndex((item) => item.kind === 'task');
+
+  return (
+    <CommandPaletteContext.Provider value={contextValue}>
+      {children}
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40 bg-gray-900/30 flex items-start justify-center px-4 pt-24"
+          onMouseDown={(e) => {
+            if (e.target === e.currentTarget) close();
+          }}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('commandPalette.label')}
+            className="w-full max-w-xl bg-white rounded-xl border border-gray-200 shadow-xl overflow-hidden"
+          >
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setHighlighted(0);
+              }}
+              onKeyDown={handleInputKeyDown}
+              role="combobox"
+              aria-expanded="true"
+              aria-controls="command-palette-results"
+              aria-activedescendant={
+                items.length > 0
+                  ? `command-palette-item-${highlightedIndex}`
+                  : undefined
+              }
+              placeholder={t('commandPalette.placeholder')}
+              className="w-full px-5 py-4 text-gray-900 border-b border-gray-200 focus:outline-none"
+              autoFocus
+            />
+            <ul
+              id="command-palette-results"
+              role="listbox"
+              className="max-h-80 overflow-y-auto py-2"
+            >
+              {items.length === 0 && (
+                <li className="px-5 py-3 text-sm text-gray-500">
+                  {t('commandPalette.empty')}
+                </li>
+              )}
+              {items.map((item, index) => (
+                <li
+                  key={
+                    item.kind === 'action'
+                      ? `action-${item.action.id}`
+                      : `task-${item.task.id}`
+                  }
+                  role="presentation"
+                >
+                  {index === firstTaskIndex && (
+                    <p className="px-5 pt-3 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                      {t('commandPalette.tasks')}
+                    </p>
+                  )}
+                  <div
+                    id={`command-palette-item-${index}`}
+                    role="option"
+                    aria-selected={index === highlightedIndex}
+                    onMouseMove={() => setHighlighted(index)}
+                    onClick={(e) => select(item, e.shiftKey)}
+                    className={`flex items-center justify-between gap-3 px-5 py-2 text-sm cursor-pointer ${
+                      index === highlightedIndex
+                        ? 'bg-blue-50 text-blue-900'
+                        : 'text-gray-700'
+                    }`}
+                  >
+                    {item.kind === 'action' ? (
+                      <>
+                        <span className="truncate">{item.action.label}</span>
+                        {item.action.shortcut && (
+                          <kbd className="px-1.5 py-0.5 text-xs font-mono text-gray-500 bg-gray-100 border border-gray-200 rounded">
+                            {item.action.shortcut}
+                          </kbd>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <span className="truncate">{item.task.titulo}</span>
+                        <span className="flex-shrink-0 text-xs text-gray-500">
+                          {t(`status.${item.task.status}`)}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <p className="px-5 py-2 text-xs text-gray-500 border-t border-gray-200 bg-gray-50">
+              {t('commandPalette.hint')}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isHelpOpen && (
+        <div
+          className="fixed inset-0 z-40 bg-gray-900/30 flex items-start justify-center px-4 pt-24"
+          onMouseDown={(e) => {
+            if (e.target === e.currentTarget) setIsHelpOpen(false);
+          }}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="keyboard-shortcuts-title"
+            className="w-full max-w-md bg-white rounded-xl border border-gray-200 shadow-xl p-6"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h2
+                id="keyboard-shortcuts-title"
+                className="text-lg font-semibold text-gray-900"
+              >
+                {t('shortcuts.title')}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setIsHelpOpen(false)}
+                aria-label={t('common.close')}
+                className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-400 rounded"
+                autoFocus
+              >
+                ✕
+              </button>
+            </div>
+            <dl className="space-y-2">
+              {keyboardShortcuts.map((shortcut) => (
+                <div
+                  key={shortcut.description}
+                  className="flex justify-between items-center gap-4 text-sm"
+                >
+                  <dt className="text-gray-700">{t(shortcut.description)}</dt>
+                  <dd className="flex gap-1">
+                    {shortcut.keys.map((key) => (
+                      <kbd
+                        key={key}
+                        className="px-1.5 py-0.5 text-xs font-mono text-gray-600 bg-gray-100 border border-gray-200 rounded"
+                      >
+                        {key}
+                      </kbd>
+                    ))}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            <p className="mt-4 text-xs text-gray-500">{t('shortcuts.hint')}</p>
+          </div>
+        </div>
+      )}
+    </CommandPaletteContext.Provider>
+  );
+}
+
+/**
+ * Hook to use the command palette context
+ * Must be used within CommandPaletteProvider
+ */
+export function useCommandPalette() {
+  const context = useContext(CommandPaletteContext);
+  if (!context) {
+    throw new Error(
+      'useCommandPalette must be used within CommandPaletteProvider'
+    );
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+type Props = {
+  /** Field name; the message gets the id `${field}-error` */
+  field: string;
+  message: string | undefined;
+};
+
+/**
+ * FieldError: Validation message under a form input (see useFormValidation)
+ *
+ * Renders nothing without a message; `role="alert"` announces it when it
+ * appears after a submit
+ */
+export default function FieldError({ field, message }: Props) {
+  if (!message) return null;
+
+  return (
+    <p
+      id={`${field}-error`}
+      role="alert"
+      className="mt-1.5 text-sm text-red-700"
+    >
+      {message}
+    </p>
+  );
+}
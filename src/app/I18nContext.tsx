@@ -0,0 +1,40 @@
+'use client';
+
+import type { Locale } from '@/i18n/locales';
+import { createI18n, type I18n } from '@/i18n/translator';
+import { createContext, useContext, useMemo } from 'react';
+
+const I18nContext = createContext<I18n | undefined>(undefined);
+
+/**
+ * I18n Provider Component
+ *
+ * Provides the translator and formatters of the request's locale
+ * - `locale` comes from the server (cookie or Accept-Language, see
+ *   getRequestLocale), so server and client render the same language
+ * - Switching languages (LocaleSwitcher) refreshes the page and the new
+ *   locale arrives here as a prop
+ */
+export function I18nProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  const value = useMemo(() => createI18n(locale), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/**
+ * Hook to use the translator (`t`) and the locale-aware formatters
+ * Must be used within I18nProvider
+ */
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within I18nProvider');
+  }
+  return context;
+}
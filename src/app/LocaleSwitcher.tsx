@@ -0,0 +1,50 @@
+'use client';
+
+import {
+  isLocale,
+  localeCookieName,
+  localeNames,
+  locales,
+} from '@/i18n/locales';
+import { useRouter } from 'next/navigation';
+import { useI18n } from './I18nContext';
+
+/** The choice is remembered for a year */
+const localeCookieMaxAge = 365 * 24 * 60 * 60;
+
+/**
+ * LocaleSwitcher: Language picker (page header, login and register)
+ *
+ * Decisions:
+ * - The choice is a cookie read by the server on every request, so server
+ *   components, API errors and the client all switch together
+ * - Written by the browser (not an API call): it works offline too
+ * - `router.refresh()` re-renders the server components in the new
+ *   language without a full reload (client state is kept)
+ */
+export default function LocaleSwitcher() {
+  const { locale, t } = useI18n();
+  const router = useRouter();
+
+  const handleChange = (next: string) => {
+    if (!isLocale(next)) return;
+    document.cookie = `${localeCookieName}=${next}; path=/; max-age=${localeCookieMaxAge}; samesite=lax`;
+    router.refresh();
+  };
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => handleChange(e.target.value)}
+      aria-label={t('locale.label')}
+      title={t('locale.label')}
+      className="px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {locales.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {localeNames[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,327 @@
+import { isSameOriginPath } from '@/utils/url';
+import type { ReactNode } from 'react';
+
+/**
+ * Markdown block of a task description
+ */
+type Block =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'rule' };
+
+const fencePattern = /^\s*(```|~~~)/;
+const headingPattern = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const rulePattern = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const quotePattern = /^\s*>\s?/;
+const listItemPattern = /^\s*(?:[-*+]|(\d{1,9})[.)])\s+(.*)$/;
+
+function startsBlock(line: string) {
+  return (
+    fencePattern.test(line) ||
+    headingPattern.test(line) ||
+    rulePattern.test(line) ||
+    quotePattern.test(line) ||
+    listItemPattern.test(line)
+  );
+}
+
+/**
+ * Splits Markdown source into blocks (the subset used in task notes)
+ *
+ * Supported: paragraphs (single line breaks are kept), headings, fenced
+ * code, block quotes, flat bulleted/numbered lists and horizontal rules
+ */
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(fencePattern);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i++]);
+      }
+      i++; // closing fence (an unclosed block runs to the end)
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(headingPattern);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        text: heading[2],
+      });
+      i++;
+      continue;
+    }
+
+    if (rulePattern.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (quotePattern.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && quotePattern.test(lines[i])) {
+        quoted.push(lines[i++].replace(quotePattern, ''));
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted.join('\n')) });
+      continue;
+    }
+
+    const firstItem = line.match(listItemPattern);
+    if (firstItem) {
+      const ordered = firstItem[1] !== undefined;
+      const items: string[] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(listItemPattern);
+        if (item && (item[1] !== undefined) === ordered) {
+          items.push(item[2]);
+        } else if (item || !/^\s{2,}\S/.test(lines[i])) {
+          break;
+        } else {
+          // Indented continuation of the previous item
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        }
+        i++;
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? Number(firstItem[1]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      (paragraph.length === 0 || !startsBlock(lines[i]))
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
+
+/**
+ * Only these link targets are rendered as links (no `javascript:`, `data:`...)
+ *
+ * Relative links must stay on this site: same check as the login redirect
+ * (`//host` and `/\host` open another host)
+ */
+function toSafeHref(url: string) {
+  if (/^(https?:|mailto:)/i.test(url)) return url;
+  if (url.startsWith('#') || isSameOriginPath(url)) return url;
+  return null;
+}
+
+/**
+ * Inline syntax, first match wins (order matters: escapes and code first,
+ * so their content is not parsed further)
+ */
+const inlinePattern = new RegExp(
+  [
+    /\\([\\`*_{}[\]()#+\-.!~>|])/.source, // 1: escaped character
+    /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source, // 2-3: code
+    /\[([^\]]+)\]\(([^)\s]+)\)/.source, // 4-5: link
+    /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])/.source, // 6: bare URL
+    /\*\*(\S(?:[\s\S]*?\S)?)\*\*/.source, // 7: bold
+    /__(\S(?:[\s\S]*?\S)?)__/.source, // 8: bold
+    /~~(\S(?:[\s\S]*?\S)?)~~/.source, // 9: strikethrough
+    /\*([^\s*](?:[\s\S]*?[^\s*])?)\*/.source, // 10: italic
+    /(?<![\w])_([^\s_](?:[\s\S]*?[^\s_])?)_(?![\w])/.source, // 11: italic
+  ].join('|'),
+  'g'
+);
+
+const linkClassName =
+  'text-blue-600 underline underline-offset-2 hover:text-blue-700';
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(inlinePattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+    const key = nodes.length;
+
+    if (match[1] !== undefined) {
+      nodes.push(match[1]);
+    } else if (match[3] !== undefined) {
+      nodes.push(
+        <code
+          key={key}
+          className="px-1 py-0.5 text-[0.85em] font-mono bg-gray-100 text-gray-800 rounded"
+        >
+          {match[3]}
+        </code>
+      );
+    } else if (match[4] !== undefined) {
+      const href = toSafeHref(match[5]);
+      nodes.push(
+        href ? (
+          <a
+            key={key}
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className={linkClassName}
+          >
+            {renderInline(match[4])}
+          </a>
+        ) : (
+          match[0]
+        )
+      );
+    } else if (match[6] !== undefined) {
+      nodes.push(
+        <a
+          key={key}
+          href={match[6]}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className={`${linkClassName} break-all`}
+        >
+          {match[6]}
+        </a>
+      );
+    } else if (match[7] !== undefined || match[8] !== undefined) {
+      nodes.push(
+        <strong key={key} className="font-semibold">
+          {renderInline(match[7] ?? match[8])}
+        </strong>
+      );
+    } else if (match[9] !== undefined) {
+      nodes.push(<del key={key}>{renderInline(match[9])}</del>);
+    } else {
+      nodes.push(<em key={key}>{renderInline(match[10] ?? match[11])}</em>);
+    }
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+}
+
+/**
+ * Lines of a paragraph/list item with their line breaks kept
+ */
+function renderLines(lines: string[]) {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`br-${index}`} />] : []),
+    <span key={index}>{renderInline(line)}</span>,
+  ]);
+}
+
+const headingStyles = [
+  'text-base font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+];
+
+function renderBlocks(blocks: Block[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderLines(block.lines)}</p>;
+      case 'heading':
+        return (
+          <p
+            key={index}
+            role="heading"
+            aria-level={block.level}
+            className={`text-gray-900 ${
+              headingStyles[block.level - 1] ?? 'text-sm font-medium'
+            }`}
+          >
+            {renderInline(block.text)}
+          </p>
+        );
+      case 'code':
+        return (
+          <pre
+            key={index}
+            className="px-3 py-2 text-xs font-mono bg-gray-50 border border-gray-200 text-gray-800 rounded-lg overflow-x-auto"
+          >
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote
+            key={index}
+            className="pl-3 border-l-4 border-gray-200 text-gray-500 space-y-2"
+          >
+            {renderBlocks(block.blocks)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderLines(item.split('\n'))}</li>
+        ));
+        return block.ordered ? (
+          <ol
+            key={index}
+            start={block.start}
+            className="pl-5 list-decimal space-y-0.5"
+          >
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="pl-5 list-disc space-y-0.5">
+            {items}
+          </ul>
+        );
+      }
+      case 'rule':
+        return <hr key={index} className="border-gray-200" />;
+    }
+  });
+}
+
+type Props = {
+  source: string;
+  className?: string;
+};
+
+/**
+ * Markdown: Renders a task description written in Markdown
+ *
+ * Decisions:
+ * - Own small parser for the subset task notes need, instead of a library
+ * - Safe by construction: the output is React elements only, never
+ *   `dangerouslySetInnerHTML`, so HTML in the source is shown as text
+ * - Links open in a new tab and only allow http(s), mailto and same-site
+ *   URLs (`javascript:` and other schemes stay plain text)
+ */
+export default function Markdown({ source, className = '' }: Props) {
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {renderBlocks(parseBlocks(source))}
+    </div>
+  );
+}
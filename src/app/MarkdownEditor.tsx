@@ -0,0 +1,107 @@
+'use client';
+
+import { maxDescricaoLength } from '@/server/schemas/task.schema';
+import { useId, useState } from 'react';
+import { useI18n } from './I18nContext';
+import Markdown from './Markdown';
+
+type Props = {
+  /** Id of the textarea (target of the field's `<label htmlFor>`) */
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+};
+
+type Tab = 'write' | 'preview';
+
+const tabs: Tab[] = ['write', 'preview'];
+
+/**
+ * MarkdownEditor: Description field of NewTaskForm and EditTaskForm
+ *
+ * Implementation decisions:
+ * - "write" / "preview" tabs: a plain textarea plus a preview with
+ *   the same renderer as the list (what you see is what TaskItem shows)
+ * - Character counter and `maxLength` mirror the server limit
+ *   (`maxDescricaoLength`)
+ */
+export default function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  disabled,
+  placeholder,
+}: Props) {
+  const [tab, setTab] = useState<Tab>('write');
+  const tabsId = useId();
+  const { t } = useI18n();
+
+  return (
+    <div className="border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-colors">
+      <div
+        role="tablist"
+        aria-label={t('markdownEditor.mode')}
+        className="flex gap-1 px-2 pt-2 border-b border-gray-200"
+      >
+        {tabs.map((item) => (
+          <button
+            key={item}
+            type="button"
+            role="tab"
+            id={`${tabsId}-${item}`}
+            aria-selected={tab === item}
+            aria-controls={`${tabsId}-panel`}
+            onClick={() => setTab(item)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-t-md -mb-px border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              tab === item
+                ? 'bg-white border-gray-200 border-b-white text-gray-900'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {t(`markdownEditor.${item}`)}
+          </button>
+        ))}
+      </div>
+
+      <div
+        id={`${tabsId}-panel`}
+        role="tabpanel"
+        aria-labelledby={`${tabsId}-${tab}`}
+      >
+        {tab === 'write' ? (
+          <textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            rows={6}
+            maxLength={maxDescricaoLength}
+            className="w-full px-4 py-2.5 text-gray-900 bg-white rounded-b-lg focus:outline-none disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed resize-y"
+            placeholder={placeholder}
+          />
+        ) : (
+          <div className="min-h-[9.5rem] px-4 py-2.5 text-sm text-gray-700 leading-relaxed">
+            {value.trim() ? (
+              <Markdown source={value} />
+            ) : (
+              <p className="text-gray-400">{t('markdownEditor.empty')}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between gap-4 px-4 py-1.5 text-xs text-gray-500 border-t border-gray-100">
+        <span>{t('markdownEditor.hint')}</span>
+        <span
+          className={
+            value.length >= maxDescricaoLength ? 'text-red-600' : undefined
+          }
+        >
+          {value.length}/{maxDescricaoLength}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import type { Translator } from '@/i18n/translator';
+import type { UpdateTaskInput } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import {
+  matchMutation,
+  onlineManager,
+  useQueryClient,
+  type Mutation,
+} from '@tanstack/react-query';
+import { getMutationKey } from '@trpc/react-query';
+import { useRouter } from 'next/navigation';
+import { useEffect, useRef } from 'react';
+import { useI18n } from './I18nContext';
+import { reportOfflineConflict } from './offlineConflicts';
+import { taskMutationScope } from './offlineMutations';
+import { updatesTaskForm } from './tasks/[id]/edit/taskFormConflict';
+import { useToast } from './ToastContext';
+
+function getErrorCode(error: unknown) {
+  return error && typeof error === 'object' && 'data' in error
+    ? (error as { data?: { code?: string } }).data?.code
+    : undefined;
+}
+
+/**
+ * Message for a queued change the server rejected when it was replayed
+ */
+function toReplayErrorMessage(t: Translator, error: unknown) {
+  const code = getErrorCode(error);
+
+  if (code === 'CONFLICT') return t('offlineSync.discarded');
+  if (code === 'NOT_FOUND') return t('offlineSync.notFound');
+  return t('offlineSync.rejected', {
+    error: error instanceof Error ? error.message : t('errors.unexpected'),
+  });
+}
+
+/**
+ * OfflineSync: Reports the replay of task changes queued while offline
+ * (rendered once, by Providers; renders nothing)
+ *
+ * Implementation decisions:
+ * - A task write is "queued" when it was paused while offline (or restored
+ *   paused from IndexedDB); writes that only waited for their turn online
+ *   are not
+ * - Consecutive queued updates of a task are sent with the version the
+ *   previous one got (`createTaskVersionLink`), so only changes made
+ *   elsewhere conflict
+ * - Conflict handling: an update of the task's fields rejected with
+ *   CONFLICT is kept for TaskConflictResolver (the toast opens the edit
+ *   page, see offlineConflicts); other rejections (NOT_FOUND, validation,
+ *   a board move that conflicts) are dropped, never retried; the user is
+ *   told, and the task queries are refetched so the optimistic state
+ *   gives way to the server's
+ * - The error toast is left to the component that made the change when it
+ *   has its own `onError`; changes restored after a reload have none
+ * - Once the queue is empty, the task queries are refetched (tasks created
+ *   offline get their server version) and a summary toast is shown
+ * - The translator is read through a ref: switching languages must not
+ *   resubscribe (and forget the queued changes)
+ */
+export default function OfflineSync() {
+  const queryClient = useQueryClient();
+  const utils = trpc.useUtils();
+  const router = useRouter();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  useEffect(() => {
+    const queued = new Set<Mutation<unknown, unknown, unknown, unknown>>();
+    let syncedCount = 0;
+
+    const reportReplayError = (
+      mutation: Mutation<unknown, unknown, unknown, unknown>,
+      error: unknown
+    ) => {
+      const input = mutation.state.variables as UpdateTaskInput;
+      const isTaskUpdate = matchMutation(
+        { mutationKey: getMutationKey(trpc.task.update), exact: true },
+        mutation
+      );
+
+      if (
+        getErrorCode(error) === 'CONFLICT' &&
+        isTaskUpdate &&
+        updatesTaskForm(input)
+      ) {
+        reportOfflineConflict(input, { t: tRef.current, showToast, router });
+        return;
+      }
+      showToast(toReplayErrorMessage(tRef.current, error), 'error');
+    };
+
+    return queryClient.getMutationCache().subscribe((event) => {
+      const { mutation } = event;
+      if (mutation?.options.scope?.id !== taskMutationScope) return;
+
+      if (event.type === 'removed') {
+        queued.delete(mutation);
+        return;
+      }
+      // Restored from IndexedDB (added paused) or paused while offline
+      if (
+        mutation.state.isPaused &&
+        (event.type === 'added' || !onlineManager.isOnline())
+      ) {
+        queued.add(mutation);
+        return;
+      }
+      if (event.type !== 'updated' || !queued.has(mutation)) return;
+
+      const { action } = event;
+      if (action.type === 'success') {
+        syncedCount++;
+      } else if (action.type === 'error') {
+        if (!mutation.options.onError) {
+          reportReplayError(mutation, action.error);
+        }
+      } else {
+        return;
+      }
+
+      queued.delete(mutation);
+      if (queued.size > 0) return;
+
+      utils.task.invalidate();
+      if (syncedCount > 0) {
+        showToast(
+          tRef.current('offlineSync.synced', { count: syncedCount }),
+          'success'
+        );
+      }
+      syncedCount = 0;
+    });
+  }, [queryClient, utils, showToast, router]);
+
+  return null;
+}
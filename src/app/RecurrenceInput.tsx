@@ -0,0 +1,246 @@
+'use client';
+
+import {
+  nextOccurrenceDate,
+  recurrenceFrequencySchema,
+  type RecurrenceFrequency,
+  type TaskRecurrence,
+} from '@/server/schemas/task.schema';
+import { useI18n } from './I18nContext';
+import { getWeekdayLabels, toDefaultRecurrence } from './taskRecurrence';
+
+type Props = {
+  /** Id of the frequency select (target of the field's `<label htmlFor>`) */
+  id: string;
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  /** Due date of the (first) occurrence, AAAA-MM-DD */
+  startDate: string;
+  disabled?: boolean;
+};
+
+type EndMode = 'never' | 'date' | 'count';
+
+const inputClassName =
+  'px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * RecurrenceInput: "repeat" field of NewTaskForm and EditTaskForm
+ *
+ * Implementation decisions:
+ * - One select turns repetition on/off and picks the frequency; the rest
+ *   of the rule (interval, weekdays, end) only shows once it repeats
+ * - "Every N days" is the daily rule with an interval of N
+ * - The end is either a date or a number of occurrences (the server
+ *   rejects both); switching modes clears the other one
+ * - Shows the date the next occurrence would get, computed with the same
+ *   function the server uses
+ */
+export default function RecurrenceInput({
+  id,
+  value,
+  onChange,
+  startDate,
+  disabled,
+}: Props) {
+  const { locale, t, formatDate } = useI18n();
+  const weekdayLabels = getWeekdayLabels(locale);
+
+  const endMode: EndMode = value?.endsOn
+    ? 'date'
+    : value?.count
+    ? 'count'
+    : 'never';
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    const defaults = toDefaultRecurrence(
+      frequency as RecurrenceFrequency,
+      startDate
+    );
+    onChange(
+      value
+        ? {
+            ...value,
+            frequency: defaults.frequency,
+            weekdays: defaults.weekdays,
+          }
+        : defaults
+    );
+  };
+
+  const toggleWeekday = (rule: TaskRecurrence, weekday: number) => {
+    const weekdays = rule.weekdays.includes(weekday)
+      ? rule.weekdays.filter((day) => day !== weekday)
+      : [...rule.weekdays, weekday].sort();
+    onChange({ ...rule, weekdays });
+  };
+
+  const handleEndModeChange = (rule: TaskRecurrence, mode: EndMode) => {
+    onChange({
+      ...rule,
+      endsOn: mode === 'date' ? startDate : null,
+      count: mode === 'count' ? 10 : null,
+    });
+  };
+
+  const nextDate =
+    value && (value.frequency !== 'weekly' || value.weekdays.length > 0)
+      ? nextOccurrenceDate(value, startDate, startDate)
+      : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          id={id}
+          value={value?.frequency ?? ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="">{t('recurrenceInput.never')}</option>
+          {recurrenceFrequencySchema.options.map((option) => (
+            <option key={option} value={option}>
+              {t(`recurrence.frequency.${option}`)}
+            </option>
+          ))}
+        </select>
+
+        {value && (
+          <>
+            <span className="text-sm text-gray-600">
+              {t('recurrenceInput.every')}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  interval: Math.min(
+                    365,
+                    Math.max(1, Math.floor(Number(e.target.value)) || 1)
+                  ),
+                })
+              }
+              disabled={disabled}
+              aria-label={t('recurrenceInput.interval')}
+              className={`${inputClassName} w-20`}
+            />
+            <span className="text-sm text-gray-600">
+              {t(`recurrence.unit.${value.frequency}`, {
+                count: value.interval,
+              })}
+            </span>
+          </>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div
+          role="group"
+          aria-label={t('recurrenceInput.weekdays')}
+          className="flex gap-1"
+        >
+          {weekdayLabels.map((label, weekday) => {
+            const isSelected = value.weekdays.includes(weekday);
+            return (
+              <button
+                key={label}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => toggleWeekday(value, weekday)}
+                disabled={disabled}
+                className={`w-11 py-1.5 text-xs font-medium rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors ${
+                  isSelected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600">
+            {t('recurrenceInput.ends')}
+          </span>
+          <select
+            value={endMode}
+            onChange={(e) =>
+              handleEndModeChange(value, e.target.value as EndMode)
+            }
+            disabled={disabled}
+            aria-label={t('recurrenceInput.end')}
+            className={inputClassName}
+          >
+            <option value="never">{t('recurrenceInput.endMode.never')}</option>
+            <option value="date">{t('recurrenceInput.endMode.date')}</option>
+            <option value="count">{t('recurrenceInput.endMode.count')}</option>
+          </select>
+
+          {endMode === 'date' && (
+            <input
+              type="date"
+              value={value.endsOn ?? ''}
+              min={startDate}
+              onChange={(e) =>
+                onChange({ ...value, endsOn: e.target.value || null })
+              }
+              disabled={disabled}
+              aria-label={t('recurrenceInput.endsOn')}
+              className={inputClassName}
+            />
+          )}
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={value.count ?? 1}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    count: Math.min(
+                      1000,
+                      Math.max(1, Math.floor(Number(e.target.value)) || 1)
+                    ),
+                  })
+                }
+                disabled={disabled}
+                aria-label={t('recurrenceInput.count')}
+                className={`${inputClassName} w-24`}
+              />
+              <span className="text-sm text-gray-600">
+                {t('recurrenceInput.times', { count: value.count ?? 1 })}
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value?.frequency === 'weekly' && value.weekdays.length === 0 && (
+        <p className="text-xs text-red-600">
+          {t('validation.weekdaysRequired')}
+        </p>
+      )}
+      {nextDate && (
+        <p className="text-xs text-gray-500">
+          {t('recurrenceInput.next', { date: formatDate(nextDate) })}
+        </p>
+      )}
+    </div>
+  );
+}
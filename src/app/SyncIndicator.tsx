@@ -0,0 +1,49 @@
+'use client';
+
+import { onlineManager, useIsMutating } from '@tanstack/react-query';
+import { useSyncExternalStore } from 'react';
+import { useI18n } from './I18nContext';
+import { taskMutationScope } from './offlineMutations';
+
+const subscribe = (onChange: () => void) => onlineManager.subscribe(onChange);
+
+/**
+ * SyncIndicator: Connection and sync state (page header)
+ *
+ * - "Online": everything sent
+ * - "Syncing": task changes on their way to the server
+ * - "Offline": changes are kept on this device (with how many are waiting)
+ *   and sent when the connection is back
+ */
+export default function SyncIndicator() {
+  const { t } = useI18n();
+  const isOnline = useSyncExternalStore(
+    subscribe,
+    () => onlineManager.isOnline(),
+    () => true
+  );
+  const pendingCount = useIsMutating({
+    predicate: (mutation) => mutation.options.scope?.id === taskMutationScope,
+  });
+
+  const [label, dotClassName] = !isOnline
+    ? [
+        pendingCount > 0
+          ? t('syncIndicator.offlinePending', { count: pendingCount })
+          : t('syncIndicator.offline'),
+        'bg-gray-400',
+      ]
+    : pendingCount > 0
+    ? [t('syncIndicator.syncing'), 'bg-amber-500 animate-pulse']
+    : [t('syncIndicator.online'), 'bg-green-500'];
+
+  return (
+    <span
+      role="status"
+      className="inline-flex items-center gap-1.5 text-xs text-gray-600"
+    >
+      <span className={`w-2 h-2 rounded-full ${dotClassName}`} />
+      {label}
+    </span>
+  );
+}
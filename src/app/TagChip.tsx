@@ -0,0 +1,60 @@
+import type { TagColor } from '@/server/schemas/tag.schema';
+import { tagChipStyles } from './tagColors';
+
+type Props = {
+  nome: string;
+  cor: TagColor;
+  /** Makes the chip a button (e.g. filter by this tag) */
+  onClick?: () => void;
+  /** Shows a "×" button (e.g. remove from selection) */
+  onRemove?: () => void;
+  /** Accessible name of the "×" button (translated by the caller) */
+  removeLabel?: string;
+  title?: string;
+};
+
+/**
+ * TagChip: Small colored label used by TaskItem, TaskFilters and TagInput
+ *
+ * Decision: no hooks (texts come as props), so Server Components
+ * (task detail page) can render it too
+ */
+export default function TagChip({
+  nome,
+  cor,
+  onClick,
+  onRemove,
+  removeLabel,
+  title,
+}: Props) {
+  const className = `inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full ${tagChipStyles[cor]}`;
+
+  const label = onClick ? (
+    <button
+      type="button"
+      onClick={onClick}
+      title={title}
+      className="hover:underline focus:outline-none focus:underline"
+    >
+      #{nome}
+    </button>
+  ) : (
+    <span title={title}>#{nome}</span>
+  );
+
+  return (
+    <span className={className}>
+      {label}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={removeLabel}
+          className="opacity-60 hover:opacity-100 focus:outline-none"
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
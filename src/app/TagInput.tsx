@@ -0,0 +1,210 @@
+'use client';
+
+import type { AppRouter } from '@/server/root';
+import { normalizeText } from '@/server/store/normalize';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useId, useState } from 'react';
+import { useI18n } from './I18nContext';
+import TagChip from './TagChip';
+import { useToast } from './ToastContext';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+export type TagWithCount = RouterOutput['tag']['list'][number];
+
+type Props = {
+  id?: string;
+  /** Selected tag ids */
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  /** SSR tag list (seeds the `tag.list` cache) */
+  initialTags: TagWithCount[];
+  disabled?: boolean;
+};
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * TagInput: Selected tags as chips + text field with autocomplete
+ *
+ * Behavior:
+ * - Suggestions match the typed text anywhere in the name, accent/case-insensitive
+ * - ↑/↓ move through suggestions, Enter picks the highlighted one
+ * - Enter on a name that doesn't exist creates the tag (`tag.create`) and selects it
+ * - Backspace on an empty field removes the last chip
+ */
+export default function TagInput({
+  id,
+  value,
+  onChange,
+  initialTags,
+  disabled,
+}: Props) {
+  const [text, setText] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const listboxId = useId();
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const { data: tags } = trpc.tag.list.useQuery(undefined, {
+    initialData: initialTags,
+    staleTime: Infinity,
+  });
+
+  const createTag = trpc.tag.create.useMutation({
+    onSuccess: (tag) => {
+      utils.tag.list.setData(undefined, (current) =>
+        current ? [...current, { ...tag, taskCount: 0 }] : current
+      );
+      utils.tag.list.invalidate();
+      onChange([...value, tag.id]);
+      setText('');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('tagInput.createError'), 'error');
+    },
+  });
+
+  const query = normalizeText(text.trim());
+  const suggestions = tags
+    .filter(
+      (tag) =>
+        !value.includes(tag.id) &&
+        (!query || normalizeText(tag.nome).includes(query))
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const exactMatch = tags.find((tag) => normalizeText(tag.nome) === query);
+
+  const select = (tagId: string) => {
+    onChange([...value, tagId]);
+    setText('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(
+        (current) =>
+          (current + step + suggestions.length) %
+          Math.max(suggestions.length, 1)
+      );
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      // Never submit the surrounding form from the tag field
+      e.preventDefault();
+      if (!query) return;
+
+      if (exactMatch) {
+        if (!value.includes(exactMatch.id)) select(exactMatch.id);
+        else setText('');
+      } else if (isOpen && suggestions[highlighted]) {
+        select(suggestions[highlighted].id);
+      } else {
+        createTag.mutate({ nome: text.trim() });
+      }
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      return;
+    }
+
+    if (e.key === 'Backspace' && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const selectedTags = value
+    .map((tagId) => tags.find((tag) => tag.id === tagId))
+    .filter((tag): tag is TagWithCount => tag !== undefined);
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-colors">
+        {selectedTags.map((tag) => (
+          <TagChip
+            key={tag.id}
+            nome={tag.nome}
+            cor={tag.cor}
+            onRemove={
+              disabled
+                ? undefined
+                : () => onChange(value.filter((tagId) => tagId !== tag.id))
+            }
+            removeLabel={t('tagInput.remove', { nome: tag.nome })}
+          />
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setIsOpen(false), 100)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled || createTag.isPending}
+          maxLength={30}
+          role="combobox"
+          aria-controls={listboxId}
+          aria-expanded={isOpen && suggestions.length > 0}
+          aria-autocomplete="list"
+          placeholder={value.length ? '' : t('tagInput.placeholder')}
+          className="flex-1 min-w-[8rem] py-0.5 text-sm text-gray-900 bg-transparent focus:outline-none disabled:cursor-not-allowed"
+        />
+      </div>
+
+      {isOpen && (suggestions.length > 0 || (query && !exactMatch)) && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 text-sm"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(tag.id);
+              }}
+              className={`px-3 py-1.5 cursor-pointer flex items-center justify-between ${
+                index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <TagChip nome={tag.nome} cor={tag.cor} />
+              <span className="text-xs text-gray-400">{tag.taskCount}</span>
+            </li>
+          ))}
+          {query && !exactMatch && (
+            <li
+              role="option"
+              aria-selected={false}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                createTag.mutate({ nome: text.trim() });
+              }}
+              className="px-3 py-1.5 cursor-pointer text-gray-600 hover:bg-gray-50"
+            >
+              {t('tagInput.create', { nome: text.trim() })}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import type { Translator } from '@/i18n/translator';
+import type { AppRouter } from '@/server/root';
+import { taskPrioritySchema } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import { inferRouterOutputs } from '@trpc/server';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { useI18n } from './I18nContext';
+import { useToast } from './ToastContext';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Task = RouterOutput['task']['list'][number];
+type BulkResult = RouterOutput['task']['bulkDelete'];
+
+type Props = {
+  /** Selected tasks (only loaded ones: selection never outlives the list) */
+  tasks: Task[];
+  /** Clears the selection (after a successful action or "clear") */
+  onClear: () => void;
+};
+
+/**
+ * Summary of a failed batch for the single error toast, e.g.
+ * `2 de 5 tarefas falharam ("Comprar pão": Task not found; ...)`
+ */
+function describeFailures(
+  t: Translator,
+  tasks: Task[],
+  failures: BulkResult['failures']
+) {
+  const details = failures
+    .map((failure) => {
+      const titulo = tasks.find((task) => task.id === failure.id)?.titulo;
+      return `${titulo ? `"${titulo}"` : failure.id}: ${failure.message}`;
+    })
+    .join('; ');
+
+  return t('bulkActions.failures', {
+    failed: failures.length,
+    count: tasks.length,
+    details,
+  });
+}
+
+/**
+ * TaskBulkActions: Floating bar for the tasks selected in TaskList
+ *
+ * Implementation decisions:
+ * - Every action is one `task.bulkUpdate` / `task.bulkDelete` call, which is
+ *   all or nothing on the server
+ * - A failed batch shows ONE toast listing every failed task and why
+ *   (nothing was changed, so the selection is kept for another try)
+ * - Delete asks for confirmation in the bar itself and is undoable from the
+ *   toast, like the single delete in TaskItem
+ * - Projects for "move to" are fetched on demand (only active ones can
+ *   receive tasks)
+ */
+export default function TaskBulkActions({ tasks, onClear }: Props) {
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const { data: projects = [] } = trpc.project.list.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  const ids = tasks.map((task) => task.id);
+
+  /**
+   * Refreshes the lists after a successful batch, or reports its failures
+   * (returns whether it succeeded)
+   */
+  const handleResult = ({ failures }: BulkResult) => {
+    if (failures.length > 0) {
+      showToast(describeFailures(t, tasks, failures), 'error');
+      return false;
+    }
+
+    utils.task.infiniteList.invalidate();
+    utils.project.list.invalidate();
+    utils.tag.list.invalidate();
+    router.refresh();
+    onClear();
+    return true;
+  };
+
+  const undoDelete = async (deletedIds: string[]) => {
+    try {
+      await Promise.all(
+        deletedIds.map((id) => utils.client.task.restore.mutate({ id }))
+      );
+      showToast(
+        t('bulkActions.restored', { count: deletedIds.length }),
+        'success'
+      );
+    } catch {
+      showToast(t('bulkActions.restoreError'), 'error');
+    } finally {
+      utils.task.infiniteList.invalidate();
+      router.refresh();
+    }
+  };
+
+  const bulkDelete = trpc.task.bulkDelete.useMutation({
+    onSuccess: (result) => {
+      setIsConfirmingDelete(false);
+      if (!handleResult(result)) return;
+
+      const deletedIds = result.tasks.map((task) => task.id);
+      showToast(
+        t('bulkActions.deleted', { count: deletedIds.length }),
+        'success',
+        { label: t('common.undo'), onClick: () => undoDelete(deletedIds) }
+      );
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('bulkActions.deleteError'), 'error');
+    },
+  });
+
+  const bulkUpdate = trpc.task.bulkUpdate.useMutation({
+    onSuccess: (result) => {
+      if (!handleResult(result)) return;
+
+      showToast(
+        t('bulkActions.updated', { count: result.tasks.length }),
+        'success'
+      );
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('bulkActions.updateError'), 'error');
+    },
+  });
+
+  const isPending = bulkDelete.isPending || bulkUpdate.isPending;
+
+  return (
+    <div
+      role="region"
+      aria-label={t('bulkActions.label')}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl bg-gray-900 text-white rounded-xl shadow-lg px-4 py-3"
+    >
+      {isConfirmingDelete ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium">
+            {t('bulkActions.confirmDelete', { count: tasks.length })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => bulkDelete.mutate({ ids })}
+              disabled={isPending}
+              className="px-4 py-1.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {bulkDelete.isPending
+                ? t('common.deleting')
+                : t('common.confirm')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsConfirmingDelete(false)}
+              disabled={isPending}
+              className="px-4 py-1.5 text-sm font-medium text-gray-200 rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm font-medium mr-auto" aria-live="polite">
+            {t('bulkActions.selected', { count: tasks.length })}
+          </p>
+          <select
+            value=""
+            onChange={(e) =>
+              bulkUpdate.mutate({
+                ids,
+                patch: { priority: taskPrioritySchema.parse(e.target.value) },
+              })
+            }
+            disabled={isPending}
+            aria-label={t('bulkActions.priority')}
+            className="px-2 py-1.5 text-sm text-gray-900 bg-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="" disabled>
+              {t('bulkActions.priorityPlaceholder')}
+            </option>
+            {taskPrioritySchema.options.map((priority) => (
+              <option key={priority} value={priority}>
+                {t(`priority.${priority}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            onChange={(e) =>
+              bulkUpdate.mutate({
+                ids,
+                patch: {
+                  projectId: e.target.value === 'none' ? null : e.target.value,
+                },
+              })
+            }
+            disabled={isPending}
+            aria-label={t('bulkActions.moveTo')}
+            className="px-2 py-1.5 text-sm text-gray-900 bg-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="" disabled>
+              {t('bulkActions.moveToPlaceholder')}
+            </option>
+            <option value="none">{t('bulkActions.noProject')}</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.nome}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setIsConfirmingDelete(true)}
+            disabled={isPending}
+            className="px-3 py-1.5 text-sm font-medium bg-red-600 text-white rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {t('common.delete')}
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={isPending}
+            className="px-3 py-1.5 text-sm font-medium text-gray-200 rounded-lg hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {t('bulkActions.clear')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
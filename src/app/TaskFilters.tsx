@@ -0,0 +1,304 @@
+'use client';
+
+import {
+  taskStatusSchema,
+  type TaskListFilters,
+  type TaskStatus,
+} from '@/server/schemas/task.schema';
+import { usePathname, useRouter } from 'next/navigation';
+import { trpc } from '@/utils/trpc';
+import { useEffect, useRef, useState } from 'react';
+import { useI18n } from './I18nContext';
+import TagChip from './TagChip';
+import { toTaskListSearch } from './taskListParams';
+
+type Props = {
+  filters: TaskListFilters;
+};
+
+/**
+ * Sort options shown in the select (field + direction combined),
+ * labelled by `taskFilters.sort.*` messages
+ */
+const sortOptions = [
+  'dataCriacao:desc',
+  'dataCriacao:asc',
+  'titulo:asc',
+  'titulo:desc',
+  'dueDate:asc',
+  'dueDate:desc',
+  'priority:desc',
+  'priority:asc',
+] as const;
+
+const inputClassName =
+  'px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors';
+
+/**
+ * TaskFilters: Search bar and filter controls for the task list
+ *
+ * Implementation decisions:
+ * - URL is the single source of truth: every change becomes a `router.replace`,
+ *   and the server page re-renders the filtered first page (SSR)
+ * - Search text is debounced (300ms) to avoid a navigation per keystroke;
+ *   it follows the URL when the query changes from elsewhere (back/forward,
+ *   links), but not when the change is the debounced search itself, so
+ *   text typed meanwhile isn't overwritten
+ * - `replace` instead of `push`: filter tweaks don't flood browser history
+ * - Tag filter: chips for selected tags + and/or toggle (all vs any of them)
+ */
+export default function TaskFilters({ filters }: Props) {
+  const [query, setQuery] = useState(filters.query ?? '');
+  // Query this component last wrote to the URL
+  const appliedQuery = useRef(filters.query ?? '');
+
+  const router = useRouter();
+  const pathname = usePathname();
+  const { t } = useI18n();
+
+  const { data: tags = [] } = trpc.tag.list.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  const applyFilters = (next: TaskListFilters) => {
+    const search = toTaskListSearch(next);
+    router.replace(search ? `${pathname}?${search}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const applySearch = (search: string) => {
+    appliedQuery.current = search;
+    applyFilters({ ...filters, query: search || undefined });
+  };
+  // Latest filters for the debounced search, read from a ref so a
+  // re-render doesn't restart its timer
+  const applySearchRef = useRef(applySearch);
+  applySearchRef.current = applySearch;
+
+  // Debounce search input before syncing it to the URL
+  const urlQuery = filters.query ?? '';
+  useEffect(() => {
+    if (query.trim() === urlQuery) return;
+
+    const timeout = setTimeout(() => {
+      applySearchRef.current(query.trim());
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query, urlQuery]);
+
+  // Query changed in the URL by something else (back/forward, a link)
+  useEffect(() => {
+    if (urlQuery === appliedQuery.current) return;
+    appliedQuery.current = urlQuery;
+    setQuery(urlQuery);
+  }, [urlQuery]);
+
+  const toggleStatus = (status: TaskStatus) => {
+    const current = filters.status ?? [];
+    const next = current.includes(status)
+      ? current.filter((s) => s !== status)
+      : [...current, status];
+
+    applyFilters({ ...filters, status: next.length ? next : undefined });
+  };
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortDirection] = value.split(':') as [
+      TaskListFilters['sortBy'],
+      TaskListFilters['sortDirection']
+    ];
+    const isDefault = sortBy === 'dataCriacao' && sortDirection === 'desc';
+
+    applyFilters({
+      ...filters,
+      sortBy: isDefault ? undefined : sortBy,
+      sortDirection: isDefault ? undefined : sortDirection,
+    });
+  };
+
+  const setTagFilter = (tagIds: string[]) => {
+    applyFilters({
+      ...filters,
+      tags: tagIds.length ? tagIds : undefined,
+      // Mode only matters with 2+ tags
+      tagMode: tagIds.length > 1 ? filters.tagMode : undefined,
+    });
+  };
+
+  const selectedTagIds = filters.tags ?? [];
+  const selectedTags = tags.filter((tag) => selectedTagIds.includes(tag.id));
+  const availableTags = tags.filter((tag) => !selectedTagIds.includes(tag.id));
+
+  const handleClear = () => {
+    setQuery('');
+    appliedQuery.current = '';
+    applyFilters({});
+  };
+
+  const hasFilters = Object.keys(filters).length > 0;
+  const sortValue = `${filters.sortBy ?? 'dataCriacao'}:${
+    filters.sortDirection ?? 'desc'
+  }`;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 mb-6 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('taskFilters.searchPlaceholder')}
+          aria-label={t('taskFilters.search')}
+          className={`${inputClassName} flex-1`}
+        />
+        <select
+          value={sortValue}
+          onChange={(e) => handleSortChange(e.target.value)}
+          aria-label={t('taskFilters.sortBy')}
+          className={inputClassName}
+        >
+          {sortOptions.map((option) => (
+            <option key={option} value={option}>
+              {t(`taskFilters.sort.${option}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {taskStatusSchema.options.map((status) => {
+          const isActive = filters.status?.includes(status) ?? false;
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() => toggleStatus(status)}
+              aria-pressed={isActive}
+              className={`px-3 py-1 text-xs font-medium rounded-full border transition-all duration-200 ${
+                isActive
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {t(`status.${status}`)}
+            </button>
+          );
+        })}
+
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <label htmlFor="createdFrom" className="text-xs text-gray-600">
+            {t('taskFilters.createdFrom')}
+          </label>
+          <input
+            id="createdFrom"
+            type="date"
+            value={filters.createdFrom ?? ''}
+            max={filters.createdTo}
+            onChange={(e) =>
+              applyFilters({
+                ...filters,
+                createdFrom: e.target.value || undefined,
+              })
+            }
+            className={inputClassName}
+          />
+          <label htmlFor="createdTo" className="text-xs text-gray-600">
+            {t('taskFilters.createdTo')}
+          </label>
+          <input
+            id="createdTo"
+            type="date"
+            value={filters.createdTo ?? ''}
+            min={filters.createdFrom}
+            onChange={(e) =>
+              applyFilters({
+                ...filters,
+                createdTo: e.target.value || undefined,
+              })
+            }
+            className={inputClassName}
+          />
+        </div>
+
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="px-3 py-1 text-xs font-medium text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            {t('taskFilters.clear')}
+          </button>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-600">{t('taskFilters.tags')}</span>
+          {selectedTags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              nome={tag.nome}
+              cor={tag.cor}
+              onRemove={() =>
+                setTagFilter(selectedTagIds.filter((id) => id !== tag.id))
+              }
+              removeLabel={t('tagInput.remove', { nome: tag.nome })}
+            />
+          ))}
+          {availableTags.length > 0 && (
+            <select
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                setTagFilter([...selectedTagIds, e.target.value])
+              }
+              aria-label={t('taskFilters.tagFilter')}
+              className="px-2 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{t('taskFilters.addTag')}</option>
+              {availableTags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.nome}
+                </option>
+              ))}
+            </select>
+          )}
+          {selectedTagIds.length > 1 && (
+            <div
+              role="group"
+              aria-label={t('taskFilters.tagMode')}
+              className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-xs"
+            >
+              {(['and', 'or'] as const).map((mode) => {
+                const isActive = (filters.tagMode ?? 'and') === mode;
+                return (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() =>
+                      applyFilters({
+                        ...filters,
+                        tagMode: mode === 'and' ? undefined : mode,
+                      })
+                    }
+                    aria-pressed={isActive}
+                    title={t(`taskFilters.tagModeHint.${mode}`)}
+                    className={`px-2.5 py-1 font-medium transition-colors ${
+                      isActive
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {t(`taskFilters.tagModeLabel.${mode}`)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { trpc } from '@/utils/trpc';
 import { useState } from 'react';
+import { useI18n } from './I18nContext';
 
 /**
  * TaskForm: Component for creating new tasks
@@ -17,6 +18,7 @@ export default function TaskForm() {
   const [error, setError] = useState('');
 
   const utils = trpc.useUtils();
+  const { t } = useI18n();
 
   /**
    * Mutation hook for task creation
@@ -48,7 +50,7 @@ export default function TaskForm() {
       }
     },
     onError: (err) => {
-      setError(err.message ?? 'Erro inesperado');
+      setError(err.message ?? t('errors.unexpected'));
     },
   });
 
@@ -65,7 +67,7 @@ export default function TaskForm() {
     setError('');
 
     if (!title.trim()) {
-      setError('Título é obrigatório');
+      setError(t('validation.tituloRequired'));
       return;
     }
 
@@ -83,7 +85,7 @@ export default function TaskForm() {
       className="bg-white rounded-xl border border-gray-200 shadow-sm p-8"
     >
       <h2 className="text-2xl font-semibold text-gray-900 mb-8">
-        Criar Nova Tarefa
+        {t('newTask.title')}
       </h2>
 
       <div className="space-y-6">
@@ -92,7 +94,7 @@ export default function TaskForm() {
             htmlFor="title"
             className="block text-sm font-medium text-gray-700 mb-2"
           >
-            Título <span className="text-red-500">*</span>
+            {t('taskForm.titulo')} <span className="text-red-500">*</span>
           </label>
           <input
             id="title"
@@ -104,7 +106,7 @@ export default function TaskForm() {
             }}
             disabled={isSubmitting}
             className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
-            placeholder="Digite o título da tarefa"
+            placeholder={t('taskForm.tituloPlaceholder')}
           />
         </div>
 
@@ -113,7 +115,7 @@ export default function TaskForm() {
             htmlFor="description"
             className="block text-sm font-medium text-gray-700 mb-2"
           >
-            Descrição
+            {t('taskForm.descricao')}
           </label>
           <textarea
             id="description"
@@ -125,7 +127,7 @@ export default function TaskForm() {
             disabled={isSubmitting}
             rows={4}
             className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed resize-none transition-colors"
-            placeholder="Digite a descrição da tarefa (opcional)"
+            placeholder={t('taskForm.descricaoPlaceholder')}
           />
         </div>
 
@@ -140,7 +142,7 @@ export default function TaskForm() {
           disabled={isSubmitting}
           className="w-full bg-blue-600 text-white py-2.5 px-4 rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
         >
-          {isSubmitting ? 'Criando...' : 'Criar Tarefa'}
+          {isSubmitting ? t('newTask.submitting') : t('newTask.submit')}
         </button>
       </div>
     </form>
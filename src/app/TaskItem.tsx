@@ -1,12 +1,28 @@
 'use client';
 
 import { trpc } from '@/utils/trpc';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 import type { AppRouter } from '@/server/root';
+import {
+  taskStatusTransitions,
+  type TaskListFilters,
+  type TaskStatus,
+} from '@/server/schemas/task.schema';
 import { inferRouterOutputs } from '@trpc/server';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
+import { useI18n } from './I18nContext';
+import { useShortcuts } from './keyboardShortcuts';
+import Markdown from './Markdown';
+import TagChip from './TagChip';
+import type { TagWithCount } from './TagInput';
+import { dueDateToneStyles, getDueDateLabel } from './taskDueDate';
+import { toTaskListSearch } from './taskListParams';
+import { taskPriorityDotStyles } from './taskPriority';
+import { useTaskCache } from './taskCache';
+import { describeRecurrence } from './taskRecurrence';
+import { taskStatusStyles } from './taskStatus';
 import { useToast } from './ToastContext';
 type RouterOutput = inferRouterOutputs<AppRouter>;
 
@@ -20,8 +36,24 @@ type RouterOutput = inferRouterOutputs<AppRouter>;
  */
 type Task = RouterOutput['task']['list'][number];
 
+/**
+ * Descriptions longer than this (characters or lines) start collapsed
+ */
+const collapsedDescricaoLength = 280;
+const collapsedDescricaoLines = 5;
+
 type Props = {
   task: Task;
+  /** Input of the infinite query this item belongs to (cache key) */
+  listInput: TaskListFilters;
+  /** Multi-select state, owned by TaskList */
+  isSelected: boolean;
+  /** `range`: Shift was held (select from the last clicked item) */
+  onToggleSelected: (range: boolean) => void;
+  /** The keyboard is on this task (j/k in TaskList): e edits, x deletes */
+  isActive: boolean;
+  /** Comments in the task's thread (badge hidden when 0) */
+  commentCount: number;
 };
 
 /**
@@ -29,7 +61,17 @@ type Props = {
  *
  * Features:
  * - View-only display (edit redirects to dedicated page)
- * - Inline delete with confirmation dialog
+ * - Inline delete with confirmation dialog, undoable from the success toast
+ * - Completion checkbox + status pill with optimistic updates
+ * - Priority dot, relative due date label and overdue highlight
+ * - Checklist progress ("3/5"), edited on the task's edit page
+ * - Title links to the detail page; comment count badge opens its thread
+ * - Description rendered as Markdown; long ones start collapsed
+ *   ("show more" / "show less")
+ * - Tag chips: clicking one adds it to the list's tag filter (URL)
+ * - Selection checkbox for bulk actions (highlighted card when selected)
+ * - Keyboard (when TaskList puts the keyboard on it): outlined and scrolled
+ *   into view; `e` opens the edit page, `x` starts the delete confirmation
  * - Toast notifications for success/error feedback
  *
  * Design decision: Separate edit page instead of inline editing
@@ -37,34 +79,132 @@ type Props = {
  * - Clearer navigation flow
  * - Delete kept inline as per requirement: "exclusão diretamente na listagem"
  */
-export default function TaskItem({ task }: Props) {
+export default function TaskItem({
+  task,
+  listInput,
+  isSelected,
+  onToggleSelected,
+  isActive,
+  commentCount,
+}: Props) {
   const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isDescricaoExpanded, setIsDescricaoExpanded] = useState(false);
+  const itemRef = useRef<HTMLDivElement>(null);
 
   const router = useRouter();
+  const pathname = usePathname();
   const utils = trpc.useUtils();
+  const taskCache = useTaskCache();
   const { showToast } = useToast();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  // Seeded by TaskList (SSR), shared by every item
+  const { data: tags } = trpc.tag.list.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+  const taskTags = task.tagIds
+    .map((tagId) => tags?.find((tag) => tag.id === tagId))
+    .filter((tag): tag is TagWithCount => tag !== undefined);
+
+  const filterByTag = (tagId: string) => {
+    const current = listInput.tags ?? [];
+    if (current.includes(tagId)) return;
+
+    const search = toTaskListSearch({
+      ...listInput,
+      tags: [...current, tagId],
+    });
+    router.replace(`${pathname}?${search}`, { scroll: false });
+  };
+
+  /**
+   * Undo for delete: restores the task from the trash
+   *
+   * Decision: calls the vanilla client (`utils.client`) instead of a hook
+   * - The toast outlives this component (the item leaves the list on delete),
+   *   so the undo can't depend on this component's mutation state
+   */
+  const undoDelete = async (id: string) => {
+    try {
+      taskCache.insert(await utils.client.task.restore.mutate({ id }));
+      showToast(t('taskItem.restored'), 'success');
+    } catch {
+      showToast(t('taskItem.restoreError'), 'error');
+    }
+  };
 
   /**
-   * Delete mutation with cache invalidation and toast feedback
+   * Delete mutation with optimistic removal and toast feedback
    *
-   * Strategy: Invalidate infinite query to refetch all pages
-   * - Ensures consistent data after deletion
-   * - Uses router.refresh() to sync SSR cache
-   * - Shows success/error toast for user feedback
+   * Flow (see taskCache):
+   * - onMutate: snapshots the cached lists and removes the task from every
+   *   loaded page right away, so it also leaves the list while offline
+   *   (the delete waits in the queue)
+   * - onError: restores the snapshot
+   * - Shows success toast with "undo" (the task is only moved to the trash)
    */
   const deleteTask = trpc.task.delete.useMutation({
-    onSuccess: () => {
-      // Invalidate infinite query to refetch all pages
-      utils.task.infiniteList.invalidate();
-      router.refresh();
+    onMutate: async ({ id }) => {
+      const snapshot = await taskCache.snapshot();
+      taskCache.remove(id);
+      return { snapshot };
+    },
+    onSuccess: (deletedTask) => {
       setIsConfirmingDelete(false);
-      showToast('Tarefa deletada com sucesso', 'success');
+      showToast(t('taskItem.deleted'), 'success', {
+        label: t('common.undo'),
+        onClick: () => undoDelete(deletedTask.id),
+      });
+    },
+    onError: (err, _input, context) => {
+      taskCache.restore(context?.snapshot);
+      showToast(err.message ?? t('taskItem.deleteError'), 'error');
+    },
+  });
+
+  /**
+   * Status mutation with optimistic update of the cached lists
+   *
+   * Flow (see taskCache):
+   * - onMutate: cancels in-flight fetches, snapshots cache, applies new status
+   * - onError: restores snapshot (server rejected transition)
+   * - Offline, the change waits in the queue (see offlineMutations) and the
+   *   item keeps the new status, marked as waiting for sync
+   * - onSuccess: replaces optimistic task with server version (real completedAt);
+   *   completing a recurring task refetches the list, which now has its
+   *   next occurrence
+   */
+  const setStatus = trpc.task.setStatus.useMutation({
+    onMutate: async ({ status }) => {
+      const snapshot = await taskCache.snapshot();
+      taskCache.update({
+        ...task,
+        status,
+        completedAt: status === 'concluida' ? Date.now() : null,
+      });
+      return { snapshot };
+    },
+    onError: (err, _input, context) => {
+      taskCache.restore(context?.snapshot);
+      showToast(err.message ?? t('taskItem.statusError'), 'error');
     },
-    onError: (err) => {
-      showToast(err.message ?? 'Erro ao deletar tarefa', 'error');
+    onSuccess: (updatedTask) => {
+      taskCache.update(updatedTask);
+      if (updatedTask.series?.nextId && !task.series?.nextId) {
+        utils.task.infiniteList.invalidate();
+        showToast(t('taskItem.nextOccurrence'), 'success');
+      }
     },
   });
 
+  const handleToggleCompleted = () => {
+    setStatus.mutate({
+      id: task.id,
+      status: task.status === 'concluida' ? 'pendente' : 'concluida',
+    });
+  };
+
   const handleDelete = () => {
     setIsConfirmingDelete(true);
   };
@@ -77,19 +217,270 @@ export default function TaskItem({ task }: Props) {
     setIsConfirmingDelete(false);
   };
 
+  useShortcuts(
+    {
+      e: () => router.push(`/tasks/${task.id}/edit`),
+      x: handleDelete,
+    },
+    isActive
+  );
+
+  useEffect(() => {
+    if (isActive) itemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isActive]);
+
   const isDeleting = deleteTask.isPending;
+  // A change queued offline doesn't block the next one (they replay in order)
+  const isChangingStatus = setStatus.isPending && !setStatus.isPaused;
+  const isCompleted = task.status === 'concluida';
+  const isArchived = task.status === 'arquivada';
+  const due = task.dueDate
+    ? getDueDateLabel(i18n, task.dueDate, task.status)
+    : null;
+  const isOverdue = due?.tone === 'overdue';
+  const checklistDone = task.checklist.filter((item) => item.done).length;
+  const isChecklistComplete =
+    task.checklist.length > 0 && checklistDone === task.checklist.length;
+  const isDescricaoLong =
+    !!task.descricao &&
+    (task.descricao.length > collapsedDescricaoLength ||
+      task.descricao.split('\n').length > collapsedDescricaoLines);
+  const isDescricaoCollapsed = isDescricaoLong && !isDescricaoExpanded;
 
   return (
-    <div className="bg-white border border-gray-200 rounded-xl shadow-sm hover:border-gray-300 transition-all duration-200 p-6">
+    <div
+      ref={itemRef}
+      aria-current={isActive || undefined}
+      className={`bg-white border rounded-xl shadow-sm transition-all duration-200 p-6 ${
+        isActive ? 'outline outline-2 outline-offset-2 outline-blue-400 ' : ''
+      }${
+        isSelected
+          ? 'border-blue-500 ring-1 ring-blue-500'
+          : isOverdue
+          ? 'border-red-200 hover:border-red-300'
+          : 'border-gray-200 hover:border-gray-300'
+      }`}
+    >
       <div className="flex justify-between items-start gap-4">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={(e) =>
+            onToggleSelected((e.nativeEvent as MouseEvent).shiftKey)
+          }
+          aria-label={t('taskItem.select', { titulo: task.titulo })}
+          title={t('taskItem.selectHint')}
+          className="mt-2 w-4 h-4 flex-shrink-0 rounded-sm border-gray-300 text-gray-700 focus:ring-2 focus:ring-gray-400 cursor-pointer"
+        />
+        <input
+          type="checkbox"
+          checked={isCompleted}
+          onChange={handleToggleCompleted}
+          disabled={isArchived || isChangingStatus}
+          aria-label={
+            isCompleted
+              ? t('taskItem.markPending')
+              : t('taskItem.markCompleted')
+          }
+          className="mt-1.5 w-5 h-5 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+        />
         <div className="flex-1 min-w-0">
-          <h3 className="text-lg font-medium text-gray-900 mb-1">
-            {task.titulo}
-          </h3>
+          <div className="flex items-center gap-2 mb-1 flex-wrap">
+            <span
+              title={t('priority.label', {
+                priority: t(`priority.${task.priority}`),
+              })}
+              className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${
+                taskPriorityDotStyles[task.priority]
+              }`}
+            >
+              <span className="sr-only">
+                {t('priority.label', {
+                  priority: t(`priority.${task.priority}`),
+                })}
+              </span>
+            </span>
+            <h3
+              className={`text-lg font-medium ${
+                isCompleted ? 'text-gray-400 line-through' : 'text-gray-900'
+              }`}
+            >
+              <Link
+                href={`/tasks/${task.id}`}
+                className="hover:underline focus:outline-none focus:underline"
+              >
+                {task.titulo}
+              </Link>
+            </h3>
+            <select
+              value={task.status}
+              onChange={(e) =>
+                setStatus.mutate({
+                  id: task.id,
+                  status: e.target.value as TaskStatus,
+                })
+              }
+              disabled={isChangingStatus}
+              aria-label={t('taskItem.status')}
+              className={`px-2.5 py-0.5 text-xs font-medium rounded-full border-0 appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed ${
+                taskStatusStyles[task.status]
+              }`}
+            >
+              {[task.status, ...taskStatusTransitions[task.status]].map(
+                (status) => (
+                  <option key={status} value={status}>
+                    {t(`status.${status}`)}
+                  </option>
+                )
+              )}
+            </select>
+            {setStatus.isPaused && (
+              <span
+                title={t('taskItem.pausedHint')}
+                className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-amber-50 text-amber-700"
+              >
+                {t('taskItem.paused')}
+              </span>
+            )}
+            {due && (
+              // Relative to "today": may differ between server and browser
+              <span
+                suppressHydrationWarning
+                className={`px-2.5 py-0.5 text-xs font-medium rounded-full ${
+                  dueDateToneStyles[due.tone]
+                }`}
+              >
+                {due.label}
+              </span>
+            )}
+            {task.checklist.length > 0 && (
+              <span
+                title={t('taskItem.checklistProgress', {
+                  done: checklistDone,
+                  count: task.checklist.length,
+                })}
+                className={`inline-flex items-center gap-1 px-2.5 py-0.5 text-xs font-medium rounded-full ${
+                  isChecklistComplete
+                    ? 'bg-green-50 text-green-700'
+                    : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4M5 4h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5a1 1 0 011-1z"
+                  />
+                </svg>
+                {checklistDone}/{task.checklist.length}
+              </span>
+            )}
+            {commentCount > 0 && (
+              <Link
+                href={`/tasks/${task.id}#comentarios`}
+                title={t('taskItem.comments', { count: commentCount })}
+                className="inline-flex items-center gap-1 px-2.5 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                  />
+                </svg>
+                {commentCount}
+                <span className="sr-only">
+                  {' '}
+                  {t('taskItem.commentsUnit', { count: commentCount })}
+                </span>
+              </Link>
+            )}
+            {task.series && (
+              <span
+                title={
+                  task.series.recurrence.count
+                    ? t('taskItem.occurrenceOf', {
+                        occurrence: task.series.occurrence,
+                        count: task.series.recurrence.count,
+                      })
+                    : t('taskItem.occurrence', {
+                        occurrence: task.series.occurrence,
+                      })
+                }
+                className="inline-flex items-center gap-1 px-2.5 py-0.5 text-xs font-medium rounded-full bg-purple-50 text-purple-700"
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                  />
+                </svg>
+                {describeRecurrence(i18n, task.series.recurrence)}
+              </span>
+            )}
+          </div>
           {task.descricao && (
-            <p className="text-sm text-gray-600 whitespace-pre-wrap leading-relaxed">
-              {task.descricao}
-            </p>
+            <div>
+              <div
+                id={`descricao-${task.id}`}
+                className={`relative text-sm text-gray-600 leading-relaxed ${
+                  isDescricaoCollapsed ? 'max-h-24 overflow-hidden' : ''
+                }`}
+              >
+                <Markdown source={task.descricao} />
+                {isDescricaoCollapsed && (
+                  <div className="absolute inset-x-0 bottom-0 h-8 bg-gradient-to-t from-white pointer-events-none" />
+                )}
+              </div>
+              {isDescricaoLong && (
+                <button
+                  type="button"
+                  onClick={() => setIsDescricaoExpanded(!isDescricaoExpanded)}
+                  aria-expanded={isDescricaoExpanded}
+                  aria-controls={`descricao-${task.id}`}
+                  className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-700 focus:outline-none focus:underline"
+                >
+                  {isDescricaoExpanded
+                    ? t('taskItem.showLess')
+                    : t('taskItem.showMore')}
+                </button>
+              )}
+            </div>
+          )}
+          {taskTags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {taskTags.map((tag) => (
+                <TagChip
+                  key={tag.id}
+                  nome={tag.nome}
+                  cor={tag.cor}
+                  title={t('taskItem.filterByTag', { nome: tag.nome })}
+                  onClick={() => filterByTag(tag.id)}
+                />
+              ))}
+            </div>
           )}
         </div>
         {!isConfirmingDelete && (
@@ -98,13 +489,13 @@ export default function TaskItem({ task }: Props) {
               href={`/tasks/${task.id}/edit`}
               className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200"
             >
-              Editar
+              {t('common.edit')}
             </Link>
             <button
               onClick={handleDelete}
               className="px-3 py-1.5 text-xs font-medium bg-red-50 text-red-700 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 transition-all duration-200"
             >
-              Deletar
+              {t('common.delete')}
             </button>
           </div>
         )}
@@ -114,7 +505,7 @@ export default function TaskItem({ task }: Props) {
         <div className="mt-5 pt-5 border-t border-gray-200">
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
             <p className="text-sm font-medium text-gray-900 mb-4">
-              Tem certeza que deseja deletar esta tarefa?
+              {t('taskItem.confirmDelete')}
             </p>
 
             <div className="flex gap-3">
@@ -123,14 +514,14 @@ export default function TaskItem({ task }: Props) {
                 disabled={isDeleting}
                 className="px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
               >
-                {isDeleting ? 'Deletando...' : 'Confirmar'}
+                {isDeleting ? t('common.deleting') : t('common.confirm')}
               </button>
               <button
                 onClick={handleCancelDelete}
                 disabled={isDeleting}
                 className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-all duration-200"
               >
-                Cancelar
+                {t('common.cancel')}
               </button>
             </div>
           </div>
@@ -1,16 +1,31 @@
 'use client';
 
 import { AppRouter } from '@/server/root';
+import type { TaskListFilters } from '@/server/schemas/task.schema';
 import { trpc } from '@/utils/trpc';
 import { inferRouterOutputs } from '@trpc/server';
-import { useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import { useCommandPalette } from './CommandPalette';
+import { useI18n } from './I18nContext';
+import { useShortcuts } from './keyboardShortcuts';
+import TaskFilters from './TaskFilters';
+import type { TagWithCount } from './TagInput';
+import TaskBulkActions from './TaskBulkActions';
 import TaskItem from './TaskItem';
+import { toTaskListSearch } from './taskListParams';
+import { useTaskChangeSubscription } from './useTaskChangeSubscription';
 
 type RouterOutput = inferRouterOutputs<AppRouter>;
-type TaskListOutput = RouterOutput['task']['list'];
+type TaskPageOutput = RouterOutput['task']['infiniteList'];
 
 type Props = {
-  initialData: TaskListOutput;
+  initialData: TaskPageOutput;
+  filters: TaskListFilters;
+  /** Scopes the list to one project (project page) */
+  projectId?: string;
+  /** SSR tag list: seeds the `tag.list` cache read by chips and filters */
+  tags: TagWithCount[];
 };
 
 /**
@@ -21,6 +36,20 @@ type Props = {
  * - Intersection Observer detects when user scrolls to bottom
  * - Automatically loads next page (3 tasks) when sentinel is visible
  * - First page shows 7 tasks (from SSR) to ensure sentinel is below viewport, subsequent pages load 3 each
+ * - Filters come from URL search params: the server renders the filtered first page,
+ *   and the same filters object is the query input (one cache entry per filter set)
+ * - Live updates: `task.onChange` events patch the loaded pages in place
+ * - Optional `projectId` is added to the query input, not to the URL filters
+ *   (the project comes from the route, the filter bar stays the same)
+ * - Multi-select: checkbox per item, Shift+click selects a range (from the
+ *   last clicked item), "select all" covers the loaded tasks only;
+ *   TaskBulkActions acts on the selection
+ * - Selected ids that leave the list (deleted, filtered out) are ignored
+ * - Export links download the list as filtered (same search params, plus
+ *   the project), import goes to its own page
+ * - Keyboard: j/k move through the loaded tasks (the next page is fetched
+ *   at the end), e/x act on the task the keyboard is on (see TaskItem);
+ *   the command palette is told which one, for its "edit" action
  *
  * Benefits:
  * - Better performance with large datasets
@@ -28,25 +57,36 @@ type Props = {
  * - SEO friendly (initial tasks rendered server-side)
  * - Handles real-time updates without pagination issues
  */
-export default function TaskList({ initialData }: Props) {
+export default function TaskList({
+  initialData,
+  filters,
+  projectId,
+  tags,
+}: Props) {
+  const listInput = projectId ? { ...filters, projectId } : filters;
+
+  trpc.tag.list.useQuery(undefined, { initialData: tags, staleTime: Infinity });
+
   const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
-    trpc.task.infiniteList.useInfiniteQuery(
-      {},
-      {
-        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
-        initialData: {
-          pages: [
-            {
-              tasks: initialData.slice(0, 7),
-              nextCursor:
-                initialData.length > 7 ? initialData[6].dataCriacao : null,
-            },
-          ],
-          pageParams: [undefined],
-        },
-        staleTime: Infinity,
-      }
-    );
+    trpc.task.infiniteList.useInfiniteQuery(listInput, {
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+      initialData: {
+        pages: [initialData],
+        pageParams: [undefined],
+      },
+      staleTime: Infinity,
+    });
+
+  // Changes from other tabs/users (SSE) patch the cache in place
+  useTaskChangeSubscription();
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Anchor of Shift+click ranges: last item clicked without Shift
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  // Task the keyboard is on (j/k)
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const { setActiveTask } = useCommandPalette();
+  const { t } = useI18n();
 
   // Sentinel element ref for intersection observer
   const sentinelRef = useRef<HTMLDivElement>(null);
@@ -105,22 +145,137 @@ export default function TaskList({ initialData }: Props) {
   // Flatten all pages into single array
   const allTasks = data?.pages.flatMap((page) => page.tasks) ?? [];
 
-  if (isLoading) {
-    return (
-      <div>
-        <h1 className="text-3xl font-semibold text-gray-900 mb-6">Tarefas</h1>
-        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-12 text-center">
-          <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
-          <p className="mt-4 text-sm text-gray-600">Carregando tarefas...</p>
+  // Comment badges of the loaded tasks (refetched when a page is added;
+  // the previous counts stay on screen meanwhile)
+  const { data: commentCounts } = trpc.comment.counts.useQuery(
+    { taskIds: allTasks.map((task) => task.id) },
+    {
+      enabled: allTasks.length > 0,
+      placeholderData: (previous) => previous,
+    }
+  );
+  const hasFilters = Object.keys(filters).length > 0;
+
+  const activeIndex = allTasks.findIndex((task) => task.id === activeId);
+  const activeTask = activeIndex === -1 ? null : allTasks[activeIndex];
+
+  /**
+   * j/k: moves to the next/previous loaded task (the first one when the
+   * keyboard isn't on the list yet, e.g. its task was deleted)
+   */
+  const moveActive = (step: 1 | -1) => {
+    if (allTasks.length === 0) return;
+    const index =
+      activeIndex === -1
+        ? 0
+        : Math.min(Math.max(activeIndex + step, 0), allTasks.length - 1);
+    setActiveId(allTasks[index].id);
+    if (index === allTasks.length - 1 && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  useShortcuts({ j: () => moveActive(1), k: () => moveActive(-1) });
+
+  // Told again only when the task or its title changes
+  const activeTitulo = activeTask?.titulo;
+  useEffect(() => {
+    setActiveTask(
+      activeId && activeTitulo !== undefined
+        ? { id: activeId, titulo: activeTitulo }
+        : null
+    );
+  }, [setActiveTask, activeId, activeTitulo]);
+
+  useEffect(() => () => setActiveTask(null), [setActiveTask]);
+
+  const exportParams = new URLSearchParams(toTaskListSearch(filters));
+  if (projectId) exportParams.set('project', projectId);
+  const exportHref = (format: 'csv' | 'json') => {
+    exportParams.set('format', format);
+    return `/api/tasks/export?${exportParams}`;
+  };
+
+  const selectedTasks = allTasks.filter((task) => selectedIds.has(task.id));
+  const isAllSelected =
+    allTasks.length > 0 && selectedTasks.length === allTasks.length;
+
+  /**
+   * Toggles one task; with `range`, every task between the anchor and this
+   * one takes the new state of the clicked task
+   */
+  const toggleSelected = (taskId: string, range: boolean) => {
+    const isSelecting = !selectedIds.has(taskId);
+    const index = allTasks.findIndex((task) => task.id === taskId);
+    const anchorIndex = allTasks.findIndex((task) => task.id === anchorId);
+    const [from, to] =
+      range && anchorIndex !== -1
+        ? [Math.min(anchorIndex, index), Math.max(anchorIndex, index)]
+        : [index, index];
+
+    const next = new Set(selectedIds);
+    allTasks.slice(from, to + 1).forEach((task) => {
+      if (isSelecting) next.add(task.id);
+      else next.delete(task.id);
+    });
+    setSelectedIds(next);
+    if (!range) setAnchorId(taskId);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      isAllSelected ? new Set() : new Set(allTasks.map((task) => task.id))
+    );
+    setAnchorId(null);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  };
+
+  return (
+    // Room for the floating bulk action bar at the end of the list
+    <div className={selectedTasks.length > 0 ? 'pb-24' : undefined}>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('taskList.title')}
+        </h1>
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          <span>{t('taskList.export')}</span>
+          <a
+            href={exportHref('csv')}
+            download
+            className="hover:text-gray-900 underline-offset-2 hover:underline"
+          >
+            CSV
+          </a>
+          <a
+            href={exportHref('json')}
+            download
+            className="hover:text-gray-900 underline-offset-2 hover:underline"
+          >
+            JSON
+          </a>
+          <span aria-hidden="true" className="text-gray-300">
+            |
+          </span>
+          <Link
+            href="/tasks/import"
+            className="hover:text-gray-900 underline-offset-2 hover:underline"
+          >
+            {t('taskList.import')}
+          </Link>
         </div>
       </div>
-    );
-  }
+      <TaskFilters filters={filters} />
 
-  if (allTasks.length === 0) {
-    return (
-      <div>
-        <h1 className="text-3xl font-semibold text-gray-900 mb-6">Tarefas</h1>
+      {isLoading ? (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-12 text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">{t('taskList.loading')}</p>
+        </div>
+      ) : allTasks.length === 0 ? (
         <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-12 text-center">
           <div className="max-w-sm mx-auto">
             <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -139,45 +294,70 @@ export default function TaskList({ initialData }: Props) {
               </svg>
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-1">
-              Nenhuma tarefa ainda
+              {hasFilters ? t('taskList.emptyFiltered') : t('taskList.empty')}
             </h3>
             <p className="text-sm text-gray-500">
-              Crie sua primeira tarefa para começar.
+              {hasFilters
+                ? t('taskList.emptyFilteredHint')
+                : t('taskList.emptyHint')}
             </p>
           </div>
         </div>
-      </div>
-    );
-  }
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 px-1 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={isAllSelected}
+              ref={(input) => {
+                if (input) {
+                  input.indeterminate =
+                    selectedTasks.length > 0 && !isAllSelected;
+                }
+              }}
+              onChange={toggleAll}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500 cursor-pointer"
+            />
+            {t('taskList.selectAll', { count: allTasks.length })}
+          </label>
 
-  return (
-    <div>
-      <h1 className="text-3xl font-semibold text-gray-900 mb-6">Tarefas</h1>
-      <div className="space-y-3">
-        {allTasks.map((task) => (
-          <TaskItem key={task.id} task={task} />
-        ))}
-
-        {/* Loading indicator while fetching next page */}
-        {isFetchingNextPage && (
-          <div className="py-8 text-center">
-            <div className="animate-spin w-6 h-6 border-3 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
-            <p className="mt-3 text-sm text-gray-600 loading-dots">
-              Carregando mais tarefas
-            </p>
-          </div>
-        )}
+          {allTasks.map((task) => (
+            <TaskItem
+              key={task.id}
+              task={task}
+              listInput={listInput}
+              isSelected={selectedIds.has(task.id)}
+              isActive={task.id === activeTask?.id}
+              onToggleSelected={(range) => toggleSelected(task.id, range)}
+              commentCount={commentCounts?.[task.id] ?? 0}
+            />
+          ))}
 
-        {/* Sentinel element for intersection observer */}
-        <div ref={sentinelRef} className="h-4" aria-hidden="true" />
+          {/* Loading indicator while fetching next page */}
+          {isFetchingNextPage && (
+            <div className="py-8 text-center">
+              <div className="animate-spin w-6 h-6 border-3 border-blue-600 border-t-transparent rounded-full mx-auto"></div>
+              <p className="mt-3 text-sm text-gray-600 loading-dots">
+                {t('taskList.loadingMore')}
+              </p>
+            </div>
+          )}
 
-        {/* End of list indicator */}
-        {!hasNextPage && allTasks.length > 0 && (
-          <div className="text-center py-6">
-            <p className="text-sm text-gray-500">Você chegou ao fim da lista</p>
-          </div>
-        )}
-      </div>
+          {/* Sentinel element for intersection observer */}
+          <div ref={sentinelRef} className="h-4" aria-hidden="true" />
+
+          {/* End of list indicator */}
+          {!hasNextPage && allTasks.length > 0 && (
+            <div className="text-center py-6">
+              <p className="text-sm text-gray-500">{t('taskList.end')}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {selectedTasks.length > 0 && (
+        <TaskBulkActions tasks={selectedTasks} onClear={clearSelection} />
+      )}
     </div>
   );
 }
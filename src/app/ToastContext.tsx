@@ -1,17 +1,27 @@
 'use client';
 
 import { createContext, useContext, useState, useCallback } from 'react';
+import { useI18n } from './I18nContext';
 
 type ToastType = 'success' | 'error' | 'info';
 
+/**
+ * Optional button rendered inside the toast (e.g. "Desfazer")
+ */
+type ToastAction = {
+  label: string;
+  onClick: () => void;
+};
+
 type Toast = {
   id: string;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 };
 
 type ToastContextType = {
-  showToast: (message: string, type: ToastType) => void;
+  showToast: (message: string, type: ToastType, action?: ToastAction) => void;
 };
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -20,25 +30,33 @@ const ToastContext = createContext<ToastContextType | undefined>(undefined);
  * Toast Provider Component
  *
  * Provides toast notification system for user feedback
- * - Auto-dismisses after 4 seconds
+ * - Auto-dismisses after 4 seconds (8 seconds when it has an action)
  * - Supports success, error, and info types
+ * - Optional action button; clicking it runs the action and dismisses the toast
  * - Multiple toasts stack vertically
  * - Slide-in animation from right
  */
 export function ToastProvider({ children }: { children: React.ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([]);
+  const { t } = useI18n();
 
-  const showToast = useCallback((message: string, type: ToastType) => {
-    const id = crypto.randomUUID();
-    const newToast: Toast = { id, message, type };
+  const showToast = useCallback(
+    (message: string, type: ToastType, action?: ToastAction) => {
+      const id = crypto.randomUUID();
+      const newToast: Toast = { id, message, type, action };
 
-    setToasts((prev) => [...prev, newToast]);
+      setToasts((prev) => [...prev, newToast]);
 
-    // Auto-dismiss after 4 seconds
-    setTimeout(() => {
-      setToasts((prev) => prev.filter((toast) => toast.id !== id));
-    }, 4000);
-  }, []);
+      // Auto-dismiss after 4 seconds (longer when there is something to click)
+      setTimeout(
+        () => {
+          setToasts((prev) => prev.filter((toast) => toast.id !== id));
+        },
+        action ? 8000 : 4000
+      );
+    },
+    []
+  );
 
   const removeToast = (id: string) => {
     setToasts((prev) => prev.filter((toast) => toast.id !== id));
@@ -131,12 +149,31 @@ export function ToastProvider({ children }: { children: React.ReactNode }) {
               </p>
             </div>
 
+            {/* Action button */}
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action?.onClick();
+                  removeToast(toast.id);
+                }}
+                className={`flex-shrink-0 pt-0.5 text-sm font-semibold underline-offset-2 hover:underline ${
+                  toast.type === 'success'
+                    ? 'text-green-700'
+                    : toast.type === 'error'
+                      ? 'text-red-700'
+                      : 'text-blue-700'
+                }`}
+              >
+                {toast.action.label}
+              </button>
+            )}
+
             {/* Close button */}
             <button
               onClick={() => removeToast(toast.id)}
               className="flex-shrink-0 text-gray-400 hover:text-gray-600 transition-colors"
             >
-              <span className="sr-only">Fechar</span>
+              <span className="sr-only">{t('common.close')}</span>
               <svg
                 className="w-4 h-4"
                 fill="none"
@@ -0,0 +1,56 @@
+'use client';
+
+import type { SessionUser } from '@/server/store/user.repository';
+import { trpc } from '@/utils/trpc';
+import { useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { useI18n } from './I18nContext';
+import LocaleSwitcher from './LocaleSwitcher';
+import { clearPersistedQueryCache } from './queryCachePersistence';
+import { useToast } from './ToastContext';
+
+type Props = {
+  user: SessionUser;
+};
+
+/**
+ * UserMenu: Logged-in user name, language picker + logout button (page header)
+ *
+ * Decision: clear the whole React Query cache on logout
+ * - Cached tasks belong to the previous user and must not leak
+ *   to whoever logs in next in the same tab
+ * - The offline copy in IndexedDB goes too (changes still queued offline
+ *   are dropped; logging out needs a connection anyway)
+ */
+export default function UserMenu({ user }: Props) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const logout = trpc.auth.logout.useMutation({
+    onSuccess: () => {
+      queryClient.clear();
+      clearPersistedQueryCache();
+      router.replace('/login');
+      router.refresh();
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('userMenu.logoutError'), 'error');
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="text-gray-600 hidden sm:inline">{user.nome}</span>
+      <LocaleSwitcher />
+      <button
+        onClick={() => logout.mutate()}
+        disabled={logout.isPending}
+        className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+      >
+        {logout.isPending ? t('userMenu.loggingOut') : t('userMenu.logout')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { createTranslator } from '@/i18n/translator';
+import { localizeError } from '@/server/errors';
+import { getRequestLocale } from '@/server/i18n';
+import { isImageMimeType } from '@/server/schemas/attachment.schema';
+import { readAttachmentFile } from '@/server/store/attachmentFiles';
+import { getServerCaller } from '@/server/serverCaller';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * `Content-Disposition` with the original file name: an ASCII fallback
+ * plus the UTF-8 name (RFC 6266 / RFC 5987)
+ */
+function toContentDisposition(type: 'inline' | 'attachment', nome: string) {
+  const fallback = nome.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+    nome
+  )}`;
+}
+
+/**
+ * GET /api/attachments/:id[?inline=1]
+ *
+ * Decisions:
+ * - Metadata comes from `attachment.getById` (ownership: 404 for someone
+ *   else's file), the content is streamed from disk
+ * - Downloaded by default; `?inline=1` (previews) is honored for images
+ *   only, every other type is always a download
+ * - Served with the stored type, `nosniff` and a CSP that blocks scripts,
+ *   so a file can't run as a page of the app
+ * - The checksum is the ETag: a file never changes under its id
+ * - Errors as plain text in the caller's language (the server caller
+ *   skips the errorFormatter)
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const locale = await getRequestLocale();
+
+  let attachment;
+  try {
+    const caller = await getServerCaller();
+    attachment = await caller.attachment.getById({ id });
+  } catch (error) {
+    if (!(error instanceof TRPCError)) throw error;
+    return new Response(localizeError(locale, error), {
+      status: getHTTPStatusCodeFromError(error),
+    });
+  }
+
+  const etag = `"${attachment.checksum}"`;
+  const headers = {
+    'Content-Type': attachment.mimeType,
+    'Cache-Control': 'private, max-age=0, must-revalidate',
+    ETag: etag,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; sandbox",
+  };
+
+  if (req.headers.get('if-none-match') === etag) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const body = readAttachmentFile(attachment.id);
+  if (!body) {
+    return new Response(
+      createTranslator(locale)('errors.attachmentFileNotFound'),
+      { status: 404 }
+    );
+  }
+
+  const inline =
+    new URL(req.url).searchParams.get('inline') === '1' &&
+    isImageMimeType(attachment.mimeType);
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Length': String(attachment.size),
+      'Content-Disposition': toContentDisposition(
+        inline ? 'inline' : 'attachment',
+        attachment.nome
+      ),
+    },
+  });
+}
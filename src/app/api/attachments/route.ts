@@ -0,0 +1,102 @@
+import { createTranslator } from '@/i18n/translator';
+import { localizeError } from '@/server/errors';
+import { getRequestLocale } from '@/server/i18n';
+import { maxAttachmentSize } from '@/server/schemas/attachment.schema';
+import { getServerCaller } from '@/server/serverCaller';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+
+/**
+ * Room for the multipart boundaries and the `taskId` field
+ */
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+const maxBodySize = maxAttachmentSize + MULTIPART_OVERHEAD;
+
+/**
+ * The request body, failing as soon as more than `maxBodySize` bytes
+ * were read (`onTooLarge` tells that failure apart from a malformed body)
+ */
+function limitBody(
+  body: ReadableStream<Uint8Array> | null,
+  onTooLarge: () => void
+) {
+  let size = 0;
+  return body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        if (size > maxBodySize) {
+          onTooLarge();
+          controller.error(new Error('Request body too large'));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/**
+ * POST /api/attachments (multipart/form-data: `taskId`, `file`)
+ *
+ * Decisions:
+ * - A route handler instead of a tRPC mutation: the tRPC client sends JSON,
+ *   a file is uploaded as multipart form data
+ * - The file is handed to `attachment.upload` through the server caller,
+ *   so ownership and the size/type limits are the router's
+ * - The size limit is enforced on the bytes read, not on the header:
+ *   uploads without `Content-Length` (e.g. chunked) are refused (411),
+ *   larger declared sizes before reading (413), and the body is cut off
+ *   once it goes past the limit, whatever it declared
+ * - Responds 201 with the attachment metadata, errors as plain text in
+ *   the caller's language (the server caller skips the errorFormatter)
+ */
+export async function POST(req: Request) {
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+
+  const tooLarge = () =>
+    new Response(
+      t('errors.attachmentTooLarge', {
+        maxMb: maxAttachmentSize / (1024 * 1024),
+      }),
+      { status: 413 }
+    );
+
+  const contentLength = req.headers.get('content-length');
+  if (contentLength === null || !/^\d+$/.test(contentLength)) {
+    return new Response(t('errors.attachmentLengthRequired'), {
+      status: 411,
+    });
+  }
+  if (Number(contentLength) > maxBodySize) return tooLarge();
+
+  let isTooLarge = false;
+  let formData;
+  try {
+    const body = limitBody(req.body, () => {
+      isTooLarge = true;
+    });
+    formData = await new Response(body, {
+      headers: { 'Content-Type': req.headers.get('content-type') ?? '' },
+    }).formData();
+  } catch {
+    if (isTooLarge) return tooLarge();
+    return new Response(t('errors.attachmentNotMultipart'), { status: 400 });
+  }
+
+  try {
+    const caller = await getServerCaller();
+    const attachment = await caller.attachment.upload({
+      taskId: String(formData.get('taskId') ?? ''),
+      file: formData.get('file') as File,
+    });
+    return Response.json(attachment, { status: 201 });
+  } catch (error) {
+    if (!(error instanceof TRPCError)) throw error;
+    return new Response(localizeError(locale, error), {
+      status: getHTTPStatusCodeFromError(error),
+    });
+  }
+}
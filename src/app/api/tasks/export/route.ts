@@ -0,0 +1,73 @@
+import { parseTaskListParams } from '@/app/taskListParams';
+import { localizeError } from '@/server/errors';
+import { getRequestLocale } from '@/server/i18n';
+import {
+  taskImportFormatSchema,
+  toDateOnly,
+} from '@/server/schemas/task.schema';
+import { getServerCaller } from '@/server/serverCaller';
+import { toExportChunks } from '@/server/transfer/taskTransfer';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+
+const contentTypes = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * GET /api/tasks/export?format=csv|json&<list filters>
+ *
+ * Decisions:
+ * - A route handler instead of a tRPC query: the browser downloads the file
+ *   from a plain link (`Content-Disposition: attachment`)
+ * - Same filters as the list URL (`?q=&status=&tags=...`, plus `project`
+ *   for a project page), read with `parseTaskListParams`; invalid values are
+ *   dropped the same way
+ * - Tasks come from `task.export` through the server caller, so ownership
+ *   and filtering are the router's; the body is streamed task by task
+ * - Errors as plain text in the caller's language (the server caller
+ *   skips the errorFormatter)
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const format = taskImportFormatSchema
+    .catch('csv')
+    .parse(searchParams.get('format'));
+  const projectId = searchParams.get('project') || undefined;
+  const filters = {
+    ...parseTaskListParams(Object.fromEntries(searchParams)),
+    ...(projectId && { projectId }),
+  };
+
+  let tasks;
+  try {
+    const caller = await getServerCaller();
+    tasks = await caller.task.export(filters);
+  } catch (error) {
+    if (!(error instanceof TRPCError)) throw error;
+    return new Response(localizeError(await getRequestLocale(), error), {
+      status: getHTTPStatusCodeFromError(error),
+    });
+  }
+
+  const chunks = toExportChunks(tasks, format);
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const { value, done } = chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentTypes[format],
+      'Content-Disposition': `attachment; filename="tarefas-${toDateOnly(
+        Date.now()
+      )}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
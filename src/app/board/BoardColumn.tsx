@@ -0,0 +1,445 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { dueDateToneStyles, getDueDateLabel } from '@/app/taskDueDate';
+import { taskPriorityDotStyles } from '@/app/taskPriority';
+import { taskStatusStyles } from '@/app/taskStatus';
+import type { MessageKey } from '@/i18n/translator';
+import type { AppRouter } from '@/server/root';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Column = RouterOutput['board']['columns'][number];
+type ColumnPage = RouterOutput['board']['tasks'];
+type Task = ColumnPage['tasks'][number];
+
+type Props = {
+  column: Column;
+  /** SSR first page (absent for columns created on the client) */
+  initialData?: ColumnPage;
+  previousColumn: Column | null;
+  nextColumn: Column | null;
+  isOnlyColumn: boolean;
+  /** Card being dragged anywhere on the board */
+  dragged: Task | null;
+  /** Cards with a move in flight (not draggable) */
+  movingIds: Set<string>;
+  onDragStart: (task: Task) => void;
+  onDragEnd: () => void;
+  /** Moves a card to `index` among the other cards of `columnId` */
+  onMoveTask: (task: Task, columnId: string, index: number) => void;
+  onColumnsChanged: () => void;
+};
+
+const actionClassName =
+  'px-1.5 py-0.5 text-xs font-medium text-gray-500 rounded hover:text-gray-900 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40 disabled:cursor-not-allowed';
+
+/**
+ * BoardColumn: One column of the task board
+ *
+ * Implementation decisions:
+ * - Lazy loading per column: `board.tasks` infinite query (same cursor
+ *   pattern as the list), the next page is fetched when the end of the
+ *   column scrolls into view
+ * - Drop target: the insertion point follows the pointer (before the first
+ *   card whose middle is below it) and is shown as a blue line
+ * - Header actions: rename inline, move the column left/right, delete
+ *   (with confirmation; its cards go to the first column)
+ */
+export default function BoardColumn({
+  column,
+  initialData,
+  previousColumn,
+  nextColumn,
+  isOnlyColumn,
+  dragged,
+  movingIds,
+  onDragStart,
+  onDragEnd,
+  onMoveTask,
+  onColumnsChanged,
+}: Props) {
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { showToast } = useToast();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.board.tasks.useInfiniteQuery(
+      { columnId: column.id },
+      {
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        initialData: initialData && {
+          pages: [initialData],
+          pageParams: [undefined],
+        },
+        staleTime: Infinity,
+      }
+    );
+  const tasks = data?.pages.flatMap((page) => page.tasks) ?? [];
+  const otherTasks = tasks.filter((task) => task.id !== dragged?.id);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { root: listRef.current, rootMargin: '100px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const onError = (fallback: MessageKey) => (err: { message?: string }) => {
+    showToast(err.message || t(fallback), 'error');
+  };
+
+  const renameColumn = trpc.board.renameColumn.useMutation({
+    onSuccess: () => {
+      setRenaming(null);
+      onColumnsChanged();
+    },
+    onError: onError('board.renameError'),
+  });
+  const moveColumn = trpc.board.moveColumn.useMutation({
+    onSuccess: onColumnsChanged,
+    onError: onError('board.moveError'),
+  });
+  const deleteColumn = trpc.board.deleteColumn.useMutation({
+    onSuccess: ({ taskCount }) => {
+      setIsConfirmingDelete(false);
+      onColumnsChanged();
+      showToast(
+        taskCount > 0
+          ? t('board.deletedWithTasks', { count: taskCount })
+          : t('board.deleted'),
+        'success'
+      );
+    },
+    onError: onError('board.deleteError'),
+  });
+
+  /**
+   * Insertion index under the pointer, among the cards other than the
+   * dragged one
+   */
+  const toDropIndex = (clientY: number) => {
+    const cards = Array.from(
+      listRef.current?.querySelectorAll<HTMLElement>('[data-board-card]') ?? []
+    ).filter((card) => card.dataset.boardCard !== dragged?.id);
+    const index = cards.findIndex((card) => {
+      const rect = card.getBoundingClientRect();
+      return clientY < rect.top + rect.height / 2;
+    });
+    return index === -1 ? cards.length : index;
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!dragged) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropIndex(toDropIndex(e.clientY));
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDropIndex(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragged) {
+      onMoveTask(dragged, column.id, dropIndex ?? toDropIndex(e.clientY));
+    }
+    setDropIndex(null);
+  };
+
+  const handleRename = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!renaming?.trim()) return;
+    if (renaming.trim() === column.nome) {
+      setRenaming(null);
+      return;
+    }
+    renameColumn.mutate({ id: column.id, nome: renaming.trim() });
+  };
+
+  const dropIndicator = (
+    <div className="h-1 -my-0.5 rounded-full bg-blue-500" aria-hidden="true" />
+  );
+
+  const renderCard = (task: Task, index: number) => {
+    const due = task.dueDate
+      ? getDueDateLabel(i18n, task.dueDate, task.status)
+      : null;
+    const checklistDone = task.checklist.filter((item) => item.done).length;
+    const isMoving = movingIds.has(task.id);
+
+    return (
+      <div
+        key={task.id}
+        data-board-card={task.id}
+        draggable={!isMoving}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', task.id);
+          onDragStart(task);
+        }}
+        onDragEnd={onDragEnd}
+        className={`group p-3 space-y-2 bg-white border border-gray-200 rounded-lg shadow-sm hover:border-gray-300 ${
+          dragged?.id === task.id ? 'opacity-40' : ''
+        } ${isMoving ? 'cursor-wait' : 'cursor-grab active:cursor-grabbing'}`}
+      >
+        <Link
+          href={`/tasks/${task.id}`}
+          className={`block text-sm font-medium break-words hover:text-blue-700 ${
+            task.status === 'concluida'
+              ? 'text-gray-500 line-through'
+              : 'text-gray-900'
+          }`}
+        >
+          {task.titulo}
+        </Link>
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span
+            className={`w-2 h-2 rounded-full ${
+              taskPriorityDotStyles[task.priority]
+            }`}
+            title={t('priority.label', {
+              priority: t(`priority.${task.priority}`),
+            })}
+            aria-label={t('priority.label', {
+              priority: t(`priority.${task.priority}`),
+            })}
+          />
+          <span
+            className={`px-2 py-0.5 text-[11px] font-medium rounded-full ${
+              taskStatusStyles[task.status]
+            }`}
+          >
+            {t(`status.${task.status}`)}
+          </span>
+          {due && (
+            <span
+              className={`px-2 py-0.5 text-[11px] font-medium rounded-full ${
+                dueDateToneStyles[due.tone]
+              }`}
+            >
+              {due.label}
+            </span>
+          )}
+          {task.checklist.length > 0 && (
+            <span className="text-[11px] text-gray-500">
+              ✓ {checklistDone}/{task.checklist.length}
+            </span>
+          )}
+        </div>
+
+        {/* Keyboard alternative to drag and drop */}
+        <div className="flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+          <button
+            type="button"
+            onClick={() => onMoveTask(task, column.id, index - 1)}
+            disabled={isMoving || index === 0}
+            aria-label={t('board.moveUp', { titulo: task.titulo })}
+            className={actionClassName}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => onMoveTask(task, column.id, index + 1)}
+            disabled={isMoving || (index === tasks.length - 1 && !hasNextPage)}
+            aria-label={t('board.moveDown', { titulo: task.titulo })}
+            className={actionClassName}
+          >
+            ↓
+          </button>
+          {previousColumn && (
+            <button
+              type="button"
+              onClick={() => onMoveTask(task, previousColumn.id, 0)}
+              disabled={isMoving}
+              aria-label={t('board.moveTo', {
+                titulo: task.titulo,
+                column: previousColumn.nome,
+              })}
+              className={actionClassName}
+            >
+              ←
+            </button>
+          )}
+          {nextColumn && (
+            <button
+              type="button"
+              onClick={() => onMoveTask(task, nextColumn.id, 0)}
+              disabled={isMoving}
+              aria-label={t('board.moveTo', {
+                titulo: task.titulo,
+                column: nextColumn.nome,
+              })}
+              className={actionClassName}
+            >
+              →
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section
+      aria-label={column.nome}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`flex-shrink-0 w-72 flex flex-col bg-gray-100 border rounded-xl ${
+        dropIndex !== null ? 'border-blue-300' : 'border-gray-200'
+      }`}
+    >
+      <header className="px-3 pt-3 pb-2">
+        {renaming !== null ? (
+          <form onSubmit={handleRename} className="flex gap-1">
+            <input
+              value={renaming}
+              onChange={(e) => setRenaming(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              maxLength={30}
+              disabled={renameColumn.isPending}
+              aria-label={t('board.columnName')}
+              className="flex-1 min-w-0 px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+            <button type="submit" className={actionClassName}>
+              {t('common.save')}
+            </button>
+          </form>
+        ) : (
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-sm font-semibold text-gray-900 truncate">
+              {column.nome}
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {tasks.length}
+                {hasNextPage && '+'}
+              </span>
+            </h2>
+            <div className="flex flex-shrink-0">
+              <button
+                type="button"
+                onClick={() =>
+                  moveColumn.mutate({ id: column.id, direction: 'left' })
+                }
+                disabled={!previousColumn || moveColumn.isPending}
+                aria-label={t('board.moveColumnLeft', { nome: column.nome })}
+                className={actionClassName}
+              >
+                ←
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  moveColumn.mutate({ id: column.id, direction: 'right' })
+                }
+                disabled={!nextColumn || moveColumn.isPending}
+                aria-label={t('board.moveColumnRight', { nome: column.nome })}
+                className={actionClassName}
+              >
+                →
+              </button>
+              <button
+                type="button"
+                onClick={() => setRenaming(column.nome)}
+                aria-label={t('board.renameColumn', { nome: column.nome })}
+                className={actionClassName}
+              >
+                ✎
+              </button>
+              {!isOnlyColumn && (
+                <button
+                  type="button"
+                  onClick={() => setIsConfirmingDelete(true)}
+                  aria-label={t('board.deleteColumn', { nome: column.nome })}
+                  className={`${actionClassName} hover:text-red-700`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isConfirmingDelete && (
+          <div className="mt-2 p-2 space-y-2 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-xs text-gray-900">{t('board.confirmDelete')}</p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => deleteColumn.mutate({ id: column.id })}
+                disabled={deleteColumn.isPending}
+                className="px-2.5 py-1 text-xs font-medium bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-300"
+              >
+                {deleteColumn.isPending
+                  ? t('common.removing')
+                  : t('common.remove')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsConfirmingDelete(false)}
+                className="px-2.5 py-1 text-xs font-medium bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        )}
+      </header>
+
+      <div
+        ref={listRef}
+        className="flex-1 max-h-[70vh] min-h-[6rem] overflow-y-auto px-3 pb-3 space-y-2"
+      >
+        {otherTasks.length === 0 && dropIndex === null && !dragged && (
+          <p className="py-6 text-xs text-center text-gray-400">
+            {t('board.emptyColumn')}
+          </p>
+        )}
+        {tasks.map((task) => {
+          const index = otherTasks.indexOf(task);
+          return (
+            <div key={task.id} className="space-y-2">
+              {dropIndex !== null && index === dropIndex && dropIndicator}
+              {renderCard(task, tasks.indexOf(task))}
+            </div>
+          );
+        })}
+        {dropIndex !== null && dropIndex === otherTasks.length && dropIndicator}
+
+        <div ref={sentinelRef} aria-hidden="true" />
+        {isFetchingNextPage && (
+          <p className="py-2 text-xs text-center text-gray-500">
+            {t('common.loading')}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,373 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import type { AppRouter } from '@/server/root';
+import { maxBoardColumns } from '@/server/schemas/board.schema';
+import { trpc } from '@/utils/trpc';
+import type { InfiniteData } from '@tanstack/react-query';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useState } from 'react';
+import BoardColumn from './BoardColumn';
+import { positionBetween } from './boardPosition';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Column = RouterOutput['board']['columns'][number];
+type ColumnPage = RouterOutput['board']['tasks'];
+type Task = ColumnPage['tasks'][number];
+
+type Props = {
+  initialColumns: Column[];
+  /** SSR first page of each column, by column id */
+  initialPages: Record<string, ColumnPage>;
+};
+
+const inputClassName =
+  'px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 transition-colors';
+
+/**
+ * Removes a task from a column's loaded pages, and/or inserts one in
+ * position order (pages keep their sizes, except the one that changes)
+ */
+function patchColumnPages<PageParam>(
+  data: InfiniteData<ColumnPage, PageParam> | undefined,
+  { remove, insert }: { remove?: string; insert?: Task }
+) {
+  if (!data) return data;
+
+  let pages = data.pages.map((page) => ({
+    ...page,
+    tasks: page.tasks.filter((task) => task.id !== remove),
+  }));
+
+  if (insert) {
+    // Last loaded page whose first card comes before the inserted one
+    let index = 0;
+    pages.forEach((page, pageIndex) => {
+      if (page.tasks[0] && page.tasks[0].position <= insert.position) {
+        index = pageIndex;
+      }
+    });
+    pages = pages.map((page, pageIndex) =>
+      pageIndex === index
+        ? {
+            ...page,
+            tasks: [...page.tasks, insert].sort(
+              (a, b) =>
+                a.position - b.position ||
+                (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+            ),
+          }
+        : page
+    );
+  }
+
+  return { ...data, pages };
+}
+
+/**
+ * TaskBoard: Kanban view of the tasks (`/board`)
+ *
+ * Implementation decisions:
+ * - One column per user-defined board column; each loads its own pages
+ *   (see BoardColumn), tasks without a column show in the first one
+ * - Drag and drop (HTML5) between and within columns; arrow buttons on
+ *   each card do the same from the keyboard
+ * - A move is `task.update` with the new `boardColumnId` and a fractional
+ *   `position` (`positionBetween` its new neighbors), applied to the
+ *   column caches first and rolled back from a snapshot if it fails
+ *   (e.g. CONFLICT: the task was edited elsewhere)
+ * - When there's no room between the new neighbors, the column is
+ *   rebalanced on the server first and the move uses the new positions
+ * - Cards with a move in flight can't be dragged again until it settles
+ *   (the second move would carry a stale `version`)
+ */
+export default function TaskBoard({ initialColumns, initialPages }: Props) {
+  const [dragged, setDragged] = useState<Task | null>(null);
+  const [movingIds, setMovingIds] = useState<Set<string>>(new Set());
+  const [newColumnNome, setNewColumnNome] = useState('');
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const { data: columns = initialColumns } = trpc.board.columns.useQuery(
+    undefined,
+    { initialData: initialColumns, staleTime: Infinity }
+  );
+
+  const setMoving = (id: string, isMoving: boolean) => {
+    setMovingIds((current) => {
+      const next = new Set(current);
+      if (isMoving) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  /**
+   * Column whose loaded pages contain the task (first column for tasks
+   * without one)
+   */
+  const findTaskColumn = (taskId: string) =>
+    columns.find((column) =>
+      utils.board.tasks
+        .getInfiniteData({ columnId: column.id })
+        ?.pages.some((page) => page.tasks.some((task) => task.id === taskId))
+    );
+
+  const updateTask = trpc.task.update.useMutation({
+    onMutate: async ({ id, boardColumnId, position }) => {
+      setMoving(id, true);
+      await utils.board.tasks.cancel();
+
+      const sourceColumn = findTaskColumn(id);
+      const targetColumnId = boardColumnId ?? columns[0].id;
+      const task = sourceColumn
+        ? utils.board.tasks
+            .getInfiniteData({ columnId: sourceColumn.id })
+            ?.pages.flatMap((page) => page.tasks)
+            .find((item) => item.id === id)
+        : undefined;
+
+      const previousData = [sourceColumn?.id, targetColumnId]
+        .filter((columnId) => columnId !== undefined)
+        .map((columnId) => ({
+          columnId,
+          data: utils.board.tasks.getInfiniteData({ columnId }),
+        }));
+
+      if (sourceColumn) {
+        utils.board.tasks.setInfiniteData(
+          { columnId: sourceColumn.id },
+          (data) => patchColumnPages(data, { remove: id })
+        );
+      }
+      if (task) {
+        utils.board.tasks.setInfiniteData(
+          { columnId: targetColumnId },
+          (data) =>
+            patchColumnPages(data, {
+              insert: {
+                ...task,
+                boardColumnId: targetColumnId,
+                position: position ?? task.position,
+              },
+            })
+        );
+      }
+
+      return { previousData, targetColumnId };
+    },
+    onError: (err, { id }, context) => {
+      context?.previousData.forEach(({ columnId, data }) =>
+        utils.board.tasks.setInfiniteData({ columnId }, data)
+      );
+      setMoving(id, false);
+      showToast(
+        err.data?.code === 'CONFLICT'
+          ? t('board.conflict')
+          : err.message ?? t('board.moveTaskError'),
+        'error'
+      );
+      if (err.data?.code === 'CONFLICT') utils.board.tasks.invalidate();
+    },
+    onSuccess: (updatedTask, _input, context) => {
+      // Server version of the card (new `version` for the next move)
+      utils.board.tasks.setInfiniteData(
+        { columnId: context.targetColumnId },
+        (data) =>
+          patchColumnPages(data, {
+            remove: updatedTask.id,
+            insert: updatedTask,
+          })
+      );
+      setMoving(updatedTask.id, false);
+    },
+  });
+
+  /**
+   * Moves a card to `index` among the other cards of `columnId`
+   * (the moved card itself excluded); no-op when it stays in place
+   */
+  const moveTask = (task: Task, columnId: string, index: number) => {
+    const cards = (
+      utils.board.tasks
+        .getInfiniteData({ columnId })
+        ?.pages.flatMap((page) => page.tasks) ?? []
+    ).filter((card) => card.id !== task.id);
+    const before = cards[index - 1] ?? null;
+    const after = cards[index] ?? null;
+
+    const currentColumnId = findTaskColumn(task.id)?.id;
+    if (currentColumnId === columnId) {
+      const current = cards.findIndex((card) => card.position > task.position);
+      if ((current === -1 ? cards.length : current) === index) return;
+    }
+
+    const position = positionBetween(
+      before?.position ?? null,
+      after?.position ?? null
+    );
+    if (position === null) {
+      moveAfterRebalance(task, columnId, index);
+      return;
+    }
+
+    updateTask.mutate({
+      id: task.id,
+      version: task.version,
+      boardColumnId: columnId,
+      position,
+    });
+  };
+
+  const rebalanceColumn = trpc.board.rebalanceColumn.useMutation({
+    onError: (err) => {
+      showToast(err.message ?? t('board.moveTaskError'), 'error');
+    },
+  });
+
+  /**
+   * `moveTask` into a column whose cards left no room at `index`: the
+   * server spreads the column's positions again (new versions too), the
+   * loaded cards take them and the move is computed from them
+   *
+   * The neighbors are the loaded cards at `index` (as in `moveTask`), their
+   * new positions looked up by id: the column may hold cards the pages
+   * don't, so the server's list can't be indexed the same way
+   *
+   * The column is refetched once the move settles: its page cursors
+   * still point to the old positions
+   */
+  const moveAfterRebalance = (task: Task, columnId: string, index: number) => {
+    rebalanceColumn.mutate(
+      { columnId },
+      {
+        onSuccess: (positions) => {
+          const rebalanced = new Map(
+            positions.map((entry) => [entry.id, entry])
+          );
+          const loaded = (
+            utils.board.tasks
+              .getInfiniteData({ columnId })
+              ?.pages.flatMap((page) => page.tasks) ?? []
+          ).filter((card) => card.id !== task.id);
+          const positionOf = (card: Task | undefined) =>
+            (card && rebalanced.get(card.id)?.position) ?? null;
+          const position = positionBetween(
+            positionOf(loaded[index - 1]),
+            positionOf(loaded[index])
+          );
+
+          utils.board.tasks.setInfiniteData({ columnId }, (data) =>
+            data
+              ? {
+                  ...data,
+                  pages: data.pages.map((page) => ({
+                    ...page,
+                    tasks: page.tasks.map((card) => {
+                      const entry = rebalanced.get(card.id);
+                      return entry ? { ...card, ...entry } : card;
+                    }),
+                  })),
+                }
+              : data
+          );
+
+          if (position === null) {
+            utils.board.tasks.invalidate({ columnId });
+            return;
+          }
+
+          updateTask.mutate(
+            {
+              id: task.id,
+              version: rebalanced.get(task.id)?.version ?? task.version,
+              boardColumnId: columnId,
+              position,
+            },
+            { onSettled: () => utils.board.tasks.invalidate({ columnId }) }
+          );
+        },
+      }
+    );
+  };
+
+  const refreshColumns = () => {
+    utils.board.columns.invalidate();
+  };
+
+  const createColumn = trpc.board.createColumn.useMutation({
+    onSuccess: () => {
+      setNewColumnNome('');
+      refreshColumns();
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('board.createError'), 'error');
+    },
+  });
+
+  const handleCreateColumn = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newColumnNome.trim()) return;
+    createColumn.mutate({ nome: newColumnNome.trim() });
+  };
+
+  return (
+    <div className="flex gap-4 items-start overflow-x-auto pb-4">
+      {columns.map((column, index) => (
+        <BoardColumn
+          key={column.id}
+          column={column}
+          initialData={initialPages[column.id]}
+          previousColumn={columns[index - 1] ?? null}
+          nextColumn={columns[index + 1] ?? null}
+          isOnlyColumn={columns.length === 1}
+          dragged={dragged}
+          movingIds={movingIds}
+          onDragStart={setDragged}
+          onDragEnd={() => setDragged(null)}
+          onMoveTask={moveTask}
+          onColumnsChanged={() => {
+            refreshColumns();
+            // Deleting a column moves its cards to the first one
+            utils.board.tasks.invalidate();
+          }}
+        />
+      ))}
+
+      {columns.length < maxBoardColumns && (
+        <form
+          onSubmit={handleCreateColumn}
+          className="flex-shrink-0 w-72 p-3 space-y-2 bg-gray-100/60 border border-dashed border-gray-300 rounded-xl"
+        >
+          <label
+            htmlFor="nova-coluna"
+            className="block text-sm font-medium text-gray-700"
+          >
+            {t('board.newColumn')}
+          </label>
+          <input
+            id="nova-coluna"
+            value={newColumnNome}
+            onChange={(e) => setNewColumnNome(e.target.value)}
+            maxLength={30}
+            disabled={createColumn.isPending}
+            placeholder={t('board.newColumnPlaceholder')}
+            className={`${inputClassName} w-full`}
+          />
+          <button
+            type="submit"
+            disabled={createColumn.isPending || !newColumnNome.trim()}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {createColumn.isPending
+              ? t('board.creating')
+              : t('board.addColumn')}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * Position of a card dropped between two others (null = no card on that
+ * side), following the fractional `Task.position` scheme; null when there
+ * is no room left between them
+ *
+ * Decisions:
+ * - Between two cards: their midpoint, so no other card has to move
+ * - At the top: one less than the first card
+ * - At the bottom (or in an empty column): after the last card, and never
+ *   before "now" (new tasks start at their creation time), so it also goes
+ *   after cards of pages not loaded yet
+ * - Precision: after halving the same gap ~50 times the midpoint equals
+ *   one of the neighbors; the card would tie with it (and fall back to id
+ *   order), so the caller rebalances the column first
+ *   (`board.rebalanceColumn`) and computes the position again
+ */
+export function positionBetween(before: number | null, after: number | null) {
+  if (before !== null && after !== null) {
+    const middle = (before + after) / 2;
+    return middle === before || middle === after ? null : middle;
+  }
+  if (after !== null) return after - 1;
+  return Math.max(Date.now(), (before ?? 0) + 1);
+}
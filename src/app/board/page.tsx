@@ -0,0 +1,60 @@
+import { getServerI18n } from '@/server/i18n';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import Link from 'next/link';
+import TaskBoard from './TaskBoard';
+
+/**
+ * Board page with SSR: the tasks as cards in the user's columns
+ *
+ * Flow:
+ * 1. Anonymous visitors are redirected to login (back here afterwards)
+ * 2. Server fetches the columns (the default ones are created on the first
+ *    visit) and the first page of each column
+ * 3. TaskBoard hydrates one infinite query per column and handles moves
+ */
+export default async function BoardPage() {
+  const { caller } = await getAuthenticatedServerCaller('/board');
+  const { t } = await getServerI18n();
+
+  const columns = await caller.board.columns();
+  const pages = await Promise.all(
+    columns.map((column) => caller.board.tasks({ columnId: column.id }))
+  );
+  const initialPages = Object.fromEntries(
+    columns.map((column, index) => [column.id, pages[index]])
+  );
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+          >
+            <svg
+              className="w-4 h-4 mr-2"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+            {t('nav.backToList')}
+          </Link>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            {t('board.title')}
+          </h1>
+          <p className="mt-2 text-sm text-gray-600">{t('board.subtitle')}</p>
+        </div>
+
+        <TaskBoard initialColumns={columns} initialPages={initialPages} />
+      </div>
+    </main>
+  );
+}
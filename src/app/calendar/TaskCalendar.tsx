@@ -0,0 +1,463 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { taskPriorityDotStyles } from '@/app/taskPriority';
+import { getWeekdayLabels } from '@/app/taskRecurrence';
+import type { AppRouter } from '@/server/root';
+import { toDateOnly } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import type { InfiniteData } from '@tanstack/react-query';
+import type { inferRouterOutputs } from '@trpc/server';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import {
+  formatCalendarTitle,
+  shiftCalendar,
+  toCalendarSearch,
+  type CalendarParams,
+} from './calendarRange';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Task = RouterOutput['task']['calendar'][number];
+type UndatedPage = RouterOutput['task']['undated'];
+
+type Props = {
+  params: CalendarParams;
+  /** Days of the grid, AAAA-MM-DD (see `toCalendarDays`) */
+  days: string[];
+  /** SSR tasks due within `days` */
+  initialTasks: Task[];
+  /** SSR first page of the undated sidebar */
+  initialUndated: UndatedPage;
+};
+
+const navClassName =
+  'px-3 py-1.5 text-sm font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Task with a new due date in the range cache: moved to its day, or
+ * removed when it leaves the range (kept in due-date order)
+ */
+function patchRangeTasks(
+  tasks: Task[] | undefined,
+  { remove, insert }: { remove?: string; insert?: Task },
+  days: string[]
+) {
+  if (!tasks) return tasks;
+
+  const next = tasks.filter((task) => task.id !== remove);
+  if (insert?.dueDate && days.includes(insert.dueDate)) {
+    const index = next.findIndex((task) => task.dueDate! > insert.dueDate!);
+    next.splice(index === -1 ? next.length : index, 0, insert);
+  }
+  return next;
+}
+
+/**
+ * Removes a task from the loaded sidebar pages, and/or puts one at the top
+ */
+function patchUndatedPages<PageParam>(
+  data: InfiniteData<UndatedPage, PageParam> | undefined,
+  { remove, insert }: { remove?: string; insert?: Task }
+) {
+  if (!data) return data;
+
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => ({
+      ...page,
+      tasks: [
+        ...(insert && index === 0 ? [insert] : []),
+        ...page.tasks.filter((task) => task.id !== remove),
+      ],
+    })),
+  };
+}
+
+/**
+ * TaskCalendar: Tasks on a month/week grid by due date (`/calendar`)
+ *
+ * Implementation decisions:
+ * - The period lives in the URL (prev/next/today/view are links), the
+ *   grid only holds the tasks of the days shown (`task.calendar`)
+ * - Drag and drop (HTML5) reschedules: dropping on a day sets `dueDate`,
+ *   dropping on the undated sidebar clears it; applied to both caches
+ *   first and rolled back from a snapshot if it fails (e.g. a day before
+ *   the task was created, or CONFLICT: edited elsewhere)
+ * - Cards with a change in flight can't be dragged again until it settles
+ *   (the second change would carry a stale `version`)
+ * - Clicking an empty day (today or later) opens the new task form with
+ *   that due date; "+" does the same on days that already have tasks.
+ *   Past days offer neither: the server rejects due dates before creation
+ */
+export default function TaskCalendar({
+  params,
+  days,
+  initialTasks,
+  initialUndated,
+}: Props) {
+  const [dragged, setDragged] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [movingIds, setMovingIds] = useState<Set<string>>(new Set());
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const i18n = useI18n();
+  const { locale, t, formatDate } = i18n;
+
+  const range = { from: days[0], to: days[days.length - 1] };
+  const today = toDateOnly(Date.now());
+  const month = params.date.slice(0, 7);
+
+  const { data: tasks = initialTasks } = trpc.task.calendar.useQuery(range, {
+    initialData: initialTasks,
+    staleTime: Infinity,
+  });
+  const {
+    data: undated,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.task.undated.useInfiniteQuery(
+    {},
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+      initialData: { pages: [initialUndated], pageParams: [undefined] },
+      staleTime: Infinity,
+    }
+  );
+  const undatedTasks = undated?.pages.flatMap((page) => page.tasks) ?? [];
+
+  const tasksByDay = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    tasksByDay.set(task.dueDate!, [
+      ...(tasksByDay.get(task.dueDate!) ?? []),
+      task,
+    ]);
+  });
+
+  const setMoving = (id: string, isMoving: boolean) => {
+    setMovingIds((current) => {
+      const next = new Set(current);
+      if (isMoving) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const updateTask = trpc.task.update.useMutation({
+    onMutate: async ({ id, dueDate }) => {
+      setMoving(id, true);
+      await Promise.all([
+        utils.task.calendar.cancel(range),
+        utils.task.undated.cancel(),
+      ]);
+
+      const previousTasks = utils.task.calendar.getData(range);
+      const previousUndated = utils.task.undated.getInfiniteData({});
+      const task = [
+        ...(previousTasks ?? []),
+        ...(previousUndated?.pages.flatMap((page) => page.tasks) ?? []),
+      ].find((item) => item.id === id);
+
+      if (task) {
+        const moved = { ...task, dueDate: dueDate ?? null };
+        utils.task.calendar.setData(range, (data) =>
+          patchRangeTasks(data, { remove: id, insert: moved }, days)
+        );
+        utils.task.undated.setInfiniteData({}, (data) =>
+          patchUndatedPages(data, {
+            remove: id,
+            insert: moved.dueDate ? undefined : moved,
+          })
+        );
+      }
+
+      return { previousTasks, previousUndated };
+    },
+    onError: (err, { id }, context) => {
+      utils.task.calendar.setData(range, context?.previousTasks);
+      utils.task.undated.setInfiniteData({}, context?.previousUndated);
+      setMoving(id, false);
+      showToast(
+        err.data?.code === 'CONFLICT'
+          ? t('calendar.conflict')
+          : err.message ?? t('calendar.rescheduleError'),
+        'error'
+      );
+      if (err.data?.code === 'CONFLICT') {
+        utils.task.calendar.invalidate();
+        utils.task.undated.invalidate();
+      }
+    },
+    onSuccess: (updatedTask) => {
+      // Server version of the card (new `version` for the next change)
+      utils.task.calendar.setData(range, (data) =>
+        patchRangeTasks(
+          data,
+          { remove: updatedTask.id, insert: updatedTask },
+          days
+        )
+      );
+      utils.task.undated.setInfiniteData({}, (data) =>
+        patchUndatedPages(data, {
+          remove: updatedTask.id,
+          insert: updatedTask.dueDate ? undefined : updatedTask,
+        })
+      );
+      // Other periods and the list still have the old due date (not
+      // refetched now: it could undo another move still in flight)
+      utils.task.calendar.invalidate(undefined, { refetchType: 'none' });
+      utils.task.infiniteList.invalidate();
+      setMoving(updatedTask.id, false);
+    },
+  });
+
+  /**
+   * Sets the due date of the dragged card (`null`: undated); no-op when
+   * it is dropped where it already is
+   */
+  const reschedule = (task: Task, dueDate: string | null) => {
+    if (task.dueDate === dueDate) return;
+    updateTask.mutate({ id: task.id, version: task.version, dueDate });
+  };
+
+  const dropHandlers = (target: string, dueDate: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragged) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        setDropTarget(null);
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragged) reschedule(dragged, dueDate);
+      setDropTarget(null);
+    },
+  });
+
+  const calendarHref = (next: CalendarParams) =>
+    `/calendar?${toCalendarSearch(next)}`;
+  const newTaskHref = (day: string) =>
+    `/tasks/new?${new URLSearchParams({
+      dueDate: day,
+      next: calendarHref(params),
+    })}`;
+
+  const renderCard = (task: Task) => {
+    const isMoving = movingIds.has(task.id);
+
+    return (
+      <li
+        key={task.id}
+        draggable={!isMoving}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', task.id);
+          setDragged(task);
+        }}
+        onDragEnd={() => setDragged(null)}
+        onClick={(e) => e.stopPropagation()}
+        className={`flex items-center gap-1.5 px-2 py-1 bg-white border border-gray-200 rounded-md shadow-sm hover:border-gray-300 ${
+          dragged?.id === task.id ? 'opacity-40' : ''
+        } ${isMoving ? 'cursor-wait' : 'cursor-grab active:cursor-grabbing'}`}
+      >
+        <span
+          className={`flex-shrink-0 w-2 h-2 rounded-full ${
+            taskPriorityDotStyles[task.priority]
+          }`}
+          title={t('priority.label', {
+            priority: t(`priority.${task.priority}`),
+          })}
+          aria-label={t('priority.label', {
+            priority: t(`priority.${task.priority}`),
+          })}
+        />
+        <Link
+          href={`/tasks/${task.id}`}
+          title={task.titulo}
+          className={`text-xs truncate hover:text-blue-700 ${
+            task.status === 'concluida'
+              ? 'text-gray-500 line-through'
+              : task.dueDate && task.dueDate < today
+              ? 'text-red-700 font-medium'
+              : 'text-gray-900 font-medium'
+          }`}
+        >
+          {task.titulo}
+        </Link>
+      </li>
+    );
+  };
+
+  const renderDay = (day: string) => {
+    const dayTasks = tasksByDay.get(day) ?? [];
+    const canCreate = day >= today;
+    const isOtherMonth = params.view === 'month' && !day.startsWith(month);
+
+    return (
+      <div
+        key={day}
+        {...dropHandlers(day, day)}
+        onClick={() => {
+          if (dayTasks.length === 0 && canCreate) {
+            router.push(newTaskHref(day));
+          }
+        }}
+        className={`group flex flex-col gap-1 p-1.5 border-t border-l border-gray-200 ${
+          params.view === 'week' ? 'min-h-[20rem]' : 'min-h-[7rem]'
+        } ${
+          dropTarget === day
+            ? 'bg-blue-50'
+            : isOtherMonth
+            ? 'bg-gray-50'
+            : 'bg-white'
+        } ${dayTasks.length === 0 && canCreate ? 'cursor-pointer' : ''}`}
+      >
+        <div className="flex items-center justify-between">
+          <span
+            className={`inline-flex items-center justify-center w-6 h-6 text-xs rounded-full ${
+              day === today
+                ? 'bg-blue-600 text-white font-semibold'
+                : isOtherMonth
+                ? 'text-gray-400'
+                : 'text-gray-700'
+            }`}
+          >
+            {Number(day.slice(8))}
+          </span>
+          {canCreate && (
+            <Link
+              href={newTaskHref(day)}
+              onClick={(e) => e.stopPropagation()}
+              aria-label={t('calendar.newTaskOn', { date: formatDate(day) })}
+              className="px-1.5 text-sm leading-none text-gray-400 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              +
+            </Link>
+          )}
+        </div>
+        {dayTasks.length > 0 && (
+          <ul className="space-y-1" aria-label={formatDate(day)}>
+            {dayTasks.map(renderCard)}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Link
+              href={calendarHref(shiftCalendar(params, -1))}
+              aria-label={
+                params.view === 'week'
+                  ? t('calendar.previousWeek')
+                  : t('calendar.previousMonth')
+              }
+              className={navClassName}
+            >
+              ←
+            </Link>
+            <Link
+              href={calendarHref({ ...params, date: today })}
+              className={navClassName}
+            >
+              {t('calendar.today')}
+            </Link>
+            <Link
+              href={calendarHref(shiftCalendar(params, 1))}
+              aria-label={
+                params.view === 'week'
+                  ? t('calendar.nextWeek')
+                  : t('calendar.nextMonth')
+              }
+              className={navClassName}
+            >
+              →
+            </Link>
+            <h2 className="ml-2 text-lg font-medium text-gray-900 first-letter:uppercase">
+              {formatCalendarTitle(i18n, params, days)}
+            </h2>
+          </div>
+          <div
+            role="group"
+            aria-label={t('calendar.view')}
+            className="flex gap-1"
+          >
+            {(['month', 'week'] as const).map((view) => (
+              <Link
+                key={view}
+                href={calendarHref({ view, date: params.date })}
+                aria-current={params.view === view ? 'page' : undefined}
+                className={`px-3 py-1.5 text-sm font-medium rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  params.view === view
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {t(`calendar.viewLabel.${view}`)}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 border-r border-b border-gray-200 rounded-xl overflow-hidden shadow-sm">
+          {getWeekdayLabels(locale).map((label) => (
+            <div
+              key={label}
+              className="px-2 py-1.5 text-xs font-medium text-gray-500 bg-gray-100 border-t border-l border-gray-200"
+            >
+              {label}
+            </div>
+          ))}
+          {days.map(renderDay)}
+        </div>
+      </div>
+
+      <aside
+        aria-label={t('calendar.undated')}
+        {...dropHandlers('undated', null)}
+        className={`lg:w-64 flex-shrink-0 p-3 border rounded-xl self-start ${
+          dropTarget === 'undated'
+            ? 'bg-blue-50 border-blue-300'
+            : 'bg-gray-100 border-gray-200'
+        }`}
+      >
+        <h2 className="text-sm font-semibold text-gray-900">
+          {t('calendar.undated')}
+        </h2>
+        <p className="mt-1 mb-3 text-xs text-gray-500">
+          {t('calendar.undatedHint')}
+        </p>
+        {undatedTasks.length === 0 ? (
+          <p className="text-xs text-gray-500">{t('calendar.undatedEmpty')}</p>
+        ) : (
+          <ul className="space-y-1">{undatedTasks.map(renderCard)}</ul>
+        )}
+        {hasNextPage && (
+          <button
+            type="button"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="mt-3 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400 focus:outline-none focus:underline"
+          >
+            {isFetchingNextPage ? t('common.loading') : t('common.loadMore')}
+          </button>
+        )}
+      </aside>
+    </div>
+  );
+}
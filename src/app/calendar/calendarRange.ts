@@ -0,0 +1,88 @@
+import { addDays, toDateOnly } from '@/server/schemas/task.schema';
+import type { I18n } from '@/i18n/translator';
+import type { SearchParams } from '../taskListParams';
+
+/**
+ * Calendar layouts: 6-week month grid or a single week
+ */
+export type CalendarView = 'month' | 'week';
+
+export type CalendarParams = {
+  view: CalendarView;
+  /** Any day of the month/week shown (AAAA-MM-DD) */
+  date: string;
+};
+
+function weekdayOf(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * URL search params (?view=week&date=2026-10-19) -> calendar params
+ * Invalid or missing values fall back to the month of today
+ */
+export function parseCalendarParams(params: SearchParams): CalendarParams {
+  const get = (key: string) => {
+    const value = params[key];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const date = get('date');
+
+  return {
+    view: get('view') === 'week' ? 'week' : 'month',
+    date:
+      date && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date))
+        ? date
+        : toDateOnly(Date.now()),
+  };
+}
+
+export function toCalendarSearch({ view, date }: CalendarParams) {
+  return new URLSearchParams({ view, date }).toString();
+}
+
+/**
+ * Days shown, Sunday first (like the weekday labels)
+ *
+ * Decision: the month grid always has 6 weeks (42 days), so its height
+ * doesn't jump between months; days of the neighboring months are muted
+ */
+export function toCalendarDays({ view, date }: CalendarParams) {
+  const first = view === 'week' ? date : `${date.slice(0, 7)}-01`;
+  const start = addDays(first, -weekdayOf(first));
+  return Array.from({ length: view === 'week' ? 7 : 42 }, (_, index) =>
+    addDays(start, index)
+  );
+}
+
+/**
+ * Params of the previous (`step: -1`) or next (`step: 1`) month/week
+ */
+export function shiftCalendar(
+  { view, date }: CalendarParams,
+  step: number
+): CalendarParams {
+  if (view === 'week') return { view, date: addDays(date, step * 7) };
+
+  const [year, month] = date.split('-').map(Number);
+  return {
+    view,
+    date: new Date(Date.UTC(year, month - 1 + step, 1))
+      .toISOString()
+      .slice(0, 10),
+  };
+}
+
+/**
+ * Title of the period shown ("outubro de 2026", "18/10/2026 – 24/10/2026")
+ */
+export function formatCalendarTitle(
+  { formatDate }: I18n,
+  params: CalendarParams,
+  days: string[]
+) {
+  if (params.view === 'week') {
+    return `${formatDate(days[0])} – ${formatDate(days[6])}`;
+  }
+  return formatDate(params.date, { month: 'long', year: 'numeric' });
+}
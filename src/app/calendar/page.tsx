@@ -0,0 +1,77 @@
+import { getServerI18n } from '@/server/i18n';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import Link from 'next/link';
+import type { SearchParams } from '../taskListParams';
+import {
+  parseCalendarParams,
+  toCalendarDays,
+  toCalendarSearch,
+} from './calendarRange';
+import TaskCalendar from './TaskCalendar';
+
+type PageProps = {
+  searchParams: Promise<SearchParams>;
+};
+
+/**
+ * Calendar page with SSR: tasks on a month/week grid by due date
+ *
+ * Flow:
+ * 1. Anonymous visitors are redirected to login (back here afterwards)
+ * 2. The period comes from the URL (`?view=month|week&date=AAAA-MM-DD`,
+ *    default: this month), so it can be bookmarked and shared
+ * 3. Server fetches the tasks due in the days shown and the first page of
+ *    undated tasks; TaskCalendar hydrates both queries
+ */
+export default async function CalendarPage({ searchParams }: PageProps) {
+  const params = parseCalendarParams(await searchParams);
+  const { caller } = await getAuthenticatedServerCaller(
+    `/calendar?${toCalendarSearch(params)}`
+  );
+
+  const days = toCalendarDays(params);
+  const [tasks, undated, { t }] = await Promise.all([
+    caller.task.calendar({ from: days[0], to: days[days.length - 1] }),
+    caller.task.undated({}),
+    getServerI18n(),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+          >
+            <svg
+              className="w-4 h-4 mr-2"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+            {t('nav.backToList')}
+          </Link>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            {t('calendar.title')}
+          </h1>
+          <p className="mt-2 text-sm text-gray-600">{t('calendar.subtitle')}</p>
+        </div>
+
+        <TaskCalendar
+          params={params}
+          days={days}
+          initialTasks={tasks}
+          initialUndated={undated}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { flattenZodError, type ValidationErrors } from '@/i18n/zodErrors';
+import { useState } from 'react';
+import type { z } from 'zod';
+import { useI18n } from './I18nContext';
+
+/**
+ * What a failed tRPC mutation carries (`err` of `onError`); `zodError` is
+ * set by the server's errorFormatter when the input was invalid
+ */
+type ServerError = {
+  data?: { zodError: ValidationErrors | null } | null;
+};
+
+const noErrors: ValidationErrors = { formErrors: [], fieldErrors: {} };
+
+/**
+ * Field-level validation for a form whose input is checked by `schema`
+ * (the same schema the procedure uses, from `@/server/schemas`)
+ *
+ * Decisions:
+ * - `validate` runs the schema in the browser before submitting, so a
+ *   form never repeats a rule by hand and shows the server's own message
+ *   (`flattenZodError`, in the current locale)
+ * - `setServerErrors` takes the same errors from a rejected mutation
+ *   (`error.data.zodError`), for anything the browser let through
+ * - Errors are per top-level input field; editing a field clears its own
+ *   (`clearField`), the others stay until the next submit
+ */
+export function useFormValidation<Schema extends z.ZodTypeAny>(schema: Schema) {
+  const { locale } = useI18n();
+  const [errors, setErrors] = useState<ValidationErrors>(noErrors);
+
+  type Field = keyof z.input<Schema> & string;
+
+  /**
+   * Whether `input` is valid; otherwise shows its errors
+   */
+  const validate = (input: z.input<Schema>) => {
+    const result = schema.safeParse(input);
+    setErrors(
+      result.success ? noErrors : flattenZodError(locale, result.error)
+    );
+    return result.success;
+  };
+
+  /**
+   * Shows the field errors of a rejected mutation; `false` when it has
+   * none (not a validation error: the form reports `err.message`)
+   */
+  const setServerErrors = (err: ServerError) => {
+    const zodError = err.data?.zodError;
+    if (!zodError) return false;
+    setErrors(zodError);
+    return true;
+  };
+
+  const clearField = (field: Field) => {
+    if (!errors.fieldErrors[field]) return;
+    setErrors((current) => ({
+      ...current,
+      fieldErrors: { ...current.fieldErrors, [field]: undefined },
+    }));
+  };
+
+  /** First error of `field` */
+  const fieldError = (field: Field) => errors.fieldErrors[field]?.[0];
+
+  /**
+   * Accessibility attributes of the input of `field` (its message is
+   * rendered by FieldError with the id `${field}-error`)
+   */
+  const fieldProps = (field: Field) => ({
+    'aria-invalid': fieldError(field) ? true : undefined,
+    'aria-describedby': fieldError(field) ? `${field}-error` : undefined,
+  });
+
+  return {
+    validate,
+    setServerErrors,
+    clearField,
+    fieldError,
+    fieldProps,
+    /** First error about the input as a whole */
+    formError: errors.formErrors[0],
+    reset: () => setErrors(noErrors),
+  };
+}
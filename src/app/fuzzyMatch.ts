@@ -0,0 +1,58 @@
+/**
+ * Fuzzy matching for the command palette
+ *
+ * Decisions:
+ * - Every character of the query must appear in the text, in order
+ *   ("nvtf" finds "Nova tarefa"); case and accents are ignored
+ *   ("edicao" finds "Ir para edição")
+ * - Score favors consecutive characters and word starts, so closer
+ *   matches come first; shorter texts win ties
+ * - Hand-written (a few lines) instead of a search library
+ */
+
+function normalize(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Scores `text` against `query`; `null` when it doesn't match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = normalize(query.trim());
+  const haystack = normalize(text);
+  if (!needle) return 0;
+
+  let score = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, previous + 1);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_/.]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+  }
+  return score - haystack.length / 100;
+}
+
+/**
+ * Items matching `query`, best first (input order for an empty query)
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string
+) {
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter(
+      (result): result is { item: T; score: number } => result.score !== null
+    )
+    .sort((a, b) => (query.trim() ? b.score - a.score : 0))
+    .map((result) => result.item);
+}
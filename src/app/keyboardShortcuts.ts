@@ -0,0 +1,77 @@
+'use client';
+
+import type { MessageKey } from '@/i18n/translator';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Every keyboard shortcut of the app, as listed by the "?" overlay
+ *
+ * Single-key shortcuts are handled where they apply (`useShortcuts`):
+ * j/k/e/x by TaskList and TaskItem, n/? and Ctrl/⌘+K by CommandPalette
+ */
+export const keyboardShortcuts: { keys: string[]; description: MessageKey }[] =
+  [
+    { keys: ['Ctrl/⌘', 'K'], description: 'shortcuts.palette' },
+    { keys: ['j'], description: 'shortcuts.next' },
+    { keys: ['k'], description: 'shortcuts.previous' },
+    { keys: ['e'], description: 'shortcuts.edit' },
+    { keys: ['x'], description: 'shortcuts.delete' },
+    { keys: ['n'], description: 'shortcuts.newTask' },
+    { keys: ['?'], description: 'shortcuts.help' },
+    { keys: ['Esc'], description: 'shortcuts.close' },
+  ];
+
+/**
+ * Keys typed into a field are text, not shortcuts
+ */
+function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+}
+
+/**
+ * Runs `bindings[event.key]` on keydown anywhere on the page
+ *
+ * Decisions:
+ * - Ignored inside form fields and with Ctrl/⌘/Alt held, so typing and the
+ *   browser's own shortcuts are never taken over (Shift is allowed: "?")
+ * - The latest bindings are read from a ref, so callers can pass a new
+ *   object on every render without re-subscribing
+ * - `enabled: false` turns them off (e.g. only the selected task handles x)
+ */
+export function useShortcuts(
+  bindings: Partial<Record<string, () => void>>,
+  enabled = true
+) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        isEditableTarget(event.target)
+      ) {
+        return;
+      }
+
+      const action = bindingsRef.current[event.key];
+      if (!action) return;
+      event.preventDefault();
+      action();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -1,15 +1,29 @@
+import { getSession } from '@/server/auth/session';
+import { getRequestLocale } from '@/server/i18n';
 import './globals.css';
 import { Providers } from './providers';
 
-export default function RootLayout({
+/**
+ * Root layout: the session's user id tells Providers whose offline cache
+ * to restore (none for anonymous visitors); the request's locale sets the
+ * page language and the client translator
+ */
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const [session, locale] = await Promise.all([
+    getSession(),
+    getRequestLocale(),
+  ]);
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body>
-        <Providers>{children}</Providers>
+        <Providers userId={session?.userId ?? null} locale={locale}>
+          {children}
+        </Providers>
       </body>
     </html>
   );
@@ -0,0 +1,138 @@
+'use client';
+
+import { trpc } from '@/utils/trpc';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { useI18n } from '../I18nContext';
+
+type Props = {
+  next: string;
+};
+
+/**
+ * LoginForm: Email/password sign-in
+ *
+ * Implementation:
+ * - Session cookie is set by the `auth.login` response (httpOnly)
+ * - On success, navigates to `next` and refreshes server components
+ *   so SSR pages render with the new session
+ */
+export default function LoginForm({ next }: Props) {
+  const [email, setEmail] = useState('');
+  const [senha, setSenha] = useState('');
+  const [error, setError] = useState('');
+
+  const router = useRouter();
+  const { t } = useI18n();
+
+  const login = trpc.auth.login.useMutation({
+    onSuccess: () => {
+      router.replace(next);
+      router.refresh();
+    },
+    onError: (err) => {
+      setError(err.message ?? t('errors.unexpected'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+
+    if (!email.trim() || !senha) {
+      setError(t('login.missingFields'));
+      return;
+    }
+
+    login.mutate({ email: email.trim(), senha });
+  };
+
+  const isSubmitting = login.isPending;
+
+  return (
+    <div>
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('login.title')}
+        </h1>
+        <p className="mt-2 text-sm text-gray-600">{t('login.subtitle')}</p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl border border-gray-200 shadow-sm p-8"
+      >
+        <div className="space-y-6">
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('auth.email')}
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                if (error) setError('');
+              }}
+              disabled={isSubmitting}
+              className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+              placeholder={t('auth.emailPlaceholder')}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="senha"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('auth.senha')}
+            </label>
+            <input
+              id="senha"
+              type="password"
+              autoComplete="current-password"
+              value={senha}
+              onChange={(e) => {
+                setSenha(e.target.value);
+                if (error) setError('');
+              }}
+              disabled={isSubmitting}
+              className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            />
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-600 text-white py-2.5 px-4 rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {isSubmitting ? t('login.submitting') : t('login.submit')}
+          </button>
+        </div>
+      </form>
+
+      <p className="mt-6 text-center text-sm text-gray-600">
+        {t('login.noAccount')}{' '}
+        <Link
+          href={`/register?next=${encodeURIComponent(next)}`}
+          className="text-blue-600 hover:text-blue-700 hover:underline"
+        >
+          {t('register.submit')}
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { getSafeRedirect } from '@/server/auth/redirect';
+import { getServerCaller } from '@/server/serverCaller';
+import { redirect } from 'next/navigation';
+import LocaleSwitcher from '../LocaleSwitcher';
+import LoginForm from './LoginForm';
+
+type PageProps = {
+  searchParams: Promise<{ next?: string | string[] }>;
+};
+
+/**
+ * Login page
+ *
+ * Flow:
+ * - Already authenticated users skip straight to `next`
+ * - `next` is sanitized on the server before reaching the form (no open redirect)
+ */
+export default async function LoginPage({ searchParams }: PageProps) {
+  const next = getSafeRedirect((await searchParams).next);
+  const caller = await getServerCaller();
+
+  if (await caller.auth.me()) {
+    redirect(next);
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <div className="mb-4 flex justify-end">
+          <LocaleSwitcher />
+        </div>
+        <LoginForm next={next} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import type { Translator } from '@/i18n/translator';
+import type { UpdateTaskInput } from '@/server/schemas/task.schema';
+import type { useRouter } from 'next/navigation';
+import type { useToast } from './ToastContext';
+
+type Router = ReturnType<typeof useRouter>;
+type ShowToast = ReturnType<typeof useToast>['showToast'];
+
+/**
+ * Task updates queued offline that the server rejected with CONFLICT,
+ * by task id, until EditTaskForm resolves them
+ *
+ * Decision: kept in memory (this tab); the latest rejected update of a
+ * task replaces an older one
+ */
+const pendingConflicts = new Map<string, UpdateTaskInput>();
+
+/**
+ * Keeps a conflicting offline update and offers to resolve it: the toast
+ * opens the edit page, where TaskConflictResolver shows it (see
+ * `takeOfflineConflict`)
+ */
+export function reportOfflineConflict(
+  input: UpdateTaskInput,
+  {
+    t,
+    showToast,
+    router,
+  }: { t: Translator; showToast: ShowToast; router: Router }
+) {
+  pendingConflicts.set(input.id, input);
+  showToast(t('offlineSync.conflict'), 'error', {
+    label: t('offlineSync.resolve'),
+    onClick: () => router.push(`/tasks/${input.id}/edit`),
+  });
+}
+
+/**
+ * The conflicting offline update of a task, if any (removed: it is
+ * resolved once)
+ */
+export function takeOfflineConflict(taskId: string) {
+  const input = pendingConflicts.get(taskId) ?? null;
+  pendingConflicts.delete(taskId);
+  return input;
+}
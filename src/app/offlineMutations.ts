@@ -0,0 +1,233 @@
+'use client';
+
+import type { AppRouter } from '@/server/root';
+import { trpc } from '@/utils/trpc';
+import {
+  matchMutation,
+  onlineManager,
+  type Mutation,
+  type QueryClient,
+} from '@tanstack/react-query';
+import type { TRPCLink } from '@trpc/client';
+import { getMutationKey, TRPCClientError } from '@trpc/react-query';
+import type { inferRouterInputs, inferRouterOutputs } from '@trpc/server';
+import { observable } from '@trpc/server/observable';
+
+type RouterInput = inferRouterInputs<AppRouter>;
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type TRPCClient = ReturnType<typeof trpc.createClient>;
+
+/**
+ * Scope of the task writes: React Query runs mutations of one scope one at
+ * a time, in the order they were made (online and when replaying a queue)
+ */
+export const taskMutationScope = 'task-writes';
+
+/** How often the server is probed after a request couldn't reach it */
+const probeInterval = 5000;
+
+let probe: ReturnType<typeof setInterval> | null = null;
+
+/** Input of a queued `task.update` (its mutation's variables) */
+function updateInputOf(mutation: Mutation) {
+  return mutation.state.variables as RouterInput['task']['update'];
+}
+
+/**
+ * Creates the tRPC link chaining the `version` of the task updates queued
+ * while offline
+ *
+ * Decisions:
+ * - Updates queued offline all carry the version cached when they were
+ *   made, so each one after the first would hit a CONFLICT with the one
+ *   before it; their persisted variables keep that version, the one they
+ *   expect
+ * - When a queued update succeeds, the queued updates of the same task
+ *   that expected the version it was sent with are sent with the version
+ *   the server returned instead
+ * - Only queued updates (paused while offline, or restored paused from
+ *   IndexedDB) are chained: an update made online (e.g. from an edit form
+ *   opened before another change) keeps its version, so it still conflicts
+ * - The chained versions belong to this client's mutation cache, keyed by
+ *   mutation: rebuilt as a restored queue replays, dropped once the
+ *   mutation settles
+ */
+export function createTaskVersionLink(
+  queryClient: QueryClient
+): TRPCLink<AppRouter> {
+  const mutationCache = queryClient.getMutationCache();
+  const queued = new WeakSet<Mutation>();
+  const chainedVersions = new WeakMap<Mutation, number>();
+
+  const findQueuedUpdates = (taskId: string) =>
+    mutationCache
+      .findAll({
+        mutationKey: getMutationKey(trpc.task.update),
+        exact: true,
+        status: 'pending',
+      })
+      .filter(
+        (mutation) =>
+          queued.has(mutation) && updateInputOf(mutation).id === taskId
+      );
+
+  mutationCache.subscribe((event) => {
+    const { mutation } = event;
+    if (
+      !mutation ||
+      !matchMutation(
+        { mutationKey: getMutationKey(trpc.task.update), exact: true },
+        mutation
+      )
+    ) {
+      return;
+    }
+
+    if (
+      event.type === 'removed' ||
+      (event.type === 'updated' &&
+        (event.action.type === 'success' || event.action.type === 'error'))
+    ) {
+      queued.delete(mutation);
+      chainedVersions.delete(mutation);
+    } else if (
+      mutation.state.isPaused &&
+      (event.type === 'added' || !onlineManager.isOnline())
+    ) {
+      queued.add(mutation);
+    }
+  });
+
+  return () =>
+    ({ op, next }) => {
+      if (op.path !== 'task.update') return next(op);
+
+      const input = op.input as RouterInput['task']['update'];
+      const mutation = findQueuedUpdates(input.id).find(
+        (queuedUpdate) => updateInputOf(queuedUpdate) === input
+      );
+      if (!mutation) return next(op);
+
+      const version = chainedVersions.get(mutation) ?? input.version;
+
+      return observable((observer) =>
+        next({ ...op, input: { ...input, version } }).subscribe({
+          next: (value) => {
+            if ('data' in value.result) {
+              const updated = value.result
+                .data as RouterOutput['task']['update'];
+              findQueuedUpdates(input.id)
+                .filter(
+                  (later) =>
+                    later !== mutation &&
+                    (chainedVersions.get(later) ??
+                      updateInputOf(later).version) === version
+                )
+                .forEach((later) =>
+                  chainedVersions.set(later, updated.version)
+                );
+            }
+            observer.next(value);
+          },
+          error: (error) => observer.error(error),
+          complete: () => observer.complete(),
+        })
+      );
+    };
+}
+
+/**
+ * The request never got an answer (no connection, server unreachable), as
+ * opposed to an error answered by the server
+ */
+export function isNetworkError(error: unknown) {
+  return (
+    error instanceof TRPCClientError &&
+    !error.data &&
+    error.cause instanceof TypeError
+  );
+}
+
+/**
+ * Switches the app to offline after a failed request
+ *
+ * Decision: the browser's `online` event is not enough on flaky Wi-Fi
+ * (connected, but requests fail), so the server is probed until it answers
+ */
+function markOffline() {
+  onlineManager.setOnline(false);
+  if (probe) return;
+
+  probe = setInterval(async () => {
+    try {
+      await fetch('/favicon.ico', { method: 'HEAD', cache: 'no-store' });
+    } catch {
+      return;
+    }
+    if (probe) clearInterval(probe);
+    probe = null;
+    onlineManager.setOnline(true);
+  }, probeInterval);
+}
+
+/**
+ * Task writes that can't reach the server are retried, i.e. queued
+ *
+ * A network error takes the app offline, which pauses the retry until the
+ * connection is back; errors answered by the server are final
+ */
+function retryWhenUnreachable(_failureCount: number, error: unknown) {
+  if (!isNetworkError(error)) return false;
+  markOffline();
+  return true;
+}
+
+/**
+ * Registers the offline behavior of the task writes (create, update,
+ * status, delete) as mutation defaults; returns the cleanup function
+ *
+ * Decisions:
+ * - While offline (`onlineManager`), React Query pauses these mutations
+ *   after running their `onMutate`, so optimistic updates still apply;
+ *   they resume on reconnect, in order (`taskMutationScope`)
+ * - `mutationFn` is needed for mutations restored from IndexedDB after a
+ *   reload: the component that made them (and its callbacks) is gone
+ * - Starts offline if the browser already knows it is
+ */
+export function registerOfflineMutations(
+  queryClient: QueryClient,
+  trpcClient: TRPCClient
+) {
+  const defaults = {
+    scope: { id: taskMutationScope },
+    retry: retryWhenUnreachable,
+  };
+
+  queryClient.setMutationDefaults(getMutationKey(trpc.task.create), {
+    ...defaults,
+    mutationFn: (input: RouterInput['task']['create']) =>
+      trpcClient.task.create.mutate(input),
+  });
+  queryClient.setMutationDefaults(getMutationKey(trpc.task.update), {
+    ...defaults,
+    mutationFn: (input: RouterInput['task']['update']) =>
+      trpcClient.task.update.mutate(input),
+  });
+  queryClient.setMutationDefaults(getMutationKey(trpc.task.setStatus), {
+    ...defaults,
+    mutationFn: (input: RouterInput['task']['setStatus']) =>
+      trpcClient.task.setStatus.mutate(input),
+  });
+  queryClient.setMutationDefaults(getMutationKey(trpc.task.delete), {
+    ...defaults,
+    mutationFn: (input: RouterInput['task']['delete']) =>
+      trpcClient.task.delete.mutate(input),
+  });
+
+  if (!navigator.onLine) onlineManager.setOnline(false);
+
+  return () => {
+    if (probe) clearInterval(probe);
+    probe = null;
+  };
+}
@@ -1,15 +1,29 @@
-import { getServerCaller } from '@/server/serverCaller';
+import { getServerI18n } from '@/server/i18n';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
 import Link from 'next/link';
+import SyncIndicator from './SyncIndicator';
 import TaskList from './TaskList';
+import {
+  parseTaskListParams,
+  toTaskListSearch,
+  type SearchParams,
+} from './taskListParams';
+import UserMenu from './UserMenu';
+
+type PageProps = {
+  searchParams: Promise<SearchParams>;
+};
 
 /**
  * Home page with Server-Side Rendering (SSR)
  *
  * SSR Flow:
  * 1. Next.js executes this async component on server
- * 2. getServerCaller() creates tRPC caller without HTTP overhead
- * 3. Tasks are fetched directly from store (in-memory, instant)
- * 4. Data is passed to TaskList as initialData prop
+ * 2. getAuthenticatedServerCaller() creates tRPC caller without HTTP overhead
+ *    (anonymous visitors are redirected to /login, returning here afterwards)
+ * 3. Search params are parsed into list filters (search, status, dates, sort)
+ * 4. First filtered page (and the tag list, for chips) is fetched and passed
+ *    to TaskList as initialData props
  * 5. HTML is rendered with tasks already included
  *
  * Benefits:
@@ -23,10 +37,18 @@ import TaskList from './TaskList';
  * - Easy to add authentication/authorization later
  * - Separate pages for create/edit (matches assessment requirements)
  */
-export default async function Home() {
-  const caller = await getServerCaller();
+export default async function Home({ searchParams }: PageProps) {
+  const filters = parseTaskListParams(await searchParams);
+  const search = toTaskListSearch(filters);
+  const { caller, user } = await getAuthenticatedServerCaller(
+    search ? `/?${search}` : '/'
+  );
 
-  const tasks = await caller.task.list();
+  const [firstPage, tags, { t }] = await Promise.all([
+    caller.task.infiniteList(filters),
+    caller.tag.list(),
+    getServerI18n(),
+  ]);
 
   return (
     <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -35,39 +57,71 @@ export default async function Home() {
         <div className="flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">
-              Gerenciador de Tarefas
+              {t('app.title')}
             </h1>
-            <p className="mt-2 text-sm text-gray-600">
-              Organize suas tarefas de forma simples e eficiente
-            </p>
+            <p className="mt-2 text-sm text-gray-600">{t('home.subtitle')}</p>
           </div>
-          <Link
-            href="/tasks/new"
-            className="inline-flex items-center px-4 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200"
-          >
-            <svg
-              className="w-5 h-5 mr-2"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          <div className="flex items-center gap-4">
+            <SyncIndicator />
+            <UserMenu user={user} />
+            <Link
+              href="/board"
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {t('nav.board')}
+            </Link>
+            <Link
+              href="/calendar"
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {t('nav.calendar')}
+            </Link>
+            <Link
+              href="/projects"
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            Nova Tarefa
-          </Link>
+              {t('nav.projects')}
+            </Link>
+            <Link
+              href="/tags"
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {t('nav.tags')}
+            </Link>
+            <Link
+              href="/trash"
+              className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              {t('nav.trash')}
+            </Link>
+            <Link
+              href="/tasks/new"
+              className="inline-flex items-center px-4 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200"
+            >
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              {t('nav.newTask')}
+            </Link>
+          </div>
         </div>
 
-        <TaskList initialData={tasks} />
+        <TaskList initialData={firstPage} filters={filters} tags={tags} />
 
         {/* Footer */}
         <footer className="mt-16 pt-8 border-t border-gray-200 text-center">
           <p className="text-sm text-gray-600">
-            © {new Date().getFullYear()} - Gerenciador de Tarefas
+            © {new Date().getFullYear()} - {t('app.title')}
           </p>
           <p className="mt-2 text-sm text-gray-500">
             <a
@@ -76,7 +130,7 @@ export default async function Home() {
               rel="noopener noreferrer"
               className="text-blue-600 hover:text-blue-700 hover:underline transition-colors"
             >
-              Ver código no GitHub
+              {t('home.sourceCode')}
             </a>
           </p>
         </footer>
@@ -0,0 +1,247 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { trpc } from '@/utils/trpc';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import type { ProjectWithCount } from './ProjectList';
+
+type Props = {
+  project: ProjectWithCount;
+  /** Active projects that can receive this project's tasks on delete */
+  moveTargets: ProjectWithCount[];
+};
+
+/**
+ * ProjectItem: One project with rename, archive and delete
+ *
+ * Decisions:
+ * - Rename is inline (Enter saves, Escape cancels)
+ * - Delete opens an inline panel asking what happens to the tasks:
+ *   move them (to another project or to none) or send them to the trash
+ * - Every mutation invalidates both project and task lists
+ *   (task counts and task projects may change)
+ */
+export default function ProjectItem({ project, moveTargets }: Props) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nome, setNome] = useState(project.nome);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [taskAction, setTaskAction] = useState<'move' | 'delete'>('move');
+  const [targetProjectId, setTargetProjectId] = useState('');
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const refreshLists = () => {
+    utils.project.invalidate();
+    utils.task.infiniteList.invalidate();
+    router.refresh();
+  };
+
+  const rename = trpc.project.rename.useMutation({
+    onSuccess: () => {
+      refreshLists();
+      setIsRenaming(false);
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('projects.renameError'), 'error');
+    },
+  });
+
+  const archive = trpc.project.archive.useMutation({
+    onSuccess: (updated) => {
+      refreshLists();
+      showToast(
+        updated.archivedAt ? t('projects.archived') : t('projects.unarchived'),
+        'success'
+      );
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('projects.archiveError'), 'error');
+    },
+  });
+
+  const deleteProject = trpc.project.delete.useMutation({
+    onSuccess: () => {
+      refreshLists();
+      showToast(
+        taskAction === 'delete'
+          ? t('projects.deletedToTrash')
+          : t('projects.deletedMoved'),
+        'success'
+      );
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('projects.deleteError'), 'error');
+    },
+  });
+
+  const handleRename = () => {
+    if (!nome.trim() || nome.trim() === project.nome) {
+      setNome(project.nome);
+      setIsRenaming(false);
+      return;
+    }
+    rename.mutate({ id: project.id, nome: nome.trim() });
+  };
+
+  const handleConfirmDelete = () => {
+    deleteProject.mutate(
+      taskAction === 'delete'
+        ? { id: project.id, taskAction }
+        : {
+            id: project.id,
+            taskAction,
+            targetProjectId: targetProjectId || null,
+          }
+    );
+  };
+
+  const isArchived = project.archivedAt !== null;
+  const isBusy =
+    rename.isPending || archive.isPending || deleteProject.isPending;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex-1 min-w-0">
+          {isRenaming ? (
+            <input
+              type="text"
+              value={nome}
+              onChange={(e) => setNome(e.target.value)}
+              onBlur={handleRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+                if (e.key === 'Escape') {
+                  setNome(project.nome);
+                  setIsRenaming(false);
+                }
+              }}
+              aria-label={t('projects.name')}
+              maxLength={60}
+              disabled={rename.isPending}
+              autoFocus
+              className="w-full px-3 py-1.5 text-lg text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <Link
+                href={`/projects/${project.id}`}
+                className="text-lg font-medium text-gray-900 hover:text-blue-700 truncate"
+              >
+                {project.nome}
+              </Link>
+              {isArchived && (
+                <span className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-amber-50 text-amber-700">
+                  {t('projects.archivedBadge')}
+                </span>
+              )}
+            </div>
+          )}
+          <p className="mt-1 text-sm text-gray-500">
+            {t('projects.taskCount', { count: project.taskCount })}
+          </p>
+        </div>
+
+        {!isConfirmingDelete && !isRenaming && (
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={() => setIsRenaming(true)}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('projects.rename')}
+            </button>
+            <button
+              onClick={() =>
+                archive.mutate({ id: project.id, archived: !isArchived })
+              }
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {isArchived ? t('projects.unarchive') : t('projects.archive')}
+            </button>
+            <button
+              onClick={() => setIsConfirmingDelete(true)}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-red-50 text-red-700 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('common.remove')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isConfirmingDelete && (
+        <div className="mt-5 pt-5 border-t border-gray-200">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-4">
+            <p className="text-sm font-medium text-gray-900">
+              {t('projects.confirmDelete', { nome: project.nome })}
+            </p>
+
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`taskAction-${project.id}`}
+                  checked={taskAction === 'move'}
+                  onChange={() => setTaskAction('move')}
+                />
+                {t('projects.moveTo')}
+                <select
+                  value={targetProjectId}
+                  onChange={(e) => {
+                    setTargetProjectId(e.target.value);
+                    setTaskAction('move');
+                  }}
+                  aria-label={t('projects.target')}
+                  className="px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">{t('taskForm.noProject')}</option>
+                  {moveTargets.map((target) => (
+                    <option key={target.id} value={target.id}>
+                      {target.nome}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`taskAction-${project.id}`}
+                  checked={taskAction === 'delete'}
+                  onChange={() => setTaskAction('delete')}
+                />
+                {t('projects.trashTasks')}
+              </label>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleConfirmDelete}
+                disabled={isBusy}
+                className="px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {deleteProject.isPending
+                  ? t('common.removing')
+                  : t('projects.delete')}
+              </button>
+              <button
+                onClick={() => setIsConfirmingDelete(false)}
+                disabled={isBusy}
+                className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import type { AppRouter } from '@/server/root';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import Link from 'next/link';
+import { useState } from 'react';
+import ProjectItem from './ProjectItem';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+export type ProjectWithCount = RouterOutput['project']['list'][number];
+
+type Props = {
+  initialData: ProjectWithCount[];
+};
+
+/**
+ * ProjectList: All projects of the user + inline creation form
+ *
+ * Implementation decisions:
+ * - Query input `{ includeArchived: true }` matches the SSR call (same cache key)
+ * - Mutations invalidate `project.list` (every variant: pickers included)
+ *   instead of patching, since task counts may change too
+ * - Archived projects are listed after the active ones
+ */
+export default function ProjectList({ initialData }: Props) {
+  const [nome, setNome] = useState('');
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const { data: projects } = trpc.project.list.useQuery(
+    { includeArchived: true },
+    { initialData, staleTime: Infinity }
+  );
+
+  const createProject = trpc.project.create.useMutation({
+    onSuccess: (project) => {
+      utils.project.list.invalidate();
+      setNome('');
+      showToast(t('projects.created', { nome: project.nome }), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('projects.createError'), 'error');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!nome.trim()) return;
+
+    createProject.mutate({ nome: nome.trim() });
+  };
+
+  const activeProjects = projects.filter((project) => !project.archivedAt);
+  const archivedProjects = projects.filter((project) => project.archivedAt);
+
+  return (
+    <div>
+      {/* Header with back button */}
+      <div className="mb-8">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <svg
+            className="w-4 h-4 mr-2"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+          {t('nav.backToList')}
+        </Link>
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('nav.projects')}
+        </h1>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 mb-6 flex gap-3"
+      >
+        <input
+          type="text"
+          value={nome}
+          onChange={(e) => setNome(e.target.value)}
+          placeholder={t('projects.newName')}
+          aria-label={t('projects.newName')}
+          maxLength={60}
+          disabled={createProject.isPending}
+          className="flex-1 px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        />
+        <button
+          type="submit"
+          disabled={createProject.isPending || !nome.trim()}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {createProject.isPending
+            ? t('projects.creating')
+            : t('projects.create')}
+        </button>
+      </form>
+
+      {projects.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">
+            {t('projects.empty')}
+          </h3>
+          <p className="text-sm text-gray-500">{t('projects.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {[...activeProjects, ...archivedProjects].map((project) => (
+            <ProjectItem
+              key={project.id}
+              project={project}
+              moveTargets={activeProjects.filter((p) => p.id !== project.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
+import { getServerI18n } from '@/server/i18n';
 import Link from 'next/link';
 
-export default function NotFound() {
+export default async function NotFound() {
+  const { t } = await getServerI18n();
+
   return (
     <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-2xl mx-auto text-center">
@@ -21,13 +24,13 @@ export default function NotFound() {
             </svg>
           </div>
           <h1 className="text-2xl font-semibold text-gray-900 mb-2">
-            Tarefa não encontrada
+            {t('notFound.project')}
           </h1>
           <p className="text-sm text-gray-600 mb-6">
-            A tarefa que você está tentando editar não existe ou foi removida.
+            {t('notFound.projectHint')}
           </p>
           <Link
-            href="/"
+            href="/projects"
             className="inline-flex items-center px-4 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200"
           >
             <svg
@@ -43,7 +46,7 @@ export default function NotFound() {
                 d="M15 19l-7-7 7-7"
               />
             </svg>
-            Voltar para lista
+            {t('nav.backToProjects')}
           </Link>
         </div>
       </div>
@@ -0,0 +1,98 @@
+import TaskList from '@/app/TaskList';
+import {
+  parseTaskListParams,
+  toTaskListSearch,
+  type SearchParams,
+} from '@/app/taskListParams';
+import { getServerI18n } from '@/server/i18n';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<SearchParams>;
+};
+
+/**
+ * Project page: the home task list scoped to one project
+ *
+ * Same SSR flow as the home page (filters from the URL, first page as
+ * initialData); the project id comes from the route and is passed to
+ * TaskList separately, so the filter bar works unchanged
+ */
+export default async function ProjectPage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const filters = parseTaskListParams(await searchParams);
+  const search = toTaskListSearch(filters);
+  const { caller } = await getAuthenticatedServerCaller(
+    search ? `/projects/${id}?${search}` : `/projects/${id}`
+  );
+
+  const project = await caller.project.getById({ id });
+
+  if (!project) {
+    notFound();
+  }
+
+  const [firstPage, tags, { t }] = await Promise.all([
+    caller.task.infiniteList({ ...filters, projectId: project.id }),
+    caller.tag.list(),
+    getServerI18n(),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div>
+          <Link
+            href="/projects"
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+          >
+            <svg
+              className="w-4 h-4 mr-2"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+            {t('nav.backToProjects')}
+          </Link>
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                {project.nome}
+              </h1>
+              {project.archivedAt && (
+                <p className="mt-2 text-sm text-amber-700">
+                  {t('projects.archivedHint')}
+                </p>
+              )}
+            </div>
+            {!project.archivedAt && (
+              <Link
+                href={`/tasks/new?projectId=${project.id}`}
+                className="inline-flex items-center px-4 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200"
+              >
+                {t('nav.newTask')}
+              </Link>
+            )}
+          </div>
+        </div>
+
+        <TaskList
+          initialData={firstPage}
+          filters={filters}
+          projectId={project.id}
+          tags={tags}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import ProjectList from './ProjectList';
+
+/**
+ * Projects page: create, rename, archive and delete projects
+ *
+ * Server fetches every project (archived included) with its task count,
+ * ProjectList hydrates React Query with it as initialData
+ */
+export default async function ProjectsPage() {
+  const { caller } = await getAuthenticatedServerCaller('/projects');
+
+  const projects = await caller.project.list({ includeArchived: true });
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <ProjectList initialData={projects} />
+      </div>
+    </main>
+  );
+}
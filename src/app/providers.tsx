@@ -2,8 +2,17 @@
 
 import { trpc } from '@/utils/trpc';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { httpBatchLink } from '@trpc/client';
-import { useState } from 'react';
+import { httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client';
+import { useEffect, useState } from 'react';
+import type { Locale } from '@/i18n/locales';
+import { CommandPaletteProvider } from './CommandPalette';
+import { I18nProvider } from './I18nContext';
+import {
+  createTaskVersionLink,
+  registerOfflineMutations,
+} from './offlineMutations';
+import OfflineSync from './OfflineSync';
+import { usePersistedQueryCache } from './queryCachePersistence';
 import { ToastProvider } from './ToastContext';
 
 /**
@@ -22,8 +31,29 @@ import { ToastProvider } from './ToastContext';
  * Performance optimizations:
  * - httpBatchLink: Multiple tRPC calls in same tick = single HTTP request
  * - refetchOnWindowFocus: false to avoid unnecessary refetches (we use optimistic updates)
+ * - Changes made elsewhere (other tabs/users) arrive via `task.onChange` (SSE)
+ *
+ * Offline-first:
+ * - The cache of the logged-in user (`userId`, from the session) is kept in
+ *   IndexedDB and restored on the next visit (see queryCachePersistence)
+ * - Task writes made offline are queued and replayed in order when the
+ *   connection is back (see offlineMutations, OfflineSync)
+ *
+ * Language: I18nProvider gives every client component the request's
+ * locale (`locale`, from the layout)
+ *
+ * Keyboard: CommandPaletteProvider adds Ctrl/⌘+K and the global shortcuts
+ * (logged-in users only)
  */
-export function Providers({ children }: { children: React.ReactNode }) {
+export function Providers({
+  children,
+  userId,
+  locale,
+}: {
+  children: React.ReactNode;
+  userId: string | null;
+  locale: Locale;
+}) {
   /**
    * QueryClient instance
    *
@@ -46,7 +76,11 @@ export function Providers({ children }: { children: React.ReactNode }) {
    * tRPC client instance
    *
    * Configuration:
+   * - createTaskVersionLink: sends consecutive task updates queued offline
+   *   with the version the previous one got (see offlineMutations)
+   * - splitLink: subscriptions go through SSE, everything else is batched
    * - httpBatchLink: Batches multiple calls within 10ms into single HTTP request
+   * - httpSubscriptionLink: EventSource on the same route (reconnects automatically)
    * - url: Points to Next.js API route handler at /api/trpc
    *
    * Batching example:
@@ -57,17 +91,38 @@ export function Providers({ children }: { children: React.ReactNode }) {
   const [trpcClient] = useState(() =>
     trpc.createClient({
       links: [
-        httpBatchLink({
-          url: '/api/trpc',
+        createTaskVersionLink(queryClient),
+        splitLink({
+          condition: (op) => op.type === 'subscription',
+          true: httpSubscriptionLink({
+            url: '/api/trpc',
+          }),
+          false: httpBatchLink({
+            url: '/api/trpc',
+          }),
         }),
       ],
     })
   );
 
+  // Registered before the cache is restored: resumed mutations need them
+  useEffect(
+    () => registerOfflineMutations(queryClient, trpcClient),
+    [queryClient, trpcClient]
+  );
+  usePersistedQueryCache(queryClient, userId);
+
   return (
     <trpc.Provider client={trpcClient} queryClient={queryClient}>
       <QueryClientProvider client={queryClient}>
-        <ToastProvider>{children}</ToastProvider>
+        <I18nProvider locale={locale}>
+          <ToastProvider>
+            <OfflineSync />
+            <CommandPaletteProvider isEnabled={userId !== null}>
+              {children}
+            </CommandPaletteProvider>
+          </ToastProvider>
+        </I18nProvider>
       </QueryClientProvider>
     </trpc.Provider>
   );
@@ -0,0 +1,204 @@
+'use client';
+
+import {
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { useEffect } from 'react';
+
+const databaseName = 'task-manager';
+const storeName = 'query-cache';
+
+/** Bump when cached data shapes change: older snapshots are discarded */
+const cacheBuster = '1';
+
+/** Cached queries older than this are not restored (queued mutations are) */
+const maxAge = 24 * 60 * 60 * 1000;
+
+/** Writes are batched: at most one snapshot per interval */
+const persistInterval = 1000;
+
+type PersistedCache = {
+  buster: string;
+  savedAt: number;
+  state: DehydratedState;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(storeName);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+}
+
+/**
+ * Runs one request against the cache store and resolves once its
+ * transaction has completed
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * One snapshot per user: a shared browser never restores someone else's
+ * tasks or replays their queued changes
+ */
+function toCacheKey(userId: string) {
+  return `query-client:${userId}`;
+}
+
+/**
+ * Snapshot of the cache: successful queries and paused (queued) mutations
+ *
+ * Decision: errors are left out of mutation states, they may hold values
+ * IndexedDB can't store (e.g. a fetch `Response`) and a replay starts over
+ */
+function toPersistedCache(queryClient: QueryClient): PersistedCache {
+  const state = dehydrate(queryClient, {
+    shouldDehydrateMutation: (mutation) => mutation.state.isPaused,
+  });
+
+  return {
+    buster: cacheBuster,
+    savedAt: Date.now(),
+    state: {
+      ...state,
+      mutations: state.mutations.map((mutation) => ({
+        ...mutation,
+        state: { ...mutation.state, error: null, failureReason: null },
+      })),
+    },
+  };
+}
+
+/**
+ * Restores the snapshot saved for `userId` into the cache
+ *
+ * Decisions:
+ * - Queries already in the cache (seeded by SSR) are newer and win; the
+ *   restored ones are marked stale, so they are refetched when used online
+ *   and only serve as a fallback while offline
+ * - Restored mutations are still paused; the caller resumes them
+ */
+async function restoreQueryCache(queryClient: QueryClient, userId: string) {
+  const saved = await withStore<PersistedCache | undefined>(
+    'readonly',
+    (store) => store.get(toCacheKey(userId))
+  );
+  if (!saved || saved.buster !== cacheBuster) return;
+
+  const queryCache = queryClient.getQueryCache();
+  const queries =
+    Date.now() - saved.savedAt < maxAge
+      ? saved.state.queries.filter(
+          (query) =>
+            !queryCache.find({ queryKey: query.queryKey, exact: true })?.state
+              .data
+        )
+      : [];
+
+  hydrate(queryClient, { queries, mutations: saved.state.mutations });
+  queries.forEach((query) =>
+    queryClient.invalidateQueries({
+      queryKey: query.queryKey,
+      exact: true,
+      refetchType: 'none',
+    })
+  );
+}
+
+/**
+ * Saves a snapshot of the cache whenever queries or mutations change
+ * (batched); returns the unsubscribe function
+ */
+function subscribeToQueryCache(queryClient: QueryClient, userId: string) {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = () => {
+    timeout ??= setTimeout(() => {
+      timeout = null;
+      withStore('readwrite', (store) =>
+        store.put(toPersistedCache(queryClient), toCacheKey(userId))
+      ).catch(() => {
+        // Private mode or quota exceeded: the app works without the copy
+      });
+    }, persistInterval);
+  };
+
+  const unsubscribeQueries = queryClient.getQueryCache().subscribe(schedule);
+  const unsubscribeMutations = queryClient
+    .getMutationCache()
+    .subscribe(schedule);
+
+  return () => {
+    unsubscribeQueries();
+    unsubscribeMutations();
+    if (timeout) clearTimeout(timeout);
+  };
+}
+
+/**
+ * Deletes every saved snapshot (logout)
+ */
+export async function clearPersistedQueryCache() {
+  await withStore('readwrite', (store) => store.clear()).catch(() => {});
+}
+
+/**
+ * Keeps the React Query cache of the logged-in user in IndexedDB
+ *
+ * Flow:
+ * 1. On mount (or when the user changes), restores the user's snapshot
+ * 2. Resumes the mutations queued in a previous visit (when online)
+ * 3. From then on, saves a snapshot after every change
+ *
+ * Anonymous visitors (`userId: null`) get nothing restored or saved
+ */
+export function usePersistedQueryCache(
+  queryClient: QueryClient,
+  userId: string | null
+) {
+  useEffect(() => {
+    if (!userId || typeof indexedDB === 'undefined') return;
+
+    let isCancelled = false;
+    let unsubscribe = () => {};
+
+    restoreQueryCache(queryClient, userId)
+      .catch(() => {
+        // Unreadable snapshot: start from the SSR data only
+      })
+      .finally(() => {
+        if (isCancelled) return;
+        unsubscribe = subscribeToQueryCache(queryClient, userId);
+        queryClient.resumePausedMutations();
+      });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [queryClient, userId]);
+}
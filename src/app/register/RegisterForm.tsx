@@ -0,0 +1,145 @@
+'use client';
+
+import { trpc } from '@/utils/trpc';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { useI18n } from '../I18nContext';
+
+type Props = {
+  next: string;
+};
+
+/**
+ * RegisterForm: Account creation
+ *
+ * Implementation:
+ * - `auth.register` creates the user and starts the session in one call
+ * - Client checks only required fields; password rules live in `registerSchema`
+ */
+export default function RegisterForm({ next }: Props) {
+  const [nome, setNome] = useState('');
+  const [email, setEmail] = useState('');
+  const [senha, setSenha] = useState('');
+  const [error, setError] = useState('');
+
+  const router = useRouter();
+  const { t } = useI18n();
+
+  const register = trpc.auth.register.useMutation({
+    onSuccess: () => {
+      router.replace(next);
+      router.refresh();
+    },
+    onError: (err) => {
+      setError(err.message ?? t('errors.unexpected'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+
+    if (!nome.trim() || !email.trim() || !senha) {
+      setError(t('register.missingFields'));
+      return;
+    }
+
+    register.mutate({ nome: nome.trim(), email: email.trim(), senha });
+  };
+
+  const isSubmitting = register.isPending;
+
+  const fields = [
+    {
+      id: 'nome',
+      label: t('auth.nome'),
+      type: 'text',
+      autoComplete: 'name',
+      value: nome,
+      onChange: setNome,
+    },
+    {
+      id: 'email',
+      label: t('auth.email'),
+      type: 'email',
+      autoComplete: 'email',
+      value: email,
+      onChange: setEmail,
+    },
+    {
+      id: 'senha',
+      label: t('register.senhaHint', { minimum: 8 }),
+      type: 'password',
+      autoComplete: 'new-password',
+      value: senha,
+      onChange: setSenha,
+    },
+  ];
+
+  return (
+    <div>
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('register.title')}
+        </h1>
+        <p className="mt-2 text-sm text-gray-600">{t('register.subtitle')}</p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl border border-gray-200 shadow-sm p-8"
+      >
+        <div className="space-y-6">
+          {fields.map((field, index) => (
+            <div key={field.id}>
+              <label
+                htmlFor={field.id}
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                {field.label}
+              </label>
+              <input
+                id={field.id}
+                type={field.type}
+                autoComplete={field.autoComplete}
+                value={field.value}
+                onChange={(e) => {
+                  field.onChange(e.target.value);
+                  if (error) setError('');
+                }}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-600 text-white py-2.5 px-4 rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {isSubmitting ? t('register.submitting') : t('register.submit')}
+          </button>
+        </div>
+      </form>
+
+      <p className="mt-6 text-center text-sm text-gray-600">
+        {t('register.hasAccount')}{' '}
+        <Link
+          href={`/login?next=${encodeURIComponent(next)}`}
+          className="text-blue-600 hover:text-blue-700 hover:underline"
+        >
+          {t('login.submit')}
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { getSafeRedirect } from '@/server/auth/redirect';
+import { getServerCaller } from '@/server/serverCaller';
+import { redirect } from 'next/navigation';
+import LocaleSwitcher from '../LocaleSwitcher';
+import RegisterForm from './RegisterForm';
+
+type PageProps = {
+  searchParams: Promise<{ next?: string | string[] }>;
+};
+
+/**
+ * Registration page (same redirect rules as the login page)
+ */
+export default async function RegisterPage({ searchParams }: PageProps) {
+  const next = getSafeRedirect((await searchParams).next);
+  const caller = await getServerCaller();
+
+  if (await caller.auth.me()) {
+    redirect(next);
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <div className="mb-4 flex justify-end">
+          <LocaleSwitcher />
+        </div>
+        <RegisterForm next={next} />
+      </div>
+    </main>
+  );
+}
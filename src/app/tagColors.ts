@@ -0,0 +1,19 @@
+import type { TagColor } from '@/server/schemas/tag.schema';
+
+/**
+ * Chip classes per tag color (labels: `t(`tagColor.${cor}`)`)
+ *
+ * Decision: the server only stores palette names, so colors stay
+ * consistent with the Tailwind theme (and class names are never built
+ * dynamically, which Tailwind's purge would miss)
+ */
+export const tagChipStyles: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-700',
+  red: 'bg-red-50 text-red-700',
+  orange: 'bg-orange-50 text-orange-700',
+  yellow: 'bg-yellow-50 text-yellow-800',
+  green: 'bg-green-50 text-green-700',
+  blue: 'bg-blue-50 text-blue-700',
+  purple: 'bg-purple-50 text-purple-700',
+  pink: 'bg-pink-50 text-pink-700',
+};
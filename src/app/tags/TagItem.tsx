@@ -0,0 +1,241 @@
+'use client';
+
+import TagChip from '@/app/TagChip';
+import type { TagWithCount } from '@/app/TagInput';
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { tagColorSchema, type TagColor } from '@/server/schemas/tag.schema';
+import { trpc } from '@/utils/trpc';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+type Props = {
+  tag: TagWithCount;
+  /** Other tags this one can be merged into */
+  mergeTargets: TagWithCount[];
+};
+
+/**
+ * TagItem: One tag with rename, color, merge and delete
+ *
+ * Decisions:
+ * - Rename is inline (Enter saves, Escape cancels), color saves on change
+ * - Merge and delete ask for confirmation inline, since both rewrite every
+ *   task carrying the tag and can't be undone
+ * - Every mutation invalidates both tag and task lists
+ *   (chips and task counts may change)
+ */
+export default function TagItem({ tag, mergeTargets }: Props) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nome, setNome] = useState(tag.nome);
+  const [pendingAction, setPendingAction] = useState<'merge' | 'delete' | null>(
+    null
+  );
+  const [targetId, setTargetId] = useState('');
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const refreshLists = () => {
+    utils.tag.list.invalidate();
+    utils.task.infiniteList.invalidate();
+    router.refresh();
+  };
+
+  const update = trpc.tag.update.useMutation({
+    onSuccess: () => {
+      refreshLists();
+      setIsRenaming(false);
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('tags.updateError'), 'error');
+    },
+  });
+
+  const merge = trpc.tag.merge.useMutation({
+    onSuccess: ({ tag: target }) => {
+      refreshLists();
+      showToast(
+        t('tags.merged', { nome: tag.nome, target: target.nome }),
+        'success'
+      );
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('tags.mergeError'), 'error');
+    },
+  });
+
+  const deleteTag = trpc.tag.delete.useMutation({
+    onSuccess: () => {
+      refreshLists();
+      showToast(t('tags.deleted', { nome: tag.nome }), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('tags.deleteError'), 'error');
+    },
+  });
+
+  const handleRename = () => {
+    if (!nome.trim() || nome.trim() === tag.nome) {
+      setNome(tag.nome);
+      setIsRenaming(false);
+      return;
+    }
+    update.mutate({ id: tag.id, nome: nome.trim() });
+  };
+
+  const handleConfirm = () => {
+    if (pendingAction === 'merge') {
+      if (!targetId) return;
+      merge.mutate({ sourceId: tag.id, targetId });
+    } else {
+      deleteTag.mutate({ id: tag.id });
+    }
+  };
+
+  const isBusy = update.isPending || merge.isPending || deleteTag.isPending;
+  const taskCountLabel = t('projects.taskCount', { count: tag.taskCount });
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex-1 min-w-0">
+          {isRenaming ? (
+            <input
+              type="text"
+              value={nome}
+              onChange={(e) => setNome(e.target.value)}
+              onBlur={handleRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+                if (e.key === 'Escape') {
+                  setNome(tag.nome);
+                  setIsRenaming(false);
+                }
+              }}
+              aria-label={t('tags.name')}
+              maxLength={30}
+              disabled={update.isPending}
+              autoFocus
+              className="w-full px-3 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+            />
+          ) : (
+            <div className="flex items-center gap-3">
+              <TagChip nome={tag.nome} cor={tag.cor} />
+              <Link
+                href={`/?tags=${tag.id}`}
+                className="text-sm text-gray-500 hover:text-blue-700"
+              >
+                {taskCountLabel}
+              </Link>
+            </div>
+          )}
+        </div>
+
+        {!pendingAction && !isRenaming && (
+          <div className="flex gap-2 flex-shrink-0">
+            <select
+              value={tag.cor}
+              onChange={(e) =>
+                update.mutate({ id: tag.id, cor: e.target.value as TagColor })
+              }
+              aria-label={t('tags.color', { nome: tag.nome })}
+              disabled={isBusy}
+              className="px-2 py-1.5 text-xs text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {tagColorSchema.options.map((color) => (
+                <option key={color} value={color}>
+                  {t(`tagColor.${color}`)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsRenaming(true)}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('projects.rename')}
+            </button>
+            {mergeTargets.length > 0 && (
+              <button
+                onClick={() => setPendingAction('merge')}
+                disabled={isBusy}
+                className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {t('tags.merge')}
+              </button>
+            )}
+            <button
+              onClick={() => setPendingAction('delete')}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-red-50 text-red-700 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('common.remove')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {pendingAction && (
+        <div className="mt-5 pt-5 border-t border-gray-200">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-4">
+            {pendingAction === 'merge' ? (
+              <label className="flex flex-wrap items-center gap-2 text-sm font-medium text-gray-900">
+                {t('tags.mergeInto', { nome: tag.nome })}
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  aria-label={t('tags.target')}
+                  className="px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">{t('tags.chooseTarget')}</option>
+                  {mergeTargets.map((target) => (
+                    <option key={target.id} value={target.id}>
+                      {target.nome}
+                    </option>
+                  ))}
+                </select>
+                <span className="font-normal text-gray-700">
+                  {t('tags.mergeHint', { tasks: taskCountLabel })}
+                </span>
+              </label>
+            ) : (
+              <p className="text-sm font-medium text-gray-900">
+                {t('tags.confirmDelete', {
+                  nome: tag.nome,
+                  tasks: taskCountLabel,
+                })}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleConfirm}
+                disabled={isBusy || (pendingAction === 'merge' && !targetId)}
+                className="px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {pendingAction === 'merge'
+                  ? merge.isPending
+                    ? t('tags.merging')
+                    : t('tags.mergeSubmit')
+                  : deleteTag.isPending
+                  ? t('common.removing')
+                  : t('tags.delete')}
+              </button>
+              <button
+                onClick={() => setPendingAction(null)}
+                disabled={isBusy}
+                className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import type { TagWithCount } from '@/app/TagInput';
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { tagColorSchema, type TagColor } from '@/server/schemas/tag.schema';
+import { trpc } from '@/utils/trpc';
+import Link from 'next/link';
+import { useState } from 'react';
+import TagItem from './TagItem';
+
+type Props = {
+  initialData: TagWithCount[];
+};
+
+/**
+ * TagList: All tags of the user + inline creation form
+ *
+ * Implementation decisions:
+ * - Same `tag.list` cache as TagInput and TaskFilters, so changes made here
+ *   show up in pickers and chips without a reload
+ * - Mutations invalidate instead of patching, since task counts may change too
+ */
+export default function TagList({ initialData }: Props) {
+  const [nome, setNome] = useState('');
+  const [cor, setCor] = useState<TagColor>('gray');
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const { data: tags } = trpc.tag.list.useQuery(undefined, {
+    initialData,
+    staleTime: Infinity,
+  });
+
+  const createTag = trpc.tag.create.useMutation({
+    onSuccess: (tag) => {
+      utils.tag.list.invalidate();
+      setNome('');
+      showToast(t('tags.created', { nome: tag.nome }), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('tags.createError'), 'error');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!nome.trim()) return;
+
+    createTag.mutate({ nome: nome.trim(), cor });
+  };
+
+  return (
+    <div>
+      {/* Header with back button */}
+      <div className="mb-8">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <svg
+            className="w-4 h-4 mr-2"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+          {t('nav.backToList')}
+        </Link>
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('nav.tags')}
+        </h1>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 mb-6 flex gap-3"
+      >
+        <input
+          type="text"
+          value={nome}
+          onChange={(e) => setNome(e.target.value)}
+          placeholder={t('tags.newName')}
+          aria-label={t('tags.newName')}
+          maxLength={30}
+          disabled={createTag.isPending}
+          className="flex-1 px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        />
+        <select
+          value={cor}
+          onChange={(e) => setCor(e.target.value as TagColor)}
+          aria-label={t('tags.newColor')}
+          disabled={createTag.isPending}
+          className="px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        >
+          {tagColorSchema.options.map((color) => (
+            <option key={color} value={color}>
+              {t(`tagColor.${color}`)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={createTag.isPending || !nome.trim()}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {createTag.isPending ? t('tags.creating') : t('tags.create')}
+        </button>
+      </form>
+
+      {tags.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">
+            {t('tags.empty')}
+          </h3>
+          <p className="text-sm text-gray-500">{t('tags.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {tags.map((tag) => (
+            <TagItem
+              key={tag.id}
+              tag={tag}
+              mergeTargets={tags.filter((other) => other.id !== tag.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import TagList from './TagList';
+
+/**
+ * Tags page: create, rename, recolor, merge and delete tags
+ *
+ * Server fetches every tag with its task count,
+ * TagList hydrates React Query with it as initialData
+ */
+export default async function TagsPage() {
+  const { caller } = await getAuthenticatedServerCaller('/tags');
+
+  const tags = await caller.tag.list();
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <TagList initialData={tags} />
+      </div>
+    </main>
+  );
+}
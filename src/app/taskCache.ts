@@ -0,0 +1,210 @@
+'use client';
+
+import type { AppRouter } from '@/server/root';
+import {
+  toDateOnly,
+  type CreateTaskInput,
+  type TaskListFilters,
+} from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import {
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
+import { getQueryKey } from '@trpc/react-query';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useMemo } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type TaskPage = RouterOutput['task']['infiniteList'];
+type Task = TaskPage['tasks'][number];
+
+/**
+ * A change to apply to the cached task lists (same shape as the
+ * `task.onChange` events)
+ */
+export type TaskCacheChange =
+  | { type: 'created' | 'updated'; task: Task }
+  | { type: 'deleted'; task: Pick<Task, 'id'> };
+
+/**
+ * Cached task lists as they were before an optimistic change
+ */
+export type TaskCacheSnapshot = [QueryKey, unknown][];
+
+/**
+ * Applies one change to a list of tasks (`task.list` data, or a page):
+ * removes, replaces or (for `created`, newest first) prepends it
+ */
+function applyToList(tasks: Task[], change: TaskCacheChange) {
+  const { task } = change;
+  if (change.type === 'deleted') return tasks.filter((t) => t.id !== task.id);
+  if (change.type === 'created' && !tasks.some((t) => t.id === task.id)) {
+    return [change.task, ...tasks];
+  }
+  return tasks.map((t) => (t.id === task.id ? change.task : t));
+}
+
+/**
+ * Applies one change to a cached infinite list
+ *
+ * Returns `undefined` when the list can't be patched locally and must be
+ * refetched (a new task in a filtered/re-sorted list, or an older task
+ * restored from the trash: only the server knows where it belongs)
+ */
+function applyToPages(
+  data: InfiniteData<TaskPage>,
+  change: TaskCacheChange,
+  input: TaskListFilters
+): InfiniteData<TaskPage> | undefined {
+  const isLoaded = data.pages.some((page) =>
+    page.tasks.some((t) => t.id === change.task.id)
+  );
+
+  // Already loaded (e.g. the optimistic version): replaced below
+  if (change.type === 'created' && !isLoaded) {
+    const { task } = change;
+
+    // Default view is newest first: a brand-new task always goes on top
+    const [firstPage, ...rest] = data.pages;
+    const newest = firstPage.tasks[0];
+    if (
+      Object.keys(input).length > 0 ||
+      (newest && task.dataCriacao < newest.dataCriacao)
+    ) {
+      return undefined;
+    }
+
+    return {
+      ...data,
+      pages: [{ ...firstPage, tasks: [task, ...firstPage.tasks] }, ...rest],
+    };
+  }
+
+  if (!isLoaded) return data;
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      tasks: applyToList(page.tasks, change),
+    })),
+  };
+}
+
+/**
+ * Applies a task change to every cached task list: all loaded pages of
+ * each `task.infiniteList` (one per filter combination) and `task.list`
+ *
+ * Lists that can't be patched are refetched (only when they are on
+ * screen; otherwise the next time they are)
+ */
+export function applyTaskChange(
+  queryClient: QueryClient,
+  change: TaskCacheChange
+) {
+  queryClient
+    .getQueriesData<InfiniteData<TaskPage>>({
+      queryKey: getQueryKey(trpc.task.infiniteList),
+    })
+    .forEach(([key, data]) => {
+      if (!data?.pages?.length) return;
+
+      const input = (key[1] as { input?: TaskListFilters })?.input ?? {};
+      const next = applyToPages(data, change, input);
+
+      if (next) {
+        queryClient.setQueryData(key, next);
+      } else {
+        queryClient.invalidateQueries({ queryKey: key, exact: true });
+      }
+    });
+
+  queryClient.setQueriesData<Task[]>(
+    { queryKey: getQueryKey(trpc.task.list) },
+    (tasks) => tasks && applyToList(tasks, change)
+  );
+}
+
+/**
+ * Task shown while its create is on the way (or queued offline)
+ *
+ * Decision: mirrors the defaults of the server (`toNewTask`) with the
+ * client-generated id; the server's version replaces it once it answers
+ * (`ownerId` is unknown here and not displayed)
+ */
+export function toOptimisticTask(input: CreateTaskInput & { id: string }) {
+  const dataCriacao = Date.now();
+  const task: Task = {
+    id: input.id,
+    titulo: input.titulo,
+    descricao: input.descricao ?? null,
+    dataCriacao,
+    status: 'pendente',
+    completedAt: null,
+    ownerId: '',
+    deletedAt: null,
+    dueDate:
+      input.dueDate ?? (input.recurrence ? toDateOnly(dataCriacao) : null),
+    priority: input.priority ?? 'media',
+    projectId: input.projectId ?? null,
+    tagIds: Array.from(new Set(input.tagIds ?? [])),
+    checklist: [],
+    checklistAutoComplete: false,
+    series: null,
+    boardColumnId: null,
+    position: dataCriacao,
+    version: 1,
+  };
+  return task;
+}
+
+/**
+ * Optimistic updates of the cached task lists, shared by the forms and
+ * TaskItem
+ *
+ * Usage in a mutation:
+ * - onMutate: `const snapshot = await taskCache.snapshot()`, then
+ *   `insert`/`update`/`remove` the optimistic task; return `{ snapshot }`
+ * - onError: `taskCache.restore(context.snapshot)`
+ * - onSuccess: `insert`/`update` again with the server's task
+ *
+ * Decision: patching every loaded page replaces `infiniteList.invalidate()`
+ * + `router.refresh()`, which refetched (and re-delayed) every page
+ */
+export function useTaskCache() {
+  const queryClient = useQueryClient();
+
+  return useMemo(() => {
+    const keys = [
+      getQueryKey(trpc.task.infiniteList),
+      getQueryKey(trpc.task.list),
+    ];
+
+    return {
+      /**
+       * Cancels in-flight list fetches (they would overwrite the optimistic
+       * change) and returns the cached lists for `restore`
+       */
+      snapshot: async (): Promise<TaskCacheSnapshot> => {
+        await Promise.all(
+          keys.map((queryKey) => queryClient.cancelQueries({ queryKey }))
+        );
+        return keys.flatMap((queryKey) =>
+          queryClient.getQueriesData({ queryKey })
+        );
+      },
+      restore: (snapshot: TaskCacheSnapshot | undefined) => {
+        snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      },
+      insert: (task: Task) =>
+        applyTaskChange(queryClient, { type: 'created', task }),
+      update: (task: Task) =>
+        applyTaskChange(queryClient, { type: 'updated', task }),
+      remove: (id: string) =>
+        applyTaskChange(queryClient, { type: 'deleted', task: { id } }),
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,63 @@
+import type { I18n } from '@/i18n/translator';
+import { toDateOnly, type TaskStatus } from '@/server/schemas/task.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DueDateTone = 'overdue' | 'soon' | 'normal' | 'done';
+
+/**
+ * AAAA-MM-DD -> local midnight (avoids `new Date(string)`, which parses as UTC)
+ */
+function parseDateOnly(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Relative label for a due date ("vence amanhã", "atrasada há 2 dias")
+ *
+ * Decisions:
+ * - Computed in calendar days of the viewer's time zone, like `dueDate` itself
+ * - Completed/archived tasks are never overdue: they only show the date
+ * - "soon" = due today or tomorrow, highlighted before it becomes overdue
+ * - Texts and dates in the viewer's language (`i18n`)
+ */
+export function getDueDateLabel(
+  { t, formatDate }: I18n,
+  dueDate: string,
+  status: TaskStatus,
+  now = Date.now()
+): { label: string; tone: DueDateTone } {
+  if (status === 'concluida' || status === 'arquivada') {
+    return {
+      label: t('dueDate.done', { date: formatDate(dueDate) }),
+      tone: 'done',
+    };
+  }
+
+  const today = parseDateOnly(toDateOnly(now));
+  const days = Math.round(
+    (parseDateOnly(dueDate).getTime() - today.getTime()) / DAY_MS
+  );
+
+  if (days < 0) {
+    return { label: t('dueDate.overdue', { count: -days }), tone: 'overdue' };
+  }
+  if (days === 0) return { label: t('dueDate.today'), tone: 'soon' };
+  if (days === 1) return { label: t('dueDate.tomorrow'), tone: 'soon' };
+  if (days < 7) {
+    return { label: t('dueDate.inDays', { count: days }), tone: 'normal' };
+  }
+
+  return {
+    label: t('dueDate.on', { date: formatDate(dueDate) }),
+    tone: 'normal',
+  };
+}
+
+export const dueDateToneStyles: Record<DueDateTone, string> = {
+  overdue: 'bg-red-50 text-red-700',
+  soon: 'bg-amber-50 text-amber-700',
+  normal: 'bg-gray-100 text-gray-600',
+  done: 'bg-gray-100 text-gray-500',
+};
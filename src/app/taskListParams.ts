@@ -0,0 +1,74 @@
+import {
+  taskListFiltersSchema,
+  type TaskListFilters,
+} from '@/server/schemas/task.schema';
+import { z } from 'zod';
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Lenient version of the filters schema for URL input
+ * Invalid values are dropped (field by field) instead of failing the page
+ */
+const { shape } = taskListFiltersSchema;
+const searchParamsSchema = z.object({
+  query: shape.query.catch(undefined),
+  status: shape.status.catch(undefined),
+  createdFrom: shape.createdFrom.catch(undefined),
+  createdTo: shape.createdTo.catch(undefined),
+  sortBy: shape.sortBy.catch(undefined),
+  sortDirection: shape.sortDirection.catch(undefined),
+  tags: shape.tags.catch(undefined),
+  tagMode: shape.tagMode.catch(undefined),
+});
+
+/**
+ * URL search params -> list filters
+ *
+ * Short keys (?q=&status=&from=&to=&sort=&dir=&tags=&tagMode=) keep URLs
+ * readable and shareable
+ * Used by the SSR page and the client filter bar, so both build the same
+ * query input (and therefore the same React Query cache key)
+ */
+export function parseTaskListParams(params: SearchParams): TaskListFilters {
+  const get = (key: string) => {
+    const value = params[key];
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  };
+
+  const filters = searchParamsSchema.parse({
+    query: get('q'),
+    status: get('status')?.split(','),
+    createdFrom: get('from'),
+    createdTo: get('to'),
+    sortBy: get('sort'),
+    sortDirection: get('dir'),
+    tags: get('tags')?.split(','),
+    tagMode: get('tagMode'),
+  });
+
+  // Drop empty values so equivalent URLs produce identical inputs
+  return Object.fromEntries(
+    Object.entries(filters).filter(
+      ([, value]) => value !== undefined && value !== ''
+    )
+  ) as TaskListFilters;
+}
+
+/**
+ * List filters -> URL search string (without leading "?")
+ */
+export function toTaskListSearch(filters: TaskListFilters) {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set('q', filters.query);
+  if (filters.status?.length) params.set('status', filters.status.join(','));
+  if (filters.createdFrom) params.set('from', filters.createdFrom);
+  if (filters.createdTo) params.set('to', filters.createdTo);
+  if (filters.sortBy) params.set('sort', filters.sortBy);
+  if (filters.sortDirection) params.set('dir', filters.sortDirection);
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+  if (filters.tagMode) params.set('tagMode', filters.tagMode);
+
+  return params.toString();
+}
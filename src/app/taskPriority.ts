@@ -0,0 +1,15 @@
+import type { TaskPriority } from '@/server/schemas/task.schema';
+
+/**
+ * Markers per task priority (labels: `t(`priority.${priority}`)`)
+ *
+ * Decision: kept outside components since TaskItem (marker) and the
+ * create/edit forms (select) render priorities
+ */
+
+/** Colored dot shown next to the title */
+export const taskPriorityDotStyles: Record<TaskPriority, string> = {
+  baixa: 'bg-gray-300',
+  media: 'bg-yellow-400',
+  alta: 'bg-red-500',
+};
@@ -0,0 +1,98 @@
+import type { Locale } from '@/i18n/locales';
+import type { I18n } from '@/i18n/translator';
+import type {
+  RecurrenceFrequency,
+  TaskRecurrence,
+} from '@/server/schemas/task.schema';
+
+/**
+ * Texts of recurrence rules (`recurrence.*` messages)
+ *
+ * Decision: kept outside components since TaskItem (badge) and the
+ * create/edit forms (RecurrenceInput) render rules
+ */
+
+/**
+ * Weekday abbreviations in `locale`, indexed like
+ * `TaskRecurrence['weekdays']` (0 = Sunday)
+ *
+ * Decision: from Intl (2023-01-01 was a Sunday) instead of the catalog
+ */
+export function getWeekdayLabels(locale: Locale) {
+  const format = new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    timeZone: 'UTC',
+  });
+  return Array.from({ length: 7 }, (_, weekday) =>
+    format.format(new Date(Date.UTC(2023, 0, 1 + weekday))).replace('.', '')
+  );
+}
+
+/**
+ * Short description of a rule ("A cada 2 semanas (seg, qua), 5 vezes")
+ */
+export function describeRecurrence(
+  { locale, t, formatDate }: I18n,
+  rule: TaskRecurrence
+) {
+  let label =
+    rule.interval === 1
+      ? t(`recurrence.every.${rule.frequency}`)
+      : t('recurrence.everyInterval', {
+          count: rule.interval,
+          unit: t(`recurrence.unit.${rule.frequency}`, {
+            count: rule.interval,
+          }),
+        });
+
+  if (rule.frequency === 'weekly') {
+    const weekdayLabels = getWeekdayLabels(locale);
+    const days = [...rule.weekdays]
+      .sort()
+      .map((weekday) => weekdayLabels[weekday].toLowerCase());
+    label += ` (${days.join(', ')})`;
+  }
+  if (rule.endsOn) {
+    label += t('recurrence.until', { date: formatDate(rule.endsOn) });
+  }
+  if (rule.count) label += t('recurrence.times', { count: rule.count });
+
+  return label;
+}
+
+/**
+ * Rule offered when a frequency is picked: every 1 day/week/month, weekly
+ * on the weekday of `startDate`, never ending
+ */
+export function toDefaultRecurrence(
+  frequency: RecurrenceFrequency,
+  startDate: string
+): TaskRecurrence {
+  return {
+    frequency,
+    interval: 1,
+    weekdays:
+      frequency === 'weekly'
+        ? [new Date(`${startDate}T00:00:00Z`).getUTCDay()]
+        : [],
+    endsOn: null,
+    count: null,
+  };
+}
+
+/**
+ * Same rule? (forms only send `recurrence` when it changed)
+ */
+export function isSameRecurrence(
+  a: TaskRecurrence | null,
+  b: TaskRecurrence | null
+) {
+  if (!a || !b) return a === b;
+  return (
+    a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    [...a.weekdays].sort().join() === [...b.weekdays].sort().join() &&
+    a.endsOn === b.endsOn &&
+    a.count === b.count
+  );
+}
@@ -0,0 +1,14 @@
+import type { TaskStatus } from '@/server/schemas/task.schema';
+
+/**
+ * Pill colors per task status (labels: `t(`status.${status}`)`)
+ *
+ * Decision: kept outside components since both TaskItem (pill)
+ * and TaskFilters (status filter) render statuses
+ */
+export const taskStatusStyles: Record<TaskStatus, string> = {
+  pendente: 'bg-gray-100 text-gray-700',
+  em_andamento: 'bg-blue-50 text-blue-700',
+  concluida: 'bg-green-50 text-green-700',
+  arquivada: 'bg-amber-50 text-amber-700',
+};
@@ -0,0 +1,278 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import type { I18n } from '@/i18n/translator';
+import type { AppRouter } from '@/server/root';
+import {
+  attachmentAccept,
+  isImageMimeType,
+  maxAttachmentSize,
+  maxAttachmentsPerTask,
+  toAttachmentMimeType,
+} from '@/server/schemas/attachment.schema';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useRef, useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Attachment = RouterOutput['attachment']['list'][number];
+
+type Props = {
+  taskId: string;
+  /** SSR attachment list (seeds the query) */
+  initialData: Attachment[];
+};
+
+/**
+ * File size in the largest fitting unit ("1,5 MB" / "1.5 MB")
+ */
+function formatFileSize(formatNumber: I18n['formatNumber'], size: number) {
+  if (size < 1024) return `${size} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = size / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${formatNumber(value, { maximumFractionDigits: 1 })} ${units[unit]}`;
+}
+
+/**
+ * Client-side copy of the server limits, so an obviously invalid file is
+ * reported without uploading it
+ */
+function validateFile({ t, formatNumber }: I18n, file: File) {
+  if (file.size === 0) return t('attachments.emptyFile', { nome: file.name });
+  if (file.size > maxAttachmentSize) {
+    return t('attachments.tooLarge', {
+      nome: file.name,
+      size: formatFileSize(formatNumber, maxAttachmentSize),
+    });
+  }
+  if (!toAttachmentMimeType(file.name, file.type)) {
+    return t('errors.attachmentTypeNotAccepted', { nome: file.name });
+  }
+  return null;
+}
+
+/**
+ * TaskAttachments: Files section of the task detail page
+ *
+ * Implementation decisions:
+ * - Uploads go to the multipart route (`POST /api/attachments`) with
+ *   `fetch`, one file at a time; the list is refetched afterwards
+ * - Images show a preview: the original file, served inline and scaled
+ *   down by CSS (no thumbnail is generated), so it is loaded lazily and
+ *   with fixed dimensions; every name links to the download route
+ * - Deleting asks for confirmation, like comments
+ */
+export default function TaskAttachments({ taskId, initialData }: Props) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const i18n = useI18n();
+  const { t, formatNumber, formatDateTime } = i18n;
+
+  const { data: attachments = [] } = trpc.attachment.list.useQuery(
+    { taskId },
+    { initialData, staleTime: Infinity }
+  );
+
+  const deleteAttachment = trpc.attachment.delete.useMutation({
+    onSuccess: () => {
+      setConfirmingDeleteId(null);
+      utils.attachment.list.invalidate({ taskId });
+      showToast(t('attachments.deleted'), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('attachments.deleteError'), 'error');
+    },
+  });
+
+  const handleFilesSelected = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (attachments.length + files.length > maxAttachmentsPerTask) {
+      showToast(
+        t('errors.attachmentTooMany', { max: maxAttachmentsPerTask }),
+        'error'
+      );
+      return;
+    }
+
+    setIsUploading(true);
+    let uploaded = 0;
+    for (const file of files) {
+      const error = validateFile(i18n, file);
+      if (error) {
+        showToast(error, 'error');
+        continue;
+      }
+
+      const body = new FormData();
+      body.append('taskId', taskId);
+      body.append('file', file);
+      const response = await fetch('/api/attachments', {
+        method: 'POST',
+        body,
+      }).catch(() => null);
+
+      if (response?.ok) {
+        uploaded++;
+      } else {
+        const message = response ? await response.text() : '';
+        showToast(
+          message || t('attachments.uploadError', { nome: file.name }),
+          'error'
+        );
+      }
+    }
+    setIsUploading(false);
+
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (uploaded > 0) {
+      utils.attachment.list.invalidate({ taskId });
+      showToast(t('attachments.uploaded', { count: uploaded }), 'success');
+    }
+  };
+
+  return (
+    <section
+      id="anexos"
+      className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 mt-6"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-medium text-gray-900">
+          {t('attachments.title')}
+          {attachments.length > 0 && (
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              ({attachments.length}/{maxAttachmentsPerTask})
+            </span>
+          )}
+        </h2>
+        <label
+          className={`px-4 py-2 text-sm font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus-within:ring-2 focus-within:ring-gray-400 focus-within:ring-offset-2 transition-all duration-200 ${
+            isUploading ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'
+          }`}
+        >
+          {isUploading ? t('common.sending') : t('attachments.add')}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={attachmentAccept}
+            disabled={isUploading}
+            onChange={(e) =>
+              handleFilesSelected(Array.from(e.target.files ?? []))
+            }
+            className="sr-only"
+          />
+        </label>
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {t('attachments.empty', {
+            size: formatFileSize(formatNumber, maxAttachmentSize),
+          })}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {attachments.map((attachment) => {
+            const downloadUrl = `/api/attachments/${attachment.id}`;
+            const isConfirmingDelete = confirmingDeleteId === attachment.id;
+
+            return (
+              <li
+                key={attachment.id}
+                className="flex flex-wrap items-center gap-4 py-3 first:pt-0 last:pb-0"
+              >
+                {isImageMimeType(attachment.mimeType) ? (
+                  <a href={`${downloadUrl}?inline=1`} target="_blank">
+                    {/* eslint-disable-next-line @next/next/no-img-element -- private file, not optimizable by next/image */}
+                    <img
+                      src={`${downloadUrl}?inline=1`}
+                      alt={attachment.nome}
+                      loading="lazy"
+                      width={64}
+                      height={64}
+                      className="w-16 h-16 object-cover rounded-lg border border-gray-200 bg-gray-50"
+                    />
+                  </a>
+                ) : (
+                  <span
+                    className="flex items-center justify-center w-16 h-16 text-xs font-medium uppercase text-gray-500 rounded-lg border border-gray-200 bg-gray-50"
+                    aria-hidden="true"
+                  >
+                    {attachment.nome.split('.').pop()?.slice(0, 4) ||
+                      t('attachments.fileFallback')}
+                  </span>
+                )}
+
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={downloadUrl}
+                    className="block text-sm font-medium text-blue-600 hover:text-blue-700 truncate"
+                  >
+                    {attachment.nome}
+                  </a>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(formatNumber, attachment.size)} ·{' '}
+                    <span
+                      // Formatted in the viewer's time zone
+                      suppressHydrationWarning
+                    >
+                      {formatDateTime(attachment.dataCriacao)}
+                    </span>
+                  </p>
+                </div>
+
+                {isConfirmingDelete ? (
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        deleteAttachment.mutate({ id: attachment.id })
+                      }
+                      disabled={deleteAttachment.isPending}
+                      className="px-3 py-1.5 text-xs font-medium bg-red-600 text-white rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      {deleteAttachment.isPending
+                        ? t('common.removing')
+                        : t('common.remove')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingDeleteId(null)}
+                      disabled={deleteAttachment.isPending}
+                      className="px-3 py-1.5 text-xs font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200"
+                    >
+                      {t('common.cancel')}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingDeleteId(attachment.id)}
+                    aria-label={t('attachments.remove', {
+                      nome: attachment.nome,
+                    })}
+                    className="text-xs font-medium text-red-600 hover:text-red-700 focus:outline-none focus:underline"
+                  >
+                    {t('common.remove')}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
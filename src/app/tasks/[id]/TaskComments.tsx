@@ -0,0 +1,288 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import Markdown from '@/app/Markdown';
+import { useToast } from '@/app/ToastContext';
+import type { AppRouter } from '@/server/root';
+import { maxComentarioLength } from '@/server/schemas/comment.schema';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type CommentPage = RouterOutput['comment']['list'];
+type Comment = CommentPage['comments'][number];
+
+type Props = {
+  taskId: string;
+  /** SSR first page of the thread (seeds the infinite query) */
+  initialData: CommentPage;
+};
+
+const textareaClassName =
+  'w-full px-4 py-2.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed resize-y transition-colors';
+
+/**
+ * TaskComments: Discussion thread of the task detail page
+ *
+ * Implementation decisions:
+ * - Oldest comment first, like a conversation; older pages are not
+ *   needed to read the newest, so more are loaded on demand
+ * - Comments are Markdown, rendered like task descriptions
+ * - Only the author can edit/delete (`isOwn`, decided by the
+ *   server, which enforces it too); deleting asks for confirmation
+ * - Every write refetches the loaded pages and the list badges
+ *   (`comment.counts`) instead of patching the cache
+ * - Ctrl/Cmd+Enter sends the comment being written
+ */
+export default function TaskComments({ taskId, initialData }: Props) {
+  const [texto, setTexto] = useState('');
+  const [editing, setEditing] = useState<{ id: string; texto: string } | null>(
+    null
+  );
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+    null
+  );
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t, formatDateTime } = useI18n();
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.comment.list.useInfiniteQuery(
+      { taskId },
+      {
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        initialData: { pages: [initialData], pageParams: [undefined] },
+        staleTime: Infinity,
+      }
+    );
+  const comments = data?.pages.flatMap((page) => page.comments) ?? [];
+
+  const refresh = () => {
+    utils.comment.list.invalidate({ taskId });
+    utils.comment.counts.invalidate();
+  };
+
+  const addComment = trpc.comment.add.useMutation({
+    onSuccess: () => {
+      setTexto('');
+      refresh();
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('comments.addError'), 'error');
+    },
+  });
+
+  const updateComment = trpc.comment.update.useMutation({
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('comments.updateError'), 'error');
+    },
+  });
+
+  const deleteComment = trpc.comment.delete.useMutation({
+    onSuccess: () => {
+      setConfirmingDeleteId(null);
+      refresh();
+      showToast(t('comments.deleted'), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('comments.deleteError'), 'error');
+    },
+  });
+
+  const handleSubmit = (e?: React.FormEvent<HTMLFormElement>) => {
+    e?.preventDefault();
+    if (!texto.trim() || addComment.isPending) return;
+    addComment.mutate({ taskId, texto: texto.trim() });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing || !editing.texto.trim()) return;
+    updateComment.mutate({ id: editing.id, texto: editing.texto.trim() });
+  };
+
+  const renderComment = (comment: Comment) => {
+    const isEditing = editing?.id === comment.id;
+    const isConfirmingDelete = confirmingDeleteId === comment.id;
+
+    return (
+      <li key={comment.id} className="py-4 first:pt-0">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm">
+            <span className="font-medium text-gray-900">
+              {comment.author?.nome ?? t('comments.authorRemoved')}
+            </span>
+            <span
+              // Formatted in the viewer's time zone
+              suppressHydrationWarning
+              className="ml-2 text-xs text-gray-500"
+            >
+              {formatDateTime(comment.dataCriacao)}
+              {comment.editedAt && ` ${t('comments.edited')}`}
+            </span>
+          </p>
+          {comment.isOwn && !isEditing && !isConfirmingDelete && (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() =>
+                  setEditing({ id: comment.id, texto: comment.texto })
+                }
+                className="text-xs font-medium text-gray-600 hover:text-gray-900 focus:outline-none focus:underline"
+              >
+                {t('common.edit')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setConfirmingDeleteId(comment.id)}
+                className="text-xs font-medium text-red-600 hover:text-red-700 focus:outline-none focus:underline"
+              >
+                {t('common.remove')}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="mt-2 space-y-2">
+            <textarea
+              value={editing.texto}
+              onChange={(e) =>
+                setEditing({ id: comment.id, texto: e.target.value })
+              }
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                  handleSaveEdit();
+                }
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              rows={3}
+              maxLength={maxComentarioLength}
+              disabled={updateComment.isPending}
+              aria-label={t('comments.editLabel')}
+              className={textareaClassName}
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleSaveEdit}
+                disabled={updateComment.isPending || !editing.texto.trim()}
+                className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {updateComment.isPending
+                  ? t('common.saving')
+                  : t('common.save')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                disabled={updateComment.isPending}
+                className="px-3 py-1.5 text-xs font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <Markdown
+            source={comment.texto}
+            className="mt-1 text-sm text-gray-700 leading-relaxed"
+          />
+        )}
+
+        {isConfirmingDelete && (
+          <div className="mt-3 flex flex-wrap items-center gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-gray-900">
+              {t('comments.confirmDelete')}
+            </p>
+            <button
+              type="button"
+              onClick={() => deleteComment.mutate({ id: comment.id })}
+              disabled={deleteComment.isPending}
+              className="px-3 py-1.5 text-xs font-medium bg-red-600 text-white rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {deleteComment.isPending
+                ? t('common.removing')
+                : t('common.confirm')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirmingDeleteId(null)}
+              disabled={deleteComment.isPending}
+              className="px-3 py-1.5 text-xs font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section
+      id="comentarios"
+      className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 mt-6"
+    >
+      <h2 className="text-lg font-medium text-gray-900 mb-4">
+        {t('comments.title')}
+      </h2>
+
+      {comments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">{t('comments.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-6">
+          {comments.map(renderComment)}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <button
+          type="button"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="mb-6 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400 focus:outline-none focus:underline"
+        >
+          {isFetchingNextPage ? t('common.loading') : t('comments.loadMore')}
+        </button>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <label htmlFor="novo-comentario" className="sr-only">
+          {t('comments.new')}
+        </label>
+        <textarea
+          id="novo-comentario"
+          value={texto}
+          onChange={(e) => setTexto(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSubmit();
+          }}
+          rows={3}
+          maxLength={maxComentarioLength}
+          disabled={addComment.isPending}
+          placeholder={t('comments.placeholder')}
+          className={textareaClassName}
+        />
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-xs text-gray-500">
+            {texto.length}/{maxComentarioLength}
+          </span>
+          <button
+            type="submit"
+            disabled={addComment.isPending || !texto.trim()}
+            className="px-5 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {addComment.isPending ? t('common.sending') : t('comments.submit')}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
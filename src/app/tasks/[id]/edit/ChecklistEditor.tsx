@@ -0,0 +1,359 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { AppRouter } from '@/server/root';
+import { maxChecklistItems } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import { inferRouterOutputs } from '@trpc/server';
+import { useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Task = RouterOutput['task']['list'][number];
+type ChecklistItem = Task['checklist'][number];
+
+type Props = {
+  task: Task;
+};
+
+/**
+ * ChecklistEditor: Editable checklist of a task (edit page)
+ *
+ * Implementation decisions:
+ * - Saved immediately through `task.checklist.*` (not with the form's
+ *   "Salvar" button): each change is small and independent
+ * - Server response replaces the local list, so ids and auto-completion
+ *   always reflect the stored task
+ * - Toggle and reorder are optimistic, rolled back if the mutation fails
+ * - Drag and drop uses native HTML5 events; the row moves while dragging
+ *   and the new order is sent once, when the drag ends
+ * - Alt+↑/↓ on the drag handle moves an item without a mouse
+ * - The auto-complete toggle only touches its own field, so a version
+ *   CONFLICT (the form saved meanwhile) is retried with the latest version
+ */
+export default function ChecklistEditor({ task }: Props) {
+  const [items, setItems] = useState(task.checklist);
+  const [autoComplete, setAutoComplete] = useState(task.checklistAutoComplete);
+  const [status, setStatus] = useState(task.status);
+  // Latest version seen, required by `task.update` (checklist mutations bump it)
+  const [version, setVersion] = useState(task.version);
+  const [newItem, setNewItem] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitulo, setEditingTitulo] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [orderBeforeDrag, setOrderBeforeDrag] = useState<ChecklistItem[]>([]);
+
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  /**
+   * Applies the task returned by any checklist mutation
+   */
+  const applyTask = (updated: Task) => {
+    setItems(updated.checklist);
+    setStatus(updated.status);
+    setVersion(updated.version);
+    utils.task.infiniteList.invalidate();
+    utils.task.history.invalidate({ id: task.id });
+
+    if (status !== 'concluida' && updated.status === 'concluida') {
+      showToast(t('checklist.autoCompleted'), 'success');
+    }
+  };
+
+  const handleError = (previous: ChecklistItem[], message: string) => {
+    setItems(previous);
+    showToast(message, 'error');
+  };
+
+  const addItem = trpc.task.checklist.add.useMutation({
+    onSuccess: (updated) => {
+      applyTask(updated);
+      setNewItem('');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('checklist.addError'), 'error');
+    },
+  });
+
+  const updateItem = trpc.task.checklist.update.useMutation({
+    onSuccess: applyTask,
+  });
+
+  const deleteItem = trpc.task.checklist.delete.useMutation({
+    onSuccess: applyTask,
+    onError: (err) => {
+      showToast(err.message ?? t('checklist.deleteError'), 'error');
+    },
+  });
+
+  const reorder = trpc.task.checklist.reorder.useMutation({
+    onSuccess: applyTask,
+  });
+
+  const updateTask = trpc.task.update.useMutation({
+    onSuccess: (updated) => {
+      setAutoComplete(updated.checklistAutoComplete);
+      setVersion(updated.version);
+      utils.task.history.invalidate({ id: task.id });
+    },
+    onError: async (err, input) => {
+      if (err.data?.code === 'CONFLICT') {
+        const latest = await utils.client.task.getById.query({ id: task.id });
+        if (latest && latest.version !== input.version) {
+          updateTask.mutate({ ...input, version: latest.version });
+          return;
+        }
+      }
+      showToast(err.message ?? t('editTask.updateError'), 'error');
+    },
+  });
+
+  const handleAdd = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+
+    addItem.mutate({ taskId: task.id, titulo: newItem.trim() });
+  };
+
+  const handleToggle = (item: ChecklistItem) => {
+    const previous = items;
+    setItems(
+      items.map((i) => (i.id === item.id ? { ...i, done: !i.done } : i))
+    );
+    updateItem.mutate(
+      { taskId: task.id, itemId: item.id, done: !item.done },
+      {
+        onError: (err) =>
+          handleError(previous, err.message ?? t('checklist.updateError')),
+      }
+    );
+  };
+
+  const handleRename = (item: ChecklistItem) => {
+    setEditingId(null);
+    const titulo = editingTitulo.trim();
+    if (!titulo || titulo === item.titulo) return;
+
+    const previous = items;
+    setItems(items.map((i) => (i.id === item.id ? { ...i, titulo } : i)));
+    updateItem.mutate(
+      { taskId: task.id, itemId: item.id, titulo },
+      {
+        onError: (err) =>
+          handleError(previous, err.message ?? t('checklist.renameError')),
+      }
+    );
+  };
+
+  const saveOrder = (next: ChecklistItem[], previous: ChecklistItem[]) => {
+    if (next.every((item, index) => item.id === previous[index]?.id)) return;
+
+    setItems(next);
+    reorder.mutate(
+      { taskId: task.id, itemIds: next.map((item) => item.id) },
+      {
+        onError: (err) =>
+          handleError(previous, err.message ?? t('checklist.reorderError')),
+      }
+    );
+  };
+
+  const moveItem = (list: ChecklistItem[], fromId: string, toId: string) => {
+    const from = list.findIndex((item) => item.id === fromId);
+    const to = list.findIndex((item) => item.id === toId);
+    if (from === -1 || to === -1 || from === to) return list;
+
+    const next = [...list];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+  };
+
+  const handleKeyboardMove = (item: ChecklistItem, offset: -1 | 1) => {
+    const index = items.findIndex((i) => i.id === item.id);
+    const target = items[index + offset];
+    if (!target) return;
+
+    saveOrder(moveItem(items, item.id, target.id), items);
+  };
+
+  const doneCount = items.filter((item) => item.done).length;
+  const isFull = items.length >= maxChecklistItems;
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">
+          {t('checklist.title')}
+        </h2>
+        {items.length > 0 && (
+          <span className="text-sm text-gray-500">
+            {t('checklist.progress', { done: doneCount, count: items.length })}
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div
+          className="h-1.5 mb-4 bg-gray-100 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={items.length}
+          aria-valuenow={doneCount}
+          aria-label={t('checklist.progressLabel')}
+        >
+          <div
+            className="h-full bg-green-500 transition-all duration-300"
+            style={{ width: `${(doneCount / items.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <ul className="space-y-1 mb-4">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            draggable={editingId !== item.id}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(item.id);
+              setOrderBeforeDrag(items);
+            }}
+            onDragOver={(e) => {
+              if (!draggedId) return;
+              e.preventDefault();
+              setItems((current) => moveItem(current, draggedId, item.id));
+            }}
+            onDrop={(e) => e.preventDefault()}
+            onDragEnd={() => {
+              setDraggedId(null);
+              saveOrder(items, orderBeforeDrag);
+            }}
+            className={`flex items-center gap-3 px-2 py-1.5 rounded-lg group ${
+              draggedId === item.id
+                ? 'bg-blue-50 opacity-60'
+                : 'hover:bg-gray-50'
+            }`}
+          >
+            <button
+              type="button"
+              onKeyDown={(e) => {
+                if (!e.altKey) return;
+                if (e.key === 'ArrowUp') handleKeyboardMove(item, -1);
+                if (e.key === 'ArrowDown') handleKeyboardMove(item, 1);
+              }}
+              aria-label={t('checklist.move', { titulo: item.titulo })}
+              title={t('checklist.dragHint')}
+              className="text-gray-300 group-hover:text-gray-500 cursor-grab focus:outline-none focus:text-gray-600"
+            >
+              <svg
+                className="w-4 h-4"
+                fill="currentColor"
+                viewBox="0 0 20 20"
+                aria-hidden="true"
+              >
+                <path d="M7 4a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM7 8.5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM7 13a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3z" />
+              </svg>
+            </button>
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => handleToggle(item)}
+              aria-label={t(
+                item.done ? 'checklist.uncheck' : 'checklist.check',
+                {
+                  titulo: item.titulo,
+                }
+              )}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500 cursor-pointer"
+            />
+            {editingId === item.id ? (
+              <input
+                type="text"
+                value={editingTitulo}
+                onChange={(e) => setEditingTitulo(e.target.value)}
+                onBlur={() => handleRename(item)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename(item);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                aria-label={t('checklist.itemText')}
+                maxLength={120}
+                autoFocus
+                className="flex-1 px-2 py-0.5 text-sm text-gray-900 bg-white border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(item.id);
+                  setEditingTitulo(item.titulo);
+                }}
+                title={t('checklist.editHint')}
+                className={`flex-1 text-left text-sm ${
+                  item.done ? 'text-gray-400 line-through' : 'text-gray-800'
+                }`}
+              >
+                {item.titulo}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                deleteItem.mutate({ taskId: task.id, itemId: item.id })
+              }
+              disabled={deleteItem.isPending}
+              aria-label={t('checklist.remove', { titulo: item.titulo })}
+              className="text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 focus:outline-none disabled:cursor-not-allowed"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAdd} className="flex gap-3">
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder={
+            isFull
+              ? t('checklist.full', { max: maxChecklistItems })
+              : t('checklist.newItem')
+          }
+          aria-label={t('checklist.newItemLabel')}
+          maxLength={120}
+          disabled={addItem.isPending || isFull}
+          className="flex-1 px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:cursor-not-allowed transition-colors"
+        />
+        <button
+          type="submit"
+          disabled={addItem.isPending || isFull || !newItem.trim()}
+          className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {t('checklist.add')}
+        </button>
+      </form>
+
+      <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={autoComplete}
+          onChange={(e) =>
+            updateTask.mutate({
+              id: task.id,
+              version,
+              checklistAutoComplete: e.target.checked,
+            })
+          }
+          disabled={updateTask.isPending}
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-2 focus:ring-blue-500"
+        />
+        {t('checklist.autoComplete')}
+      </label>
+    </section>
+  );
+}
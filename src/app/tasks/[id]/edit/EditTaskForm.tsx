@@ -1,18 +1,57 @@
 'use client';
 
+import FieldError from '@/app/FieldError';
+import { useFormValidation } from '@/app/formValidation';
+import { useI18n } from '@/app/I18nContext';
+import MarkdownEditor from '@/app/MarkdownEditor';
+import {
+  reportOfflineConflict,
+  takeOfflineConflict,
+} from '@/app/offlineConflicts';
+import RecurrenceInput from '@/app/RecurrenceInput';
+import { useTaskCache } from '@/app/taskCache';
+import TagInput, { type TagWithCount } from '@/app/TagInput';
+import { isSameRecurrence } from '@/app/taskRecurrence';
 import { useToast } from '@/app/ToastContext';
 import { AppRouter } from '@/server/root';
+import {
+  taskPrioritySchema,
+  toDateOnly,
+  updateTaskSchema,
+  type TaskEditScope,
+  type TaskPriority,
+  type TaskRecurrence,
+  type UpdateTaskInput,
+} from '@/server/schemas/task.schema';
 import { trpc } from '@/utils/trpc';
 import { inferRouterOutputs } from '@trpc/server';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import ChecklistEditor from './ChecklistEditor';
+import TaskConflictResolver from './TaskConflictResolver';
+import {
+  applyTaskUpdate,
+  defaultConflictChoices,
+  findTheirChanges,
+  isSameFormValue,
+  mergeTaskFormValues,
+  taskFormFields,
+  toTaskFormValues,
+  type ConflictChoice,
+  type TaskFormField,
+  type TaskFormValues,
+} from './taskFormConflict';
 
 type RouterOutput = inferRouterOutputs<AppRouter>;
 type Task = RouterOutput['task']['list'][number];
 
 type Props = {
   task: Task;
+  /** Projects offered in the picker */
+  projects: RouterOutput['project']['list'];
+  /** Tags for autocomplete (new ones can be created from the field) */
+  tags: TagWithCount[];
 };
 
 /**
@@ -23,53 +62,232 @@ type Props = {
  * - Redirects to home after successful update
  * - Has cancel button to return without saving
  * - Toast notifications for success/error feedback
- * - Uses router.refresh() to invalidate SSR cache after update
+ * - The edit is applied to the cached lists right away (see taskCache) and
+ *   rolled back if the server rejects it
+ * - Clearing the due date or the project sends `null` (removes it on the server)
+ * - The update is checked with `updateTaskSchema` before it is sent
+ *   (useFormValidation), errors show under their fields
+ * - Checklist is edited below the form and saved item by item (ChecklistEditor)
+ * - Description is Markdown, written in MarkdownEditor (write/preview tabs)
+ * - Recurring tasks ask whether the edit applies to this occurrence only or
+ *   to the future ones too; the rule itself is only sent when it changed
+ *   (and always applies to the series)
+ *
+ * Concurrent edits (optimistic concurrency):
+ * - The update carries the version the form was loaded with (`base`)
+ * - On CONFLICT the latest task is fetched: if nobody touched the form's
+ *   fields (e.g. only the checklist changed) the save is retried silently,
+ *   otherwise TaskConflictResolver lets the user pick per field
+ * - A save queued offline can conflict after the form was closed: it is
+ *   kept (see offlineConflicts) and resolved the same way when the form
+ *   is opened again, against the version it was based on (`task.revision`);
+ *   without that revision the form just opens with the change filled in
  */
-export default function EditTaskForm({ task }: Props) {
+export default function EditTaskForm({ task, projects, tags }: Props) {
   const [titulo, setTitulo] = useState(task.titulo);
   const [descricao, setDescricao] = useState(task.descricao || '');
+  const [dueDate, setDueDate] = useState(task.dueDate ?? '');
+  const [priority, setPriority] = useState<TaskPriority>(task.priority);
+  const [projectId, setProjectId] = useState(task.projectId ?? '');
+  const [tagIds, setTagIds] = useState(task.tagIds);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(
+    task.series?.recurrence ?? null
+  );
+  const [scope, setScope] = useState<TaskEditScope>('occurrence');
   const [error, setError] = useState('');
+  // Version of the task the current edit is based on
+  const [base, setBase] = useState(task);
+  const [conflict, setConflict] = useState<{
+    base: TaskFormValues;
+    theirs: Task;
+    fields: TaskFormField[];
+    choices: Partial<Record<TaskFormField, ConflictChoice>>;
+  } | null>(null);
 
   const router = useRouter();
   const utils = trpc.useUtils();
+  const taskCache = useTaskCache();
   const { showToast } = useToast();
+  const { t } = useI18n();
+  const validation = useFormValidation(updateTaskSchema);
+  const isMounted = useRef(false);
 
   const updateTask = trpc.task.update.useMutation({
-    onSuccess: () => {
-      // Invalidate infinite query to refetch all pages
-      utils.task.infiniteList.invalidate();
-      showToast('Tarefa atualizada com sucesso', 'success');
+    onMutate: async (input) => {
+      const snapshot = await taskCache.snapshot();
+      taskCache.update({
+        ...base,
+        titulo: input.titulo ?? base.titulo,
+        descricao: input.descricao ?? base.descricao,
+        dueDate: input.dueDate !== undefined ? input.dueDate : base.dueDate,
+        priority: input.priority ?? base.priority,
+        projectId:
+          input.projectId !== undefined ? input.projectId : base.projectId,
+        tagIds: input.tagIds ?? base.tagIds,
+      });
+      return { snapshot };
+    },
+    onSuccess: (updated, input) => {
+      taskCache.update(updated);
+      // Edits to the series also change the other occurrences
+      if (input.scope === 'series' || input.recurrence !== undefined) {
+        utils.task.infiniteList.invalidate();
+      }
+      utils.project.list.invalidate();
+      utils.tag.list.invalidate();
+      showToast(t('editTask.updated'), 'success');
       router.push('/');
-      router.refresh();
     },
-    onError: (err) => {
-      setError(err.message ?? 'Erro inesperado');
-      showToast(err.message ?? 'Erro ao atualizar tarefa', 'error');
+    onError: (err, input, context) => {
+      taskCache.restore(context?.snapshot);
+      if (err.data?.code === 'CONFLICT') {
+        if (isMounted.current) handleConflict(input.version);
+        else reportOfflineConflict(input, { t, showToast, router });
+        return;
+      }
+      if (!validation.setServerErrors(err)) {
+        setError(err.message ?? t('errors.unexpected'));
+      }
+      showToast(err.message ?? t('editTask.updateError'), 'error');
     },
   });
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setError('');
+  const values: TaskFormValues = {
+    titulo: titulo.trim(),
+    descricao: descricao.trim(),
+    dueDate,
+    priority,
+    projectId,
+    tagIds,
+  };
+
+  const applyValues = useCallback((next: TaskFormValues) => {
+    setTitulo(next.titulo);
+    setDescricao(next.descricao);
+    setDueDate(next.dueDate);
+    setPriority(next.priority);
+    setProjectId(next.projectId);
+    setTagIds(next.tagIds);
+  }, []);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  /**
+   * Three-way merge of a conflicting offline save of this task:
+   * base (its revision) vs mine (the save) vs theirs (the loaded task)
+   */
+  useEffect(() => {
+    const input = takeOfflineConflict(task.id);
+    if (!input) return;
 
-    if (!titulo.trim()) {
-      setError('Título é obrigatório');
+    utils.client.task.revision
+      .query({ id: task.id, version: input.version })
+      .catch(() => null)
+      .then((revision) => {
+        const theirs = toTaskFormValues(task);
+        const previous = revision ? toTaskFormValues(revision) : theirs;
+        const mine = applyTaskUpdate(previous, input);
+        applyValues(mine);
+
+        const fields = findTheirChanges(previous, theirs);
+        if (fields.length === 0) return;
+        setConflict({
+          base: previous,
+          theirs: task,
+          fields,
+          choices: defaultConflictChoices(fields, previous, mine),
+        });
+      });
+  }, [task, utils, applyValues]);
+
+  const recurrenceChanged = !isSameRecurrence(
+    recurrence,
+    base.series?.recurrence ?? null
+  );
+
+  const save = (next: TaskFormValues, version: number) => {
+    const input: UpdateTaskInput = {
+      id: task.id,
+      version,
+      titulo: next.titulo,
+      descricao: next.descricao || undefined,
+      dueDate: next.dueDate || null,
+      priority: next.priority,
+      projectId: next.projectId || null,
+      tagIds: next.tagIds,
+      ...(recurrenceChanged && { recurrence }),
+      ...(base.series && { scope }),
+    };
+    if (!validation.validate(input)) return;
+
+    updateTask.mutate(input);
+  };
+
+  /**
+   * Three-way merge after a CONFLICT: base (loaded) vs mine (form) vs theirs (saved)
+   */
+  const handleConflict = async (staleVersion: number) => {
+    const theirs = await utils.client.task.getById.query({ id: task.id });
+    if (!theirs) {
+      setError(t('editTask.deletedMeanwhile'));
       return;
     }
+    if (theirs.version === staleVersion) return;
 
-    updateTask.mutate({
-      id: task.id,
-      titulo: titulo.trim(),
-      descricao: descricao.trim() || undefined,
+    const fields = findTheirChanges(
+      toTaskFormValues(base),
+      toTaskFormValues(theirs)
+    );
+    setBase(theirs);
+
+    if (fields.length === 0) {
+      save(values, theirs.version);
+      return;
+    }
+
+    setConflict({
+      base: toTaskFormValues(base),
+      theirs,
+      fields,
+      choices: defaultConflictChoices(fields, toTaskFormValues(base), values),
     });
   };
 
+  const handleResolveConflict = () => {
+    if (!conflict) return;
+
+    const merged = mergeTaskFormValues(
+      values,
+      toTaskFormValues(conflict.theirs),
+      conflict.choices
+    );
+    applyValues(merged);
+    setConflict(null);
+    save(merged, conflict.theirs.version);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    save(values, base.version);
+  };
+
+  const formError = error || validation.formError;
+
   const isSubmitting = updateTask.isPending;
 
-  // Check if form has unsaved changes
+  // Check if form has unsaved changes (compared with the version it's based on)
+  const baseValues = toTaskFormValues(base);
   const hasChanges =
-    titulo.trim() !== task.titulo ||
-    descricao.trim() !== (task.descricao || '');
+    recurrenceChanged ||
+    taskFormFields.some(
+      (field) => !isSameFormValue(values[field], baseValues[field])
+    );
 
   return (
     <div>
@@ -92,11 +310,33 @@ export default function EditTaskForm({ task }: Props) {
               d="M15 19l-7-7 7-7"
             />
           </svg>
-          Voltar para lista
+          {t('nav.backToList')}
         </Link>
-        <h1 className="text-3xl font-semibold text-gray-900">Editar Tarefa</h1>
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('editTask.title')}
+        </h1>
       </div>
 
+      {conflict && (
+        <TaskConflictResolver
+          fields={conflict.fields}
+          base={conflict.base}
+          mine={values}
+          theirs={toTaskFormValues(conflict.theirs)}
+          choices={conflict.choices}
+          onChoose={(field, choice) =>
+            setConflict({
+              ...conflict,
+              choices: { ...conflict.choices, [field]: choice },
+            })
+          }
+          onConfirm={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+          projects={projects}
+          isSubmitting={isSubmitting}
+        />
+      )}
+
       {/* Form */}
       <form
         onSubmit={handleSubmit}
@@ -108,7 +348,7 @@ export default function EditTaskForm({ task }: Props) {
               htmlFor="titulo"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              Título <span className="text-red-500">*</span>
+              {t('taskForm.titulo')} <span className="text-red-500">*</span>
             </label>
             <input
               id="titulo"
@@ -116,13 +356,19 @@ export default function EditTaskForm({ task }: Props) {
               value={titulo}
               onChange={(e) => {
                 setTitulo(e.target.value);
+                validation.clearField('titulo');
                 if (error) setError('');
               }}
+              {...validation.fieldProps('titulo')}
               disabled={isSubmitting}
               className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
-              placeholder="Digite o título da tarefa"
+              placeholder={t('taskForm.tituloPlaceholder')}
               autoFocus
             />
+            <FieldError
+              field="titulo"
+              message={validation.fieldError('titulo')}
+            />
           </div>
 
           <div>
@@ -130,25 +376,194 @@ export default function EditTaskForm({ task }: Props) {
               htmlFor="descricao"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              Descrição
+              {t('taskForm.descricao')}
             </label>
-            <textarea
+            <MarkdownEditor
               id="descricao"
               value={descricao}
-              onChange={(e) => {
-                setDescricao(e.target.value);
+              onChange={(value) => {
+                setDescricao(value);
+                validation.clearField('descricao');
                 if (error) setError('');
               }}
               disabled={isSubmitting}
-              rows={6}
-              className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed resize-none transition-colors"
-              placeholder="Digite a descrição da tarefa (opcional)"
+              placeholder={t('taskForm.descricaoPlaceholder')}
+            />
+            <FieldError
+              field="descricao"
+              message={validation.fieldError('descricao')}
             />
           </div>
 
-          {error && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <label
+                htmlFor="dueDate"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                {t('taskForm.dueDate')}
+              </label>
+              <input
+                id="dueDate"
+                type="date"
+                value={dueDate}
+                min={toDateOnly(task.dataCriacao)}
+                onChange={(e) => {
+                  setDueDate(e.target.value);
+                  validation.clearField('dueDate');
+                  if (error) setError('');
+                }}
+                {...validation.fieldProps('dueDate')}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+              />
+              <FieldError
+                field="dueDate"
+                message={validation.fieldError('dueDate')}
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="priority"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                {t('taskForm.priority')}
+              </label>
+              <select
+                id="priority"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as TaskPriority)}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+              >
+                {taskPrioritySchema.options.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`priority.${option}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="projectId"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('taskForm.project')}
+            </label>
+            <select
+              id="projectId"
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              disabled={isSubmitting}
+              className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              <option value="">{t('taskForm.noProject')}</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.nome}
+                  {project.archivedAt
+                    ? ` ${t('taskForm.archivedProject')}`
+                    : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('taskForm.tags')}
+            </label>
+            <TagInput
+              id="tags"
+              value={tagIds}
+              onChange={(value) => {
+                setTagIds(value);
+                validation.clearField('tagIds');
+              }}
+              initialTags={tags}
+              disabled={isSubmitting}
+            />
+            <FieldError
+              field="tagIds"
+              message={validation.fieldError('tagIds')}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="recurrence"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('taskForm.recurrence')}
+              {base.series && (
+                <span className="ml-2 font-normal text-gray-500">
+                  {base.series.recurrence.count
+                    ? t('taskItem.occurrenceOf', {
+                        occurrence: base.series.occurrence,
+                        count: base.series.recurrence.count,
+                      })
+                    : t('taskItem.occurrence', {
+                        occurrence: base.series.occurrence,
+                      })}
+                </span>
+              )}
+            </label>
+            <RecurrenceInput
+              id="recurrence"
+              value={recurrence}
+              onChange={(value) => {
+                setRecurrence(value);
+                validation.clearField('recurrence');
+                if (error) setError('');
+              }}
+              startDate={dueDate || toDateOnly(Date.now())}
+              disabled={isSubmitting}
+            />
+            <FieldError
+              field="recurrence"
+              message={validation.fieldError('recurrence')}
+            />
+          </div>
+
+          {base.series && (
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                {t('editTask.scope')}
+              </legend>
+              <div className="space-y-1.5">
+                {(['occurrence', 'series'] as const).map((option) => (
+                  <label
+                    key={option}
+                    className="flex items-center gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="radio"
+                      name="scope"
+                      value={option}
+                      checked={scope === option}
+                      onChange={() => setScope(option)}
+                      disabled={isSubmitting}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    {t(`editTask.scopeOption.${option}`)}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1.5 text-xs text-gray-500">
+                {t('editTask.scopeHint')}
+              </p>
+            </fieldset>
+          )}
+
+          {formError && (
             <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
-              <p className="text-sm text-red-700">{error}</p>
+              <p className="text-sm text-red-700">{formError}</p>
             </div>
           )}
 
@@ -158,17 +573,19 @@ export default function EditTaskForm({ task }: Props) {
               disabled={isSubmitting || !hasChanges}
               className="flex-1 bg-blue-600 text-white py-2.5 px-4 rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
             >
-              {isSubmitting ? 'Salvando...' : 'Salvar Alterações'}
+              {isSubmitting ? t('common.saving') : t('editTask.submit')}
             </button>
             <Link
               href="/"
               className="px-6 py-2.5 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200 text-center"
             >
-              Cancelar
+              {t('common.cancel')}
             </Link>
           </div>
         </div>
       </form>
+
+      <ChecklistEditor task={task} />
     </div>
   );
 }
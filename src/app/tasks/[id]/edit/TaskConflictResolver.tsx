@@ -0,0 +1,176 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import type { MessageKey } from '@/i18n/translator';
+import type { AppRouter } from '@/server/root';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import type {
+  ConflictChoice,
+  TaskFormField,
+  TaskFormValues,
+} from './taskFormConflict';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+
+type Props = {
+  /** Fields someone else changed since the form was loaded */
+  fields: TaskFormField[];
+  base: TaskFormValues;
+  mine: TaskFormValues;
+  theirs: TaskFormValues;
+  choices: Partial<Record<TaskFormField, ConflictChoice>>;
+  onChoose: (field: TaskFormField, choice: ConflictChoice) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  projects: RouterOutput['project']['list'];
+  isSubmitting: boolean;
+};
+
+const fieldLabels: Record<TaskFormField, MessageKey> = {
+  titulo: 'taskForm.titulo',
+  descricao: 'taskForm.descricao',
+  dueDate: 'taskForm.dueDate',
+  priority: 'taskForm.priority',
+  projectId: 'taskForm.project',
+  tagIds: 'taskForm.tags',
+};
+
+/**
+ * TaskConflictResolver: Three-way view shown when `task.update` hits CONFLICT
+ *
+ * Decisions:
+ * - One row per field changed by someone else: original (base, read-only),
+ *   my value and their value; the user picks mine or theirs
+ * - Confirming retries the update with the merged values against the new
+ *   version (another conflict simply reopens this view)
+ */
+export default function TaskConflictResolver({
+  fields,
+  base,
+  mine,
+  theirs,
+  choices,
+  onChoose,
+  onConfirm,
+  onCancel,
+  projects,
+  isSubmitting,
+}: Props) {
+  const { t, formatDate } = useI18n();
+  const { data: tags = [] } = trpc.tag.list.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  const format = (field: TaskFormField, values: TaskFormValues) => {
+    const value = values[field];
+    if (value === '' || (Array.isArray(value) && value.length === 0)) {
+      return '—';
+    }
+
+    switch (field) {
+      case 'dueDate':
+        return formatDate(values.dueDate);
+      case 'priority':
+        return t(`priority.${values.priority}`);
+      case 'projectId':
+        return (
+          projects.find((project) => project.id === values.projectId)?.nome ??
+          t('conflict.projectRemoved')
+        );
+      case 'tagIds':
+        return values.tagIds
+          .map(
+            (tagId) =>
+              `#${
+                tags.find((tag) => tag.id === tagId)?.nome ??
+                t('conflict.tagRemoved')
+              }`
+          )
+          .join(' ');
+      default:
+        return String(value);
+    }
+  };
+
+  const columns: {
+    label: string;
+    values: TaskFormValues;
+    choice?: ConflictChoice;
+  }[] = [
+    { label: t('conflict.base'), values: base },
+    { label: t('conflict.mine'), values: mine, choice: 'mine' },
+    { label: t('conflict.theirs'), values: theirs, choice: 'theirs' },
+  ];
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-6 mb-6">
+      <h2 className="text-base font-medium text-gray-900">
+        {t('conflict.title')}
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-700">{t('conflict.hint')}</p>
+
+      <div className="space-y-4">
+        {fields.map((field) => (
+          <fieldset key={field}>
+            <legend className="text-sm font-medium text-gray-700 mb-2">
+              {t(fieldLabels[field])}
+            </legend>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {columns.map(({ label, values, choice }) => {
+                const isSelected =
+                  choice !== undefined && choices[field] === choice;
+                return (
+                  <label
+                    key={label}
+                    className={`block p-3 rounded-lg border text-sm ${
+                      !choice
+                        ? 'bg-gray-50 border-gray-200 text-gray-500'
+                        : isSelected
+                        ? 'bg-white border-blue-500 ring-1 ring-blue-500 cursor-pointer'
+                        : 'bg-white border-gray-200 hover:border-gray-300 cursor-pointer'
+                    }`}
+                  >
+                    <span className="flex items-center gap-2 mb-1 text-xs font-medium text-gray-500">
+                      {choice && (
+                        <input
+                          type="radio"
+                          name={`conflict-${field}`}
+                          checked={isSelected}
+                          onChange={() => onChoose(field, choice)}
+                        />
+                      )}
+                      {label}
+                    </span>
+                    <span className="block text-gray-900 whitespace-pre-wrap break-words line-clamp-4">
+                      {format(field, values)}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </fieldset>
+        ))}
+      </div>
+
+      <div className="flex gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isSubmitting}
+          className="px-5 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {isSubmitting ? t('common.saving') : t('conflict.submit')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {t('conflict.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import { AppRouter } from '@/server/root';
+import type { TaskPriority, TaskStatus } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import { inferRouterOutputs } from '@trpc/server';
+import { useRouter } from 'next/navigation';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type HistoryEntry = RouterOutput['task']['history'][number];
+type FieldChange = HistoryEntry['changes'][number];
+type ChecklistItem = RouterOutput['task']['list'][number]['checklist'][number];
+
+type Props = {
+  taskId: string;
+  /** SSR timeline (seeds the `task.history` cache) */
+  initialData: HistoryEntry[];
+  /** Every project of the user (archived included), to name `projectId` */
+  projects: RouterOutput['project']['list'];
+};
+
+/**
+ * Fields implied by the entry action/status: not listed as changes
+ */
+const hiddenFields: FieldChange['field'][] = ['completedAt', 'deletedAt'];
+
+function truncate(text: string, max = 80) {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/**
+ * TaskHistory: History panel of the edit page
+ *
+ * Implementation decisions:
+ * - One timeline item per revision (newest first) with a before → after
+ *   line per changed field
+ * - Ids are shown as names (projects from props, tags from the `tag.list`
+ *   cache); references deleted since then are labeled as removed
+ * - Labels are `history.action.*` / `history.field.*` messages
+ * - The newest revision is the current state, so only older ones offer
+ *   a revert; the page remounts the form afterwards (keyed by revision)
+ */
+export default function TaskHistory({ taskId, initialData, projects }: Props) {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t, formatDate, formatDateTime } = useI18n();
+
+  const { data: entries } = trpc.task.history.useQuery(
+    { id: taskId },
+    { initialData, staleTime: Infinity }
+  );
+  const { data: tags = [] } = trpc.tag.list.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  const revert = trpc.task.revert.useMutation({
+    onSuccess: () => {
+      utils.task.history.invalidate({ id: taskId });
+      utils.task.infiniteList.invalidate();
+      showToast(t('history.reverted'), 'success');
+      router.refresh();
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('history.revertError'), 'error');
+    },
+  });
+
+  /**
+   * Display text of one side of a change ("—" when empty)
+   */
+  const formatValue = (field: FieldChange['field'], value: unknown) => {
+    if (value === null || value === '') return '—';
+
+    switch (field) {
+      case 'status':
+        return t(`status.${value as TaskStatus}`);
+      case 'priority':
+        return t(`priority.${value as TaskPriority}`);
+      case 'dueDate':
+        return formatDate(value as string);
+      case 'projectId':
+        return (
+          projects.find((project) => project.id === value)?.nome ??
+          t('conflict.projectRemoved')
+        );
+      case 'tagIds': {
+        const tagIds = value as string[];
+        if (tagIds.length === 0) return '—';
+        return tagIds
+          .map(
+            (tagId) =>
+              `#${
+                tags.find((tag) => tag.id === tagId)?.nome ??
+                t('conflict.tagRemoved')
+              }`
+          )
+          .join(' ');
+      }
+      case 'checklist': {
+        const items = value as ChecklistItem[];
+        const done = items.filter((item) => item.done).length;
+        return items.length === 0
+          ? '—'
+          : t('history.checklistItems', { done, count: items.length });
+      }
+      case 'checklistAutoComplete':
+        return value ? t('history.yes') : t('history.no');
+      default:
+        return truncate(String(value));
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 mt-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">
+        {t('history.title')}
+      </h2>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('history.empty')}</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+          {entries.map((entry, index) => {
+            const changes =
+              entry.action === 'create'
+                ? []
+                : entry.changes.filter(
+                    (change) => !hiddenFields.includes(change.field)
+                  );
+
+            return (
+              <li key={entry.id} className="ml-5">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white" />
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900">
+                    {t(`history.action.${entry.action}`)}
+                    {index === 0 && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+                        {t('history.current')}
+                      </span>
+                    )}
+                  </p>
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        revert.mutate({ id: taskId, historyId: entry.id })
+                      }
+                      disabled={revert.isPending}
+                      className="px-3 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      {t('history.revert')}
+                    </button>
+                  )}
+                </div>
+                <p
+                  // Formatted in the viewer's time zone
+                  suppressHydrationWarning
+                  className="text-xs text-gray-500"
+                >
+                  {formatDateTime(entry.dataCriacao)}
+                  {' · '}
+                  {entry.actor?.nome ?? t('history.system')}
+                </p>
+                {changes.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {changes.map((change) => (
+                      <li key={change.field} className="text-sm">
+                        <span className="text-gray-600">
+                          {t(`history.field.${change.field}`)}:
+                        </span>{' '}
+                        <span className="text-gray-400 line-through">
+                          {formatValue(change.field, change.before)}
+                        </span>{' '}
+                        →{' '}
+                        <span className="text-gray-900">
+                          {formatValue(change.field, change.after)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
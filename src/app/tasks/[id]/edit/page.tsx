@@ -1,6 +1,7 @@
-import { getServerCaller } from '@/server/serverCaller';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
 import { notFound } from 'next/navigation';
 import EditTaskForm from './EditTaskForm';
+import TaskHistory from './TaskHistory';
 
 type PageProps = {
   params: Promise<{ id: string }>;
@@ -10,10 +11,12 @@ type PageProps = {
  * Task edit page with SSR
  *
  * Flow:
- * 1. Server fetches task by ID
- * 2. If not found, shows 404
- * 3. If found, passes to EditTaskForm client component
- * 4. Form pre-populated with existing data
+ * 1. Anonymous visitors are redirected to login (back here afterwards)
+ * 2. Server fetches task by ID
+ * 3. If not found (or owned by another user), shows 404
+ * 4. If found, passes to EditTaskForm client component
+ * 5. Form pre-populated with existing data
+ * 6. History timeline below the form (revisions can be reverted)
  *
  * Benefits of SSR:
  * - No loading state (data already available)
@@ -22,7 +25,7 @@ type PageProps = {
  */
 export default async function EditTaskPage({ params }: PageProps) {
   const { id } = await params;
-  const caller = await getServerCaller();
+  const { caller } = await getAuthenticatedServerCaller(`/tasks/${id}/edit`);
 
   const task = await caller.task.getById({ id });
 
@@ -30,10 +33,31 @@ export default async function EditTaskPage({ params }: PageProps) {
     notFound();
   }
 
+  // Active projects, plus the task's current one even if archived
+  const [allProjects, tags, history] = await Promise.all([
+    caller.project.list({ includeArchived: true }),
+    caller.tag.list(),
+    caller.task.history({ id }),
+  ]);
+  const projects = allProjects.filter(
+    (project) => !project.archivedAt || project.id === task.projectId
+  );
+
   return (
     <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-2xl mx-auto">
-        <EditTaskForm task={task} />
+        {/* Remounted after a revert, so the form shows the reverted values */}
+        <EditTaskForm
+          key={history[0]?.id}
+          task={task}
+          projects={projects}
+          tags={tags}
+        />
+        <TaskHistory
+          taskId={task.id}
+          initialData={history}
+          projects={allProjects}
+        />
       </div>
     </main>
   );
@@ -0,0 +1,129 @@
+import type { AppRouter } from '@/server/root';
+import type {
+  TaskPriority,
+  UpdateTaskInput,
+} from '@/server/schemas/task.schema';
+import type { inferRouterOutputs } from '@trpc/server';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Task = RouterOutput['task']['list'][number];
+
+/**
+ * Values edited by EditTaskForm, as held in its inputs
+ * (empty string = no description / due date / project)
+ */
+export type TaskFormValues = {
+  titulo: string;
+  descricao: string;
+  dueDate: string;
+  priority: TaskPriority;
+  projectId: string;
+  tagIds: string[];
+};
+
+export type TaskFormField = keyof TaskFormValues;
+
+export const taskFormFields: TaskFormField[] = [
+  'titulo',
+  'descricao',
+  'dueDate',
+  'priority',
+  'projectId',
+  'tagIds',
+];
+
+/**
+ * Which version a conflicting field keeps
+ */
+export type ConflictChoice = 'mine' | 'theirs';
+
+export function toTaskFormValues(task: Task): TaskFormValues {
+  return {
+    titulo: task.titulo,
+    descricao: task.descricao ?? '',
+    dueDate: task.dueDate ?? '',
+    priority: task.priority,
+    projectId: task.projectId ?? '',
+    tagIds: task.tagIds,
+  };
+}
+
+/**
+ * Form values with the fields sent by an update applied (`null` clears)
+ */
+export function applyTaskUpdate(
+  values: TaskFormValues,
+  input: UpdateTaskInput
+): TaskFormValues {
+  return {
+    titulo: input.titulo ?? values.titulo,
+    descricao: input.descricao ?? values.descricao,
+    dueDate: input.dueDate !== undefined ? input.dueDate ?? '' : values.dueDate,
+    priority: input.priority ?? values.priority,
+    projectId:
+      input.projectId !== undefined ? input.projectId ?? '' : values.projectId,
+    tagIds: input.tagIds ?? values.tagIds,
+  };
+}
+
+/**
+ * Whether an update changes any field of the form (a board move doesn't)
+ */
+export function updatesTaskForm(input: UpdateTaskInput) {
+  return taskFormFields.some((field) => input[field] !== undefined);
+}
+
+export function isSameFormValue(
+  a: TaskFormValues[TaskFormField],
+  b: TaskFormValues[TaskFormField]
+) {
+  return Array.isArray(a) && Array.isArray(b)
+    ? a.join(',') === b.join(',')
+    : a === b;
+}
+
+/**
+ * Fields someone else changed since `base` (the version the form was loaded with)
+ *
+ * Fields only the current user changed are not conflicts: their values win
+ */
+export function findTheirChanges(base: TaskFormValues, theirs: TaskFormValues) {
+  return taskFormFields.filter(
+    (field) => !isSameFormValue(base[field], theirs[field])
+  );
+}
+
+/**
+ * Default choice per field: keep my value when I changed it too,
+ * otherwise take theirs (nothing of mine to lose)
+ */
+export function defaultConflictChoices(
+  fields: TaskFormField[],
+  base: TaskFormValues,
+  mine: TaskFormValues
+) {
+  return Object.fromEntries(
+    fields.map((field) => [
+      field,
+      isSameFormValue(base[field], mine[field]) ? 'theirs' : 'mine',
+    ])
+  ) as Partial<Record<TaskFormField, ConflictChoice>>;
+}
+
+/**
+ * My values with every field resolved as `theirs` replaced by their value
+ */
+export function mergeTaskFormValues(
+  mine: TaskFormValues,
+  theirs: TaskFormValues,
+  choices: Partial<Record<TaskFormField, ConflictChoice>>
+): TaskFormValues {
+  return {
+    ...mine,
+    ...Object.fromEntries(
+      taskFormFields
+        .filter((field) => choices[field] === 'theirs')
+        .map((field) => [field, theirs[field]])
+    ),
+  };
+}
@@ -0,0 +1,196 @@
+import Markdown from '@/app/Markdown';
+import TagChip from '@/app/TagChip';
+import { dueDateToneStyles, getDueDateLabel } from '@/app/taskDueDate';
+import { taskPriorityDotStyles } from '@/app/taskPriority';
+import { describeRecurrence } from '@/app/taskRecurrence';
+import { taskStatusStyles } from '@/app/taskStatus';
+import { getServerI18n } from '@/server/i18n';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import TaskAttachments from './TaskAttachments';
+import TaskComments from './TaskComments';
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Task detail page with SSR: the task read-only plus its attachments and
+ * comment thread
+ *
+ * Flow:
+ * 1. Anonymous visitors are redirected to login (back here afterwards)
+ * 2. Server fetches the task, its project/tags, attachments and the
+ *    first page of comments; a missing (or someone else's) task shows 404
+ * 3. TaskAttachments (upload, delete) and TaskComments (add, edit, delete,
+ *    load more) take over on the client
+ *
+ * Decision: changing the task itself stays on the edit page,
+ * this page is for reading and discussing it
+ */
+export default async function TaskPage({ params }: PageProps) {
+  const { id } = await params;
+  const { caller } = await getAuthenticatedServerCaller(`/tasks/${id}`);
+
+  const task = await caller.task.getById({ id });
+
+  if (!task) {
+    notFound();
+  }
+
+  const [projects, tags, attachments, comments, i18n] = await Promise.all([
+    caller.project.list({ includeArchived: true }),
+    caller.tag.list(),
+    caller.attachment.list({ taskId: id }),
+    caller.comment.list({ taskId: id }),
+    getServerI18n(),
+  ]);
+  const { t } = i18n;
+  const project = projects.find((item) => item.id === task.projectId);
+  const taskTags = task.tagIds
+    .map((tagId) => tags.find((tag) => tag.id === tagId))
+    .filter((tag) => tag !== undefined);
+  const due = task.dueDate
+    ? getDueDateLabel(i18n, task.dueDate, task.status)
+    : null;
+  const checklistDone = task.checklist.filter((item) => item.done).length;
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href={project ? `/projects/${project.id}` : '/'}
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+          >
+            <svg
+              className="w-4 h-4 mr-2"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+            {project
+              ? t('nav.backTo', { nome: project.nome })
+              : t('nav.backToList')}
+          </Link>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-semibold text-gray-900 break-words">
+              {task.titulo}
+            </h1>
+            <Link
+              href={`/tasks/${task.id}/edit`}
+              className="flex-shrink-0 px-4 py-2 text-sm font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200"
+            >
+              {t('common.edit')}
+            </Link>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <span
+              className={`px-2.5 py-0.5 text-xs font-medium rounded-full ${
+                taskStatusStyles[task.status]
+              }`}
+            >
+              {t(`status.${task.status}`)}
+            </span>
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+              <span
+                className={`w-2 h-2 rounded-full ${
+                  taskPriorityDotStyles[task.priority]
+                }`}
+                aria-hidden="true"
+              />
+              {t('priority.label', {
+                priority: t(`priority.${task.priority}`),
+              })}
+            </span>
+            {due && (
+              <span
+                className={`px-2.5 py-0.5 text-xs font-medium rounded-full ${
+                  dueDateToneStyles[due.tone]
+                }`}
+              >
+                {due.label}
+              </span>
+            )}
+            {task.series && (
+              <span className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-purple-50 text-purple-700">
+                {describeRecurrence(i18n, task.series.recurrence)}
+              </span>
+            )}
+            {project && (
+              <Link
+                href={`/projects/${project.id}`}
+                className="px-2.5 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100"
+              >
+                {project.nome}
+              </Link>
+            )}
+            {taskTags.map((tag) => (
+              <TagChip key={tag.id} nome={tag.nome} cor={tag.cor} />
+            ))}
+          </div>
+
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 mb-2">
+              {t('taskForm.descricao')}
+            </h2>
+            {task.descricao ? (
+              <Markdown
+                source={task.descricao}
+                className="text-sm text-gray-700 leading-relaxed"
+              />
+            ) : (
+              <p className="text-sm text-gray-400">
+                {t('taskPage.noDescricao')}
+              </p>
+            )}
+          </div>
+
+          {task.checklist.length > 0 && (
+            <div>
+              <h2 className="text-sm font-medium text-gray-700 mb-2">
+                {t('checklist.title')} ({checklistDone}/{task.checklist.length})
+              </h2>
+              <ul className="space-y-1">
+                {task.checklist.map((item) => (
+                  <li
+                    key={item.id}
+                    className="flex items-center gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={item.done}
+                      readOnly
+                      disabled
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                    />
+                    <span
+                      className={item.done ? 'line-through text-gray-400' : ''}
+                    >
+                      {item.titulo}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <TaskAttachments taskId={task.id} initialData={attachments} />
+
+        <TaskComments taskId={task.id} initialData={comments} />
+      </div>
+    </main>
+  );
+}
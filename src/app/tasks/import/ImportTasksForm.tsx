@@ -0,0 +1,227 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import type { MessageKey } from '@/i18n/translator';
+import type { AppRouter } from '@/server/root';
+import type { TaskImportFormat } from '@/server/schemas/task.schema';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type ImportPreview = RouterOutput['task']['import']['preview'];
+
+type ImportFile = {
+  name: string;
+  format: TaskImportFormat;
+  content: string;
+};
+
+const actionLabels: Record<
+  ImportPreview['rows'][number]['action'],
+  MessageKey
+> = {
+  create: 'importTasks.action.create',
+  update: 'importTasks.action.update',
+};
+
+/**
+ * ImportTasksForm: Upload → preview → import of a CSV/JSON task file
+ *
+ * Implementation decisions:
+ * - The file is read in the browser and sent as text; the format comes
+ *   from the extension (`.json`, anything else is CSV)
+ * - Choosing a file immediately asks the server for a preview: what would
+ *   be created/updated and every error per record
+ * - Importing is only enabled for a file without errors, and the server
+ *   imports it in one transaction (all records or none)
+ */
+export default function ImportTasksForm() {
+  const [file, setFile] = useState<ImportFile | null>(null);
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const preview = trpc.task.import.preview.useMutation({
+    onError: (err) => {
+      showToast(err.message ?? t('importTasks.readError'), 'error');
+    },
+  });
+
+  const commit = trpc.task.import.commit.useMutation({
+    onSuccess: ({ created, updated }) => {
+      utils.task.infiniteList.invalidate();
+      utils.project.list.invalidate();
+      utils.tag.list.invalidate();
+      showToast(t('importTasks.done', { created, updated }), 'success');
+      router.push('/');
+      router.refresh();
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('importTasks.importError'), 'error');
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    preview.reset();
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const next: ImportFile = {
+      name: selected.name,
+      format: selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+      content: await selected.text(),
+    };
+    setFile(next);
+    preview.mutate({ format: next.format, content: next.content });
+  };
+
+  const result = preview.data;
+  const canImport =
+    !!file && !!result && result.rows.length > 0 && result.invalid === 0;
+
+  return (
+    <div>
+      {/* Header with back button */}
+      <div className="mb-8">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <svg
+            className="w-4 h-4 mr-2"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+          {t('nav.backToList')}
+        </Link>
+        <h1 className="text-3xl font-semibold text-gray-900">
+          {t('importTasks.title')}
+        </h1>
+        <p className="mt-2 text-sm text-gray-600">{t('importTasks.hint')}</p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-8">
+        <label
+          htmlFor="import-file"
+          className="block text-sm font-medium text-gray-700 mb-2"
+        >
+          {t('importTasks.file')}
+        </label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          disabled={commit.isPending}
+          className="block w-full text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        />
+
+        {preview.isPending && (
+          <p className="mt-6 text-sm text-gray-600">
+            {t('importTasks.analyzing')}
+          </p>
+        )}
+
+        {result && (
+          <div className="mt-6">
+            <p className="text-sm text-gray-700" aria-live="polite">
+              <span className="font-medium">{file?.name}</span>:{' '}
+              {t('importTasks.summary', {
+                creates: result.creates,
+                updates: result.updates,
+              })}
+              {result.invalid > 0 && (
+                <span className="text-red-700">
+                  {t('importTasks.invalid', { count: result.invalid })}
+                </span>
+              )}
+            </p>
+
+            {result.rows.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">
+                {t('importTasks.noRows')}
+              </p>
+            ) : (
+              <div className="mt-4 max-h-96 overflow-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">#</th>
+                      <th className="px-3 py-2 font-medium">
+                        {t('importTasks.column.action')}
+                      </th>
+                      <th className="px-3 py-2 font-medium">
+                        {t('importTasks.column.titulo')}
+                      </th>
+                      <th className="px-3 py-2 font-medium">
+                        {t('importTasks.column.errors')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {result.rows.map((row) => (
+                      <tr
+                        key={row.row}
+                        className={row.errors.length > 0 ? 'bg-red-50' : ''}
+                      >
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 text-gray-700">
+                          {t(actionLabels[row.action])}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 break-words">
+                          {row.titulo || '—'}
+                        </td>
+                        <td className="px-3 py-2 text-red-700">
+                          {row.errors.join('; ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-8 pt-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={() =>
+              file &&
+              commit.mutate({ format: file.format, content: file.content })
+            }
+            disabled={!canImport || commit.isPending}
+            className="px-5 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {commit.isPending
+              ? t('importTasks.submitting')
+              : t('importTasks.submit')}
+          </button>
+          <Link
+            href="/"
+            className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200"
+          >
+            {t('common.cancel')}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import ImportTasksForm from './ImportTasksForm';
+
+/**
+ * Task import page (CSV or JSON file)
+ *
+ * Nothing to prefetch: the file is read in the browser and previewed by
+ * the server before anything is saved
+ */
+export default async function ImportTasksPage() {
+  await getAuthenticatedServerCaller('/tasks/import');
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-3xl mx-auto">
+        <ImportTasksForm />
+      </div>
+    </main>
+  );
+}
@@ -1,10 +1,41 @@
 'use client';
 
+import FieldError from '@/app/FieldError';
+import { useFormValidation } from '@/app/formValidation';
+import { useI18n } from '@/app/I18nContext';
+import MarkdownEditor from '@/app/MarkdownEditor';
+import RecurrenceInput from '@/app/RecurrenceInput';
+import { toOptimisticTask, useTaskCache } from '@/app/taskCache';
+import TagInput, { type TagWithCount } from '@/app/TagInput';
 import { useToast } from '@/app/ToastContext';
+import type { AppRouter } from '@/server/root';
+import {
+  createTaskSchema,
+  taskPrioritySchema,
+  toDateOnly,
+  type CreateTaskInput,
+  type TaskPriority,
+  type TaskRecurrence,
+} from '@/server/schemas/task.schema';
 import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+
+type Props = {
+  /** Active projects offered in the picker */
+  projects: RouterOutput['project']['list'];
+  /** Tags for autocomplete (new ones can be created from the field) */
+  tags: TagWithCount[];
+  defaultProjectId?: string;
+  /** Prefilled due date, AAAA-MM-DD (a day clicked on the calendar) */
+  defaultDueDate?: string;
+  /** Page to return to (after creating and from the back links) */
+  returnTo?: string;
+};
 
 /**
  * NewTaskForm: Form for creating tasks on dedicated page
@@ -14,53 +45,129 @@ import { useState } from 'react';
  * - Has back button to return without creating
  * - Full page layout for better UX
  * - Toast notifications for success/error feedback
+ * - Due date can't be before today (same rule the server enforces)
+ * - The input is checked with `createTaskSchema` before it is sent
+ *   (useFormValidation): each message shows under its field, and so do
+ *   the server's validation errors
+ * - Description is Markdown, written in MarkdownEditor (write/preview tabs)
+ * - "Repeat" makes it the first occurrence of a recurring task, starting
+ *   on the due date (today when empty)
+ * - Returns to the chosen project's page (or home when there is none),
+ *   unless opened from another page (`returnTo`, e.g. the calendar)
+ * - The task shows up in the cached lists right away (see taskCache) and
+ *   is removed again if the server rejects it
+ * - Offline, the task is queued with a client-generated id and sent when
+ *   the connection is back (see offlineMutations); the form is cleared for
+ *   the next task instead of navigating (other pages need the server)
  */
-export default function NewTaskForm() {
+export default function NewTaskForm({
+  projects,
+  tags,
+  defaultProjectId,
+  defaultDueDate,
+  returnTo,
+}: Props) {
   const [titulo, setTitulo] = useState('');
   const [descricao, setDescricao] = useState('');
+  const [dueDate, setDueDate] = useState(defaultDueDate ?? '');
+  const [priority, setPriority] = useState<TaskPriority>('media');
+  const [projectId, setProjectId] = useState(defaultProjectId ?? '');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null);
   const [error, setError] = useState('');
 
   const router = useRouter();
   const utils = trpc.useUtils();
+  const taskCache = useTaskCache();
   const { showToast } = useToast();
+  const { t } = useI18n();
+  const validation = useFormValidation(createTaskSchema);
+
+  // Client ids of the creates queued offline (they settle after the form
+  // has moved on, maybe after it has unmounted)
+  const queuedIds = useRef(new Set<string>());
 
   const createTask = trpc.task.create.useMutation({
-    onSuccess: () => {
-      // Invalidate infinite query to refetch all pages
-      utils.task.infiniteList.invalidate();
-      showToast('Tarefa criada com sucesso', 'success');
-      router.push('/');
-      router.refresh();
+    onMutate: async (input) => {
+      const snapshot = await taskCache.snapshot();
+      if (input.id)
+        taskCache.insert(toOptimisticTask({ ...input, id: input.id }));
+      return { snapshot };
     },
-    onError: (err) => {
-      setError(err.message ?? 'Erro inesperado');
-      showToast(err.message ?? 'Erro ao criar tarefa', 'error');
+    onSuccess: (task) => {
+      taskCache.insert(task);
+      utils.project.list.invalidate();
+      utils.tag.list.invalidate();
+      if (queuedIds.current.has(task.id)) return;
+
+      showToast(t('newTask.created'), 'success');
+      router.push(
+        returnTo ?? (task.projectId ? `/projects/${task.projectId}` : '/')
+      );
+    },
+    onError: (err, input, context) => {
+      if (input.id && queuedIds.current.has(input.id)) {
+        // Replayed later: the snapshot would also undo the changes made since
+        taskCache.remove(input.id);
+        showToast(
+          t('newTask.queuedFailed', {
+            titulo: input.titulo,
+            error: err.message,
+          }),
+          'error'
+        );
+        return;
+      }
+      taskCache.restore(context?.snapshot);
+      if (!validation.setServerErrors(err)) {
+        setError(err.message ?? t('errors.unexpected'));
+      }
+      showToast(err.message ?? t('newTask.createError'), 'error');
     },
   });
 
+  const pausedId = createTask.isPaused ? createTask.variables?.id : undefined;
+  useEffect(() => {
+    if (!pausedId || queuedIds.current.has(pausedId)) return;
+    queuedIds.current.add(pausedId);
+
+    setTitulo('');
+    setDescricao('');
+    setDueDate(defaultDueDate ?? '');
+    setTagIds([]);
+    setRecurrence(null);
+    showToast(t('newTask.queued'), 'info');
+  }, [pausedId, defaultDueDate, showToast, t]);
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError('');
 
-    if (!titulo.trim()) {
-      setError('Título é obrigatório');
-      return;
-    }
-
-    createTask.mutate({
+    const input: CreateTaskInput = {
+      id: crypto.randomUUID(),
       titulo: titulo.trim(),
       descricao: descricao.trim() || undefined,
-    });
+      dueDate: dueDate || undefined,
+      priority,
+      projectId: projectId || undefined,
+      tagIds,
+      recurrence: recurrence ?? undefined,
+    };
+    if (!validation.validate(input)) return;
+
+    createTask.mutate(input);
   };
 
-  const isSubmitting = createTask.isPending;
+  const formError = error || validation.formError;
+
+  const isSubmitting = createTask.isPending && !createTask.isPaused;
 
   return (
     <div>
       {/* Header with back button */}
       <div className="mb-8">
         <Link
-          href="/"
+          href={returnTo ?? '/'}
           className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
         >
           <svg
@@ -76,10 +183,10 @@ export default function NewTaskForm() {
               d="M15 19l-7-7 7-7"
             />
           </svg>
-          Voltar para lista
+          {returnTo ? t('nav.back') : t('nav.backToList')}
         </Link>
         <h1 className="text-3xl font-semibold text-gray-900">
-          Criar Nova Tarefa
+          {t('newTask.title')}
         </h1>
       </div>
 
@@ -94,7 +201,7 @@ export default function NewTaskForm() {
               htmlFor="titulo"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              Título <span className="text-red-500">*</span>
+              {t('taskForm.titulo')} <span className="text-red-500">*</span>
             </label>
             <input
               id="titulo"
@@ -102,13 +209,19 @@ export default function NewTaskForm() {
               value={titulo}
               onChange={(e) => {
                 setTitulo(e.target.value);
+                validation.clearField('titulo');
                 if (error) setError('');
               }}
+              {...validation.fieldProps('titulo')}
               disabled={isSubmitting}
               className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
-              placeholder="Digite o título da tarefa"
+              placeholder={t('taskForm.tituloPlaceholder')}
               autoFocus
             />
+            <FieldError
+              field="titulo"
+              message={validation.fieldError('titulo')}
+            />
           </div>
 
           <div>
@@ -116,25 +229,149 @@ export default function NewTaskForm() {
               htmlFor="descricao"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              Descrição
+              {t('taskForm.descricao')}
             </label>
-            <textarea
+            <MarkdownEditor
               id="descricao"
               value={descricao}
-              onChange={(e) => {
-                setDescricao(e.target.value);
+              onChange={(value) => {
+                setDescricao(value);
+                validation.clearField('descricao');
                 if (error) setError('');
               }}
               disabled={isSubmitting}
-              rows={6}
-              className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed resize-none transition-colors"
-              placeholder="Digite a descrição da tarefa (opcional)"
+              placeholder={t('taskForm.descricaoPlaceholder')}
+            />
+            <FieldError
+              field="descricao"
+              message={validation.fieldError('descricao')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <label
+                htmlFor="dueDate"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                {t('taskForm.dueDate')}
+              </label>
+              <input
+                id="dueDate"
+                type="date"
+                value={dueDate}
+                min={toDateOnly(Date.now())}
+                onChange={(e) => {
+                  setDueDate(e.target.value);
+                  validation.clearField('dueDate');
+                  if (error) setError('');
+                }}
+                {...validation.fieldProps('dueDate')}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+              />
+              <FieldError
+                field="dueDate"
+                message={validation.fieldError('dueDate')}
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="priority"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                {t('taskForm.priority')}
+              </label>
+              <select
+                id="priority"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as TaskPriority)}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+              >
+                {taskPrioritySchema.options.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`priority.${option}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="recurrence"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('taskForm.recurrence')}
+            </label>
+            <RecurrenceInput
+              id="recurrence"
+              value={recurrence}
+              onChange={(value) => {
+                setRecurrence(value);
+                validation.clearField('recurrence');
+                if (error) setError('');
+              }}
+              startDate={dueDate || toDateOnly(Date.now())}
+              disabled={isSubmitting}
+            />
+            <FieldError
+              field="recurrence"
+              message={validation.fieldError('recurrence')}
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="projectId"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('taskForm.project')}
+            </label>
+            <select
+              id="projectId"
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              disabled={isSubmitting}
+              className="w-full px-4 py-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              <option value="">{t('taskForm.noProject')}</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.nome}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              {t('taskForm.tags')}
+            </label>
+            <TagInput
+              id="tags"
+              value={tagIds}
+              onChange={(value) => {
+                setTagIds(value);
+                validation.clearField('tagIds');
+              }}
+              initialTags={tags}
+              disabled={isSubmitting}
+            />
+            <FieldError
+              field="tagIds"
+              message={validation.fieldError('tagIds')}
             />
           </div>
 
-          {error && (
+          {formError && (
             <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
-              <p className="text-sm text-red-700">{error}</p>
+              <p className="text-sm text-red-700">{formError}</p>
             </div>
           )}
 
@@ -144,13 +381,13 @@ export default function NewTaskForm() {
               disabled={isSubmitting}
               className="flex-1 bg-blue-600 text-white py-2.5 px-4 rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
             >
-              {isSubmitting ? 'Criando...' : 'Criar Tarefa'}
+              {isSubmitting ? t('newTask.submitting') : t('newTask.submit')}
             </button>
             <Link
-              href="/"
+              href={returnTo ?? '/'}
               className="px-6 py-2.5 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-all duration-200 text-center"
             >
-              Cancelar
+              {t('common.cancel')}
             </Link>
           </div>
         </div>
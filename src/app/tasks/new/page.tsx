@@ -1,5 +1,16 @@
+import { getSafeRedirect } from '@/server/auth/redirect';
+import { toDateOnly } from '@/server/schemas/task.schema';
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
 import NewTaskForm from './NewTaskForm';
 
+type PageProps = {
+  searchParams: Promise<{
+    projectId?: string;
+    dueDate?: string;
+    next?: string;
+  }>;
+};
+
 /**
  * Task creation page
  *
@@ -8,12 +19,48 @@ import NewTaskForm from './NewTaskForm';
  * - Better for accessibility (full page focus)
  * - Shareable URL for creating tasks
  * - Matches traditional CRUD patterns expected in assessment
+ * - Requires a session: anonymous visitors are redirected to login
+ * - `?projectId=` preselects the project (link from a project page)
+ * - `?dueDate=` prefills the due date and `?next=` is where to go back
+ *   (links from the calendar); a past or malformed date is ignored
  */
-export default function NewTaskPage() {
+export default async function NewTaskPage({ searchParams }: PageProps) {
+  const { projectId, dueDate, next } = await searchParams;
+  const query = new URLSearchParams(
+    Object.entries({ projectId, dueDate, next }).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    )
+  ).toString();
+  const { caller } = await getAuthenticatedServerCaller(
+    query ? `/tasks/new?${query}` : '/tasks/new'
+  );
+
+  // Only active projects can receive new tasks
+  const [projects, tags] = await Promise.all([
+    caller.project.list(),
+    caller.tag.list(),
+  ]);
+  const defaultProjectId = projects.some((p) => p.id === projectId)
+    ? projectId
+    : undefined;
+  const defaultDueDate =
+    dueDate &&
+    /^\d{4}-\d{2}-\d{2}$/.test(dueDate) &&
+    !isNaN(Date.parse(dueDate)) &&
+    dueDate >= toDateOnly(Date.now())
+      ? dueDate
+      : undefined;
+
   return (
     <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-2xl mx-auto">
-        <NewTaskForm />
+        <NewTaskForm
+          projects={projects}
+          tags={tags}
+          defaultProjectId={defaultProjectId}
+          defaultDueDate={defaultDueDate}
+          returnTo={next ? getSafeRedirect(next) : undefined}
+        />
       </div>
     </main>
   );
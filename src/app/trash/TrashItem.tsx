@@ -0,0 +1,145 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import type { AppRouter } from '@/server/root';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+type Task = RouterOutput['task']['trash']['tasks'][number];
+
+type Props = {
+  task: Task;
+  retentionDays: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days left before the automatic purge (never negative)
+ */
+function daysUntilPurge(deletedAt: number, retentionDays: number) {
+  const purgeAt = deletedAt + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+/**
+ * TrashItem: One deleted task with restore and permanent delete
+ *
+ * Decisions:
+ * - Both actions remove the item from the trash cache on success
+ * - Restore also invalidates the home list, where the task reappears
+ * - Permanent delete requires inline confirmation (cannot be undone)
+ */
+export default function TrashItem({ task, retentionDays }: Props) {
+  const [isConfirmingPurge, setIsConfirmingPurge] = useState(false);
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const removeFromTrash = () => {
+    utils.task.trash.setData(undefined, (trash) =>
+      trash
+        ? { ...trash, tasks: trash.tasks.filter((item) => item.id !== task.id) }
+        : trash
+    );
+  };
+
+  const restore = trpc.task.restore.useMutation({
+    onSuccess: () => {
+      removeFromTrash();
+      utils.task.infiniteList.invalidate();
+      router.refresh();
+      showToast(t('taskItem.restored'), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('taskItem.restoreError'), 'error');
+    },
+  });
+
+  const purge = trpc.task.purge.useMutation({
+    onSuccess: () => {
+      removeFromTrash();
+      router.refresh();
+      showToast(t('trash.purged'), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('taskItem.deleteError'), 'error');
+    },
+  });
+
+  const isBusy = restore.isPending || purge.isPending;
+  const daysLeft = daysUntilPurge(task.deletedAt ?? Date.now(), retentionDays);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+      <div className="flex justify-between items-start gap-4">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">
+            {task.titulo}
+          </h3>
+          {task.descricao && (
+            <p className="text-sm text-gray-600 whitespace-pre-wrap leading-relaxed">
+              {task.descricao}
+            </p>
+          )}
+          <p className="mt-2 text-xs text-gray-500">
+            {daysLeft === 0
+              ? t('trash.purgeToday')
+              : t('trash.purgeIn', { count: daysLeft })}
+          </p>
+        </div>
+        {!isConfirmingPurge && (
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={() => restore.mutate({ id: task.id })}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {restore.isPending ? t('trash.restoring') : t('trash.restore')}
+            </button>
+            <button
+              onClick={() => setIsConfirmingPurge(true)}
+              disabled={isBusy}
+              className="px-3 py-1.5 text-xs font-medium bg-red-50 text-red-700 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('trash.purge')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isConfirmingPurge && (
+        <div className="mt-5 pt-5 border-t border-gray-200">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-gray-900 mb-4">
+              {t('trash.confirmPurge')}
+            </p>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => purge.mutate({ id: task.id })}
+                disabled={isBusy}
+                className="px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {purge.isPending ? t('common.removing') : t('common.confirm')}
+              </button>
+              <button
+                onClick={() => setIsConfirmingPurge(false)}
+                disabled={isBusy}
+                className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {t('common.cancel')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
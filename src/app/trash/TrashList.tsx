@@ -0,0 +1,146 @@
+'use client';
+
+import { useI18n } from '@/app/I18nContext';
+import { useToast } from '@/app/ToastContext';
+import type { AppRouter } from '@/server/root';
+import { trpc } from '@/utils/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import TrashItem from './TrashItem';
+
+type RouterOutput = inferRouterOutputs<AppRouter>;
+
+type Props = {
+  initialData: RouterOutput['task']['trash'];
+};
+
+/**
+ * TrashList: Deleted tasks with restore and permanent purge
+ *
+ * Implementation decisions:
+ * - SSR data as initialData, same pattern as the home list
+ * - Restore/purge remove the item from the trash cache directly
+ *   (the trash has no pagination, a plain array update is enough)
+ * - Emptying the trash asks for confirmation inline, like task deletion
+ */
+export default function TrashList({ initialData }: Props) {
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { showToast } = useToast();
+  const { t } = useI18n();
+
+  const { data } = trpc.task.trash.useQuery(undefined, {
+    initialData,
+    staleTime: Infinity,
+  });
+
+  const emptyTrash = trpc.task.emptyTrash.useMutation({
+    onSuccess: ({ count }) => {
+      utils.task.trash.setData(undefined, (trash) =>
+        trash ? { ...trash, tasks: [] } : trash
+      );
+      router.refresh();
+      setIsConfirmingEmpty(false);
+      showToast(t('trash.emptied', { count }), 'success');
+    },
+    onError: (err) => {
+      showToast(err.message ?? t('trash.emptyError'), 'error');
+    },
+  });
+
+  const { tasks, retentionDays } = data;
+
+  return (
+    <div>
+      {/* Header with back button */}
+      <div className="mb-8">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <svg
+            className="w-4 h-4 mr-2"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+          {t('nav.backToList')}
+        </Link>
+        <div className="flex justify-between items-end gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold text-gray-900">
+              {t('nav.trash')}
+            </h1>
+            <p className="mt-2 text-sm text-gray-600">
+              {t('trash.retention', { count: retentionDays })}
+            </p>
+          </div>
+          {tasks.length > 0 && !isConfirmingEmpty && (
+            <button
+              onClick={() => setIsConfirmingEmpty(true)}
+              className="px-3 py-1.5 text-xs font-medium bg-red-50 text-red-700 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 transition-all duration-200"
+            >
+              {t('trash.empty')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isConfirmingEmpty && (
+        <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-gray-900 mb-4">
+            {t('trash.confirmEmpty')}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => emptyTrash.mutate()}
+              disabled={emptyTrash.isPending}
+              className="px-5 py-2.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {emptyTrash.isPending
+                ? t('common.removing')
+                : t('trash.emptySubmit')}
+            </button>
+            <button
+              onClick={() => setIsConfirmingEmpty(false)}
+              disabled={emptyTrash.isPending}
+              className="px-5 py-2.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tasks.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">
+            {t('trash.isEmpty')}
+          </h3>
+          <p className="text-sm text-gray-500">{t('trash.isEmptyHint')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {tasks.map((task) => (
+            <TrashItem
+              key={task.id}
+              task={task}
+              retentionDays={retentionDays}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { getAuthenticatedServerCaller } from '@/server/serverCaller';
+import TrashList from './TrashList';
+
+/**
+ * Trash page: deleted tasks that can still be restored
+ *
+ * Flow:
+ * 1. Anonymous visitors are redirected to login (back here afterwards)
+ * 2. Server fetches the trash (expired tasks are purged first)
+ * 3. TrashList hydrates React Query with it as initialData
+ */
+export default async function TrashPage() {
+  const { caller } = await getAuthenticatedServerCaller('/trash');
+
+  const trash = await caller.task.trash();
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <TrashList initialData={trash} />
+      </div>
+    </main>
+  );
+}
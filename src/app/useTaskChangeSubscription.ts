@@ -0,0 +1,24 @@
+'use client';
+
+import { trpc } from '@/utils/trpc';
+import { useQueryClient } from '@tanstack/react-query';
+import { applyTaskChange } from './taskCache';
+
+/**
+ * Keeps every cached task list in sync with server-side changes
+ *
+ * Implementation:
+ * - Subscribes to `task.onChange` (SSE) while the list is mounted
+ * - Patches all loaded pages in place (`applyTaskChange`, shared with the
+ *   optimistic updates): new tasks on top, updates replaced, deletions
+ *   removed, without refetching every page
+ * - Events for changes made in this tab are harmless: the server's version
+ *   of a task that is already loaded just replaces it
+ */
+export function useTaskChangeSubscription() {
+  const queryClient = useQueryClient();
+
+  trpc.task.onChange.useSubscription(undefined, {
+    onData: (event) => applyTaskChange(queryClient, event),
+  });
+}
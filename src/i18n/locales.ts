@@ -0,0 +1,63 @@
+/**
+ * Supported locales
+ *
+ * Decisions:
+ * - pt-BR is the default: the app was written in Portuguese and its data
+ *   (field names, seed tasks) still is
+ * - The choice of the user (switcher) is kept in a cookie, read by the
+ *   server on every request; without it, `Accept-Language` decides
+ */
+export const locales = ['pt-BR', 'en'] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = 'pt-BR';
+
+export const localeCookieName = 'locale';
+
+/** Names shown by the switcher, each in its own language */
+export const localeNames: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return locales.includes(value as Locale);
+}
+
+/**
+ * Best supported locale for an `Accept-Language` header
+ *
+ * Languages are tried by preference (q-value): an exact tag first
+ * ("pt-BR"), then the language alone ("pt-PT" and "pt" pick pt-BR,
+ * "en-US" picks en)
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined) {
+  const preferences = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...options] = part.trim().split(';');
+      const quality = options
+        .map((option) => option.trim())
+        .find((option) => option.startsWith('q='));
+      return {
+        tag: tag.toLowerCase(),
+        quality: quality ? Number(quality.slice(2)) : 1,
+      };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of preferences) {
+    const exact = locales.find((locale) => locale.toLowerCase() === tag);
+    if (exact) return exact;
+
+    const language = tag.split('-')[0];
+    const partial = locales.find(
+      (locale) => locale.toLowerCase().split('-')[0] === language
+    );
+    if (partial) return partial;
+  }
+
+  return defaultLocale;
+}
@@ -0,0 +1,775 @@
+import type { Messages } from './pt-BR';
+
+/**
+ * Messages in English (same keys as pt-BR, checked by the `Messages` type)
+ */
+const en: Messages = {
+  locale: {
+    label: 'Language',
+  },
+
+  validation: {
+    required: 'Required',
+    invalid: 'Invalid value',
+    invalidType: 'Invalid type (expected {expected})',
+    invalidOption: 'Invalid option',
+    invalidDate: 'Invalid date',
+    invalidEmail: 'Invalid email',
+    invalidId: 'Invalid ID',
+    invalidFormat: 'Invalid format',
+    tooShort: {
+      one: 'At least {minimum} character',
+      other: 'At least {minimum} characters',
+    },
+    tooLong: {
+      one: 'At most {maximum} character',
+      other: 'At most {maximum} characters',
+    },
+    tooFewItems: {
+      one: 'At least {minimum} item',
+      other: 'At least {minimum} items',
+    },
+    tooManyItems: {
+      one: 'At most {maximum} item',
+      other: 'At most {maximum} items',
+    },
+    tooSmall: 'Must be at least {minimum}',
+    tooBig: 'Must be at most {maximum}',
+    dateOnly: 'Invalid date (use YYYY-MM-DD)',
+    nomeRequired: 'Name is required',
+    nomeTooLong: 'Name is too long',
+    senhaRequired: 'Password is required',
+    senhaTooShort: 'Password must have at least {minimum} characters',
+    senhaTooLong: 'Password is too long',
+    tituloRequired: 'Title is required',
+    tituloTooLong: 'Title is too long',
+    descricaoTooLong: 'Description is too long (at most {maximum} characters)',
+    tooManyTags: 'At most {maximum} tags',
+    weekdaysRequired: 'Choose at least one day of the week',
+    recurrenceEndConflict:
+      'Use an end date or a number of occurrences, not both',
+    noTasksSelected: 'Select at least one task',
+    tooManyTasks: 'At most {maximum} tasks at a time',
+    nothingToChange: 'Nothing to change',
+    fileRequired: 'File is required',
+    importFileTooLarge: 'File is too large (at most 1 MB)',
+    checklistItemRequired: 'Item is required',
+    checklistItemTooLong: 'Item is too long',
+    comentarioRequired: 'Comment cannot be empty',
+    comentarioTooLong: 'Comment is too long',
+    invalidRange: 'Invalid range',
+    rangeTooLong: 'Range is longer than {maxDays} days',
+  },
+
+  errors: {
+    unexpected: 'Unexpected error',
+    code: {
+      PARSE_ERROR: 'Invalid request',
+      BAD_REQUEST: 'Invalid request',
+      UNAUTHORIZED: 'Authentication required',
+      FORBIDDEN: 'Access denied',
+      NOT_FOUND: 'Not found',
+      METHOD_NOT_SUPPORTED: 'Operation not supported',
+      TIMEOUT: 'The server took too long to answer',
+      CONFLICT: 'Conflicts with a newer change',
+      PAYLOAD_TOO_LARGE: 'Content is too large',
+      TOO_MANY_REQUESTS: 'Too many requests, try again in a moment',
+      INTERNAL_SERVER_ERROR: 'Internal server error',
+    },
+    authRequired: 'Authentication required',
+    emailTaken: 'Email already registered',
+    invalidCredentials: 'Invalid email or password',
+    taskNotFound: 'Task not found',
+    taskIdInUse: 'Task id already in use',
+    taskVersionConflict:
+      'Task was changed by someone else (version {current}, expected {expected})',
+    dueDateBeforeCreation: 'Due date cannot be before the creation date',
+    invalidStatusTransition: 'Invalid status transition: {from} -> {to}',
+    revisionNotFound: 'Revision not found',
+    checklistItemNotFound: 'Checklist item not found',
+    checklistTooManyItems: 'A checklist can have at most {max} items',
+    checklistIdsMismatch: 'Item ids must match the current checklist',
+    importTooManyRows: 'An import can have at most {max} tasks',
+    importEmpty: 'File has no tasks',
+    importInvalidRecords: {
+      one: '{count} record has errors (first: #{row} {error})',
+      other: '{count} records have errors (first: #{row} {error})',
+    },
+    importDuplicateTask: 'Task appears more than once in the file',
+    importMissingTitulo: 'CSV header must have a "titulo" column',
+    importInvalidJson: 'File is not valid JSON',
+    importNotArray: 'JSON must be an array of tasks',
+    projectNotFound: 'Project not found',
+    projectArchived: 'Project is archived',
+    projectMoveToDeleted: 'Cannot move tasks to the project being deleted',
+    tagNotFound: 'Tag not found',
+    tagExists: 'Tag "{nome}" already exists (merge tags instead)',
+    tagMergeSelf: 'Cannot merge a tag into itself',
+    commentNotFound: 'Comment not found',
+    commentAuthorOnly: 'Only the author can change a comment',
+    attachmentNotFound: 'Attachment not found',
+    attachmentFileNotFound: 'The attachment file is missing on the server',
+    attachmentEmpty: 'File is empty',
+    attachmentTooLarge: 'File exceeds the {maxMb} MB limit',
+    attachmentTypeNotAccepted: 'File type not accepted: {nome}',
+    attachmentTooMany: 'A task can have at most {max} attachments',
+    attachmentNotMultipart: 'Expected multipart/form-data',
+    attachmentLengthRequired: 'Send the file with its size (Content-Length)',
+    boardColumnNotFound: 'Board column not found',
+    boardTooManyColumns: 'A board can have at most {max} columns',
+    boardLastColumn: 'A board needs at least one column',
+  },
+
+  status: {
+    pendente: 'To do',
+    em_andamento: 'In progress',
+    concluida: 'Done',
+    arquivada: 'Archived',
+  },
+
+  priority: {
+    baixa: 'Low',
+    media: 'Medium',
+    alta: 'High',
+    label: '{priority} priority',
+  },
+
+  dueDate: {
+    done: 'due {date}',
+    overdue: {
+      one: 'overdue by {count} day',
+      other: 'overdue by {count} days',
+    },
+    today: 'due today',
+    tomorrow: 'due tomorrow',
+    inDays: {
+      one: 'due in {count} day',
+      other: 'due in {count} days',
+    },
+    on: 'due {date}',
+  },
+
+  recurrence: {
+    frequency: {
+      daily: 'Daily',
+      weekly: 'Weekly',
+      monthly: 'Monthly',
+    },
+    every: {
+      daily: 'Every day',
+      weekly: 'Every week',
+      monthly: 'Every month',
+    },
+    unit: {
+      daily: { one: 'day', other: 'days' },
+      weekly: { one: 'week', other: 'weeks' },
+      monthly: { one: 'month', other: 'months' },
+    },
+    everyInterval: 'Every {count} {unit}',
+    until: ', until {date}',
+    times: {
+      one: ', {count} time',
+      other: ', {count} times',
+    },
+  },
+
+  app: {
+    title: 'Task Manager',
+  },
+
+  nav: {
+    board: 'Board',
+    calendar: 'Calendar',
+    projects: 'Projects',
+    tags: 'Tags',
+    trash: 'Trash',
+    newTask: 'New Task',
+    back: 'Back',
+    backToList: 'Back to list',
+    backToProjects: 'Back to projects',
+    backTo: 'Back to {nome}',
+  },
+
+  home: {
+    subtitle: 'Organize your tasks simply and efficiently',
+    sourceCode: 'View source on GitHub',
+  },
+
+  userMenu: {
+    logout: 'Log out',
+    loggingOut: 'Logging out...',
+    logoutError: 'Could not log out',
+  },
+
+  auth: {
+    nome: 'Name',
+    email: 'Email',
+    emailPlaceholder: 'you@example.com',
+    senha: 'Password',
+  },
+
+  login: {
+    title: 'Log in',
+    subtitle: 'Sign in to see your tasks',
+    missingFields: 'Enter your email and password',
+    submit: 'Log in',
+    submitting: 'Logging in...',
+    noAccount: "Don't have an account?",
+  },
+
+  register: {
+    title: 'Create account',
+    subtitle: 'Your tasks are visible only to you',
+    missingFields: 'Fill in all the fields',
+    senhaHint: 'Password (at least {minimum} characters)',
+    submit: 'Create account',
+    submitting: 'Creating account...',
+    hasAccount: 'Already have an account?',
+  },
+
+  taskList: {
+    title: 'Tasks',
+    export: 'Export:',
+    import: 'Import',
+    loading: 'Loading tasks...',
+    emptyFiltered: 'No tasks found',
+    empty: 'No tasks yet',
+    emptyFilteredHint: 'Try adjusting the search or the filters.',
+    emptyHint: 'Create your first task to get started.',
+    selectAll: 'Select all loaded ({count})',
+    loadingMore: 'Loading more tasks',
+    end: "You've reached the end of the list",
+  },
+
+  common: {
+    edit: 'Edit',
+    delete: 'Delete',
+    deleting: 'Deleting...',
+    confirm: 'Confirm',
+    cancel: 'Cancel',
+    save: 'Save',
+    remove: 'Delete',
+    removing: 'Deleting...',
+    loading: 'Loading...',
+    loadMore: 'Load more',
+    sending: 'Sending...',
+    saving: 'Saving...',
+    undo: 'Undo',
+    close: 'Close',
+    none: 'None',
+  },
+
+  taskItem: {
+    restored: 'Task restored',
+    restoreError: 'Could not restore the task',
+    deleted: 'Task moved to the trash',
+    deleteError: 'Could not delete the task',
+    statusError: 'Could not update the status',
+    nextOccurrence: 'Next occurrence created',
+    select: 'Select "{titulo}"',
+    selectHint: 'Select (Shift+click selects a range)',
+    markPending: 'Mark as to do',
+    markCompleted: 'Mark as done',
+    status: 'Task status',
+    paused: 'Waiting for connection',
+    pausedHint: 'It will be sent when the connection is back',
+    checklistProgress: {
+      one: '{done} of {count} item done',
+      other: '{done} of {count} items done',
+    },
+    comments: {
+      one: '{count} comment',
+      other: '{count} comments',
+    },
+    commentsUnit: {
+      one: 'comment',
+      other: 'comments',
+    },
+    occurrence: 'Occurrence {occurrence}',
+    occurrenceOf: 'Occurrence {occurrence} of {count}',
+    showMore: 'Show more',
+    showLess: 'Show less',
+    filterByTag: 'Filter by #{nome}',
+    confirmDelete: 'Are you sure you want to delete this task?',
+  },
+
+  taskFilters: {
+    searchPlaceholder: 'Search by title or description',
+    search: 'Search tasks',
+    sortBy: 'Sort by',
+    sort: {
+      'dataCriacao:desc': 'Newest',
+      'dataCriacao:asc': 'Oldest',
+      'titulo:asc': 'Title (A-Z)',
+      'titulo:desc': 'Title (Z-A)',
+      'dueDate:asc': 'Due soonest',
+      'dueDate:desc': 'Due latest',
+      'priority:desc': 'Highest priority',
+      'priority:asc': 'Lowest priority',
+    },
+    createdFrom: 'Created from',
+    createdTo: 'to',
+    clear: 'Clear filters',
+    tags: 'Tags:',
+    tagFilter: 'Filter by tag',
+    addTag: '+ Tag',
+    tagMode: 'Combine tags',
+    tagModeHint: {
+      and: 'Tasks with all the tags',
+      or: 'Tasks with any of the tags',
+    },
+    tagModeLabel: {
+      and: 'AND',
+      or: 'OR',
+    },
+  },
+
+  bulkActions: {
+    label: 'Bulk actions',
+    failures:
+      '{failed} of {count} tasks failed ({details}). No changes were saved.',
+    restored: {
+      one: 'Task restored',
+      other: '{count} tasks restored',
+    },
+    restoreError: 'Could not restore the tasks',
+    deleted: {
+      one: 'Task moved to the trash',
+      other: '{count} tasks moved to the trash',
+    },
+    deleteError: 'Could not delete the tasks',
+    updated: {
+      one: 'Task updated',
+      other: '{count} tasks updated',
+    },
+    updateError: 'Could not update the tasks',
+    confirmDelete: {
+      one: 'Move 1 task to the trash?',
+      other: 'Move {count} tasks to the trash?',
+    },
+    selected: {
+      one: '1 selected',
+      other: '{count} selected',
+    },
+    priority: 'Change the priority of the selected tasks',
+    priorityPlaceholder: 'Priority…',
+    moveTo: 'Move the selected tasks to a project',
+    moveToPlaceholder: 'Move to…',
+    noProject: 'No project',
+    clear: 'Clear selection',
+  },
+
+  tagInput: {
+    placeholder: 'Add tags',
+    create: 'Create tag "{nome}"',
+    createError: 'Could not create the tag',
+    remove: 'Remove tag {nome}',
+  },
+
+  markdownEditor: {
+    mode: 'Editor mode',
+    write: 'Write',
+    preview: 'Preview',
+    empty: 'Nothing to preview',
+    hint: 'Markdown: **bold**, _italic_, `code`, [link](https://…), - lists',
+  },
+
+  recurrenceInput: {
+    never: 'Does not repeat',
+    every: 'every',
+    interval: 'Interval',
+    weekdays: 'Days of the week',
+    ends: 'Ends',
+    end: 'End of the repetition',
+    endMode: {
+      never: 'Never',
+      date: 'On a date',
+      count: 'After a number of times',
+    },
+    endsOn: 'End date',
+    count: 'Number of occurrences',
+    times: {
+      one: 'time',
+      other: 'times',
+    },
+    next: 'When completed, the next occurrence will be created for {date} (past dates are skipped).',
+  },
+
+  offlineSync: {
+    conflict: 'A change made offline conflicts with an edit made elsewhere',
+    resolve: 'Resolve',
+    discarded:
+      'A change made offline was discarded: the task was changed elsewhere',
+    notFound: 'A change made offline was discarded: the task no longer exists',
+    rejected: 'A change made offline was rejected: {error}',
+    synced: {
+      one: 'Change made offline synced',
+      other: '{count} changes made offline synced',
+    },
+  },
+
+  syncIndicator: {
+    online: 'Online',
+    syncing: 'Syncing...',
+    offline: 'Offline',
+    offlinePending: {
+      one: 'Offline · {count} pending change',
+      other: 'Offline · {count} pending changes',
+    },
+  },
+
+  commandPalette: {
+    label: 'Command palette',
+    placeholder: 'Search tasks and actions...',
+    empty: 'No results',
+    tasks: 'Tasks',
+    hint: '↑↓ navigate · Enter open · Shift+Enter edit task · Esc close',
+    newTask: 'New task',
+    edit: 'Go to edit',
+    editTask: 'Go to edit: {titulo}',
+    goHome: 'Go to tasks',
+    goBoard: 'Go to board',
+    goCalendar: 'Go to calendar',
+    goProjects: 'Go to projects',
+    goTags: 'Go to tags',
+    goTrash: 'Go to trash',
+    import: 'Import tasks',
+    help: 'Show keyboard shortcuts',
+  },
+
+  shortcuts: {
+    title: 'Keyboard shortcuts',
+    hint: "Single-key shortcuts don't work while you type in a field.",
+    palette: 'Open the command palette',
+    next: 'Next task in the list',
+    previous: 'Previous task in the list',
+    edit: 'Edit the selected task',
+    delete: 'Delete the selected task',
+    newTask: 'New task',
+    help: 'Show the shortcuts',
+    close: 'Close the palette or the shortcuts',
+  },
+
+  taskForm: {
+    titulo: 'Title',
+    tituloPlaceholder: 'Enter the task title',
+    descricao: 'Description',
+    descricaoPlaceholder: 'Enter the task description (optional)',
+    dueDate: 'Due date',
+    priority: 'Priority',
+    recurrence: 'Repeat',
+    project: 'Project',
+    noProject: 'No project',
+    archivedProject: '(archived)',
+    tags: 'Tags',
+  },
+
+  newTask: {
+    title: 'Create New Task',
+    submit: 'Create Task',
+    submitting: 'Creating...',
+    created: 'Task created',
+    createError: 'Could not create the task',
+    queuedFailed: 'Task "{titulo}" was not created: {error}',
+    queued:
+      'No connection: the task was saved on this device and will be created when the connection is back',
+  },
+
+  editTask: {
+    title: 'Edit Task',
+    submit: 'Save Changes',
+    updated: 'Task updated',
+    updateError: 'Could not update the task',
+    deletedMeanwhile: 'This task was deleted while you were editing it',
+    scope: 'Apply changes to',
+    scopeOption: {
+      occurrence: 'This occurrence only',
+      series: 'This and the following occurrences',
+    },
+    scopeHint:
+      'The due date always belongs to this occurrence only; changes to the repeat rule apply to the whole series.',
+  },
+
+  conflict: {
+    title: 'This task was changed while you were editing it',
+    hint: 'Choose which value to keep in each field and save again.',
+    base: 'Original',
+    mine: 'My version',
+    theirs: 'Saved version',
+    projectRemoved: 'removed project',
+    tagRemoved: 'removed',
+    submit: 'Save with these choices',
+    cancel: 'Keep editing',
+  },
+
+  history: {
+    title: 'History',
+    empty: 'No changes recorded yet.',
+    current: 'Current version',
+    revert: 'Revert to this version',
+    reverted: 'Task reverted',
+    revertError: 'Could not revert the task',
+    system: 'System',
+    yes: 'Yes',
+    no: 'No',
+    checklistItems: {
+      one: '{done}/{count} item',
+      other: '{done}/{count} items',
+    },
+    action: {
+      create: 'Created',
+      update: 'Edited',
+      delete: 'Moved to the trash',
+      restore: 'Restored from the trash',
+    },
+    field: {
+      titulo: 'Title',
+      descricao: 'Description',
+      status: 'Status',
+      completedAt: 'Completed at',
+      deletedAt: 'Deleted at',
+      dueDate: 'Due date',
+      priority: 'Priority',
+      projectId: 'Project',
+      tagIds: 'Tags',
+      checklist: 'Checklist',
+      checklistAutoComplete: 'Complete when every item is checked',
+    },
+  },
+
+  checklist: {
+    title: 'Checklist',
+    progress: '{done}/{count} done',
+    progressLabel: 'Checklist progress',
+    autoCompleted: 'All items done: task completed',
+    addError: 'Could not add the item',
+    deleteError: 'Could not remove the item',
+    updateError: 'Could not update the item',
+    renameError: 'Could not rename the item',
+    reorderError: 'Could not reorder the items',
+    move: 'Move "{titulo}" (Alt+↑/↓)',
+    dragHint: 'Drag to reorder',
+    check: 'Check "{titulo}"',
+    uncheck: 'Uncheck "{titulo}"',
+    itemText: 'Item text',
+    editHint: 'Click to edit',
+    remove: 'Remove "{titulo}"',
+    full: 'Limit of {max} items',
+    newItem: 'New item',
+    newItemLabel: 'New checklist item',
+    add: 'Add',
+    autoComplete: 'Complete the task when every item is checked',
+  },
+
+  taskPage: {
+    noDescricao: 'No description',
+  },
+
+  notFound: {
+    task: 'Task not found',
+    taskHint: "The task you're looking for doesn't exist or was removed.",
+    project: 'Project not found',
+    projectHint: "The project you're looking for doesn't exist or was deleted.",
+  },
+
+  comments: {
+    title: 'Comments',
+    empty: 'No comments yet. Start the conversation below.',
+    loadMore: 'Load more comments',
+    new: 'New comment',
+    placeholder: 'Write a comment (Markdown, Ctrl+Enter sends)',
+    submit: 'Comment',
+    editLabel: 'Edit comment',
+    edited: '(edited)',
+    authorRemoved: 'Removed user',
+    confirmDelete: 'Delete this comment?',
+    deleted: 'Comment deleted',
+    addError: 'Could not add the comment',
+    updateError: 'Could not edit the comment',
+    deleteError: 'Could not delete the comment',
+  },
+
+  attachments: {
+    title: 'Attachments',
+    add: 'Add files',
+    empty:
+      'No attachments. Images, PDFs, text and compressed files up to {size}.',
+    fileFallback: 'file',
+    remove: 'Delete {nome}',
+    deleted: 'Attachment deleted',
+    deleteError: 'Could not delete the attachment',
+    uploaded: {
+      one: 'Attachment uploaded',
+      other: '{count} attachments uploaded',
+    },
+    uploadError: 'Could not upload {nome}',
+    emptyFile: '{nome} is empty',
+    tooLarge: '{nome} exceeds the {size} limit',
+  },
+
+  importTasks: {
+    title: 'Import tasks',
+    hint: 'CSV or JSON files in the export format. Rows with the id of an existing task update it; the others create new tasks.',
+    file: 'File',
+    analyzing: 'Analyzing file...',
+    summary: '{creates} to create, {updates} to update',
+    invalid: ', {count} with errors',
+    noRows: 'No tasks found in the file.',
+    column: { action: 'Action', titulo: 'Title', errors: 'Errors' },
+    action: { create: 'Create', update: 'Update' },
+    submit: 'Import',
+    submitting: 'Importing...',
+    done: 'Import finished: {created} created, {updated} updated',
+    readError: 'Could not read the file',
+    importError: 'Could not import the tasks',
+  },
+
+  board: {
+    title: 'Board',
+    subtitle: 'Drag tasks between columns and into the order you prefer',
+    defaultColumns: { todo: 'To do', doing: 'Doing', done: 'Done' },
+    conflict: 'The task was changed elsewhere, reloading the board',
+    moveTaskError: 'Could not move the task',
+    newColumn: 'New column',
+    newColumnPlaceholder: 'E.g.: In review',
+    addColumn: 'Add column',
+    creating: 'Creating...',
+    createError: 'Could not create the column',
+    columnName: 'Column name',
+    moveColumnLeft: 'Move column {nome} left',
+    moveColumnRight: 'Move column {nome} right',
+    renameColumn: 'Rename column {nome}',
+    deleteColumn: 'Delete column {nome}',
+    confirmDelete: 'Delete the column? Its tasks go to the first column.',
+    deleted: 'Column deleted',
+    deletedWithTasks: {
+      one: 'Column deleted, {count} task moved to the first column',
+      other: 'Column deleted, {count} tasks moved to the first column',
+    },
+    renameError: 'Could not rename the column',
+    moveError: 'Could not move the column',
+    deleteError: 'Could not delete the column',
+    moveUp: 'Move "{titulo}" up',
+    moveDown: 'Move "{titulo}" down',
+    moveTo: 'Move "{titulo}" to {column}',
+    emptyColumn: 'Drag tasks here',
+  },
+
+  calendar: {
+    title: 'Calendar',
+    subtitle:
+      'Drag a task to another day to reschedule it, or click an empty day to create one',
+    conflict: 'The task was changed elsewhere, reloading the calendar',
+    rescheduleError: 'Could not reschedule the task',
+    newTaskOn: 'New task on {date}',
+    previousWeek: 'Previous week',
+    previousMonth: 'Previous month',
+    nextWeek: 'Next week',
+    nextMonth: 'Next month',
+    today: 'Today',
+    view: 'View',
+    viewLabel: { month: 'Month', week: 'Week' },
+    undated: 'No date',
+    undatedHint:
+      'Open tasks without a due date. Drag one to a day to schedule it, or drop it here to clear its date.',
+    undatedEmpty: 'No tasks without a date',
+  },
+
+  projects: {
+    newName: 'New project name',
+    create: 'Create project',
+    creating: 'Creating...',
+    created: 'Project "{nome}" created',
+    createError: 'Could not create the project',
+    empty: 'No projects yet',
+    emptyHint: 'Create a project to group related tasks.',
+    name: 'Project name',
+    taskCount: { one: '{count} task', other: '{count} tasks' },
+    rename: 'Rename',
+    renameError: 'Could not rename the project',
+    archive: 'Archive',
+    unarchive: 'Reactivate',
+    archivedBadge: 'Archived',
+    archivedHint: 'Archived project: new tasks cannot be added',
+    archived: 'Project archived',
+    unarchived: 'Project reactivated',
+    archiveError: 'Could not archive the project',
+    confirmDelete:
+      'Delete the project "{nome}"? What should happen to its tasks?',
+    moveTo: 'Move to',
+    target: 'Target project',
+    trashTasks: 'Move the tasks to the trash',
+    delete: 'Delete project',
+    deletedToTrash: 'Project deleted, tasks moved to the trash',
+    deletedMoved: 'Project deleted, tasks moved',
+    deleteError: 'Could not delete the project',
+  },
+
+  tagColor: {
+    gray: 'Gray',
+    red: 'Red',
+    orange: 'Orange',
+    yellow: 'Yellow',
+    green: 'Green',
+    blue: 'Blue',
+    purple: 'Purple',
+    pink: 'Pink',
+  },
+
+  tags: {
+    newName: 'New tag name',
+    newColor: 'New tag color',
+    create: 'Create tag',
+    creating: 'Creating...',
+    created: 'Tag "{nome}" created',
+    createError: 'Could not create the tag',
+    empty: 'No tags yet',
+    emptyHint: 'Create tags to classify tasks (e.g. frontend, infra, bug).',
+    name: 'Tag name',
+    color: 'Color of tag {nome}',
+    updateError: 'Could not update the tag',
+    merge: 'Merge',
+    mergeInto: 'Merge "{nome}" into',
+    target: 'Target tag',
+    chooseTarget: 'Choose a tag',
+    mergeHint: '({tasks} will use the target tag)',
+    mergeSubmit: 'Merge tags',
+    merging: 'Merging...',
+    merged: 'Tag "{nome}" merged into "{target}"',
+    mergeError: 'Could not merge the tags',
+    confirmDelete: 'Delete the tag "{nome}"? It will be removed from {tasks}.',
+    delete: 'Delete tag',
+    deleted: 'Tag "{nome}" deleted',
+    deleteError: 'Could not delete the tag',
+  },
+
+  trash: {
+    retention: {
+      one: 'Deleted tasks are removed for good after {count} day',
+      other: 'Deleted tasks are removed for good after {count} days',
+    },
+    empty: 'Empty trash',
+    emptySubmit: 'Empty',
+    confirmEmpty:
+      'Permanently delete every task in the trash? This cannot be undone.',
+    emptied: {
+      one: '{count} task permanently deleted',
+      other: '{count} tasks permanently deleted',
+    },
+    emptyError: 'Could not empty the trash',
+    isEmpty: 'The trash is empty',
+    isEmptyHint: 'Deleted tasks show up here and can be restored.',
+    purgeToday: 'Will be deleted for good today',
+    purgeIn: {
+      one: 'Will be deleted for good in {count} day',
+      other: 'Will be deleted for good in {count} days',
+    },
+    restore: 'Restore',
+    restoring: 'Restoring...',
+    purge: 'Delete permanently',
+    confirmPurge: 'Permanently delete this task? This cannot be undone.',
+    purged: 'Task permanently deleted',
+  },
+};
+
+export default en;
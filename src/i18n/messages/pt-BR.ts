@@ -0,0 +1,784 @@
+/**
+ * Messages in Portuguese (Brazil), the default locale
+ *
+ * Grouped by screen/feature; `{name}` are placeholders, `{ one, other }`
+ * are chosen by the `count` parameter (see translator)
+ */
+const ptBR = {
+  locale: {
+    label: 'Idioma',
+  },
+
+  validation: {
+    required: 'Campo obrigatório',
+    invalid: 'Valor inválido',
+    invalidType: 'Tipo inválido (esperado: {expected})',
+    invalidOption: 'Opção inválida',
+    invalidDate: 'Data inválida',
+    invalidEmail: 'E-mail inválido',
+    invalidId: 'ID inválido',
+    invalidFormat: 'Formato inválido',
+    tooShort: {
+      one: 'Mínimo de {minimum} caractere',
+      other: 'Mínimo de {minimum} caracteres',
+    },
+    tooLong: {
+      one: 'Máximo de {maximum} caractere',
+      other: 'Máximo de {maximum} caracteres',
+    },
+    tooFewItems: {
+      one: 'Mínimo de {minimum} item',
+      other: 'Mínimo de {minimum} itens',
+    },
+    tooManyItems: {
+      one: 'Máximo de {maximum} item',
+      other: 'Máximo de {maximum} itens',
+    },
+    tooSmall: 'Deve ser no mínimo {minimum}',
+    tooBig: 'Deve ser no máximo {maximum}',
+    dateOnly: 'Data inválida (use AAAA-MM-DD)',
+    nomeRequired: 'Nome é obrigatório',
+    nomeTooLong: 'Nome muito longo',
+    senhaRequired: 'Senha é obrigatória',
+    senhaTooShort: 'Senha deve ter pelo menos {minimum} caracteres',
+    senhaTooLong: 'Senha muito longa',
+    tituloRequired: 'Título é obrigatório',
+    tituloTooLong: 'Título muito longo',
+    descricaoTooLong: 'Descrição muito longa (máximo {maximum} caracteres)',
+    tooManyTags: 'Máximo de {maximum} tags',
+    weekdaysRequired: 'Escolha ao menos um dia da semana',
+    recurrenceEndConflict:
+      'Use uma data final ou um número de ocorrências, não ambos',
+    noTasksSelected: 'Selecione ao menos uma tarefa',
+    tooManyTasks: 'Máximo de {maximum} tarefas por vez',
+    nothingToChange: 'Nada para alterar',
+    fileRequired: 'Arquivo obrigatório',
+    importFileTooLarge: 'Arquivo muito grande (máximo 1 MB)',
+    checklistItemRequired: 'Item é obrigatório',
+    checklistItemTooLong: 'Item muito longo',
+    comentarioRequired: 'Comentário não pode ser vazio',
+    comentarioTooLong: 'Comentário muito longo',
+    invalidRange: 'Intervalo inválido',
+    rangeTooLong: 'Intervalo maior que {maxDays} dias',
+  },
+
+  errors: {
+    unexpected: 'Erro inesperado',
+    code: {
+      PARSE_ERROR: 'Requisição inválida',
+      BAD_REQUEST: 'Requisição inválida',
+      UNAUTHORIZED: 'É preciso entrar para continuar',
+      FORBIDDEN: 'Acesso negado',
+      NOT_FOUND: 'Não encontrado',
+      METHOD_NOT_SUPPORTED: 'Operação não suportada',
+      TIMEOUT: 'O servidor demorou para responder',
+      CONFLICT: 'Conflito com uma alteração mais recente',
+      PAYLOAD_TOO_LARGE: 'Conteúdo grande demais',
+      TOO_MANY_REQUESTS: 'Muitas requisições, tente novamente em instantes',
+      INTERNAL_SERVER_ERROR: 'Erro interno do servidor',
+    },
+    authRequired: 'É preciso entrar para continuar',
+    emailTaken: 'E-mail já cadastrado',
+    invalidCredentials: 'E-mail ou senha inválidos',
+    taskNotFound: 'Tarefa não encontrada',
+    taskIdInUse: 'ID de tarefa já em uso',
+    taskVersionConflict:
+      'A tarefa foi alterada por outra pessoa (versão {current}, esperada {expected})',
+    dueDateBeforeCreation: 'O prazo não pode ser anterior à data de criação',
+    invalidStatusTransition: 'Transição de status inválida: {from} → {to}',
+    revisionNotFound: 'Versão não encontrada',
+    checklistItemNotFound: 'Item do checklist não encontrado',
+    checklistTooManyItems: 'Um checklist pode ter no máximo {max} itens',
+    checklistIdsMismatch: 'Os itens não correspondem ao checklist atual',
+    importTooManyRows: 'Uma importação pode ter no máximo {max} tarefas',
+    importEmpty: 'O arquivo não tem tarefas',
+    importInvalidRecords: {
+      one: '{count} registro com erros (primeiro: #{row} {error})',
+      other: '{count} registros com erros (primeiro: #{row} {error})',
+    },
+    importDuplicateTask: 'A tarefa aparece mais de uma vez no arquivo',
+    importMissingTitulo: 'O cabeçalho do CSV precisa de uma coluna "titulo"',
+    importInvalidJson: 'O arquivo não é um JSON válido',
+    importNotArray: 'O JSON precisa ser uma lista de tarefas',
+    projectNotFound: 'Projeto não encontrado',
+    projectArchived: 'O projeto está arquivado',
+    projectMoveToDeleted:
+      'Não é possível mover as tarefas para o projeto que está sendo excluído',
+    tagNotFound: 'Tag não encontrada',
+    tagExists: 'A tag "{nome}" já existe (mescle as tags)',
+    tagMergeSelf: 'Não é possível mesclar uma tag com ela mesma',
+    commentNotFound: 'Comentário não encontrado',
+    commentAuthorOnly: 'Só o autor pode alterar um comentário',
+    attachmentNotFound: 'Anexo não encontrado',
+    attachmentFileNotFound: 'O arquivo do anexo não está no servidor',
+    attachmentEmpty: 'O arquivo está vazio',
+    attachmentTooLarge: 'O arquivo passa do limite de {maxMb} MB',
+    attachmentTypeNotAccepted: 'Tipo de arquivo não aceito: {nome}',
+    attachmentTooMany: 'Uma tarefa pode ter no máximo {max} anexos',
+    attachmentNotMultipart: 'Envie o arquivo como multipart/form-data',
+    attachmentLengthRequired:
+      'Envie o arquivo com o seu tamanho (Content-Length)',
+    boardColumnNotFound: 'Coluna não encontrada',
+    boardTooManyColumns: 'Um quadro pode ter no máximo {max} colunas',
+    boardLastColumn: 'Um quadro precisa de ao menos uma coluna',
+  },
+
+  status: {
+    pendente: 'Pendente',
+    em_andamento: 'Em andamento',
+    concluida: 'Concluída',
+    arquivada: 'Arquivada',
+  },
+
+  priority: {
+    baixa: 'Baixa',
+    media: 'Média',
+    alta: 'Alta',
+    label: 'Prioridade {priority}',
+  },
+
+  dueDate: {
+    done: 'vencimento {date}',
+    overdue: {
+      one: 'atrasada há {count} dia',
+      other: 'atrasada há {count} dias',
+    },
+    today: 'vence hoje',
+    tomorrow: 'vence amanhã',
+    inDays: {
+      one: 'vence em {count} dia',
+      other: 'vence em {count} dias',
+    },
+    on: 'vence em {date}',
+  },
+
+  recurrence: {
+    frequency: {
+      daily: 'Diariamente',
+      weekly: 'Semanalmente',
+      monthly: 'Mensalmente',
+    },
+    every: {
+      daily: 'Todo dia',
+      weekly: 'Toda semana',
+      monthly: 'Todo mês',
+    },
+    unit: {
+      daily: { one: 'dia', other: 'dias' },
+      weekly: { one: 'semana', other: 'semanas' },
+      monthly: { one: 'mês', other: 'meses' },
+    },
+    everyInterval: 'A cada {count} {unit}',
+    until: ', até {date}',
+    times: {
+      one: ', {count} vez',
+      other: ', {count} vezes',
+    },
+  },
+
+  app: {
+    title: 'Gerenciador de Tarefas',
+  },
+
+  nav: {
+    board: 'Quadro',
+    calendar: 'Calendário',
+    projects: 'Projetos',
+    tags: 'Tags',
+    trash: 'Lixeira',
+    newTask: 'Nova Tarefa',
+    back: 'Voltar',
+    backToList: 'Voltar para lista',
+    backToProjects: 'Voltar para projetos',
+    backTo: 'Voltar para {nome}',
+  },
+
+  home: {
+    subtitle: 'Organize suas tarefas de forma simples e eficiente',
+    sourceCode: 'Ver código no GitHub',
+  },
+
+  userMenu: {
+    logout: 'Sair',
+    loggingOut: 'Saindo...',
+    logoutError: 'Erro ao sair',
+  },
+
+  auth: {
+    nome: 'Nome',
+    email: 'E-mail',
+    emailPlaceholder: 'voce@exemplo.com',
+    senha: 'Senha',
+  },
+
+  login: {
+    title: 'Entrar',
+    subtitle: 'Acesse sua conta para ver suas tarefas',
+    missingFields: 'Informe e-mail e senha',
+    submit: 'Entrar',
+    submitting: 'Entrando...',
+    noAccount: 'Não tem conta?',
+  },
+
+  register: {
+    title: 'Criar conta',
+    subtitle: 'Suas tarefas ficam visíveis apenas para você',
+    missingFields: 'Preencha todos os campos',
+    senhaHint: 'Senha (mínimo {minimum} caracteres)',
+    submit: 'Criar conta',
+    submitting: 'Criando conta...',
+    hasAccount: 'Já tem conta?',
+  },
+
+  taskList: {
+    title: 'Tarefas',
+    export: 'Exportar:',
+    import: 'Importar',
+    loading: 'Carregando tarefas...',
+    emptyFiltered: 'Nenhuma tarefa encontrada',
+    empty: 'Nenhuma tarefa ainda',
+    emptyFilteredHint: 'Tente ajustar a busca ou os filtros.',
+    emptyHint: 'Crie sua primeira tarefa para começar.',
+    selectAll: 'Selecionar todas as carregadas ({count})',
+    loadingMore: 'Carregando mais tarefas',
+    end: 'Você chegou ao fim da lista',
+  },
+
+  common: {
+    edit: 'Editar',
+    delete: 'Deletar',
+    deleting: 'Deletando...',
+    confirm: 'Confirmar',
+    cancel: 'Cancelar',
+    save: 'Salvar',
+    remove: 'Excluir',
+    removing: 'Excluindo...',
+    loading: 'Carregando...',
+    loadMore: 'Carregar mais',
+    sending: 'Enviando...',
+    saving: 'Salvando...',
+    undo: 'Desfazer',
+    close: 'Fechar',
+    none: 'Nenhum',
+  },
+
+  taskItem: {
+    restored: 'Tarefa restaurada',
+    restoreError: 'Erro ao restaurar tarefa',
+    deleted: 'Tarefa movida para a lixeira',
+    deleteError: 'Erro ao deletar tarefa',
+    statusError: 'Erro ao atualizar status',
+    nextOccurrence: 'Próxima ocorrência criada',
+    select: 'Selecionar "{titulo}"',
+    selectHint: 'Selecionar (Shift+clique seleciona um intervalo)',
+    markPending: 'Marcar como pendente',
+    markCompleted: 'Marcar como concluída',
+    status: 'Status da tarefa',
+    paused: 'Aguardando conexão',
+    pausedHint: 'Será enviada quando a conexão voltar',
+    checklistProgress: {
+      one: '{done} de {count} item concluído',
+      other: '{done} de {count} itens concluídos',
+    },
+    comments: {
+      one: '{count} comentário',
+      other: '{count} comentários',
+    },
+    commentsUnit: {
+      one: 'comentário',
+      other: 'comentários',
+    },
+    occurrence: 'Ocorrência {occurrence}',
+    occurrenceOf: 'Ocorrência {occurrence} de {count}',
+    showMore: 'Mostrar mais',
+    showLess: 'Mostrar menos',
+    filterByTag: 'Filtrar por #{nome}',
+    confirmDelete: 'Tem certeza que deseja deletar esta tarefa?',
+  },
+
+  taskFilters: {
+    searchPlaceholder: 'Buscar por título ou descrição',
+    search: 'Buscar tarefas',
+    sortBy: 'Ordenar por',
+    sort: {
+      'dataCriacao:desc': 'Mais recentes',
+      'dataCriacao:asc': 'Mais antigas',
+      'titulo:asc': 'Título (A-Z)',
+      'titulo:desc': 'Título (Z-A)',
+      'dueDate:asc': 'Vencimento mais próximo',
+      'dueDate:desc': 'Vencimento mais distante',
+      'priority:desc': 'Maior prioridade',
+      'priority:asc': 'Menor prioridade',
+    },
+    createdFrom: 'Criadas de',
+    createdTo: 'até',
+    clear: 'Limpar filtros',
+    tags: 'Tags:',
+    tagFilter: 'Filtrar por tag',
+    addTag: '+ Tag',
+    tagMode: 'Combinar tags',
+    tagModeHint: {
+      and: 'Tarefas com todas as tags',
+      or: 'Tarefas com qualquer uma das tags',
+    },
+    tagModeLabel: {
+      and: 'E',
+      or: 'OU',
+    },
+  },
+
+  bulkActions: {
+    label: 'Ações em lote',
+    failures:
+      '{failed} de {count} tarefas falharam ({details}). Nenhuma alteração foi salva.',
+    restored: {
+      one: 'Tarefa restaurada',
+      other: '{count} tarefas restauradas',
+    },
+    restoreError: 'Erro ao restaurar tarefas',
+    deleted: {
+      one: 'Tarefa movida para a lixeira',
+      other: '{count} tarefas movidas para a lixeira',
+    },
+    deleteError: 'Erro ao deletar tarefas',
+    updated: {
+      one: 'Tarefa atualizada',
+      other: '{count} tarefas atualizadas',
+    },
+    updateError: 'Erro ao atualizar tarefas',
+    confirmDelete: {
+      one: 'Mover 1 tarefa para a lixeira?',
+      other: 'Mover {count} tarefas para a lixeira?',
+    },
+    selected: {
+      one: '1 selecionada',
+      other: '{count} selecionadas',
+    },
+    priority: 'Alterar prioridade das selecionadas',
+    priorityPlaceholder: 'Prioridade…',
+    moveTo: 'Mover selecionadas para um projeto',
+    moveToPlaceholder: 'Mover para…',
+    noProject: 'Sem projeto',
+    clear: 'Limpar seleção',
+  },
+
+  tagInput: {
+    placeholder: 'Adicionar tags',
+    create: 'Criar tag "{nome}"',
+    createError: 'Erro ao criar tag',
+    remove: 'Remover tag {nome}',
+  },
+
+  markdownEditor: {
+    mode: 'Modo do editor',
+    write: 'Escrever',
+    preview: 'Visualizar',
+    empty: 'Nada para visualizar',
+    hint: 'Markdown: **negrito**, _itálico_, `código`, [link](https://…), - listas',
+  },
+
+  recurrenceInput: {
+    never: 'Não se repete',
+    every: 'a cada',
+    interval: 'Intervalo',
+    weekdays: 'Dias da semana',
+    ends: 'Termina',
+    end: 'Término da repetição',
+    endMode: {
+      never: 'Nunca',
+      date: 'Em uma data',
+      count: 'Após um número de vezes',
+    },
+    endsOn: 'Data final',
+    count: 'Número de ocorrências',
+    times: {
+      one: 'vez',
+      other: 'vezes',
+    },
+    next: 'Ao concluir, a próxima ocorrência será criada para {date} (datas já passadas são puladas).',
+  },
+
+  offlineSync: {
+    conflict:
+      'Uma alteração feita offline conflita com uma edição feita em outro lugar',
+    resolve: 'Resolver',
+    discarded:
+      'Uma alteração feita offline foi descartada: a tarefa foi alterada em outro lugar',
+    notFound:
+      'Uma alteração feita offline foi descartada: a tarefa não existe mais',
+    rejected: 'Uma alteração feita offline foi recusada: {error}',
+    synced: {
+      one: 'Alteração feita offline sincronizada',
+      other: '{count} alterações feitas offline sincronizadas',
+    },
+  },
+
+  syncIndicator: {
+    online: 'Online',
+    syncing: 'Sincronizando...',
+    offline: 'Offline',
+    offlinePending: {
+      one: 'Offline · {count} alteração pendente',
+      other: 'Offline · {count} alterações pendentes',
+    },
+  },
+
+  commandPalette: {
+    label: 'Paleta de comandos',
+    placeholder: 'Buscar tarefas e ações...',
+    empty: 'Nenhum resultado',
+    tasks: 'Tarefas',
+    hint: '↑↓ navegar · Enter abrir · Shift+Enter editar tarefa · Esc fechar',
+    newTask: 'Nova tarefa',
+    edit: 'Ir para edição',
+    editTask: 'Ir para edição: {titulo}',
+    goHome: 'Ir para tarefas',
+    goBoard: 'Ir para quadro',
+    goCalendar: 'Ir para calendário',
+    goProjects: 'Ir para projetos',
+    goTags: 'Ir para tags',
+    goTrash: 'Ir para lixeira',
+    import: 'Importar tarefas',
+    help: 'Mostrar atalhos de teclado',
+  },
+
+  shortcuts: {
+    title: 'Atalhos de teclado',
+    hint: 'Os atalhos de uma tecla não funcionam enquanto você digita em um campo.',
+    palette: 'Abrir a paleta de comandos',
+    next: 'Próxima tarefa da lista',
+    previous: 'Tarefa anterior da lista',
+    edit: 'Editar a tarefa selecionada',
+    delete: 'Deletar a tarefa selecionada',
+    newTask: 'Nova tarefa',
+    help: 'Mostrar os atalhos',
+    close: 'Fechar a paleta ou os atalhos',
+  },
+
+  taskForm: {
+    titulo: 'Título',
+    tituloPlaceholder: 'Digite o título da tarefa',
+    descricao: 'Descrição',
+    descricaoPlaceholder: 'Digite a descrição da tarefa (opcional)',
+    dueDate: 'Vencimento',
+    priority: 'Prioridade',
+    recurrence: 'Repetir',
+    project: 'Projeto',
+    noProject: 'Sem projeto',
+    archivedProject: '(arquivado)',
+    tags: 'Tags',
+  },
+
+  newTask: {
+    title: 'Criar Nova Tarefa',
+    submit: 'Criar Tarefa',
+    submitting: 'Criando...',
+    created: 'Tarefa criada com sucesso',
+    createError: 'Erro ao criar tarefa',
+    queuedFailed: 'Tarefa "{titulo}" não foi criada: {error}',
+    queued:
+      'Sem conexão: a tarefa foi salva neste dispositivo e será criada quando a conexão voltar',
+  },
+
+  editTask: {
+    title: 'Editar Tarefa',
+    submit: 'Salvar Alterações',
+    updated: 'Tarefa atualizada com sucesso',
+    updateError: 'Erro ao atualizar tarefa',
+    deletedMeanwhile: 'Esta tarefa foi excluída enquanto você editava',
+    scope: 'Aplicar alterações a',
+    scopeOption: {
+      occurrence: 'Somente esta ocorrência',
+      series: 'Esta e as próximas ocorrências',
+    },
+    scopeHint:
+      'O vencimento é sempre só desta ocorrência; mudanças na regra de repetição valem para toda a série.',
+  },
+
+  conflict: {
+    title: 'Esta tarefa foi alterada enquanto você editava',
+    hint: 'Escolha qual valor manter em cada campo e salve novamente.',
+    base: 'Original',
+    mine: 'Minha versão',
+    theirs: 'Versão salva',
+    projectRemoved: 'projeto removido',
+    tagRemoved: 'removida',
+    submit: 'Salvar com estas escolhas',
+    cancel: 'Continuar editando',
+  },
+
+  history: {
+    title: 'Histórico',
+    empty: 'Nenhuma alteração registrada ainda.',
+    current: 'Versão atual',
+    revert: 'Reverter para esta versão',
+    reverted: 'Tarefa revertida',
+    revertError: 'Erro ao reverter tarefa',
+    system: 'Sistema',
+    yes: 'Sim',
+    no: 'Não',
+    checklistItems: {
+      one: '{done}/{count} item',
+      other: '{done}/{count} itens',
+    },
+    action: {
+      create: 'Criada',
+      update: 'Editada',
+      delete: 'Movida para a lixeira',
+      restore: 'Restaurada da lixeira',
+    },
+    field: {
+      titulo: 'Título',
+      descricao: 'Descrição',
+      status: 'Status',
+      completedAt: 'Concluída em',
+      deletedAt: 'Excluída em',
+      dueDate: 'Vencimento',
+      priority: 'Prioridade',
+      projectId: 'Projeto',
+      tagIds: 'Tags',
+      checklist: 'Checklist',
+      checklistAutoComplete: 'Concluir ao marcar todos os itens',
+    },
+  },
+
+  checklist: {
+    title: 'Checklist',
+    progress: '{done}/{count} concluídos',
+    progressLabel: 'Progresso da checklist',
+    autoCompleted: 'Todos os itens concluídos: tarefa concluída',
+    addError: 'Erro ao adicionar item',
+    deleteError: 'Erro ao remover item',
+    updateError: 'Erro ao atualizar item',
+    renameError: 'Erro ao renomear item',
+    reorderError: 'Erro ao reordenar itens',
+    move: 'Mover "{titulo}" (Alt+↑/↓)',
+    dragHint: 'Arraste para reordenar',
+    check: 'Concluir "{titulo}"',
+    uncheck: 'Desmarcar "{titulo}"',
+    itemText: 'Texto do item',
+    editHint: 'Clique para editar',
+    remove: 'Remover "{titulo}"',
+    full: 'Limite de {max} itens',
+    newItem: 'Novo item',
+    newItemLabel: 'Novo item da checklist',
+    add: 'Adicionar',
+    autoComplete: 'Concluir a tarefa quando todos os itens forem marcados',
+  },
+
+  taskPage: {
+    noDescricao: 'Sem descrição',
+  },
+
+  notFound: {
+    task: 'Tarefa não encontrada',
+    taskHint: 'A tarefa que você procura não existe ou foi removida.',
+    project: 'Projeto não encontrado',
+    projectHint:
+      'O projeto que você está procurando não existe ou foi excluído.',
+  },
+
+  comments: {
+    title: 'Comentários',
+    empty: 'Nenhum comentário ainda. Comece a conversa abaixo.',
+    loadMore: 'Carregar mais comentários',
+    new: 'Novo comentário',
+    placeholder: 'Escreva um comentário (Markdown, Ctrl+Enter envia)',
+    submit: 'Comentar',
+    editLabel: 'Editar comentário',
+    edited: '(editado)',
+    authorRemoved: 'Usuário removido',
+    confirmDelete: 'Excluir este comentário?',
+    deleted: 'Comentário excluído',
+    addError: 'Erro ao comentar',
+    updateError: 'Erro ao editar comentário',
+    deleteError: 'Erro ao excluir comentário',
+  },
+
+  attachments: {
+    title: 'Anexos',
+    add: 'Adicionar arquivos',
+    empty:
+      'Nenhum anexo. Imagens, PDFs, textos e arquivos compactados de até {size}.',
+    fileFallback: 'arq',
+    remove: 'Excluir {nome}',
+    deleted: 'Anexo excluído',
+    deleteError: 'Erro ao excluir anexo',
+    uploaded: { one: 'Anexo enviado', other: '{count} anexos enviados' },
+    uploadError: 'Erro ao enviar {nome}',
+    emptyFile: '{nome} está vazio',
+    tooLarge: '{nome} excede o limite de {size}',
+  },
+
+  importTasks: {
+    title: 'Importar tarefas',
+    hint: 'Arquivos CSV ou JSON no formato da exportação. Linhas com id de uma tarefa existente a atualizam; as demais criam novas tarefas.',
+    file: 'Arquivo',
+    analyzing: 'Analisando arquivo...',
+    summary: '{creates} a criar, {updates} a atualizar',
+    invalid: ', {count} com erros',
+    noRows: 'Nenhuma tarefa encontrada no arquivo.',
+    column: { action: 'Ação', titulo: 'Título', errors: 'Erros' },
+    action: { create: 'Criar', update: 'Atualizar' },
+    submit: 'Importar',
+    submitting: 'Importando...',
+    done: 'Importação concluída: {created} criada(s), {updated} atualizada(s)',
+    readError: 'Erro ao ler arquivo',
+    importError: 'Erro ao importar tarefas',
+  },
+
+  board: {
+    title: 'Quadro',
+    subtitle: 'Arraste as tarefas entre as colunas e na ordem que preferir',
+    defaultColumns: { todo: 'A fazer', doing: 'Fazendo', done: 'Feito' },
+    conflict: 'A tarefa foi alterada em outro lugar, recarregando o quadro',
+    moveTaskError: 'Erro ao mover tarefa',
+    newColumn: 'Nova coluna',
+    newColumnPlaceholder: 'Ex.: Em revisão',
+    addColumn: 'Adicionar coluna',
+    creating: 'Criando...',
+    createError: 'Erro ao criar coluna',
+    columnName: 'Nome da coluna',
+    moveColumnLeft: 'Mover coluna {nome} para a esquerda',
+    moveColumnRight: 'Mover coluna {nome} para a direita',
+    renameColumn: 'Renomear coluna {nome}',
+    deleteColumn: 'Excluir coluna {nome}',
+    confirmDelete:
+      'Excluir a coluna? As tarefas dela vão para a primeira coluna.',
+    deleted: 'Coluna excluída',
+    deletedWithTasks: {
+      one: 'Coluna excluída, {count} tarefa movida para a primeira coluna',
+      other: 'Coluna excluída, {count} tarefas movidas para a primeira coluna',
+    },
+    renameError: 'Erro ao renomear coluna',
+    moveError: 'Erro ao mover coluna',
+    deleteError: 'Erro ao excluir coluna',
+    moveUp: 'Mover "{titulo}" para cima',
+    moveDown: 'Mover "{titulo}" para baixo',
+    moveTo: 'Mover "{titulo}" para {column}',
+    emptyColumn: 'Arraste tarefas para cá',
+  },
+
+  calendar: {
+    title: 'Calendário',
+    subtitle:
+      'Arraste uma tarefa para outro dia para reagendá-la, ou clique em um dia vazio para criar uma',
+    conflict: 'A tarefa foi alterada em outro lugar, recarregando o calendário',
+    rescheduleError: 'Erro ao reagendar tarefa',
+    newTaskOn: 'Nova tarefa em {date}',
+    previousWeek: 'Semana anterior',
+    previousMonth: 'Mês anterior',
+    nextWeek: 'Próxima semana',
+    nextMonth: 'Próximo mês',
+    today: 'Hoje',
+    view: 'Visualização',
+    viewLabel: { month: 'Mês', week: 'Semana' },
+    undated: 'Sem data',
+    undatedHint:
+      'Tarefas abertas sem vencimento. Arraste para um dia para agendar, ou solte aqui para remover a data.',
+    undatedEmpty: 'Nenhuma tarefa sem data',
+  },
+
+  projects: {
+    newName: 'Nome do novo projeto',
+    create: 'Criar projeto',
+    creating: 'Criando...',
+    created: 'Projeto "{nome}" criado',
+    createError: 'Erro ao criar projeto',
+    empty: 'Nenhum projeto ainda',
+    emptyHint: 'Crie um projeto para agrupar tarefas relacionadas.',
+    name: 'Nome do projeto',
+    taskCount: { one: '{count} tarefa', other: '{count} tarefas' },
+    rename: 'Renomear',
+    renameError: 'Erro ao renomear projeto',
+    archive: 'Arquivar',
+    unarchive: 'Reativar',
+    archivedBadge: 'Arquivado',
+    archivedHint: 'Projeto arquivado: novas tarefas não podem ser adicionadas',
+    archived: 'Projeto arquivado',
+    unarchived: 'Projeto reativado',
+    archiveError: 'Erro ao arquivar projeto',
+    confirmDelete:
+      'Excluir o projeto "{nome}"? O que fazer com as tarefas dele?',
+    moveTo: 'Mover para',
+    target: 'Projeto de destino',
+    trashTasks: 'Mover as tarefas para a lixeira',
+    delete: 'Excluir projeto',
+    deletedToTrash: 'Projeto excluído, tarefas movidas para a lixeira',
+    deletedMoved: 'Projeto excluído, tarefas movidas',
+    deleteError: 'Erro ao excluir projeto',
+  },
+
+  tagColor: {
+    gray: 'Cinza',
+    red: 'Vermelho',
+    orange: 'Laranja',
+    yellow: 'Amarelo',
+    green: 'Verde',
+    blue: 'Azul',
+    purple: 'Roxo',
+    pink: 'Rosa',
+  },
+
+  tags: {
+    newName: 'Nome da nova tag',
+    newColor: 'Cor da nova tag',
+    create: 'Criar tag',
+    creating: 'Criando...',
+    created: 'Tag "{nome}" criada',
+    createError: 'Erro ao criar tag',
+    empty: 'Nenhuma tag ainda',
+    emptyHint:
+      'Crie tags para classificar tarefas (ex.: frontend, infra, bug).',
+    name: 'Nome da tag',
+    color: 'Cor da tag {nome}',
+    updateError: 'Erro ao atualizar tag',
+    merge: 'Mesclar',
+    mergeInto: 'Mesclar "{nome}" em',
+    target: 'Tag de destino',
+    chooseTarget: 'Escolha uma tag',
+    mergeHint: '({tasks} passam a usar a tag de destino)',
+    mergeSubmit: 'Mesclar tags',
+    merging: 'Mesclando...',
+    merged: 'Tag "{nome}" mesclada em "{target}"',
+    mergeError: 'Erro ao mesclar tags',
+    confirmDelete: 'Excluir a tag "{nome}"? Ela será removida de {tasks}.',
+    delete: 'Excluir tag',
+    deleted: 'Tag "{nome}" excluída',
+    deleteError: 'Erro ao excluir tag',
+  },
+
+  trash: {
+    retention: {
+      one: 'Tarefas excluídas são removidas definitivamente após {count} dia',
+      other:
+        'Tarefas excluídas são removidas definitivamente após {count} dias',
+    },
+    empty: 'Esvaziar lixeira',
+    emptySubmit: 'Esvaziar',
+    confirmEmpty:
+      'Excluir permanentemente todas as tarefas da lixeira? Esta ação não pode ser desfeita.',
+    emptied: {
+      one: '{count} tarefa excluída permanentemente',
+      other: '{count} tarefas excluídas permanentemente',
+    },
+    emptyError: 'Erro ao esvaziar lixeira',
+    isEmpty: 'A lixeira está vazia',
+    isEmptyHint: 'Tarefas excluídas aparecem aqui e podem ser restauradas.',
+    purgeToday: 'Será excluída definitivamente hoje',
+    purgeIn: {
+      one: 'Será excluída definitivamente em {count} dia',
+      other: 'Será excluída definitivamente em {count} dias',
+    },
+    restore: 'Restaurar',
+    restoring: 'Restaurando...',
+    purge: 'Excluir definitivamente',
+    confirmPurge:
+      'Excluir esta tarefa permanentemente? Esta ação não pode ser desfeita.',
+    purged: 'Tarefa excluída permanentemente',
+  },
+};
+
+export type Messages = typeof ptBR;
+
+export default ptBR;
@@ -0,0 +1,128 @@
+import { defaultLocale, type Locale } from './locales';
+import en from './messages/en';
+import ptBR, { type Messages } from './messages/pt-BR';
+
+/**
+ * Message with singular/plural forms, chosen by the `count` parameter
+ * (Intl.PluralRules of the locale)
+ */
+export type PluralMessage = { one: string; other: string };
+
+/**
+ * Dotted path of every message in the catalog, e.g. `'taskList.title'`
+ */
+type MessagePaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? `${Prefix}${K}`
+    : MessagePaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+/** Values for the `{name}` placeholders of a message */
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const catalogs: Record<Locale, Messages> = { 'pt-BR': ptBR, en };
+
+function findMessage(locale: Locale, key: string) {
+  let node: unknown = catalogs[locale];
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object' || node === null) return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return typeof node === 'string' || isPluralMessage(node) ? node : undefined;
+}
+
+function isPluralMessage(value: unknown): value is PluralMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PluralMessage).one === 'string' &&
+    typeof (value as PluralMessage).other === 'string'
+  );
+}
+
+/**
+ * Whether `value` is a key of the catalog (e.g. a validation message
+ * written as a key in a Zod schema)
+ */
+export function isMessageKey(value: string): value is MessageKey {
+  return findMessage(defaultLocale, value) !== undefined;
+}
+
+/**
+ * Translator for one locale
+ *
+ * Decisions:
+ * - Plain objects and `{name}` placeholders instead of an i18n library:
+ *   the catalog is small and type-checked (`MessageKey`, and `en` must
+ *   have every message of pt-BR)
+ * - An unknown key is returned as is, so a mistake shows up on screen
+ *   instead of breaking the page
+ */
+export function createTranslator(locale: Locale): Translator {
+  const pluralRules = new Intl.PluralRules(locale);
+
+  return (key, params = {}) => {
+    const message = findMessage(locale, key);
+    if (message === undefined) return key;
+
+    const text =
+      typeof message === 'string'
+        ? message
+        : pluralRules.select(Number(params.count ?? 0)) === 'one'
+        ? message.one
+        : message.other;
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  };
+}
+
+/**
+ * Parses a date-only value (AAAA-MM-DD) as UTC midnight, so formatting it
+ * in UTC shows the same day everywhere
+ */
+function toDate(value: number | string | Date) {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00Z`);
+  }
+  return new Date(value);
+}
+
+/**
+ * Translator plus locale-aware formatting (what components use)
+ *
+ * - `formatDate`: a day; date-only values are formatted as that day in
+ *   any time zone
+ * - `formatDateTime`: a moment (timestamps), in the viewer's time zone
+ */
+export function createI18n(locale: Locale) {
+  const formatDate = (
+    value: number | string | Date,
+    options: Intl.DateTimeFormatOptions = {}
+  ) =>
+    toDate(value).toLocaleDateString(locale, {
+      ...(typeof value === 'string' && { timeZone: 'UTC' }),
+      ...options,
+    });
+
+  const formatDateTime = (value: number | Date) =>
+    new Date(value).toLocaleString(locale);
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    value.toLocaleString(locale, options);
+
+  return {
+    locale,
+    t: createTranslator(locale),
+    formatDate,
+    formatDateTime,
+    formatNumber,
+  };
+}
+
+export type I18n = ReturnType<typeof createI18n>;
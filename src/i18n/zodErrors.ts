@@ -0,0 +1,118 @@
+import { ZodIssueCode, type ZodError, type ZodIssue } from 'zod';
+import type { Locale } from './locales';
+import {
+  createTranslator,
+  isMessageKey,
+  type MessageKey,
+  type MessageParams,
+} from './translator';
+
+/**
+ * Placeholders available to a validation message: the limit of a min/max
+ * check (also as `count`, for plurals) and the `params` of a refinement
+ */
+function toIssueParams(issue: ZodIssue): MessageParams {
+  switch (issue.code) {
+    case ZodIssueCode.too_small:
+      return { minimum: Number(issue.minimum), count: Number(issue.minimum) };
+    case ZodIssueCode.too_big:
+      return { maximum: Number(issue.maximum), count: Number(issue.maximum) };
+    case ZodIssueCode.custom:
+      return issue.params ?? {};
+    default:
+      return {};
+  }
+}
+
+/**
+ * Message for an issue that has no message of its own in the schema
+ * (Zod's English default)
+ */
+function toDefaultMessageKey(issue: ZodIssue): MessageKey {
+  switch (issue.code) {
+    case ZodIssueCode.invalid_type:
+      return issue.received === 'undefined' || issue.received === 'null'
+        ? 'validation.required'
+        : 'validation.invalidType';
+    case ZodIssueCode.too_small:
+      if (issue.type === 'string') {
+        return issue.minimum === 1
+          ? 'validation.required'
+          : 'validation.tooShort';
+      }
+      return issue.type === 'array'
+        ? 'validation.tooFewItems'
+        : 'validation.tooSmall';
+    case ZodIssueCode.too_big:
+      if (issue.type === 'string') return 'validation.tooLong';
+      return issue.type === 'array'
+        ? 'validation.tooManyItems'
+        : 'validation.tooBig';
+    case ZodIssueCode.invalid_string:
+      if (issue.validation === 'email') return 'validation.invalidEmail';
+      if (issue.validation === 'uuid') return 'validation.invalidId';
+      return 'validation.invalidFormat';
+    case ZodIssueCode.invalid_enum_value:
+    case ZodIssueCode.invalid_literal:
+    case ZodIssueCode.invalid_union_discriminator:
+      return 'validation.invalidOption';
+    case ZodIssueCode.invalid_date:
+      return 'validation.invalidDate';
+    default:
+      return 'validation.invalid';
+  }
+}
+
+/**
+ * Localized message of a Zod issue
+ *
+ * Decisions:
+ * - Messages written in the schemas are catalog keys
+ *   (`'validation.tituloRequired'`) and are translated here, with the
+ *   check's limit as a parameter
+ * - Other issues carry Zod's English default, replaced by a generic
+ *   message for their code
+ * - Works as the app's Zod error map, applied after parsing instead of
+ *   through `z.setErrorMap`: a global map has no request (so no locale),
+ *   and Zod skips error maps for issues that have a message in the schema
+ */
+export function localizeZodIssue(locale: Locale, issue: ZodIssue) {
+  const t = createTranslator(locale);
+  const key = isMessageKey(issue.message)
+    ? issue.message
+    : toDefaultMessageKey(issue);
+
+  return t(key, {
+    ...toIssueParams(issue),
+    ...(issue.code === ZodIssueCode.invalid_type && {
+      expected: issue.expected,
+    }),
+  });
+}
+
+/**
+ * Validation errors of an input, by field (`error.data.zodError` of a
+ * tRPC error, and what forms validate locally)
+ *
+ * - `fieldErrors`: messages per top-level input field (a nested issue,
+ *   e.g. `recurrence.weekdays`, belongs to `recurrence`)
+ * - `formErrors`: messages about the input as a whole (refinements
+ *   without a path)
+ */
+export type ValidationErrors = {
+  formErrors: string[];
+  fieldErrors: Record<string, string[] | undefined>;
+};
+
+/**
+ * Zod's `flatten()` with every message localized
+ *
+ * Decision: the same function on the server (errorFormatter) and in the
+ * forms (local validation), so both report an issue with the same text
+ */
+export function flattenZodError(
+  locale: Locale,
+  error: ZodError
+): ValidationErrors {
+  return error.flatten((issue) => localizeZodIssue(locale, issue));
+}
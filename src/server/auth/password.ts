@@ -0,0 +1,35 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Password hashing with scrypt (Node built-in, no extra dependency)
+ *
+ * Format: `scrypt:<salt hex>:<hash hex>`
+ * - Random 16-byte salt per password
+ * - Prefix leaves room to migrate to another algorithm later
+ */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt}:${hash.toString('hex')}`;
+}
+
+/**
+ * Constant-time comparison to avoid leaking hash prefixes via timing
+ */
+export async function verifyPassword(password: string, stored: string) {
+  const [algorithm, salt, hashHex] = stored.split(':');
+  if (algorithm !== 'scrypt' || !salt || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
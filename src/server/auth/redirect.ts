@@ -0,0 +1,18 @@
+import { isSameOriginPath } from '../../utils/url';
+
+/**
+ * Sanitizes the `next` param used after login/register
+ *
+ * Decision: only same-origin absolute paths are accepted
+ * - Rejects `https://...`, protocol-relative `//host` and `/\host`
+ *   (open redirect), see isSameOriginPath
+ * - Falls back to the home page
+ */
+export function getSafeRedirect(next: string | string[] | undefined) {
+  const value = Array.isArray(next) ? next[0] : next;
+
+  if (!value || !isSameOriginPath(value)) {
+    return '/';
+  }
+  return value;
+}
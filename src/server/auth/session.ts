@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { cookies } from 'next/headers';
+
+export const SESSION_COOKIE = 'session';
+const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000; // 7 dias
+
+/**
+ * Secret used to sign session cookies
+ *
+ * Decision: required in production, fixed fallback only for local development
+ * (a missing secret must never silently fall back in a deployed app)
+ */
+function getSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return 'dev-only-session-secret';
+}
+
+function sign(payload: string) {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Stateless signed token: `<userId>.<expiresAt>.<signature>`
+ *
+ * Decisions:
+ * - HMAC-SHA256 signature: the cookie can't be forged or edited client-side
+ * - No session table: logout just clears the cookie (acceptable for this app)
+ * - Expiration is inside the signed payload, not only on the cookie
+ */
+export function createSessionToken(userId: string, now = Date.now()) {
+  const payload = `${userId}.${now + SESSION_DURATION_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifySessionToken(token: string, now = Date.now()) {
+  const [userId, expiresAt, signature] = token.split('.');
+  if (!userId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  if (Number(expiresAt) < now) return null;
+
+  return { userId };
+}
+
+/**
+ * Reads the session from the request cookies
+ * Works in Route Handlers (tRPC HTTP) and Server Components (createCaller)
+ */
+export async function getSession() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? verifySessionToken(token) : null;
+}
+
+/**
+ * Cookie writes are only allowed in Route Handlers/Server Actions,
+ * i.e. the tRPC HTTP endpoint (login/register/logout)
+ */
+export async function setSessionCookie(userId: string) {
+  (await cookies()).set(SESSION_COOKIE, createSessionToken(userId), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_DURATION_MS / 1000,
+  });
+}
+
+export async function clearSessionCookie() {
+  (await cookies()).delete(SESSION_COOKIE);
+}
@@ -1,5 +1,52 @@
+import { getSession } from './auth/session';
+import { getRequestLocale } from './i18n';
+import { getStore } from './store/store';
+import { withTaskHistory } from './store/taskHistory';
+import { toSessionUser } from './store/user.repository';
+
+/**
+ * Request context shared by all procedures
+ *
+ * Decisions:
+ * - Repositories are injected through the context, procedures never import
+ *   a storage backend directly (backend is chosen once in `getStore()`)
+ * - `user` comes from the signed session cookie; `null` when anonymous
+ *   (`protectedProcedure` rejects those requests)
+ * - `tasks` records every write in the task history, attributed to `user`
+ * - `locale` (cookie or `Accept-Language`) is the language of the error
+ *   messages and of anything else the server writes for the user
+ */
 export async function createContext() {
-  return {}
+  const {
+    tasks,
+    users,
+    projects,
+    tags,
+    taskHistory,
+    comments,
+    attachments,
+    boardColumns,
+    taskEvents,
+  } = getStore();
+  const [session, locale] = await Promise.all([
+    getSession(),
+    getRequestLocale(),
+  ]);
+  const user = session ? users.get(session.userId) : null;
+
+  return {
+    tasks: withTaskHistory(tasks, taskHistory, user?.id ?? null),
+    users,
+    projects,
+    tags,
+    taskHistory,
+    comments,
+    attachments,
+    boardColumns,
+    taskEvents,
+    user: user ? toSessionUser(user) : null,
+    locale,
+  };
 }
 
-export type Context = Awaited<ReturnType<typeof createContext>>
+export type Context = Awaited<ReturnType<typeof createContext>>;
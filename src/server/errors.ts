@@ -0,0 +1,65 @@
+import { TRPCError } from '@trpc/server';
+import { ZodError } from 'zod';
+import type { Locale } from '../i18n/locales';
+import {
+  createTranslator,
+  isMessageKey,
+  type MessageKey,
+  type MessageParams,
+} from '../i18n/translator';
+import { localizeZodIssue } from '../i18n/zodErrors';
+
+type TRPCErrorCode = TRPCError['code'];
+
+/**
+ * TRPCError whose message comes from the catalog (`errors.*`)
+ *
+ * Decisions:
+ * - `message` is the English text, as before (logs, API clients); the
+ *   errorFormatter replaces it with the caller's language (`localizeError`)
+ * - The key and parameters are kept so it can be translated later, in the
+ *   locale of whoever receives it
+ */
+export class LocalizedError extends TRPCError {
+  readonly messageKey: MessageKey;
+  readonly messageParams: MessageParams;
+
+  constructor(
+    code: TRPCErrorCode,
+    key: MessageKey,
+    params: MessageParams = {}
+  ) {
+    super({ code, message: createTranslator('en')(key, params) });
+    this.messageKey = key;
+    this.messageParams = params;
+  }
+}
+
+/**
+ * Message of an error in `locale`, for the client
+ *
+ * - LocalizedError: its own message
+ * - Invalid input (Zod): the first issue, prefixed by its field when the
+ *   message is a generic one ("dueDate: Data inválida")
+ * - Anything else: a generic message for the error code, so an English
+ *   message never reaches a Portuguese screen (internal errors never
+ *   expose their details)
+ */
+export function localizeError(locale: Locale, error: TRPCError) {
+  const t = createTranslator(locale);
+
+  if (error instanceof LocalizedError) {
+    return t(error.messageKey, error.messageParams);
+  }
+
+  if (error.cause instanceof ZodError && error.cause.issues.length > 0) {
+    const [issue] = error.cause.issues;
+    const message = localizeZodIssue(locale, issue);
+    return isMessageKey(issue.message) || issue.path.length === 0
+      ? message
+      : `${issue.path.join('.')}: ${message}`;
+  }
+
+  const codeKey = `errors.code.${error.code}`;
+  return t(isMessageKey(codeKey) ? codeKey : 'errors.unexpected');
+}
@@ -0,0 +1,96 @@
+import { EventEmitter, on } from 'node:events';
+import { withDeferredEffects } from '../store/deferredEffects';
+import type { TaskRepository } from '../store/task.repository';
+import type { Task } from '../store/task.store';
+
+export type TaskChangeEvent = {
+  type: 'created' | 'updated' | 'deleted';
+  task: Task;
+};
+
+/**
+ * In-process pub/sub for task changes (feeds `task.onChange`)
+ *
+ * Trade-off: EventEmitter only reaches subscribers in the same Node process
+ * - Fine for a single server (local SQLite file, dev server)
+ * - Multiple instances would need a shared broker (Redis pub/sub, Postgres LISTEN)
+ */
+export type TaskEventBus = {
+  emit(event: TaskChangeEvent): void;
+  subscribe(signal?: AbortSignal): AsyncGenerator<TaskChangeEvent>;
+};
+
+export function createTaskEventBus(): TaskEventBus {
+  const emitter = new EventEmitter();
+  // One listener per open subscription (browser tab), no fixed limit
+  emitter.setMaxListeners(0);
+
+  return {
+    emit(event) {
+      emitter.emit('change', event);
+    },
+
+    async *subscribe(signal) {
+      for await (const [event] of on(emitter, 'change', { signal })) {
+        yield event as TaskChangeEvent;
+      }
+    },
+  };
+}
+
+/**
+ * Decorates a repository so every successful write is published
+ *
+ * Decisions:
+ * - Works for any backend: events come from the repository contract,
+ *   not from each implementation
+ * - Writes inside `transaction` are published only after commit, a
+ *   rolled-back transaction publishes nothing (see withDeferredEffects)
+ * - Moving a task to/from the trash is an update of `deletedAt`, but lists
+ *   see it as a removal/addition: published as `deleted`/`created`
+ *   (edits of a task that stays in the trash are not published)
+ */
+export function withTaskEvents(
+  repository: TaskRepository,
+  bus: TaskEventBus
+): TaskRepository {
+  const { defer: publish, transaction } = withDeferredEffects(
+    repository,
+    (event: TaskChangeEvent) => bus.emit(event)
+  );
+
+  return {
+    ...repository,
+
+    insert(task) {
+      const created = repository.insert(task);
+      publish({ type: 'created', task: created });
+      return created;
+    },
+
+    update(id, patch) {
+      const wasDeleted = repository.get(id)?.deletedAt != null;
+      const updated = repository.update(id, patch);
+      if (!updated) return updated;
+
+      const isDeleted = updated.deletedAt !== null;
+      if (!wasDeleted && !isDeleted) {
+        publish({ type: 'updated', task: updated });
+      } else if (wasDeleted !== isDeleted) {
+        publish({ type: isDeleted ? 'deleted' : 'created', task: updated });
+      }
+      return updated;
+    },
+
+    delete(id) {
+      const deleted = repository.delete(id);
+      // Purging a trashed task changes no list, nothing to publish
+      if (deleted && deleted.deletedAt === null) {
+        publish({ type: 'deleted', task: deleted });
+      }
+      return deleted;
+    },
+
+    transaction,
+  };
+}
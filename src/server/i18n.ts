@@ -0,0 +1,30 @@
+import { cookies, headers } from 'next/headers';
+import {
+  defaultLocale,
+  isLocale,
+  localeCookieName,
+  negotiateLocale,
+} from '../i18n/locales';
+import { createI18n } from '../i18n/translator';
+
+/**
+ * Locale of the current request
+ *
+ * Order: the user's choice (locale cookie, set by the switcher), then the
+ * browser's `Accept-Language`, then the default locale
+ * Works in Route Handlers (tRPC HTTP) and Server Components, like getSession
+ */
+export async function getRequestLocale() {
+  const cookie = (await cookies()).get(localeCookieName)?.value;
+  if (isLocale(cookie)) return cookie;
+
+  const acceptLanguage = (await headers()).get('accept-language');
+  return acceptLanguage ? negotiateLocale(acceptLanguage) : defaultLocale;
+}
+
+/**
+ * Translator and formatters for Server Components
+ */
+export async function getServerI18n() {
+  return createI18n(await getRequestLocale());
+}
@@ -1,8 +1,20 @@
+import { attachmentRouter } from './routers/attachment.router';
+import { authRouter } from './routers/auth.router';
+import { boardRouter } from './routers/board.router';
+import { commentRouter } from './routers/comment.router';
+import { projectRouter } from './routers/project.router';
+import { tagRouter } from './routers/tag.router';
 import { taskRouter } from './routers/task.router';
 import { router } from './trpc';
 
 export const appRouter = router({
+  auth: authRouter,
   task: taskRouter,
+  project: projectRouter,
+  tag: tagRouter,
+  comment: commentRouter,
+  attachment: attachmentRouter,
+  board: boardRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,142 @@
+import { createHash } from 'node:crypto';
+import { LocalizedError } from '../errors';
+import {
+  deleteAttachmentSchema,
+  getAttachmentSchema,
+  listAttachmentsSchema,
+  maxAttachmentSize,
+  maxAttachmentsPerTask,
+  toAttachmentMimeType,
+  uploadAttachmentSchema,
+} from '../schemas/attachment.schema';
+import type { AttachmentRepository } from '../store/attachment.repository';
+import {
+  removeAttachmentFile,
+  writeAttachmentFile,
+} from '../store/attachmentFiles';
+import type { TaskRepository } from '../store/task.repository';
+import { protectedProcedure, router } from '../trpc';
+import { findOwnedTask } from './task.router';
+
+/**
+ * Loads an attachment of a task visible to the caller, NOT_FOUND otherwise
+ * (same visibility as comments: an active task they own)
+ */
+function findOwnedAttachment(
+  repositories: { attachments: AttachmentRepository; tasks: TaskRepository },
+  userId: string,
+  id: string
+) {
+  const attachment = repositories.attachments.get(id);
+  const task = attachment ? repositories.tasks.get(attachment.taskId) : null;
+
+  if (!attachment || task?.ownerId !== userId || task.deletedAt !== null) {
+    throw new LocalizedError('NOT_FOUND', 'errors.attachmentNotFound');
+  }
+
+  return attachment;
+}
+
+/**
+ * tRPC Router for files attached to tasks
+ *
+ * Architectural decisions:
+ * - Metadata lives in its own repository, the bytes on local disk
+ *   (`ATTACHMENTS_DIR`); like comments, attaching doesn't bump the task's
+ *   `version` nor show up in its history
+ * - Uploads and downloads go through route handlers (`/api/attachments`),
+ *   which call `upload`/`getById` so ownership and limits stay here
+ * - Purging a task removes its files (`withAttachmentCleanup`)
+ */
+export const attachmentRouter = router({
+  /**
+   * LIST: Attachments of a task, oldest first
+   */
+  list: protectedProcedure
+    .input(listAttachmentsSchema)
+    .query(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+      return ctx.attachments.listByTask(input.taskId);
+    }),
+
+  getById: protectedProcedure
+    .input(getAttachmentSchema)
+    .query(({ ctx, input }) => findOwnedAttachment(ctx, ctx.user.id, input.id)),
+
+  /**
+   * UPLOAD: Stores a file and links it to the task
+   *
+   * Decisions:
+   * - Limits are checked before reading the content: size (413), accepted
+   *   type (by MIME type or extension) and attachments per task
+   * - The file is written first, then its metadata; if the insert fails
+   *   the file is removed again, so no orphan is left behind
+   * - The task is looked up again after the (async) write, right before
+   *   the insert: a task purged meanwhile fails the upload and its file
+   *   is removed (the memory backend has no foreign key to do it)
+   */
+  upload: protectedProcedure
+    .input(uploadAttachmentSchema)
+    .mutation(async ({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+      const { file } = input;
+
+      if (file.size === 0) {
+        throw new LocalizedError('BAD_REQUEST', 'errors.attachmentEmpty');
+      }
+      if (file.size > maxAttachmentSize) {
+        throw new LocalizedError(
+          'PAYLOAD_TOO_LARGE',
+          'errors.attachmentTooLarge',
+          { maxMb: maxAttachmentSize / (1024 * 1024) }
+        );
+      }
+
+      const mimeType = toAttachmentMimeType(file.name, file.type);
+      if (!mimeType) {
+        throw new LocalizedError(
+          'BAD_REQUEST',
+          'errors.attachmentTypeNotAccepted',
+          { nome: file.name }
+        );
+      }
+      if (
+        ctx.attachments.listByTask(input.taskId).length >= maxAttachmentsPerTask
+      ) {
+        throw new LocalizedError('BAD_REQUEST', 'errors.attachmentTooMany', {
+          max: maxAttachmentsPerTask,
+        });
+      }
+
+      const content = new Uint8Array(await file.arrayBuffer());
+      const id = crypto.randomUUID();
+      await writeAttachmentFile(id, content);
+
+      try {
+        findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+        return ctx.attachments.insert({
+          id,
+          taskId: input.taskId,
+          uploaderId: ctx.user.id,
+          nome: file.name.trim().slice(0, 255) || 'arquivo',
+          size: content.byteLength,
+          mimeType,
+          checksum: createHash('sha256').update(content).digest('hex'),
+          dataCriacao: Date.now(),
+        });
+      } catch (error) {
+        removeAttachmentFile(id);
+        throw error;
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(deleteAttachmentSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedAttachment(ctx, ctx.user.id, input.id);
+
+      const deleted = ctx.attachments.delete(input.id)!;
+      removeAttachmentFile(deleted.id);
+      return deleted;
+    }),
+});
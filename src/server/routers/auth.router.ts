@@ -0,0 +1,75 @@
+import { hashPassword, verifyPassword } from '../auth/password';
+import { clearSessionCookie, setSessionCookie } from '../auth/session';
+import { LocalizedError } from '../errors';
+import { loginSchema, registerSchema } from '../schemas/auth.schema';
+import { toSessionUser, User } from '../store/user.repository';
+import { publicProcedure, router } from '../trpc';
+
+/**
+ * tRPC Router for authentication
+ *
+ * Architectural decisions:
+ * - Session is a signed httpOnly cookie set from these procedures
+ *   (only possible over HTTP: the fetch handler runs inside a Route Handler)
+ * - Procedures return `SessionUser`, never the password hash
+ */
+export const authRouter = router({
+  /**
+   * ME: Current user (or null when anonymous)
+   */
+  me: publicProcedure.query(({ ctx }) => ctx.user),
+
+  /**
+   * REGISTER: Creates account and starts a session
+   *
+   * Decisions:
+   * - CONFLICT when the email is taken (form can point to login instead)
+   * - User is logged in right away (no email verification in this app)
+   */
+  register: publicProcedure
+    .input(registerSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.users.getByEmail(input.email)) {
+        throw new LocalizedError('CONFLICT', 'errors.emailTaken');
+      }
+
+      const user: User = {
+        id: crypto.randomUUID(),
+        nome: input.nome,
+        email: input.email,
+        passwordHash: await hashPassword(input.senha),
+        dataCriacao: Date.now(),
+      };
+
+      ctx.users.insert(user);
+      await setSessionCookie(user.id);
+
+      return toSessionUser(user);
+    }),
+
+  /**
+   * LOGIN: Verifies credentials and starts a session
+   *
+   * Decision: same error for unknown email and wrong password
+   * (doesn't reveal which emails have an account)
+   */
+  login: publicProcedure.input(loginSchema).mutation(async ({ ctx, input }) => {
+    const user = ctx.users.getByEmail(input.email);
+
+    if (!user || !(await verifyPassword(input.senha, user.passwordHash))) {
+      throw new LocalizedError('UNAUTHORIZED', 'errors.invalidCredentials');
+    }
+
+    await setSessionCookie(user.id);
+
+    return toSessionUser(user);
+  }),
+
+  /**
+   * LOGOUT: Clears the session cookie
+   */
+  logout: publicProcedure.mutation(async () => {
+    await clearSessionCookie();
+    return { success: true };
+  }),
+});
@@ -0,0 +1,270 @@
+import { LocalizedError } from '../errors';
+import type { Locale } from '../../i18n/locales';
+import { createTranslator } from '../../i18n/translator';
+import {
+  boardColumnTasksSchema,
+  createBoardColumnSchema,
+  defaultBoardColumnNames,
+  deleteBoardColumnSchema,
+  maxBoardColumns,
+  moveBoardColumnSchema,
+  rebalanceBoardColumnSchema,
+  renameBoardColumnSchema,
+} from '../schemas/board.schema';
+import { taskStatusSchema } from '../schemas/task.schema';
+import type {
+  BoardColumn,
+  BoardColumnRepository,
+} from '../store/boardColumn.repository';
+import {
+  toTaskCursor,
+  type TaskFilter,
+  type TaskSort,
+} from '../store/task.repository';
+import { protectedProcedure, router } from '../trpc';
+
+/**
+ * Loads a board column owned by `ownerId`, throwing NOT_FOUND otherwise
+ *
+ * Exported for the task router, which validates `boardColumnId` on update
+ */
+export function findOwnedBoardColumn(
+  boardColumns: BoardColumnRepository,
+  ownerId: string,
+  id: string
+) {
+  const column = boardColumns.get(id);
+
+  if (!column || column.ownerId !== ownerId) {
+    throw new LocalizedError('NOT_FOUND', 'errors.boardColumnNotFound');
+  }
+
+  return column;
+}
+
+/**
+ * Columns of `ownerId`, creating the default ones on the first visit
+ *
+ * Decision: created lazily instead of on registration, so accounts that
+ * existed before the board get them too
+ */
+function ensureBoardColumns(
+  boardColumns: BoardColumnRepository,
+  ownerId: string,
+  locale: Locale
+): BoardColumn[] {
+  const columns = boardColumns.listByOwner(ownerId);
+  if (columns.length > 0) return columns;
+
+  const t = createTranslator(locale);
+  const dataCriacao = Date.now();
+  return defaultBoardColumnNames.map((key, position) =>
+    boardColumns.insert({
+      id: crypto.randomUUID(),
+      nome: t(key),
+      ownerId,
+      position,
+      dataCriacao,
+    })
+  );
+}
+
+/**
+ * Board order: position within the column, id breaks ties
+ */
+const boardTaskSort: TaskSort = { field: 'position', direction: 'asc' };
+
+/**
+ * Archived tasks are kept off the board (they stay in the list)
+ */
+const boardTaskStatuses = taskStatusSchema.options.filter(
+  (status) => status !== 'arquivada'
+);
+
+const boardPageSize = 10;
+
+/**
+ * Active tasks shown in `column` (tasks without a column go to the first)
+ */
+function toBoardColumnFilter(
+  boardColumns: BoardColumnRepository,
+  ownerId: string,
+  column: BoardColumn
+): TaskFilter {
+  const [firstColumn] = boardColumns.listByOwner(ownerId);
+
+  return {
+    ownerId,
+    deleted: false,
+    statuses: boardTaskStatuses,
+    boardColumnIds:
+      column.id === firstColumn.id ? [column.id, null] : [column.id],
+  };
+}
+
+/**
+ * tRPC Router for the task board (`/board`)
+ *
+ * Architectural decisions:
+ * - Columns are per user; tasks point to theirs through `boardColumnId`
+ *   (null = first column), so a new task shows up on the board without
+ *   being assigned a column
+ * - Moving a card is a regular `task.update` of `boardColumnId`/`position`
+ *   (version check, history, change events): this router only reads tasks,
+ *   except for rebalancing a column whose positions ran out of room
+ * - Each column loads its own pages, like `task.infiniteList`
+ */
+export const boardRouter = router({
+  /**
+   * COLUMNS: The caller's columns in board order
+   */
+  columns: protectedProcedure.query(({ ctx }) =>
+    ensureBoardColumns(ctx.boardColumns, ctx.user.id, ctx.locale)
+  ),
+
+  /**
+   * TASKS: One page of a column's active tasks, in board order
+   * (`nextCursor` is null on the last page)
+   */
+  tasks: protectedProcedure
+    .input(boardColumnTasksSchema)
+    .query(({ ctx, input }) => {
+      const column = findOwnedBoardColumn(
+        ctx.boardColumns,
+        ctx.user.id,
+        input.columnId
+      );
+
+      const tasks = ctx.tasks.list({
+        filter: toBoardColumnFilter(ctx.boardColumns, ctx.user.id, column),
+        sort: boardTaskSort,
+        cursor: input.cursor,
+        limit: boardPageSize,
+      });
+
+      return {
+        tasks,
+        nextCursor:
+          tasks.length === boardPageSize
+            ? toTaskCursor(tasks[tasks.length - 1], boardTaskSort)
+            : null,
+      };
+    }),
+
+  /**
+   * REBALANCE COLUMN: Spreads the positions of a column's cards again
+   * (0, 1, 2... in board order); returns `{ id, position, version }` for
+   * each of them
+   *
+   * Decisions:
+   * - Called before a move when two neighbors got so close that no
+   *   position fits between them (see `positionBetween`)
+   * - Every card goes through `ctx.tasks.update` in one transaction (new
+   *   versions and change events, like a move)
+   * - New tasks still land at the bottom: they start at their creation time
+   * - Returns the new positions keyed by id, not the tasks: the client looks
+   *   its loaded cards up by id (its pages may hold fewer cards, in another
+   *   order); `version` comes along since the next write needs it
+   */
+  rebalanceColumn: protectedProcedure
+    .input(rebalanceBoardColumnSchema)
+    .mutation(({ ctx, input }) => {
+      const column = findOwnedBoardColumn(
+        ctx.boardColumns,
+        ctx.user.id,
+        input.columnId
+      );
+
+      return ctx.tasks.transaction(() =>
+        ctx.tasks
+          .list({
+            filter: toBoardColumnFilter(ctx.boardColumns, ctx.user.id, column),
+            sort: boardTaskSort,
+          })
+          .map((task, index) => {
+            const { version } = ctx.tasks.update(task.id, { position: index })!;
+            return { id: task.id, position: index, version };
+          })
+      );
+    }),
+
+  createColumn: protectedProcedure
+    .input(createBoardColumnSchema)
+    .mutation(({ ctx, input }) => {
+      const columns = ensureBoardColumns(
+        ctx.boardColumns,
+        ctx.user.id,
+        ctx.locale
+      );
+      if (columns.length >= maxBoardColumns) {
+        throw new LocalizedError('BAD_REQUEST', 'errors.boardTooManyColumns', {
+          max: maxBoardColumns,
+        });
+      }
+
+      return ctx.boardColumns.insert({
+        id: crypto.randomUUID(),
+        nome: input.nome,
+        ownerId: ctx.user.id,
+        position: columns[columns.length - 1].position + 1,
+        dataCriacao: Date.now(),
+      });
+    }),
+
+  renameColumn: protectedProcedure
+    .input(renameBoardColumnSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedBoardColumn(ctx.boardColumns, ctx.user.id, input.id);
+      return ctx.boardColumns.update(input.id, { nome: input.nome })!;
+    }),
+
+  /**
+   * MOVE COLUMN: Swaps a column with its left/right neighbor
+   * (no-op at either end of the board); returns the columns in new order
+   */
+  moveColumn: protectedProcedure
+    .input(moveBoardColumnSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedBoardColumn(ctx.boardColumns, ctx.user.id, input.id);
+
+      const columns = ctx.boardColumns.listByOwner(ctx.user.id);
+      const index = columns.findIndex((column) => column.id === input.id);
+      const neighbor =
+        columns[input.direction === 'left' ? index - 1 : index + 1];
+      if (!neighbor) return columns;
+
+      const column = columns[index];
+      ctx.tasks.transaction(() => {
+        ctx.boardColumns.update(column.id, { position: neighbor.position });
+        ctx.boardColumns.update(neighbor.id, { position: column.position });
+      });
+      return ctx.boardColumns.listByOwner(ctx.user.id);
+    }),
+
+  /**
+   * DELETE COLUMN: Moves its tasks to the first remaining column, then
+   * deletes it; the last column can't be deleted
+   *
+   * Decision: tasks go back to "no column" (null), which the board shows
+   * in its first column, instead of being assigned that column's id
+   */
+  deleteColumn: protectedProcedure
+    .input(deleteBoardColumnSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedBoardColumn(ctx.boardColumns, ctx.user.id, input.id);
+      if (ctx.boardColumns.listByOwner(ctx.user.id).length === 1) {
+        throw new LocalizedError('BAD_REQUEST', 'errors.boardLastColumn');
+      }
+
+      return ctx.tasks.transaction(() => {
+        const tasks = ctx.tasks.list({
+          filter: { ownerId: ctx.user.id, boardColumnIds: [input.id] },
+        });
+        tasks.forEach((task) =>
+          ctx.tasks.update(task.id, { boardColumnId: null })
+        );
+        const column = ctx.boardColumns.delete(input.id)!;
+        return { column, taskCount: tasks.length };
+      });
+    }),
+});
@@ -0,0 +1,139 @@
+import { LocalizedError } from '../errors';
+import {
+  addCommentSchema,
+  commentCountsSchema,
+  deleteCommentSchema,
+  listCommentsSchema,
+  updateCommentSchema,
+} from '../schemas/comment.schema';
+import type { Comment, CommentRepository } from '../store/comment.repository';
+import type { TaskRepository } from '../store/task.repository';
+import type { UserRepository } from '../store/user.repository';
+import { protectedProcedure, router } from '../trpc';
+import { findOwnedTask } from './task.router';
+
+/**
+ * Loads a comment the caller may act on, throwing otherwise
+ *
+ * Decisions:
+ * - The comment's task must be visible to the caller (an active task they
+ *   own), else NOT_FOUND, same as the task procedures
+ * - Changing it requires being its author: FORBIDDEN (the comment is
+ *   visible in the thread, so its existence is no secret)
+ */
+function findOwnComment(
+  repositories: { comments: CommentRepository; tasks: TaskRepository },
+  userId: string,
+  id: string
+) {
+  const comment = repositories.comments.get(id);
+  const task = comment ? repositories.tasks.get(comment.taskId) : null;
+
+  if (!comment || task?.ownerId !== userId || task.deletedAt !== null) {
+    throw new LocalizedError('NOT_FOUND', 'errors.commentNotFound');
+  }
+
+  if (comment.authorId !== userId) {
+    throw new LocalizedError('FORBIDDEN', 'errors.commentAuthorOnly');
+  }
+
+  return comment;
+}
+
+/**
+ * Comment as returned to clients: author resolved to a name, plus whether
+ * the caller may edit/delete it
+ */
+function toCommentView(users: UserRepository, userId: string) {
+  return (comment: Comment) => {
+    const author = users.get(comment.authorId);
+    return {
+      ...comment,
+      author: author ? { id: author.id, nome: author.nome } : null,
+      isOwn: comment.authorId === userId,
+    };
+  };
+}
+
+/**
+ * tRPC Router for the discussion thread of a task
+ *
+ * Architectural decisions:
+ * - Same conventions as the task/project/tag routers: `protectedProcedure`,
+ *   repositories from the context, complete objects returned
+ * - Comments live in their own repository, not in the task: adding one
+ *   doesn't bump the task's `version` (no CONFLICT for open edit forms)
+ *   nor show up in the task history
+ */
+export const commentRouter = router({
+  /**
+   * LIST: One page of a task's thread, oldest first
+   * (`nextCursor` is null on the last page)
+   */
+  list: protectedProcedure.input(listCommentsSchema).query(({ ctx, input }) => {
+    findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+
+    const limit = input.limit ?? 20;
+    const comments = ctx.comments.listByTask(input.taskId, {
+      cursor: input.cursor,
+      limit,
+    });
+    const last = comments[comments.length - 1];
+
+    return {
+      comments: comments.map(toCommentView(ctx.users, ctx.user.id)),
+      nextCursor:
+        comments.length === limit
+          ? { dataCriacao: last.dataCriacao, id: last.id }
+          : null,
+    };
+  }),
+
+  /**
+   * COUNTS: Number of comments per task, for the list badges
+   * Tasks the caller can't see are left out (reported as 0 by the client)
+   */
+  counts: protectedProcedure
+    .input(commentCountsSchema)
+    .query(({ ctx, input }) => {
+      const visibleIds = input.taskIds.filter((id) => {
+        const task = ctx.tasks.get(id);
+        return task?.ownerId === ctx.user.id && task.deletedAt === null;
+      });
+
+      return Object.fromEntries(ctx.comments.countByTasks(visibleIds));
+    }),
+
+  add: protectedProcedure.input(addCommentSchema).mutation(({ ctx, input }) => {
+    findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+
+    const comment = ctx.comments.insert({
+      id: crypto.randomUUID(),
+      taskId: input.taskId,
+      authorId: ctx.user.id,
+      texto: input.texto,
+      dataCriacao: Date.now(),
+      editedAt: null,
+    });
+    return toCommentView(ctx.users, ctx.user.id)(comment);
+  }),
+
+  update: protectedProcedure
+    .input(updateCommentSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnComment(ctx, ctx.user.id, input.id);
+
+      const comment = ctx.comments.update(input.id, {
+        texto: input.texto,
+        editedAt: Date.now(),
+      })!;
+      return toCommentView(ctx.users, ctx.user.id)(comment);
+    }),
+
+  delete: protectedProcedure
+    .input(deleteCommentSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnComment(ctx, ctx.user.id, input.id);
+      return ctx.comments.delete(input.id)!;
+    }),
+});
@@ -0,0 +1,176 @@
+import z from 'zod';
+import { LocalizedError } from '../errors';
+import {
+  archiveProjectSchema,
+  createProjectSchema,
+  deleteProjectSchema,
+  listProjectsSchema,
+  renameProjectSchema,
+} from '../schemas/project.schema';
+import type { Project, ProjectRepository } from '../store/project.repository';
+import { protectedProcedure, router } from '../trpc';
+
+/**
+ * Loads a project owned by `ownerId`, throwing NOT_FOUND otherwise
+ *
+ * Decisions:
+ * - Same NOT_FOUND-for-others rule as tasks (IDs are not revealed)
+ * - `assignable: true` also rejects archived projects (BAD_REQUEST):
+ *   tasks can stay in an archived project but not be added to one
+ *
+ * Exported for the task router, which validates `projectId` the same way
+ */
+export function findOwnedProject(
+  projects: ProjectRepository,
+  ownerId: string,
+  id: string,
+  { assignable = false } = {}
+) {
+  const project = projects.get(id);
+
+  if (!project || project.ownerId !== ownerId) {
+    throw new LocalizedError('NOT_FOUND', 'errors.projectNotFound');
+  }
+
+  if (assignable && project.archivedAt !== null) {
+    throw new LocalizedError('BAD_REQUEST', 'errors.projectArchived');
+  }
+
+  return project;
+}
+
+/**
+ * tRPC Router for projects (groups of tasks)
+ *
+ * Architectural decisions:
+ * - Same conventions as the task router: `protectedProcedure`, repositories
+ *   from the context, complete objects returned
+ * - Deleting a project changes its tasks in the same transaction
+ */
+export const projectRouter = router({
+  /**
+   * LIST: Caller's projects sorted by name, with active task counts
+   *
+   * Archived projects are left out unless `includeArchived` is set
+   * (pickers only show active projects, the projects page shows all)
+   */
+  list: protectedProcedure.input(listProjectsSchema).query(({ ctx, input }) => {
+    const counts = new Map<string, number>();
+    ctx.tasks
+      .list({ filter: { ownerId: ctx.user.id, deleted: false } })
+      .forEach((task) => {
+        if (task.projectId) {
+          counts.set(task.projectId, (counts.get(task.projectId) ?? 0) + 1);
+        }
+      });
+
+    return ctx.projects
+      .listByOwner(ctx.user.id)
+      .filter((project) => input?.includeArchived || !project.archivedAt)
+      .map((project) => ({
+        ...project,
+        taskCount: counts.get(project.id) ?? 0,
+      }));
+  }),
+
+  /**
+   * GET BY ID: Returns a project, or null if not found/owned by someone else
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(({ ctx, input }) => {
+      const project = ctx.projects.get(input.id);
+      return project?.ownerId === ctx.user.id ? project : null;
+    }),
+
+  create: protectedProcedure
+    .input(createProjectSchema)
+    .mutation(({ ctx, input }) => {
+      const project: Project = {
+        id: crypto.randomUUID(),
+        nome: input.nome,
+        ownerId: ctx.user.id,
+        dataCriacao: Date.now(),
+        archivedAt: null,
+      };
+
+      return ctx.projects.insert(project);
+    }),
+
+  rename: protectedProcedure
+    .input(renameProjectSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedProject(ctx.projects, ctx.user.id, input.id);
+
+      return ctx.projects.update(input.id, { nome: input.nome })!;
+    }),
+
+  /**
+   * ARCHIVE: Hides (or brings back) a project; its tasks are untouched
+   */
+  archive: protectedProcedure
+    .input(archiveProjectSchema)
+    .mutation(({ ctx, input }) => {
+      const project = findOwnedProject(ctx.projects, ctx.user.id, input.id);
+
+      if (input.archived === (project.archivedAt !== null)) {
+        return project;
+      }
+
+      return ctx.projects.update(input.id, {
+        archivedAt: input.archived ? Date.now() : null,
+      })!;
+    }),
+
+  /**
+   * DELETE: Removes a project, moving or trashing its tasks first
+   *
+   * Decisions:
+   * - `move`: every task (trashed ones too) goes to `targetProjectId`
+   *   (must be another active project of the caller, or null = no project)
+   * - `delete`: active tasks go to the trash (restorable, see task.restore);
+   *   all of them leave the project, which no longer exists
+   * - One transaction: tasks and project change together or not at all
+   * - Returns the deleted project and how many tasks were affected
+   */
+  delete: protectedProcedure
+    .input(deleteProjectSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedProject(ctx.projects, ctx.user.id, input.id);
+
+      let targetProjectId: string | null = null;
+      if (input.taskAction === 'move' && input.targetProjectId !== null) {
+        if (input.targetProjectId === input.id) {
+          throw new LocalizedError(
+            'BAD_REQUEST',
+            'errors.projectMoveToDeleted'
+          );
+        }
+        targetProjectId = findOwnedProject(
+          ctx.projects,
+          ctx.user.id,
+          input.targetProjectId,
+          { assignable: true }
+        ).id;
+      }
+
+      const projectTasks = ctx.tasks.list({
+        filter: { ownerId: ctx.user.id, projectId: input.id },
+      });
+      const now = Date.now();
+
+      return ctx.tasks.transaction(() => {
+        projectTasks.forEach((task) => {
+          ctx.tasks.update(
+            task.id,
+            input.taskAction === 'delete'
+              ? { projectId: null, deletedAt: task.deletedAt ?? now }
+              : { projectId: targetProjectId }
+          );
+        });
+
+        const project = ctx.projects.delete(input.id)!;
+        return { project, taskCount: projectTasks.length };
+      });
+    }),
+});
@@ -0,0 +1,215 @@
+import z from 'zod';
+import { LocalizedError } from '../errors';
+import {
+  createTagSchema,
+  mergeTagsSchema,
+  updateTagSchema,
+} from '../schemas/tag.schema';
+import { normalizeText } from '../store/normalize';
+import type { Tag, TagRepository } from '../store/tag.repository';
+import type { TaskRepository } from '../store/task.repository';
+import { protectedProcedure, router } from '../trpc';
+
+/**
+ * Loads a tag owned by `ownerId`, throwing NOT_FOUND otherwise
+ */
+function findOwnedTag(tags: TagRepository, ownerId: string, id: string) {
+  const tag = tags.get(id);
+
+  if (!tag || tag.ownerId !== ownerId) {
+    throw new LocalizedError('NOT_FOUND', 'errors.tagNotFound');
+  }
+
+  return tag;
+}
+
+/**
+ * Checks that every id is a tag of `ownerId` (NOT_FOUND otherwise)
+ *
+ * Exported for the task router, which validates `tagIds` on create/update
+ */
+export function assertOwnedTags(
+  tags: TagRepository,
+  ownerId: string,
+  tagIds: string[]
+) {
+  tagIds.forEach((id) => findOwnedTag(tags, ownerId, id));
+}
+
+/**
+ * Rejects a name already used by another tag of the same owner
+ *
+ * Decision: compared normalized ("Infra" = "infra" = "ínfra"), and the
+ * error points to `merge`, the way to combine two existing tags
+ */
+function assertUniqueName(
+  tags: TagRepository,
+  ownerId: string,
+  nome: string,
+  exceptId?: string
+) {
+  const normalized = normalizeText(nome);
+  const duplicate = tags
+    .listByOwner(ownerId)
+    .find(
+      (tag) => tag.id !== exceptId && normalizeText(tag.nome) === normalized
+    );
+
+  if (duplicate) {
+    throw new LocalizedError('CONFLICT', 'errors.tagExists', {
+      nome: duplicate.nome,
+    });
+  }
+}
+
+/**
+ * Replaces `fromId` by `toId` (or just removes it) in every task of the owner;
+ * returns how many tasks had the tag
+ *
+ * - Trashed tasks included, so a restored task never points to a missing tag
+ * - The series template of recurring tasks too: the next occurrences are
+ *   created from it and would get the old tag back
+ */
+function replaceTagInTasks(
+  tasks: TaskRepository,
+  ownerId: string,
+  fromId: string,
+  toId: string | null
+) {
+  const replace = (tagIds: string[]) =>
+    Array.from(new Set(tagIds.map((id) => (id === fromId ? toId : id)))).filter(
+      (id): id is string => id !== null
+    );
+
+  const affected = tasks
+    .list({ filter: { ownerId } })
+    .filter(
+      (task) =>
+        task.tagIds.includes(fromId) ||
+        task.series?.template.tagIds.includes(fromId)
+    );
+
+  affected.forEach((task) => {
+    tasks.update(task.id, {
+      tagIds: replace(task.tagIds),
+      ...(task.series && {
+        series: {
+          ...task.series,
+          template: {
+            ...task.series.template,
+            tagIds: replace(task.series.template.tagIds),
+          },
+        },
+      }),
+    });
+  });
+
+  return affected.filter((task) => task.tagIds.includes(fromId)).length;
+}
+
+/**
+ * tRPC Router for tags (many-to-many labels on tasks)
+ *
+ * Architectural decisions:
+ * - Same conventions as the task/project routers
+ * - Tasks store tag ids: rename/recolor touch only the tag,
+ *   merge/delete rewrite the affected tasks in one transaction
+ *   (so `task.onChange` subscribers see the new tag lists)
+ */
+export const tagRouter = router({
+  /**
+   * LIST: Caller's tags sorted by name, with active task counts
+   * Feeds autocomplete, chips (id -> name/color) and the tags page
+   */
+  list: protectedProcedure.query(({ ctx }) => {
+    const counts = new Map<string, number>();
+    ctx.tasks
+      .list({ filter: { ownerId: ctx.user.id, deleted: false } })
+      .forEach((task) =>
+        task.tagIds.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1))
+      );
+
+    return ctx.tags.listByOwner(ctx.user.id).map((tag) => ({
+      ...tag,
+      taskCount: counts.get(tag.id) ?? 0,
+    }));
+  }),
+
+  /**
+   * CREATE: New tag (autocomplete creates them on the fly)
+   * Color defaults to gray
+   */
+  create: protectedProcedure
+    .input(createTagSchema)
+    .mutation(({ ctx, input }) => {
+      assertUniqueName(ctx.tags, ctx.user.id, input.nome);
+
+      const tag: Tag = {
+        id: crypto.randomUUID(),
+        nome: input.nome,
+        cor: input.cor ?? 'gray',
+        ownerId: ctx.user.id,
+        dataCriacao: Date.now(),
+      };
+
+      return ctx.tags.insert(tag);
+    }),
+
+  /**
+   * UPDATE: Rename and/or recolor (CONFLICT when the name is taken)
+   */
+  update: protectedProcedure
+    .input(updateTagSchema)
+    .mutation(({ ctx, input }) => {
+      const { id, ...patch } = input;
+      findOwnedTag(ctx.tags, ctx.user.id, id);
+      if (patch.nome) assertUniqueName(ctx.tags, ctx.user.id, patch.nome, id);
+
+      return ctx.tags.update(id, patch)!;
+    }),
+
+  /**
+   * MERGE: Moves every task from `sourceId` to `targetId`, deletes the source
+   * Returns the target tag and how many tasks were relabeled
+   */
+  merge: protectedProcedure
+    .input(mergeTagsSchema)
+    .mutation(({ ctx, input }) => {
+      if (input.sourceId === input.targetId) {
+        throw new LocalizedError('BAD_REQUEST', 'errors.tagMergeSelf');
+      }
+      findOwnedTag(ctx.tags, ctx.user.id, input.sourceId);
+      const target = findOwnedTag(ctx.tags, ctx.user.id, input.targetId);
+
+      return ctx.tasks.transaction(() => {
+        const taskCount = replaceTagInTasks(
+          ctx.tasks,
+          ctx.user.id,
+          input.sourceId,
+          target.id
+        );
+        ctx.tags.delete(input.sourceId);
+        return { tag: target, taskCount };
+      });
+    }),
+
+  /**
+   * DELETE: Removes the tag from every task, then deletes it
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) => {
+      findOwnedTag(ctx.tags, ctx.user.id, input.id);
+
+      return ctx.tasks.transaction(() => {
+        const taskCount = replaceTagInTasks(
+          ctx.tasks,
+          ctx.user.id,
+          input.id,
+          null
+        );
+        const tag = ctx.tags.delete(input.id)!;
+        return { tag, taskCount };
+      });
+    }),
+});
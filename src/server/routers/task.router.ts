@@ -1,14 +1,645 @@
 import { TRPCError } from '@trpc/server';
 import z from 'zod';
-import { createTaskSchema, updateTaskSchema } from '../schemas/task.schema';
-import { Task, tasksStore } from '../store/task.store';
-import { publicProcedure, router } from '../trpc';
+import { LocalizedError, localizeError } from '../errors';
+import type { Locale } from '../../i18n/locales';
+import { createTranslator } from '../../i18n/translator';
+import { localizeZodIssue } from '../../i18n/zodErrors';
+import {
+  addChecklistItemSchema,
+  bulkDeleteTasksSchema,
+  bulkUpdateTasksSchema,
+  calendarTasksSchema,
+  canTransitionStatus,
+  createTaskSchema,
+  deleteChecklistItemSchema,
+  importTasksSchema,
+  infiniteTaskListSchema,
+  maxChecklistItems,
+  maxImportRows,
+  nextOccurrenceDate,
+  reorderChecklistSchema,
+  revertTaskSchema,
+  setTaskStatusSchema,
+  taskListFiltersSchema,
+  taskStatusSchema,
+  TaskListFilters,
+  toDateOnly,
+  undatedTasksSchema,
+  updateChecklistItemSchema,
+  updateTaskSchema,
+  type CreateTaskInput,
+  type ImportTasksInput,
+  type TaskEditScope,
+  type TaskRecurrence,
+  type UpdateTaskInput,
+} from '../schemas/task.schema';
+import type { BoardColumnRepository } from '../store/boardColumn.repository';
+import type { ProjectRepository } from '../store/project.repository';
+import type { TagRepository } from '../store/tag.repository';
+import {
+  defaultTaskSort,
+  TaskFilter,
+  TaskPatch,
+  TaskRepository,
+  TaskSort,
+  toTaskCursor,
+} from '../store/task.repository';
+import {
+  ChecklistItem,
+  Task,
+  TaskSeries,
+  TaskSeriesTemplate,
+} from '../store/task.store';
+import { getTrashRetentionDays, purgeExpiredTasks } from '../store/trash';
+import { parseImportFile } from '../transfer/taskTransfer';
+import { protectedProcedure, router } from '../trpc';
+import { findOwnedBoardColumn } from './board.router';
+import { findOwnedProject } from './project.router';
+import { assertOwnedTags } from './tag.router';
+
+/**
+ * Loads a task owned by `ownerId`, throwing NOT_FOUND otherwise
+ *
+ * Decisions:
+ * - Another user's task is reported as NOT_FOUND (not FORBIDDEN)
+ *   so the API doesn't reveal which IDs exist
+ * - Trashed tasks only exist for trash operations (`deleted: true`),
+ *   every other mutation sees them as NOT_FOUND
+ */
+export function findOwnedTask(
+  tasks: TaskRepository,
+  ownerId: string,
+  id: string,
+  { deleted = false } = {}
+) {
+  const task = tasks.get(id);
+
+  if (
+    !task ||
+    task.ownerId !== ownerId ||
+    (task.deletedAt !== null) !== deleted
+  ) {
+    throw new LocalizedError('NOT_FOUND', 'errors.taskNotFound');
+  }
+
+  return task;
+}
+
+/**
+ * Rejects a due date before the task's creation day
+ *
+ * Decision: compared as calendar days in server time, so a task created
+ * today can still be due today
+ */
+function assertValidDueDate(
+  dueDate: string | null | undefined,
+  dataCriacao: number
+) {
+  if (dueDate && dueDate < toDateOnly(dataCriacao)) {
+    throw new LocalizedError('BAD_REQUEST', 'errors.dueDateBeforeCreation');
+  }
+}
+
+type TaskReferenceRepositories = {
+  projects: ProjectRepository;
+  tags: TagRepository;
+  boardColumns: BoardColumnRepository;
+};
+
+type TaskWriteRepositories = TaskReferenceRepositories & {
+  tasks: TaskRepository;
+};
+
+const seriesTemplateFields = [
+  'titulo',
+  'descricao',
+  'priority',
+  'projectId',
+  'tagIds',
+] as const;
+
+/**
+ * Template fields set by a patch (the ones an edit of the series shares)
+ */
+function pickTemplateFields(
+  values: Partial<TaskSeriesTemplate>
+): Partial<TaskSeriesTemplate> {
+  return Object.fromEntries(
+    seriesTemplateFields
+      .filter((field) => values[field] !== undefined)
+      .map((field) => [field, values[field]])
+  );
+}
+
+/**
+ * Series started by `task`, which becomes its first occurrence
+ */
+function toNewSeries(task: Task, recurrence: TaskRecurrence): TaskSeries {
+  return {
+    id: crypto.randomUUID(),
+    occurrence: 1,
+    startDate: task.dueDate ?? toDateOnly(task.dataCriacao),
+    recurrence,
+    template: pickTemplateFields(task) as TaskSeriesTemplate,
+    nextId: null,
+  };
+}
+
+/**
+ * Builds a new task of `ownerId` from validated input (shared by `create`
+ * and `import`), checking its due date, project and tags
+ *
+ * With a `recurrence`, the task is the first occurrence of a new series,
+ * due today unless a due date was given
+ */
+function toNewTask(
+  repositories: TaskReferenceRepositories,
+  ownerId: string,
+  input: CreateTaskInput
+): Task {
+  const dataCriacao = Date.now();
+  assertValidDueDate(input.dueDate, dataCriacao);
+  if (input.projectId) {
+    findOwnedProject(repositories.projects, ownerId, input.projectId, {
+      assignable: true,
+    });
+  }
+  assertOwnedTags(repositories.tags, ownerId, input.tagIds ?? []);
+
+  const task: Task = {
+    id: input.id ?? crypto.randomUUID(),
+    titulo: input.titulo,
+    descricao: input.descricao ?? null,
+    dataCriacao,
+    status: 'pendente',
+    completedAt: null,
+    ownerId,
+    deletedAt: null,
+    dueDate:
+      input.dueDate ?? (input.recurrence ? toDateOnly(dataCriacao) : null),
+    priority: input.priority ?? 'media',
+    projectId: input.projectId ?? null,
+    tagIds: Array.from(new Set(input.tagIds ?? [])),
+    checklist: [],
+    checklistAutoComplete: false,
+    series: null,
+    boardColumnId: null,
+    position: dataCriacao,
+    version: 1,
+  };
+
+  return input.recurrence
+    ? { ...task, series: toNewSeries(task, input.recurrence) }
+    : task;
+}
+
+/**
+ * Validates a partial update against the task it applies to and returns
+ * the repository patch (shared by `update` and `bulkUpdate`)
+ *
+ * - New due date is checked against the task's creation date
+ * - Moving to another project requires it to be active (staying in an
+ *   archived project is fine)
+ * - Tags must belong to the task's owner; duplicates are dropped
+ * - A new board column must belong to the task's owner
+ */
+function toTaskPatch(
+  repositories: TaskReferenceRepositories,
+  task: Task,
+  input: Omit<UpdateTaskInput, 'id' | 'version' | 'recurrence' | 'scope'>
+): TaskPatch {
+  const patch = { ...input };
+
+  assertValidDueDate(patch.dueDate, task.dataCriacao);
+  if (patch.projectId && patch.projectId !== task.projectId) {
+    findOwnedProject(repositories.projects, task.ownerId, patch.projectId, {
+      assignable: true,
+    });
+  }
+  if (patch.tagIds) {
+    assertOwnedTags(repositories.tags, task.ownerId, patch.tagIds);
+    patch.tagIds = Array.from(new Set(patch.tagIds));
+  }
+  if (patch.boardColumnId && patch.boardColumnId !== task.boardColumnId) {
+    findOwnedBoardColumn(
+      repositories.boardColumns,
+      task.ownerId,
+      patch.boardColumnId
+    );
+  }
+
+  return patch;
+}
+
+/**
+ * Occurrences generated after `task` that are still to be done
+ * (followed through `series.nextId`; completed, archived and trashed
+ * ones are skipped but the chain goes on)
+ */
+function findFutureOccurrences(tasks: TaskRepository, task: Task): Task[] {
+  const future: Task[] = [];
+  let nextId = task.series?.nextId ?? null;
+
+  while (nextId) {
+    const next = tasks.get(nextId);
+    if (!next?.series || next.series.id !== task.series?.id) break;
+    if (
+      next.deletedAt === null &&
+      next.status !== 'concluida' &&
+      next.status !== 'arquivada'
+    ) {
+      future.push(next);
+    }
+    nextId = next.series.nextId;
+  }
+
+  return future;
+}
+
+/**
+ * Writes an edit that involves the recurrence of a task: a new or removed
+ * rule, or changes meant for the whole series (runs inside a transaction)
+ *
+ * Decisions:
+ * - `recurrence` always applies to the series; `null` ends it here: this
+ *   task and its future occurrences become regular tasks
+ * - Scope `series` also applies the edited template fields (title,
+ *   description, priority, project, tags) to the future occurrences and to
+ *   the template of the ones not generated yet; the due date stays per
+ *   occurrence
+ * - Scope `occurrence` only changes this task: occurrences generated later
+ *   still start from the template
+ * - A task that starts repeating becomes occurrence 1 of a new series
+ *   (due today when it has no due date)
+ */
+function updateRecurrence(
+  tasks: TaskRepository,
+  task: Task,
+  patch: TaskPatch,
+  recurrence: TaskRecurrence | null | undefined,
+  scope: TaskEditScope
+): Task {
+  const futureTasks = findFutureOccurrences(tasks, task);
+
+  if (recurrence === null) {
+    futureTasks.forEach((future) => tasks.update(future.id, { series: null }));
+    return tasks.update(task.id, { ...patch, series: null })!;
+  }
+
+  if (!task.series) {
+    if (!recurrence) return tasks.update(task.id, patch)!;
+
+    const edited: Task = { ...task, ...patch };
+    const dueDate = edited.dueDate ?? toDateOnly(Date.now());
+    return tasks.update(task.id, {
+      ...patch,
+      dueDate,
+      series: toNewSeries({ ...edited, dueDate }, recurrence),
+    })!;
+  }
+
+  const shared = scope === 'series' ? pickTemplateFields(patch) : {};
+  const toSeries = (series: TaskSeries): TaskSeries => ({
+    ...series,
+    recurrence: recurrence ?? series.recurrence,
+    template: { ...task.series!.template, ...shared },
+  });
+
+  futureTasks.forEach((future) =>
+    tasks.update(future.id, {
+      ...shared,
+      series: toSeries(future.series!),
+    })
+  );
+  return tasks.update(task.id, { ...patch, series: toSeries(task.series) })!;
+}
+
+/**
+ * Generates the next occurrence of a recurring task that was just completed
+ *
+ * Decisions:
+ * - At most once per occurrence: `series.nextId` remembers it, so reopening
+ *   and completing again doesn't duplicate (unless that task was purged)
+ * - The next task starts from the series template, with a copy of this
+ *   checklist with every item unchecked
+ * - Its due date follows the rule from this one's; dates already in the
+ *   past are skipped (and counted), so completing late doesn't pile up
+ *   overdue occurrences
+ * - No occurrence after `endsOn` or beyond `count`: the series ends
+ * - Template references that no longer work are dropped (deleted tags,
+ *   deleted or archived project)
+ */
+function scheduleNextOccurrence(
+  repositories: TaskWriteRepositories,
+  task: Task
+): Task {
+  const { series } = task;
+  if (
+    !series ||
+    task.status !== 'concluida' ||
+    (series.nextId && repositories.tasks.get(series.nextId))
+  ) {
+    return task;
+  }
+
+  const today = toDateOnly(Date.now());
+  let occurrence = series.occurrence;
+  let dueDate = task.dueDate ?? today;
+  do {
+    occurrence += 1;
+    dueDate = nextOccurrenceDate(series.recurrence, series.startDate, dueDate);
+  } while (dueDate < today);
+
+  const { endsOn, count } = series.recurrence;
+  if ((endsOn && dueDate > endsOn) || (count && occurrence > count)) {
+    return task;
+  }
+
+  const { template } = series;
+  const project = template.projectId
+    ? repositories.projects.get(template.projectId)
+    : null;
+  const dataCriacao = Date.now();
+  const next = repositories.tasks.insert({
+    ...template,
+    id: crypto.randomUUID(),
+    dataCriacao,
+    status: 'pendente',
+    completedAt: null,
+    ownerId: task.ownerId,
+    deletedAt: null,
+    dueDate,
+    projectId: project && project.archivedAt === null ? project.id : null,
+    tagIds: template.tagIds.filter((tagId) => repositories.tags.get(tagId)),
+    checklist: task.checklist.map((item) => ({ ...item, done: false })),
+    checklistAutoComplete: task.checklistAutoComplete,
+    series: { ...series, occurrence, nextId: null },
+    // Starts over on the board: first column, at its end
+    boardColumnId: null,
+    position: dataCriacao,
+    version: 1,
+  });
+
+  return repositories.tasks.update(task.id, {
+    series: { ...series, nextId: next.id },
+  })!;
+}
+
+/**
+ * Writes a patch that may complete the task (status change, checklist
+ * auto-completion); completing a recurring task generates its next
+ * occurrence in the same transaction
+ */
+function updateTaskStatus(
+  repositories: TaskWriteRepositories,
+  task: Task,
+  patch: TaskPatch
+): Task {
+  return repositories.tasks.transaction(() => {
+    const updated = repositories.tasks.update(task.id, patch)!;
+    return task.status !== 'concluida'
+      ? scheduleNextOccurrence(repositories, updated)
+      : updated;
+  });
+}
+
+/**
+ * Task of a bulk operation that could not be changed, and why
+ */
+type BulkTaskFailure = { id: string; message: string };
+
+/**
+ * Runs `write` for every id in one transaction (all or nothing)
+ *
+ * Decisions:
+ * - Every id is attempted even after a failure, so the caller learns about
+ *   all failing tasks at once instead of fixing them one by one
+ * - Any failure rolls the whole batch back: `tasks` is then empty and
+ *   `failures` lists each failed task with its reason
+ * - Only TRPCErrors are item failures; anything else is a server error
+ *   and is rethrown
+ * - Failure messages are in the caller's `locale` (they are data, so the
+ *   errorFormatter doesn't see them)
+ */
+function runBulk(
+  tasks: TaskRepository,
+  locale: Locale,
+  ids: string[],
+  write: (id: string) => Task
+): { tasks: Task[]; failures: BulkTaskFailure[] } {
+  const failures: BulkTaskFailure[] = [];
+  const rollback = new Error('Bulk operation rolled back');
+
+  try {
+    const written = tasks.transaction(() => {
+      const results = Array.from(new Set(ids)).flatMap((id) => {
+        try {
+          return [write(id)];
+        } catch (error) {
+          if (!(error instanceof TRPCError)) throw error;
+          failures.push({ id, message: localizeError(locale, error) });
+          return [];
+        }
+      });
+
+      if (failures.length > 0) throw rollback;
+      return results;
+    });
+
+    return { tasks: written, failures };
+  } catch (error) {
+    if (error !== rollback) throw error;
+    return { tasks: [], failures };
+  }
+}
+
+/**
+ * One record of an import file, as planned before anything is written
+ * (`row` is the 1-based record number in the file)
+ */
+type TaskImportRow = {
+  row: number;
+  action: 'create' | 'update';
+  titulo: string;
+  errors: string[];
+};
+
+/**
+ * Validates every record of an import file and prepares its write
+ *
+ * Decisions:
+ * - `id` of an active task of the caller = update; no id, or an id that is
+ *   unknown here (e.g. a file from another account) = create with a new id
+ * - Every record goes through `createTaskSchema`, then the same reference
+ *   checks as `create`/`update` (due date, project, tags); all problems of
+ *   a record are reported, each as a message (in `locale`)
+ * - Updates only touch the fields present in the file (see
+ *   `TaskImportRecord`); the same task twice in one file is an error
+ * - Nothing is written here: `write` is called by `import.commit`
+ */
+function planTaskImport(
+  repositories: TaskWriteRepositories,
+  ownerId: string,
+  input: ImportTasksInput,
+  locale: Locale
+): (TaskImportRow & { write: (() => Task) | null })[] {
+  const t = createTranslator(locale);
+  const records = parseImportFile(input.content, input.format);
+  if (records.length > maxImportRows) {
+    throw new LocalizedError('BAD_REQUEST', 'errors.importTooManyRows', {
+      max: maxImportRows,
+    });
+  }
+
+  const updatedIds = new Set<string>();
+
+  return records.map((record, index) => {
+    const existing = record.id ? repositories.tasks.get(record.id) : null;
+    const target =
+      existing?.ownerId === ownerId && existing.deletedAt === null
+        ? existing
+        : null;
+    const errors: string[] = [];
+    let write: (() => Task) | null = null;
+
+    if (target && updatedIds.has(target.id)) {
+      errors.push(t('errors.importDuplicateTask'));
+    }
+    if (target) updatedIds.add(target.id);
+
+    const parsed = createTaskSchema.safeParse({
+      titulo: record.titulo,
+      descricao: record.descricao ?? undefined,
+      dueDate: record.dueDate ?? undefined,
+      priority: record.priority ?? undefined,
+      projectId: record.projectId ?? undefined,
+      tagIds: record.tagIds ?? undefined,
+    });
+
+    if (!parsed.success) {
+      errors.push(
+        ...parsed.error.issues.map((issue) =>
+          issue.path.length > 0
+            ? `${issue.path.join('.')}: ${localizeZodIssue(locale, issue)}`
+            : localizeZodIssue(locale, issue)
+        )
+      );
+    } else {
+      const data = parsed.data;
+      try {
+        if (target) {
+          const patch = toTaskPatch(repositories, target, {
+            titulo: data.titulo,
+            ...(record.dueDate !== undefined && {
+              dueDate: data.dueDate ?? null,
+            }),
+            ...(data.priority && { priority: data.priority }),
+            ...(record.projectId !== undefined && {
+              projectId: data.projectId ?? null,
+            }),
+            ...(record.tagIds !== undefined && { tagIds: data.tagIds ?? [] }),
+          });
+          if (record.descricao !== undefined) {
+            patch.descricao = data.descricao ?? null;
+          }
+          write = () => repositories.tasks.update(target.id, patch)!;
+        } else {
+          const task = toNewTask(repositories, ownerId, data);
+          write = () => repositories.tasks.insert(task);
+        }
+      } catch (error) {
+        if (!(error instanceof TRPCError)) throw error;
+        errors.push(localizeError(locale, error));
+      }
+    }
+
+    return {
+      row: index + 1,
+      action: target ? 'update' : 'create',
+      titulo: typeof record.titulo === 'string' ? record.titulo : '',
+      errors,
+      write: errors.length === 0 ? write : null,
+    };
+  });
+}
+
+function findChecklistItem(task: Task, itemId: string) {
+  const item = task.checklist.find((candidate) => candidate.id === itemId);
+
+  if (!item) {
+    throw new LocalizedError('NOT_FOUND', 'errors.checklistItemNotFound');
+  }
+
+  return item;
+}
+
+/**
+ * Patch replacing a task's checklist
+ *
+ * Decision: auto-completion lives here, so every checklist mutation applies it
+ * - Only when the task opted in (`checklistAutoComplete`) and the new list has
+ *   items, all of them done
+ * - Follows the status rules: an archived task is never completed this way
+ * - Unchecking an item doesn't reopen the task (reopening stays explicit)
+ */
+function toChecklistPatch(task: Task, checklist: ChecklistItem[]): TaskPatch {
+  const isComplete =
+    checklist.length > 0 && checklist.every((item) => item.done);
+
+  if (
+    task.checklistAutoComplete &&
+    isComplete &&
+    task.status !== 'concluida' &&
+    canTransitionStatus(task.status, 'concluida')
+  ) {
+    return { checklist, status: 'concluida', completedAt: Date.now() };
+  }
+
+  return { checklist };
+}
+
+/**
+ * Maps list filters from the API (URL-friendly) to repository options
+ *
+ * Decision: date-only bounds are expanded to whole days in server time
+ * - `createdFrom` starts at 00:00:00.000, `createdTo` ends at 23:59:59.999
+ */
+function toListOptions(
+  input: TaskListFilters,
+  ownerId: string
+): {
+  filter: TaskFilter;
+  sort: TaskSort;
+} {
+  return {
+    filter: {
+      ownerId,
+      projectId: input.projectId,
+      tagIds: input.tags,
+      tagMode: input.tagMode,
+      deleted: false,
+      query: input.query,
+      statuses: input.status,
+      createdFrom: input.createdFrom
+        ? new Date(`${input.createdFrom}T00:00:00`).getTime()
+        : undefined,
+      createdTo: input.createdTo
+        ? new Date(`${input.createdTo}T23:59:59.999`).getTime()
+        : undefined,
+    },
+    sort: {
+      field: input.sortBy ?? defaultTaskSort.field,
+      direction: input.sortDirection ?? defaultTaskSort.direction,
+    },
+  };
+}
 
 /**
  * tRPC Router for task CRUD operations
  *
  * Architectural decisions:
- * - Uses `publicProcedure` since there's no authentication (as per requirements)
+ * - Uses `protectedProcedure`: every procedure is scoped to `ctx.user`
+ * - Storage is accessed only through `ctx.tasks` (TaskRepository), never a backend
  * - Each procedure has Zod validation before executing logic
  * - Errors are thrown via TRPCError for type-safe serialization
  * - Returns complete objects (not just IDs) to optimize client cache
@@ -23,10 +654,11 @@ export const taskRouter = router({
    * - Client doesn't need to re-sort on each update
    * - Used for SSR initial page load
    */
-  list: publicProcedure.query(() => {
-    return Array.from(tasksStore.values()).sort(
-      (a, b) => b.dataCriacao - a.dataCriacao
-    );
+  list: protectedProcedure.query(({ ctx }) => {
+    return ctx.tasks.list({
+      filter: { ownerId: ctx.user.id, deleted: false },
+      sort: defaultTaskSort,
+    });
   }),
 
   /**
@@ -35,8 +667,12 @@ export const taskRouter = router({
    * Cursor-based pagination:
    * - First page: returns initial 7 tasks (ensures screen is filled and sentinel is below fold)
    * - Subsequent pages: returns 3 tasks per page (smooth scrolling)
-   * - Cursor: timestamp of last task in current page
-   * - Next cursor: timestamp to fetch older tasks
+   * - Cursor: (sort value, id) of last task in current page
+   * - Next cursor: keyset to fetch the following tasks (id breaks ties)
+   *
+   * Search/filters/sorting (see `taskListFiltersSchema`):
+   * - Applied by the repository before paginating, so pages stay consistent
+   * - Cursor value always matches the selected sort key (stable for any sort)
    *
    * Benefits over offset-based:
    * - Handles real-time updates (new tasks don't shift pages)
@@ -46,15 +682,11 @@ export const taskRouter = router({
    * NOTE: Includes artificial 1.5s delay ONLY for subsequent pages (infinite scroll)
    * This helps demonstrate loading states during development/evaluation
    * First page loads instantly to avoid delay after create/update operations
-   * In production, remove setTimeout to get instant in-memory responses
+   * In production, remove setTimeout to get instant responses
    */
-  infiniteList: publicProcedure
-    .input(
-      z.object({
-        cursor: z.number().optional(), // timestamp of last task from previous page
-      })
-    )
-    .query(async ({ input }) => {
+  infiniteList: protectedProcedure
+    .input(infiniteTaskListSchema)
+    .query(async ({ ctx, input }) => {
       /**
        * FAKE DELAY: Simulates server response time for infinite scroll
        * Purpose: Demonstrate loading UI during infinite scroll pagination
@@ -67,25 +699,24 @@ export const taskRouter = router({
         await new Promise((resolve) => setTimeout(resolve, 1500));
       }
 
-      const allTasks = Array.from(tasksStore.values()).sort(
-        (a, b) => b.dataCriacao - a.dataCriacao
-      );
-
       // Determine page size: 7 for first page, 3 for subsequent
       const isFirstPage = input.cursor === undefined;
       const limit = isFirstPage ? 7 : 3;
 
-      // Filter tasks older than cursor (if cursor exists)
-      const filteredTasks = input.cursor
-        ? allTasks.filter((task) => task.dataCriacao < input.cursor!)
-        : allTasks;
-
-      // Get current page tasks
-      const tasks = filteredTasks.slice(0, limit);
+      // Repository filters tasks after the cursor and applies the limit
+      const { filter, sort } = toListOptions(input, ctx.user.id);
+      const tasks = ctx.tasks.list({
+        filter,
+        sort,
+        cursor: input.cursor,
+        limit,
+      });
 
-      // Determine next cursor (timestamp of last task in current page)
+      // Determine next cursor (keyset of last task in current page)
       const nextCursor =
-        tasks.length === limit ? tasks[tasks.length - 1].dataCriacao : null;
+        tasks.length === limit
+          ? toTaskCursor(tasks[tasks.length - 1], sort)
+          : null;
 
       return {
         tasks,
@@ -93,93 +724,594 @@ export const taskRouter = router({
       };
     }),
 
+  /**
+   * CALENDAR: Active tasks due within a range of days (`/calendar`)
+   *
+   * Decisions:
+   * - Archived tasks are left out (like the board), completed ones stay:
+   *   the calendar also shows what was done on each day
+   * - No pagination: a range is at most 6 weeks (`maxCalendarDays`)
+   * - Ordered by due date, then priority (highest first) within a day
+   */
+  calendar: protectedProcedure
+    .input(calendarTasksSchema)
+    .query(({ ctx, input }) => {
+      const tasks = ctx.tasks.list({
+        filter: {
+          ownerId: ctx.user.id,
+          deleted: false,
+          statuses: taskStatusSchema.options.filter(
+            (status) => status !== 'arquivada'
+          ),
+          dueFrom: input.from,
+          dueTo: input.to,
+        },
+        sort: { field: 'priority', direction: 'desc' },
+      });
+
+      // Stable: within a day, the priority order from the repository stays
+      return tasks.sort((a, b) =>
+        a.dueDate! < b.dueDate! ? -1 : a.dueDate! > b.dueDate! ? 1 : 0
+      );
+    }),
+
+  /**
+   * UNDATED: Open tasks without a due date ("sem data" sidebar of the
+   * calendar), newest first, 20 per page with the `infiniteList` cursor
+   */
+  undated: protectedProcedure
+    .input(undatedTasksSchema)
+    .query(({ ctx, input }) => {
+      const limit = 20;
+      const tasks = ctx.tasks.list({
+        filter: {
+          ownerId: ctx.user.id,
+          deleted: false,
+          statuses: ['pendente', 'em_andamento'],
+          hasDueDate: false,
+        },
+        sort: defaultTaskSort,
+        cursor: input.cursor,
+        limit,
+      });
+
+      return {
+        tasks,
+        nextCursor:
+          tasks.length === limit
+            ? toTaskCursor(tasks[tasks.length - 1], defaultTaskSort)
+            : null,
+      };
+    }),
+
+  /**
+   * EXPORT: Every task matching the list filters, in list order
+   *
+   * Used by the `/api/tasks/export` route handler, which streams it as a
+   * CSV or JSON file; no pagination (the file is the whole list)
+   */
+  export: protectedProcedure
+    .input(taskListFiltersSchema)
+    .query(({ ctx, input }) => {
+      const { filter, sort } = toListOptions(input, ctx.user.id);
+      return ctx.tasks.list({ filter, sort });
+    }),
+
+  /**
+   * IMPORT: Creates/updates tasks from a CSV or JSON file (`task.import.*`)
+   *
+   * Decisions:
+   * - `preview` reports what `commit` would do (creates vs updates, errors
+   *   per record) without writing; both parse and validate the same way
+   *   (`planTaskImport`), so the preview can't drift from the commit
+   * - `preview` is a mutation only to send the file in a POST body
+   * - `commit` refuses a file with any invalid record and writes the rest
+   *   in one transaction: the whole file is imported or nothing
+   */
+  import: router({
+    preview: protectedProcedure
+      .input(importTasksSchema)
+      .mutation(({ ctx, input }) => {
+        const rows = planTaskImport(ctx, ctx.user.id, input, ctx.locale).map(
+          ({ row, action, titulo, errors }) => ({ row, action, titulo, errors })
+        );
+
+        return {
+          rows,
+          creates: rows.filter(
+            (row) => row.action === 'create' && row.errors.length === 0
+          ).length,
+          updates: rows.filter(
+            (row) => row.action === 'update' && row.errors.length === 0
+          ).length,
+          invalid: rows.filter((row) => row.errors.length > 0).length,
+        };
+      }),
+
+    commit: protectedProcedure
+      .input(importTasksSchema)
+      .mutation(({ ctx, input }) => {
+        const plan = planTaskImport(ctx, ctx.user.id, input, ctx.locale);
+
+        if (plan.length === 0) {
+          throw new LocalizedError('BAD_REQUEST', 'errors.importEmpty');
+        }
+
+        const invalid = plan.filter((row) => row.errors.length > 0);
+        if (invalid.length > 0) {
+          throw new LocalizedError(
+            'BAD_REQUEST',
+            'errors.importInvalidRecords',
+            {
+              count: invalid.length,
+              row: invalid[0].row,
+              error: invalid[0].errors[0],
+            }
+          );
+        }
+
+        ctx.tasks.transaction(() => {
+          plan.forEach((row) => row.write?.());
+        });
+
+        return {
+          created: plan.filter((row) => row.action === 'create').length,
+          updated: plan.filter((row) => row.action === 'update').length,
+        };
+      }),
+  }),
+
+  /**
+   * ON CHANGE: Streams created/updated/deleted events of the caller's tasks
+   *
+   * Transport: Server-Sent Events (httpSubscriptionLink on the client)
+   * - Same `/api/trpc` route handler, no extra WebSocket server
+   * - Cookies are sent with the EventSource, so `ctx.user` works as usual
+   * - `signal` aborts the listener when the client disconnects
+   *
+   * Decision: events carry the full task so clients patch their cache in place
+   * (no refetch of every loaded page)
+   */
+  onChange: protectedProcedure.subscription(async function* ({ ctx, signal }) {
+    for await (const event of ctx.taskEvents.subscribe(signal)) {
+      if (event.task.ownerId === ctx.user.id) {
+        yield event;
+      }
+    }
+  }),
+
   /**
    * GET BY ID: Returns a single task by ID
    *
    * Used for edit page to fetch task data
    * - Efficient: fetches only one task instead of all
-   * - Returns null if not found (handled by page)
+   * - Returns null if not found, trashed or owned by someone else (handled by page)
    */
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
-    .query(({ input }) => {
-      const task = tasksStore.get(input.id);
-      return task ?? null;
+    .query(({ ctx, input }) => {
+      const task = ctx.tasks.get(input.id);
+      return task?.ownerId === ctx.user.id && task.deletedAt === null
+        ? task
+        : null;
     }),
 
   /**
    * CREATE: Creates new task
    *
    * Implementation decisions:
-   * - crypto.randomUUID() for unique IDs (available in Node 19+)
+   * - crypto.randomUUID() for unique IDs (available in Node 19+), unless
+   *   the client sent its own
    * - `descricao ?? null` converts undefined to null for type consistency
    * - Date.now() for timestamp (facilitates sorting and serialization)
+   * - Every task starts as `pendente` (status changes go through `setStatus`)
+   * - Priority defaults to `media`; due date must not be before today
+   * - `projectId` must be an active project of the caller, `tagIds` its tags
+   * - Owner is always the caller (never taken from input)
    * - Returns complete task for client to update cache optimistically
+   * - A client-generated `id` makes it idempotent: replaying a create whose
+   *   answer was lost (offline queue) returns the task created the first
+   *   time; an id taken by another user's task is a CONFLICT
    */
-  create: publicProcedure.input(createTaskSchema).mutation(({ input }) => {
-    const newTask: Task = {
-      id: crypto.randomUUID(),
-      titulo: input.titulo,
-      descricao: input.descricao ?? null,
-      dataCriacao: Date.now(),
-    };
-
-    tasksStore.set(newTask.id, newTask);
+  create: protectedProcedure
+    .input(createTaskSchema)
+    .mutation(({ ctx, input }) => {
+      const existing = input.id ? ctx.tasks.get(input.id) : null;
+      if (existing) {
+        if (existing.ownerId === ctx.user.id) return existing;
+        throw new LocalizedError('CONFLICT', 'errors.taskIdInUse');
+      }
 
-    return newTask;
-  }),
+      return ctx.tasks.insert(toNewTask(ctx, ctx.user.id, input));
+    }),
 
   /**
    * UPDATE: Updates existing task (partial update)
    *
    * Decisions:
-   * - Checks existence before updating (fail-fast)
-   * - Uses spread operator for merge (preserves unsent fields)
+   * - Checks ownership before updating (fail-fast)
+   * - Repository merges the patch (preserves unsent fields)
+   * - Due date, project and tags are validated by `toTaskPatch`
+   * - `version` must match the stored one, otherwise CONFLICT: the client
+   *   reloads the task and resolves the differences before retrying
    * - TRPCError with code 'NOT_FOUND' for type-safe error handling on client
    * - Returns complete updated task (not just success boolean)
    */
-  update: publicProcedure.input(updateTaskSchema).mutation(({ input }) => {
-    const existingTask = tasksStore.get(input.id);
+  update: protectedProcedure
+    .input(updateTaskSchema)
+    .mutation(({ ctx, input }) => {
+      const {
+        id,
+        version,
+        recurrence,
+        scope = 'occurrence',
+        ...fields
+      } = input;
+      const existingTask = findOwnedTask(ctx.tasks, ctx.user.id, id);
+      if (existingTask.version !== version) {
+        throw new LocalizedError('CONFLICT', 'errors.taskVersionConflict', {
+          current: existingTask.version,
+          expected: version,
+        });
+      }
+
+      const patch = toTaskPatch(ctx, existingTask, fields);
+      if (
+        recurrence === undefined &&
+        (scope === 'occurrence' || !existingTask.series)
+      ) {
+        return ctx.tasks.update(id, patch)!;
+      }
+
+      return ctx.tasks.transaction(() =>
+        updateRecurrence(ctx.tasks, existingTask, patch, recurrence, scope)
+      );
+    }),
 
-    if (!existingTask) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Task not found',
+  /**
+   * BULK UPDATE: Applies the same partial update to many tasks
+   *
+   * Decisions:
+   * - Same validation as `update`, per task (e.g. a due date can be valid
+   *   for one task and before the creation of another)
+   * - No version check: the patch is not based on each task's current
+   *   values (open edit forms get a CONFLICT on their next save)
+   * - All or nothing (`runBulk`): returns the updated tasks, or the
+   *   failures with nothing changed
+   */
+  bulkUpdate: protectedProcedure
+    .input(bulkUpdateTasksSchema)
+    .mutation(({ ctx, input }) =>
+      runBulk(ctx.tasks, ctx.locale, input.ids, (id) => {
+        const task = findOwnedTask(ctx.tasks, ctx.user.id, id);
+        return ctx.tasks.update(id, toTaskPatch(ctx, task, input.patch))!;
+      })
+    ),
+
+  /**
+   * SET STATUS: Moves task through its lifecycle
+   *
+   * Decisions:
+   * - Dedicated mutation instead of a field in `update`: transitions have rules
+   * - Rules come from `taskStatusTransitions` (shared with the UI)
+   * - Invalid transition -> BAD_REQUEST; same status -> no-op (idempotent)
+   * - `completedAt` is stamped when entering `concluida`, cleared when leaving
+   */
+  setStatus: protectedProcedure
+    .input(setTaskStatusSchema)
+    .mutation(({ ctx, input }) => {
+      const existingTask = findOwnedTask(ctx.tasks, ctx.user.id, input.id);
+
+      if (existingTask.status === input.status) {
+        return existingTask;
+      }
+
+      if (!canTransitionStatus(existingTask.status, input.status)) {
+        throw new LocalizedError(
+          'BAD_REQUEST',
+          'errors.invalidStatusTransition',
+          {
+            from: existingTask.status,
+            to: input.status,
+          }
+        );
+      }
+
+      return updateTaskStatus(ctx, existingTask, {
+        status: input.status,
+        completedAt: input.status === 'concluida' ? Date.now() : null,
       });
-    }
+    }),
 
-    const updatedTask: Task = {
-      ...existingTask,
-      ...input,
-    };
+  /**
+   * CHECKLIST: Ordered subtask items owned by a task (`task.checklist.*`)
+   *
+   * Decisions:
+   * - Items are saved as part of the task (no repository of their own), so
+   *   every change goes through `ctx.tasks.update` and reaches `onChange`
+   *   subscribers like any other task edit
+   * - Each mutation returns the whole updated task (progress + status)
+   * - Trashed tasks are NOT_FOUND, same as the other task mutations
+   */
+  checklist: router({
+    add: protectedProcedure
+      .input(addChecklistItemSchema)
+      .mutation(({ ctx, input }) => {
+        const task = findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+
+        if (task.checklist.length >= maxChecklistItems) {
+          throw new LocalizedError(
+            'BAD_REQUEST',
+            'errors.checklistTooManyItems',
+            { max: maxChecklistItems }
+          );
+        }
+
+        const item: ChecklistItem = {
+          id: crypto.randomUUID(),
+          titulo: input.titulo,
+          done: false,
+        };
+
+        return updateTaskStatus(
+          ctx,
+          task,
+          toChecklistPatch(task, [...task.checklist, item])
+        );
+      }),
+
+    update: protectedProcedure
+      .input(updateChecklistItemSchema)
+      .mutation(({ ctx, input }) => {
+        const { taskId, itemId, ...patch } = input;
+        const task = findOwnedTask(ctx.tasks, ctx.user.id, taskId);
+        findChecklistItem(task, itemId);
+
+        const checklist = task.checklist.map((item) =>
+          item.id === itemId
+            ? {
+                ...item,
+                titulo: patch.titulo ?? item.titulo,
+                done: patch.done ?? item.done,
+              }
+            : item
+        );
+
+        return updateTaskStatus(ctx, task, toChecklistPatch(task, checklist));
+      }),
+
+    delete: protectedProcedure
+      .input(deleteChecklistItemSchema)
+      .mutation(({ ctx, input }) => {
+        const task = findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+        findChecklistItem(task, input.itemId);
+
+        const checklist = task.checklist.filter(
+          (item) => item.id !== input.itemId
+        );
+
+        return updateTaskStatus(ctx, task, toChecklistPatch(task, checklist));
+      }),
+
+    /**
+     * REORDER: `itemIds` must list every item of the task exactly once
+     * (a stale client list is rejected instead of dropping items)
+     */
+    reorder: protectedProcedure
+      .input(reorderChecklistSchema)
+      .mutation(({ ctx, input }) => {
+        const task = findOwnedTask(ctx.tasks, ctx.user.id, input.taskId);
+        const itemsById = new Map(
+          task.checklist.map((item) => [item.id, item])
+        );
 
-    tasksStore.set(input.id, updatedTask);
+        const checklist = input.itemIds
+          .map((itemId) => itemsById.get(itemId))
+          .filter((item): item is ChecklistItem => item !== undefined);
 
-    return updatedTask;
+        if (
+          checklist.length !== task.checklist.length ||
+          new Set(input.itemIds).size !== input.itemIds.length
+        ) {
+          throw new LocalizedError(
+            'BAD_REQUEST',
+            'errors.checklistIdsMismatch'
+          );
+        }
+
+        return ctx.tasks.update(task.id, { checklist })!;
+      }),
   }),
 
   /**
-   * DELETE: Removes task
+   * HISTORY: Timeline of a task, newest revision first
    *
    * Decisions:
-   * - Validates existence before deleting (avoids deleting non-existent ID without feedback)
-   * - Returns deleted task (useful for undo/rollback or logging)
-   * - Inline schema (z.object) since validation is simple
+   * - Snapshots stay on the server: the timeline only needs the diffs,
+   *   and `revert` reads the snapshot by entry id
+   * - Actor is resolved to a name here, so the client needs no user lookup
    */
-  delete: publicProcedure
+  history: protectedProcedure
     .input(z.object({ id: z.string() }))
-    .mutation(({ input }) => {
-      const existingTask = tasksStore.get(input.id);
+    .query(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.id);
 
-      if (!existingTask) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Task not found',
-        });
+      return ctx.taskHistory.listByTask(input.id).map((entry) => {
+        const actor = entry.actorId ? ctx.users.get(entry.actorId) : null;
+        return {
+          id: entry.id,
+          action: entry.action,
+          dataCriacao: entry.dataCriacao,
+          changes: entry.changes,
+          actor: actor ? { id: actor.id, nome: actor.nome } : null,
+        };
+      });
+    }),
+
+  /**
+   * REVISION: The task as it was at `version` (e.g. the version a change
+   * queued offline was based on, to resolve its conflict three-way)
+   *
+   * Decisions:
+   * - Read from the history snapshots: the newest one at or before
+   *   `version` (writes that change no tracked field, like board moves,
+   *   bump the version without a history entry)
+   * - Null when the history doesn't reach that far back (e.g. seeded tasks)
+   */
+  revision: protectedProcedure
+    .input(z.object({ id: z.string(), version: z.number().int() }))
+    .query(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.id);
+
+      return (
+        ctx.taskHistory
+          .listByTask(input.id)
+          .find((entry) => entry.snapshot.version <= input.version)?.snapshot ??
+        null
+      );
+    }),
+
+  /**
+   * REVERT: Restores the task fields to their state after a history entry
+   *
+   * Decisions:
+   * - Recorded as a regular update, so a revert can be reverted too
+   * - Trash state is not reverted (that's what delete/restore are for)
+   * - Status is set directly: returning to an earlier revision is not a
+   *   workflow transition
+   * - References that no longer exist are dropped instead of failing:
+   *   a deleted project becomes "no project", deleted tags are skipped
+   */
+  revert: protectedProcedure
+    .input(revertTaskSchema)
+    .mutation(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.id);
+
+      const entry = ctx.taskHistory.get(input.historyId);
+      if (!entry || entry.taskId !== input.id) {
+        throw new LocalizedError('NOT_FOUND', 'errors.revisionNotFound');
       }
 
-      tasksStore.delete(input.id);
+      const revision = entry.snapshot;
+      const project = revision.projectId
+        ? ctx.projects.get(revision.projectId)
+        : null;
+      const ownedTagIds = new Set(
+        ctx.tags.listByOwner(ctx.user.id).map((tag) => tag.id)
+      );
+
+      return ctx.tasks.update(input.id, {
+        titulo: revision.titulo,
+        descricao: revision.descricao,
+        status: revision.status,
+        completedAt: revision.completedAt,
+        dueDate: revision.dueDate,
+        priority: revision.priority,
+        checklist: revision.checklist,
+        checklistAutoComplete: revision.checklistAutoComplete,
+        projectId: project?.ownerId === ctx.user.id ? project.id : null,
+        tagIds: revision.tagIds.filter((tagId) => ownedTagIds.has(tagId)),
+      })!;
+    }),
+
+  /**
+   * DELETE: Moves task to the trash (soft delete)
+   *
+   * Decisions:
+   * - Checks ownership first (no silent delete without feedback)
+   * - Only stamps `deletedAt`: the task disappears from lists and getById,
+   *   and can be brought back with `restore` (undo) until purged
+   * - Returns deleted task (its id is all the undo action needs)
+   * - Inline schema (z.object) since validation is simple
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.id);
 
-      return existingTask;
+      return ctx.tasks.update(input.id, { deletedAt: Date.now() })!;
     }),
+
+  /**
+   * BULK DELETE: Moves many tasks to the trash at once
+   *
+   * All or nothing (`runBulk`), like `bulkUpdate`; each task can then be
+   * restored individually
+   */
+  bulkDelete: protectedProcedure
+    .input(bulkDeleteTasksSchema)
+    .mutation(({ ctx, input }) => {
+      const deletedAt = Date.now();
+
+      return runBulk(ctx.tasks, ctx.locale, input.ids, (id) => {
+        findOwnedTask(ctx.tasks, ctx.user.id, id);
+        return ctx.tasks.update(id, { deletedAt })!;
+      });
+    }),
+
+  /**
+   * RESTORE: Brings a trashed task back (undo toast and trash page)
+   *
+   * Task keeps its original data (status, dataCriacao), so it returns
+   * to the same position in the list
+   */
+  restore: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.id, { deleted: true });
+
+      return ctx.tasks.update(input.id, { deletedAt: null })!;
+    }),
+
+  /**
+   * TRASH: Caller's deleted tasks, most recently deleted first
+   *
+   * Decisions:
+   * - No pagination: the trash is bounded by the retention period
+   * - Expired tasks are purged before listing, so the page never shows
+   *   a task past its retention even if the background timer didn't run
+   * - Returns `retentionDays` so the UI can tell when each task expires
+   */
+  trash: protectedProcedure.query(({ ctx }) => {
+    purgeExpiredTasks(ctx.tasks);
+
+    return {
+      tasks: ctx.tasks.list({
+        filter: { ownerId: ctx.user.id, deleted: true },
+        sort: { field: 'deletedAt', direction: 'desc' },
+      }),
+      retentionDays: getTrashRetentionDays(),
+    };
+  }),
+
+  /**
+   * PURGE: Permanently removes one trashed task (cannot be undone)
+   *
+   * Only trashed tasks can be purged: active ones must be deleted first
+   */
+  purge: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) => {
+      findOwnedTask(ctx.tasks, ctx.user.id, input.id, { deleted: true });
+
+      return ctx.tasks.delete(input.id)!;
+    }),
+
+  /**
+   * EMPTY TRASH: Permanently removes all of the caller's trashed tasks
+   *
+   * Runs in a transaction: either the whole trash is purged or nothing
+   * Returns how many tasks were removed
+   */
+  emptyTrash: protectedProcedure.mutation(({ ctx }) => {
+    const trashed = ctx.tasks.list({
+      filter: { ownerId: ctx.user.id, deleted: true },
+    });
+
+    ctx.tasks.transaction(() => {
+      trashed.forEach((task) => ctx.tasks.delete(task.id));
+    });
+
+    return { count: trashed.length };
+  }),
 });
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+/**
+ * Upload limits of task attachments (shared with the upload field)
+ */
+export const maxAttachmentSize = 10 * 1024 * 1024; // 10 MB
+export const maxAttachmentsPerTask = 20;
+
+/**
+ * Accepted file types, by MIME type, with their file extensions
+ *
+ * Decisions:
+ * - Allow-list for screenshots, logs and common documents; anything else
+ *   is rejected (no executables, no HTML)
+ * - SVG is left out on purpose: it can carry scripts and is served back
+ *   from the app's own origin
+ * - Browsers often send no type for `.log` files: the extension decides
+ *   then (see `toAttachmentMimeType`)
+ */
+export const attachmentMimeTypes = {
+  'image/png': ['png'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+  'application/pdf': ['pdf'],
+  'text/plain': ['txt', 'log'],
+  'text/csv': ['csv'],
+  'application/json': ['json'],
+  'application/zip': ['zip'],
+  'application/gzip': ['gz'],
+} as const satisfies Record<string, readonly string[]>;
+
+export type AttachmentMimeType = keyof typeof attachmentMimeTypes;
+
+/**
+ * Types shown as previews and served inline
+ */
+export function isImageMimeType(mimeType: string) {
+  return mimeType.startsWith('image/');
+}
+
+/**
+ * MIME type stored for an upload: the declared one when accepted,
+ * otherwise the one of its extension; null = file type not accepted
+ */
+export function toAttachmentMimeType(
+  nome: string,
+  declaredType: string
+): AttachmentMimeType | null {
+  if (declaredType in attachmentMimeTypes) {
+    return declaredType as AttachmentMimeType;
+  }
+
+  const extension = nome.split('.').pop()?.toLowerCase() ?? '';
+  const entry = Object.entries(attachmentMimeTypes).find(([, extensions]) =>
+    (extensions as readonly string[]).includes(extension)
+  );
+  return entry ? (entry[0] as AttachmentMimeType) : null;
+}
+
+/**
+ * `accept` attribute of the upload input
+ */
+export const attachmentAccept = Object.entries(attachmentMimeTypes)
+  .flatMap(([mimeType, extensions]) => [
+    mimeType,
+    ...extensions.map((extension) => `.${extension}`),
+  ])
+  .join(',');
+
+/**
+ * Validation schemas for task attachments
+ *
+ * Decisions:
+ * - `upload` takes a `File`, so it is only called from the multipart route
+ *   handler (`/api/attachments`) through the server caller; size and type
+ *   are checked by the router against the limits above
+ * - Attachments are addressed by id, their task is looked up for ownership
+ */
+export const uploadAttachmentSchema = z.object({
+  taskId: z.string(),
+  file: z.instanceof(File, { message: 'validation.fileRequired' }),
+});
+
+export const listAttachmentsSchema = z.object({
+  taskId: z.string(),
+});
+
+export const getAttachmentSchema = z.object({
+  id: z.string(),
+});
+
+export const deleteAttachmentSchema = z.object({
+  id: z.string(),
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * Validation schemas for authentication
+ *
+ * Decisions:
+ * - `email` is trimmed and lowercased before reaching the router
+ *   (unique login regardless of how the user types it)
+ * - `senha`: min 8 chars on register; login only requires non-empty
+ *   (never reveal password rules for existing accounts)
+ */
+const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email('validation.invalidEmail');
+
+export const registerSchema = z.object({
+  nome: z
+    .string()
+    .trim()
+    .min(1, 'validation.nomeRequired')
+    .max(80, 'validation.nomeTooLong'),
+  email: emailSchema,
+  senha: z
+    .string()
+    .min(8, 'validation.senhaTooShort')
+    .max(128, 'validation.senhaTooLong'),
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  senha: z.string().min(1, 'validation.senhaRequired'),
+});
+
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
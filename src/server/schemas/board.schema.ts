@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import type { MessageKey } from '../../i18n/translator';
+import { taskCursorSchema } from './task.schema';
+
+/**
+ * Columns a board starts with (created on the first visit, named in the
+ * language of that visit)
+ */
+export const defaultBoardColumnNames: MessageKey[] = [
+  'board.defaultColumns.todo',
+  'board.defaultColumns.doing',
+  'board.defaultColumns.done',
+];
+
+export const maxBoardColumns = 8;
+
+/**
+ * Validation schemas for the task board
+ *
+ * Decisions:
+ * - Column names are trimmed; duplicates are allowed (columns are told
+ *   apart by their place on the board)
+ * - `moveColumn` swaps a column with its neighbor (board order)
+ * - `tasks` pages one column at a time, with the same (value, id) cursor as
+ *   `task.infiniteList`; the value is the task's `position`
+ */
+const boardColumnNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.nomeRequired')
+  .max(30, 'validation.nomeTooLong');
+
+export const createBoardColumnSchema = z.object({
+  nome: boardColumnNameSchema,
+});
+
+export const renameBoardColumnSchema = z.object({
+  id: z.string(),
+  nome: boardColumnNameSchema,
+});
+
+export const moveBoardColumnSchema = z.object({
+  id: z.string(),
+  direction: z.enum(['left', 'right']),
+});
+
+export const deleteBoardColumnSchema = z.object({
+  id: z.string(),
+});
+
+export const rebalanceBoardColumnSchema = z.object({
+  columnId: z.string(),
+});
+
+export const boardColumnTasksSchema = z.object({
+  columnId: z.string(),
+  cursor: taskCursorSchema.optional(),
+});
+
+export type BoardColumnTasksInput = z.infer<typeof boardColumnTasksSchema>;
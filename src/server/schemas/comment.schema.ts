@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+/**
+ * Max length of a comment (Markdown source)
+ */
+export const maxComentarioLength = 2000;
+
+/**
+ * Validation schemas for task comments
+ *
+ * Decisions:
+ * - `texto` is trimmed and can't be blank
+ * - `list` pages a thread oldest first; `cursor` is the `nextCursor` of the
+ *   previous page
+ * - `counts` takes the tasks of a list page (badges), not a whole account
+ */
+const comentarioTextoSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.comentarioRequired')
+  .max(maxComentarioLength, 'validation.comentarioTooLong');
+
+export const addCommentSchema = z.object({
+  taskId: z.string(),
+  texto: comentarioTextoSchema,
+});
+
+export const updateCommentSchema = z.object({
+  id: z.string(),
+  texto: comentarioTextoSchema,
+});
+
+export const deleteCommentSchema = z.object({
+  id: z.string(),
+});
+
+export const listCommentsSchema = z.object({
+  taskId: z.string(),
+  cursor: z.object({ dataCriacao: z.number(), id: z.string() }).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+export const commentCountsSchema = z.object({
+  taskIds: z.array(z.string()).max(500),
+});
+
+export type AddCommentInput = z.infer<typeof addCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+/**
+ * Validation schemas for projects
+ *
+ * Decisions:
+ * - `nome` is trimmed before validation (no blank names)
+ * - Deleting a project requires an explicit choice for its tasks:
+ *   move them (to another project or to none) or send them to the trash
+ */
+const projectNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.nomeRequired')
+  .max(60, 'validation.nomeTooLong');
+
+export const listProjectsSchema = z
+  .object({
+    includeArchived: z.boolean().optional(),
+  })
+  .optional();
+
+export const createProjectSchema = z.object({
+  nome: projectNameSchema,
+});
+
+export const renameProjectSchema = z.object({
+  id: z.string(),
+  nome: projectNameSchema,
+});
+
+export const archiveProjectSchema = z.object({
+  id: z.string(),
+  archived: z.boolean().default(true), // false = unarchive
+});
+
+export const deleteProjectSchema = z.discriminatedUnion('taskAction', [
+  z.object({
+    id: z.string(),
+    taskAction: z.literal('move'),
+    targetProjectId: z.string().nullable(), // null = no project
+  }),
+  z.object({
+    id: z.string(),
+    taskAction: z.literal('delete'),
+  }),
+]);
+
+export type CreateProjectInput = z.infer<typeof createProjectSchema>;
+export type DeleteProjectInput = z.infer<typeof deleteProjectSchema>;
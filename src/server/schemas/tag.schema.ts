@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * Tag colors (palette names, mapped to classes by the UI)
+ */
+export const tagColorSchema = z.enum([
+  'gray',
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'blue',
+  'purple',
+  'pink',
+]);
+
+export type TagColor = z.infer<typeof tagColorSchema>;
+
+/**
+ * Validation schemas for tags
+ *
+ * Decisions:
+ * - `nome` is trimmed and lowercase-insensitive unique (checked by the router)
+ * - `merge` moves every task from `sourceId` to `targetId`, then deletes the source
+ */
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.nomeRequired')
+  .max(30, 'validation.nomeTooLong');
+
+export const createTagSchema = z.object({
+  nome: tagNameSchema,
+  cor: tagColorSchema.optional(),
+});
+
+export const updateTagSchema = z.object({
+  id: z.string(),
+  nome: tagNameSchema.optional(),
+  cor: tagColorSchema.optional(),
+});
+
+export const mergeTagsSchema = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+});
+
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
@@ -1,26 +1,218 @@
+/**
+ * Validation messages are keys of the message catalog (`validation.*`),
+ * translated to the caller's locale when reported (see localizeZodIssue)
+ */
 import { z } from 'zod';
 
+/** Calendar day as `AAAA-MM-DD` (format only) */
+const dateOnlyPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether an `AAAA-MM-DD` string is a day that exists: rebuilt with
+ * `Date.UTC`, 2025-02-31 rolls over to March and 2025-13-45 to 2026
+ */
+function isExistingDay(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return (
+    new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10) ===
+    value
+  );
+}
+
+/**
+ * Calendar day (`dueDate`, filters, recurrence end): the format, then
+ * whether the day exists
+ */
+const dateOnlySchema = z
+  .string()
+  .regex(dateOnlyPattern, 'validation.dateOnly')
+  // Only checked in the right format (the regex reports the others)
+  .refine(
+    (value) => !dateOnlyPattern.test(value) || isExistingDay(value),
+    'validation.invalidDate'
+  );
+
+/**
+ * Calendar day (AAAA-MM-DD) of a timestamp in the local time zone
+ *
+ * Same format as `<input type="date">` and `dueDate`, so days compare as strings
+ */
+export function toDateOnly(timestamp: number) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Calendar day (AAAA-MM-DD) `days` after `date` (negative = before)
+ *
+ * Computed in UTC so daylight saving changes never skip or repeat a day
+ */
+export function addDays(date: string, days: number) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+function weekdayOf(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Recurrence rule of a repeating task
+ *
+ * Decisions:
+ * - `interval`: every N days/weeks/months ("every 3 days" is daily + 3)
+ * - `weekdays` (0 = Sunday ... 6 = Saturday) only apply to weekly rules,
+ *   which need at least one
+ * - Monthly rules repeat on the day of the month the series started
+ *   (clamped to the month's last day: 31 → 28/29/30)
+ * - Ends on a calendar day (`endsOn`) or after `count` occurrences,
+ *   or never (both null); not both
+ */
+export const recurrenceFrequencySchema = z.enum(['daily', 'weekly', 'monthly']);
+
+export type RecurrenceFrequency = z.infer<typeof recurrenceFrequencySchema>;
+
+export const taskRecurrenceSchema = z
+  .object({
+    frequency: recurrenceFrequencySchema,
+    interval: z.number().int().min(1).max(365),
+    weekdays: z.array(z.number().int().min(0).max(6)).max(7),
+    endsOn: dateOnlySchema.nullable(),
+    count: z.number().int().min(1).max(1000).nullable(),
+  })
+  .refine((rule) => rule.frequency !== 'weekly' || rule.weekdays.length > 0, {
+    message: 'validation.weekdaysRequired',
+    path: ['weekdays'],
+  })
+  .refine((rule) => rule.endsOn === null || rule.count === null, {
+    message: 'validation.recurrenceEndConflict',
+    path: ['count'],
+  });
+
+export type TaskRecurrence = z.infer<typeof taskRecurrenceSchema>;
+
+/**
+ * Date of the occurrence that follows the one on `after`
+ *
+ * `startDate` is the first occurrence of the series (anchors monthly rules).
+ * Weekly rules walk to the next chosen weekday; crossing into a new week
+ * (weeks start on Sunday) skips `interval - 1` weeks
+ *
+ * Lives next to the schemas (no server-only imports) so the UI can show
+ * the next date the server will generate
+ */
+export function nextOccurrenceDate(
+  rule: TaskRecurrence,
+  startDate: string,
+  after: string
+) {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(after, rule.interval);
+    case 'weekly': {
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(after, offset);
+        const weekday = weekdayOf(candidate);
+        if (rule.weekdays.includes(weekday)) {
+          return weekday <= weekdayOf(after)
+            ? addDays(candidate, 7 * (rule.interval - 1))
+            : candidate;
+        }
+      }
+      return addDays(after, 7 * rule.interval);
+    }
+    case 'monthly': {
+      const [year, month] = after.split('-').map(Number);
+      const day = Number(startDate.slice(8, 10));
+      const targetMonth = month - 1 + rule.interval;
+      const lastDay = new Date(Date.UTC(year, targetMonth + 1, 0)).getUTCDate();
+      return new Date(Date.UTC(year, targetMonth, Math.min(day, lastDay)))
+        .toISOString()
+        .slice(0, 10);
+    }
+  }
+}
+
+/**
+ * Task priorities, lowest to highest
+ *
+ * Decision: Portuguese values stored as text (like `status`);
+ * ordering comes from `taskPriorityRank`, never from the string itself
+ */
+export const taskPrioritySchema = z.enum(['baixa', 'media', 'alta']);
+
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+
+export const taskPriorityRank: Record<TaskPriority, number> = {
+  baixa: 1,
+  media: 2,
+  alta: 3,
+};
+
+const taskTagIdsSchema = z.array(z.string()).max(10, 'validation.tooManyTags');
+
+const taskTituloSchema = z
+  .string()
+  .min(1, 'validation.tituloRequired')
+  .max(120, 'validation.tituloTooLong');
+
+/**
+ * Task description: Markdown source, stored as typed
+ * (rendered by the client, which never injects it as HTML)
+ */
+export const maxDescricaoLength = 5000;
+
+const taskDescricaoSchema = z
+  .string()
+  .max(maxDescricaoLength, 'validation.descricaoTooLong');
+
 /**
  * Validation schema for task creation
  *
  * Validation decisions:
  * - `titulo`: min(1) ensures non-empty string after trim
  * - `titulo`: max(120) reasonable limit for titles (UI/DB compatible)
- * - `descricao`: optional (.optional() instead of .nullable()) for flexibility
+ * - `descricao`: optional (.optional() instead of .nullable()) for flexibility;
+ *   Markdown, up to `maxDescricaoLength` characters
+ * - `dueDate`: optional calendar day; "not before creation" is checked by the
+ *   router, which knows the creation date
+ * - `priority`: optional, new tasks default to `media`
+ * - `projectId`: optional; must be an active project of the caller (router)
+ * - `tagIds`: up to 10 tags of the caller (router checks ownership)
+ * - `recurrence`: optional rule, makes the task the first occurrence of a
+ *   series (due date defaults to today)
+ * - `id`: optional UUID generated by the client, so a create queued offline
+ *   can be referenced (and replayed) before the server has answered
  *
  * Why Zod?
  * - Runtime validation: protects against malformed payloads
  * - Type inference: keeps types automatically synchronized
- * - Custom messages: better UX with descriptive errors
+ * - Custom messages: better UX with descriptive errors (catalog keys)
  */
 export const createTaskSchema = z.object({
-  titulo: z
-    .string()
-    .min(1, 'Título é obrigatório')
-    .max(120, 'Título muito longo'),
-  descricao: z.string().optional(),
+  id: z.string().uuid('validation.invalidId').optional(),
+  titulo: taskTituloSchema,
+  descricao: taskDescricaoSchema.optional(),
+  dueDate: dateOnlySchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  projectId: z.string().optional(),
+  tagIds: taskTagIdsSchema.optional(),
+  recurrence: taskRecurrenceSchema.optional(),
 });
 
+/**
+ * Which occurrences of a recurring task an edit applies to
+ * - `occurrence`: only this task
+ * - `series`: this task and every future occurrence
+ */
+export const taskEditScopeSchema = z.enum(['occurrence', 'series']);
+
+export type TaskEditScope = z.infer<typeof taskEditScopeSchema>;
+
 /**
  * Validation schema for task updates
  *
@@ -28,11 +220,273 @@ export const createTaskSchema = z.object({
  * - Enables partial updates (PATCH-like behavior)
  * - Client decides which fields to update
  * - Minimizes payload size for simple updates
+ * - `dueDate: null` removes the due date, `projectId: null` takes the task
+ *   out of its project (undefined keeps them)
+ * - Checklist items have their own mutations (`task.checklist.*`), only the
+ *   auto-complete flag is part of the task update
+ * - `version` is required: the version of the task the client edited
+ *   (a different current version means someone else changed it: CONFLICT)
+ * - `recurrence: null` stops repeating; a rule always applies to the series
+ *   (this and future occurrences), whatever the `scope`
+ * - `scope` (default `occurrence`) chooses whether the other field changes
+ *   also apply to future occurrences of a recurring task
+ * - `boardColumnId`/`position` place the task on the board (drag and drop);
+ *   `boardColumnId: null` = the board's first column
  */
 export const updateTaskSchema = z.object({
   id: z.string(),
-  titulo: z.string().min(1).max(120).optional(),
-  descricao: z.string().optional(),
+  version: z.number().int().positive(),
+  titulo: taskTituloSchema.optional(),
+  descricao: taskDescricaoSchema.optional(),
+  dueDate: dateOnlySchema.nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  projectId: z.string().nullable().optional(),
+  tagIds: taskTagIdsSchema.optional(), // replaces the whole list
+  checklistAutoComplete: z.boolean().optional(),
+  recurrence: taskRecurrenceSchema.nullable().optional(),
+  scope: taskEditScopeSchema.optional(),
+  boardColumnId: z.string().nullable().optional(),
+  position: z.number().finite().optional(),
+});
+
+/**
+ * Validation schemas for bulk operations (`bulkDelete` / `bulkUpdate`)
+ *
+ * Decisions:
+ * - Up to 500 ids per call (select-all only covers loaded tasks);
+ *   duplicates are ignored by the router
+ * - `patch` is the partial update without `id`/`version`: the same changes
+ *   are applied to every task, so there's no single version to check
+ * - An empty patch is rejected (nothing to apply)
+ */
+export const maxBulkTasks = 500;
+
+const bulkTaskIdsSchema = z
+  .array(z.string())
+  .min(1, 'validation.noTasksSelected')
+  .max(maxBulkTasks, 'validation.tooManyTasks');
+
+export const bulkDeleteTasksSchema = z.object({
+  ids: bulkTaskIdsSchema,
+});
+
+export const bulkUpdateTasksSchema = z.object({
+  ids: bulkTaskIdsSchema,
+  patch: updateTaskSchema
+    .omit({
+      id: true,
+      version: true,
+      recurrence: true,
+      scope: true,
+      boardColumnId: true,
+      position: true,
+    })
+    .refine(
+      (patch) => Object.keys(patch).length > 0,
+      'validation.nothingToChange'
+    ),
+});
+
+/**
+ * File formats of task export/import
+ */
+export const taskImportFormatSchema = z.enum(['csv', 'json']);
+
+export type TaskImportFormat = z.infer<typeof taskImportFormatSchema>;
+
+/**
+ * Validation schema for `task.import.preview` / `task.import.commit`
+ *
+ * Decisions:
+ * - The client sends the file content as text (read in the browser), the
+ *   server parses it: one parser for preview and commit
+ * - Each record is then validated with `createTaskSchema` (see the router);
+ *   this schema only bounds the payload
+ */
+export const maxImportRows = 1000;
+
+export const importTasksSchema = z.object({
+  format: taskImportFormatSchema,
+  content: z.string().max(1_000_000, 'validation.importFileTooLarge'),
+});
+
+/**
+ * Checklist limits (per task)
+ */
+export const maxChecklistItems = 50;
+
+const checklistItemTituloSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.checklistItemRequired')
+  .max(120, 'validation.checklistItemTooLong');
+
+/**
+ * Validation schemas for `task.checklist.*`
+ *
+ * Decisions:
+ * - Every input names the task (`taskId`): items are only addressed through
+ *   their task, which is what ownership is checked against
+ * - `reorder` receives the full list of item ids in the new order, so a
+ *   drag-and-drop result is applied in one mutation
+ */
+export const addChecklistItemSchema = z.object({
+  taskId: z.string(),
+  titulo: checklistItemTituloSchema,
+});
+
+export const updateChecklistItemSchema = z.object({
+  taskId: z.string(),
+  itemId: z.string(),
+  titulo: checklistItemTituloSchema.optional(),
+  done: z.boolean().optional(),
+});
+
+export const deleteChecklistItemSchema = z.object({
+  taskId: z.string(),
+  itemId: z.string(),
+});
+
+export const reorderChecklistSchema = z.object({
+  taskId: z.string(),
+  itemIds: z.array(z.string()).max(maxChecklistItems),
+});
+
+/**
+ * Task lifecycle statuses
+ *
+ * Decision: Portuguese snake_case values (like the other task fields)
+ * - Stored as-is in the database, labels are a UI concern
+ */
+export const taskStatusSchema = z.enum([
+  'pendente',
+  'em_andamento',
+  'concluida',
+  'arquivada',
+]);
+
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+
+/**
+ * Allowed status transitions (current -> next)
+ *
+ * Workflow decisions:
+ * - Any active status can be completed or archived directly
+ * - Completed tasks can be reopened (back to pendente/em_andamento)
+ * - Archived tasks must be restored to `pendente` before anything else
+ *
+ * Lives next to the schemas (no server-only imports) so the UI can offer
+ * only valid options, while `setStatus` enforces the same rules
+ */
+export const taskStatusTransitions: Record<TaskStatus, TaskStatus[]> = {
+  pendente: ['em_andamento', 'concluida', 'arquivada'],
+  em_andamento: ['pendente', 'concluida', 'arquivada'],
+  concluida: ['pendente', 'em_andamento', 'arquivada'],
+  arquivada: ['pendente'],
+};
+
+export function canTransitionStatus(from: TaskStatus, to: TaskStatus) {
+  return taskStatusTransitions[from].includes(to);
+}
+
+/**
+ * Validation schema for status changes (dedicated `setStatus` mutation)
+ *
+ * Decision: status is not part of `updateTaskSchema`
+ * - Transitions have rules and side effects (`completedAt`)
+ * - Keeps the generic update free of workflow logic
+ */
+export const setTaskStatusSchema = z.object({
+  id: z.string(),
+  status: taskStatusSchema,
+});
+
+/**
+ * Validation schema for reverting a task to one of its history revisions
+ * (`historyId` = the history entry whose resulting state is restored)
+ */
+export const revertTaskSchema = z.object({
+  id: z.string(),
+  historyId: z.string(),
+});
+
+/**
+ * Keyset cursor for `infiniteList`
+ *
+ * Decision: (value, id) pair instead of a bare timestamp
+ * - Tasks sharing the same timestamp are never skipped between pages
+ * - Mirrors `TaskCursor` from the repository layer
+ */
+export const taskCursorSchema = z.object({
+  value: z.union([z.number(), z.string()]),
+  id: z.string(),
+});
+
+export const taskSortFieldSchema = z.enum([
+  'dataCriacao',
+  'titulo',
+  'dueDate',
+  'priority',
+]);
+export const sortDirectionSchema = z.enum(['asc', 'desc']);
+
+/**
+ * Search, filters and sorting for task lists
+ *
+ * Decisions:
+ * - All fields optional (no Zod defaults): the parsed URL search params are
+ *   used as-is as query input, so SSR and client share the same cache key
+ * - `query` is matched accent/case-insensitively against titulo/descricao
+ * - Date range uses calendar days (AAAA-MM-DD, inclusive), as in `<input type="date">`
+ * - Empty `status` array means "no status filter"
+ * - `projectId` scopes the list to one project (set by the project page,
+ *   not by the URL filters)
+ * - `tags` (ids) match all of them by default, any of them with `tagMode: 'or'`
+ */
+export const taskListFiltersSchema = z.object({
+  query: z.string().trim().max(120).optional(),
+  status: z.array(taskStatusSchema).optional(),
+  createdFrom: dateOnlySchema.optional(),
+  createdTo: dateOnlySchema.optional(),
+  sortBy: taskSortFieldSchema.optional(),
+  sortDirection: sortDirectionSchema.optional(),
+  tags: z.array(z.string()).optional(),
+  tagMode: z.enum(['and', 'or']).optional(),
+  projectId: z.string().optional(),
+});
+
+export const infiniteTaskListSchema = taskListFiltersSchema.extend({
+  cursor: taskCursorSchema.optional(), // last task from previous page
+});
+
+/**
+ * Longest range `task.calendar` returns: a month grid (6 weeks)
+ */
+export const maxCalendarDays = 42;
+
+/**
+ * Days shown by the calendar (`from`/`to` inclusive, AAAA-MM-DD)
+ *
+ * Decision: bounded range instead of a month number, so the same query
+ * serves the month grid (which spills into the weeks around the month)
+ * and the week view
+ */
+export const calendarTasksSchema = z
+  .object({
+    from: dateOnlySchema,
+    to: dateOnlySchema,
+  })
+  .refine(({ from, to }) => from <= to, 'validation.invalidRange')
+  .refine(({ from, to }) => addDays(from, maxCalendarDays - 1) >= to, {
+    message: 'validation.rangeTooLong',
+    params: { maxDays: maxCalendarDays },
+  });
+
+/**
+ * Page of the calendar's "sem data" sidebar
+ */
+export const undatedTasksSchema = z.object({
+  cursor: taskCursorSchema.optional(),
 });
 
 /**
@@ -45,3 +499,8 @@ export const updateTaskSchema = z.object({
  */
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type SetTaskStatusInput = z.infer<typeof setTaskStatusSchema>;
+export type RevertTaskInput = z.infer<typeof revertTaskSchema>;
+export type ImportTasksInput = z.infer<typeof importTasksSchema>;
+export type TaskListFilters = z.infer<typeof taskListFiltersSchema>;
+export type CalendarTasksInput = z.infer<typeof calendarTasksSchema>;
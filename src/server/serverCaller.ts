@@ -1,3 +1,4 @@
+import { redirect } from 'next/navigation';
 import { createContext } from './context';
 import { appRouter } from './root';
 
@@ -5,3 +6,21 @@ export async function getServerCaller() {
   const context = await createContext();
   return appRouter.createCaller(context);
 }
+
+/**
+ * Caller for pages that require a session
+ *
+ * Decision: redirect before calling any procedure
+ * - Anonymous visitors go to `/login?next=<returnTo>` instead of hitting
+ *   UNAUTHORIZED errors during SSR
+ * - Returns the session user too (e.g. for the page header)
+ */
+export async function getAuthenticatedServerCaller(returnTo: string) {
+  const context = await createContext();
+
+  if (!context.user) {
+    redirect(`/login?next=${encodeURIComponent(returnTo)}`);
+  }
+
+  return { caller: appRouter.createCaller(context), user: context.user };
+}
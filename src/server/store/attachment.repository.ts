@@ -0,0 +1,34 @@
+/**
+ * Metadata of a file attached to a task (the bytes live on disk)
+ *
+ * Design decisions:
+ * - `nome` is the original file name, only used for display and downloads;
+ *   the file is stored under `id`, so user input never becomes a path
+ * - `checksum` is the SHA-256 of the content (hex): integrity check and
+ *   download ETag
+ * - `mimeType` is one of the accepted types (see `attachmentMimeTypes`)
+ */
+export type Attachment = {
+  id: string;
+  taskId: string;
+  uploaderId: string;
+  nome: string;
+  size: number;
+  mimeType: string;
+  checksum: string;
+  dataCriacao: number;
+};
+
+/**
+ * Persistence contract for attachment metadata (same conventions as
+ * TaskRepository)
+ *
+ * - `listByTask` returns the oldest upload first
+ * - Metadata goes away with its task (files: see `withAttachmentCleanup`)
+ */
+export interface AttachmentRepository {
+  get(id: string): Attachment | null;
+  listByTask(taskId: string): Attachment[];
+  insert(attachment: Attachment): Attachment;
+  delete(id: string): Attachment | null;
+}
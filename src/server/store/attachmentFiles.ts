@@ -0,0 +1,83 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import type { Attachment, AttachmentRepository } from './attachment.repository';
+import { withDeferredEffects } from './deferredEffects';
+import type { TaskRepository } from './task.repository';
+
+/**
+ * Directory of the attachment files, via `ATTACHMENTS_DIR`
+ * (default `data/attachments`, next to the SQLite file)
+ */
+export function getAttachmentsDir() {
+  return (
+    process.env.ATTACHMENTS_DIR ||
+    path.join(process.cwd(), 'data', 'attachments')
+  );
+}
+
+/**
+ * Decision: one flat directory, each file named after its attachment id
+ * (a server-generated UUID), so no user input ever becomes part of a path
+ */
+function toFilePath(id: string) {
+  return path.join(getAttachmentsDir(), id);
+}
+
+export async function writeAttachmentFile(id: string, content: Uint8Array) {
+  await fs.promises.mkdir(getAttachmentsDir(), { recursive: true });
+  await fs.promises.writeFile(toFilePath(id), content, { flag: 'wx' });
+}
+
+/**
+ * Content of an attachment as a web stream; null when the file is missing
+ * (removed by hand, or a lost `ATTACHMENTS_DIR`)
+ */
+export function readAttachmentFile(id: string) {
+  const filePath = toFilePath(id);
+  if (!fs.existsSync(filePath)) return null;
+
+  return Readable.toWeb(
+    fs.createReadStream(filePath)
+  ) as ReadableStream<Uint8Array>;
+}
+
+export function removeAttachmentFile(id: string) {
+  fs.rmSync(toFilePath(id), { force: true });
+}
+
+/**
+ * Decorates a task repository so purging a task also removes its attachments
+ *
+ * Decisions:
+ * - Metadata is deleted through the repository (SQLite's ON DELETE CASCADE
+ *   already did it, the memory backend needs it)
+ * - Files can't be rolled back: inside `transaction` the removal waits for
+ *   the commit, a rolled-back purge keeps them (see withDeferredEffects)
+ * - Moving a task to the trash is an update, its files stay until the purge
+ */
+export function withAttachmentCleanup(
+  repository: TaskRepository,
+  attachments: AttachmentRepository
+): TaskRepository {
+  const { defer, transaction } = withDeferredEffects(
+    repository,
+    (attachment: Attachment) => {
+      attachments.delete(attachment.id);
+      removeAttachmentFile(attachment.id);
+    }
+  );
+
+  return {
+    ...repository,
+
+    delete(id) {
+      const taskAttachments = attachments.listByTask(id);
+      const deleted = repository.delete(id);
+      if (deleted) taskAttachments.forEach(defer);
+      return deleted;
+    },
+
+    transaction,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Column of a user's task board ("A fazer", "Fazendo", "Feito"...)
+ *
+ * Design decisions:
+ * - Owned by one user, who names, adds, reorders and removes them
+ * - `position` is the column's place on the board (0-based, left to right)
+ * - Tasks reference their column (`Task.boardColumnId`); a column is
+ *   independent from the task status
+ */
+export type BoardColumn = {
+  id: string;
+  nome: string;
+  ownerId: string;
+  position: number;
+  dataCriacao: number;
+};
+
+/**
+ * Persistence contract for board columns (same conventions as TaskRepository)
+ *
+ * `listByOwner` returns columns in board order (`position`)
+ * Deleting a column doesn't touch tasks: the router moves them first
+ */
+export interface BoardColumnRepository {
+  get(id: string): BoardColumn | null;
+  listByOwner(ownerId: string): BoardColumn[];
+  insert(column: BoardColumn): BoardColumn;
+  update(
+    id: string,
+    patch: Partial<Omit<BoardColumn, 'id' | 'ownerId'>>
+  ): BoardColumn | null;
+  delete(id: string): BoardColumn | null;
+}
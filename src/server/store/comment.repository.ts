@@ -0,0 +1,48 @@
+/**
+ * Comment in the discussion thread of a task
+ *
+ * Design decisions:
+ * - `texto` is Markdown, rendered like task descriptions
+ * - `authorId` is the user who wrote it: only the author edits or deletes it
+ * - `editedAt` is set on every edit (null = never edited), so the thread
+ *   can tell edited comments apart
+ */
+export type Comment = {
+  id: string;
+  taskId: string;
+  authorId: string;
+  texto: string;
+  dataCriacao: number;
+  editedAt: number | null;
+};
+
+/**
+ * Keyset cursor: creation time + id of the last comment of the previous page
+ * (`id` breaks ties between comments written in the same millisecond)
+ */
+export type CommentCursor = {
+  dataCriacao: number;
+  id: string;
+};
+
+/**
+ * Persistence contract for comments (same conventions as TaskRepository)
+ *
+ * - `listByTask` returns a thread oldest first, starting after `cursor`
+ * - `countByTasks` only has entries for tasks with at least one comment
+ * - Comments go away with their task when it is permanently deleted
+ */
+export interface CommentRepository {
+  get(id: string): Comment | null;
+  listByTask(
+    taskId: string,
+    options?: { cursor?: CommentCursor; limit?: number }
+  ): Comment[];
+  countByTasks(taskIds: string[]): Map<string, number>;
+  insert(comment: Comment): Comment;
+  update(
+    id: string,
+    patch: Partial<Pick<Comment, 'texto' | 'editedAt'>>
+  ): Comment | null;
+  delete(id: string): Comment | null;
+}
@@ -0,0 +1,49 @@
+import type { TaskRepository } from './task.repository';
+
+/**
+ * Side effects of repository writes (events, history, files) that run only
+ * once the write is committed, for the decorators of a TaskRepository
+ *
+ * Decisions:
+ * - Outside `transaction`, `defer` runs the effect right away
+ * - Inside, effects are buffered and run after the outermost commit;
+ *   nested transactions share the buffer
+ * - A rolled-back transaction drops only its own effects (a nested one
+ *   caught by its caller doesn't cancel the outer ones)
+ *
+ * Usage: `defer` from the decorated writes, and `transaction` as the
+ * decorator's own
+ */
+export function withDeferredEffects<Effect>(
+  repository: TaskRepository,
+  flush: (effect: Effect) => void
+) {
+  let pending: Effect[] | null = null;
+
+  return {
+    defer(effect: Effect) {
+      if (pending) pending.push(effect);
+      else flush(effect);
+    },
+
+    transaction<T>(fn: () => T): T {
+      const isOutermost = pending === null;
+      const buffer = pending ?? [];
+      const mark = buffer.length;
+      pending = buffer;
+
+      try {
+        const result = repository.transaction(fn);
+        if (isOutermost) {
+          pending = null;
+          buffer.forEach(flush);
+        }
+        return result;
+      } catch (error) {
+        buffer.length = mark;
+        if (isOutermost) pending = null;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type {
+  Attachment,
+  AttachmentRepository,
+} from '../attachment.repository';
+
+/**
+ * In-memory attachment metadata (Map keyed by id, insertion order)
+ */
+export function createMemoryAttachmentRepository(
+  attachments = new Map<string, Attachment>()
+): AttachmentRepository {
+  return {
+    get(id) {
+      return attachments.get(id) ?? null;
+    },
+
+    listByTask(taskId) {
+      return Array.from(attachments.values()).filter(
+        (attachment) => attachment.taskId === taskId
+      );
+    },
+
+    insert(attachment) {
+      if (attachments.has(attachment.id)) {
+        throw new Error(`Attachment ${attachment.id} already exists`);
+      }
+      attachments.set(attachment.id, attachment);
+      return attachment;
+    },
+
+    delete(id) {
+      const existing = attachments.get(id);
+      if (!existing) return null;
+
+      attachments.delete(id);
+      return existing;
+    },
+  };
+}
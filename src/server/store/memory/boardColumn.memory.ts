@@ -0,0 +1,48 @@
+import type {
+  BoardColumn,
+  BoardColumnRepository,
+} from '../boardColumn.repository';
+
+/**
+ * In-memory board column repository (Map keyed by id)
+ */
+export function createMemoryBoardColumnRepository(
+  columns = new Map<string, BoardColumn>()
+): BoardColumnRepository {
+  return {
+    get(id) {
+      return columns.get(id) ?? null;
+    },
+
+    listByOwner(ownerId) {
+      return Array.from(columns.values())
+        .filter((column) => column.ownerId === ownerId)
+        .sort((a, b) => a.position - b.position);
+    },
+
+    insert(column) {
+      if (columns.has(column.id)) {
+        throw new Error(`Board column ${column.id} already exists`);
+      }
+      columns.set(column.id, column);
+      return column;
+    },
+
+    update(id, patch) {
+      const existing = columns.get(id);
+      if (!existing) return null;
+
+      const updated: BoardColumn = { ...existing, ...patch, id };
+      columns.set(id, updated);
+      return updated;
+    },
+
+    delete(id) {
+      const existing = columns.get(id);
+      if (!existing) return null;
+
+      columns.delete(id);
+      return existing;
+    },
+  };
+}
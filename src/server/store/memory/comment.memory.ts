@@ -0,0 +1,90 @@
+import type { Comment, CommentRepository } from '../comment.repository';
+import type { TaskRepository } from '../task.repository';
+
+/**
+ * In-memory comment repository (Map keyed by id, insertion order)
+ */
+export function createMemoryCommentRepository(
+  comments = new Map<string, Comment>()
+): CommentRepository {
+  return {
+    get(id) {
+      return comments.get(id) ?? null;
+    },
+
+    listByTask(taskId, { cursor, limit } = {}) {
+      const thread = Array.from(comments.values())
+        .filter((comment) => comment.taskId === taskId)
+        .sort(
+          (a, b) => a.dataCriacao - b.dataCriacao || a.id.localeCompare(b.id)
+        )
+        .filter(
+          (comment) =>
+            !cursor ||
+            comment.dataCriacao > cursor.dataCriacao ||
+            (comment.dataCriacao === cursor.dataCriacao &&
+              comment.id > cursor.id)
+        );
+      return limit === undefined ? thread : thread.slice(0, limit);
+    },
+
+    countByTasks(taskIds) {
+      const ids = new Set(taskIds);
+      const counts = new Map<string, number>();
+      comments.forEach((comment) => {
+        if (ids.has(comment.taskId)) {
+          counts.set(comment.taskId, (counts.get(comment.taskId) ?? 0) + 1);
+        }
+      });
+      return counts;
+    },
+
+    insert(comment) {
+      if (comments.has(comment.id)) {
+        throw new Error(`Comment ${comment.id} already exists`);
+      }
+      comments.set(comment.id, comment);
+      return comment;
+    },
+
+    update(id, patch) {
+      const existing = comments.get(id);
+      if (!existing) return null;
+
+      const updated: Comment = { ...existing, ...patch, id };
+      comments.set(id, updated);
+      return updated;
+    },
+
+    delete(id) {
+      const existing = comments.get(id);
+      if (!existing) return null;
+
+      comments.delete(id);
+      return existing;
+    },
+  };
+}
+
+/**
+ * Deletes the comments of a task when the task itself is permanently
+ * deleted (the SQLite backend does it with ON DELETE CASCADE)
+ */
+export function withMemoryTaskComments(
+  repository: TaskRepository,
+  comments: CommentRepository
+): TaskRepository {
+  return {
+    ...repository,
+
+    delete(id) {
+      const deleted = repository.delete(id);
+      if (deleted) {
+        comments
+          .listByTask(id)
+          .forEach((comment) => comments.delete(comment.id));
+      }
+      return deleted;
+    },
+  };
+}
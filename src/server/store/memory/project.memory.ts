@@ -0,0 +1,48 @@
+import { normalizeText } from '../normalize';
+import type { Project, ProjectRepository } from '../project.repository';
+
+/**
+ * In-memory project repository (Map keyed by id)
+ */
+export function createMemoryProjectRepository(
+  projects = new Map<string, Project>()
+): ProjectRepository {
+  return {
+    get(id) {
+      return projects.get(id) ?? null;
+    },
+
+    listByOwner(ownerId) {
+      return Array.from(projects.values())
+        .filter((project) => project.ownerId === ownerId)
+        .sort((a, b) =>
+          normalizeText(a.nome).localeCompare(normalizeText(b.nome))
+        );
+    },
+
+    insert(project) {
+      if (projects.has(project.id)) {
+        throw new Error(`Project ${project.id} already exists`);
+      }
+      projects.set(project.id, project);
+      return project;
+    },
+
+    update(id, patch) {
+      const existing = projects.get(id);
+      if (!existing) return null;
+
+      const updated: Project = { ...existing, ...patch, id };
+      projects.set(id, updated);
+      return updated;
+    },
+
+    delete(id) {
+      const existing = projects.get(id);
+      if (!existing) return null;
+
+      projects.delete(id);
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { normalizeText } from '../normalize';
+import type { Tag, TagRepository } from '../tag.repository';
+
+/**
+ * In-memory tag repository (Map keyed by id)
+ */
+export function createMemoryTagRepository(
+  tags = new Map<string, Tag>()
+): TagRepository {
+  return {
+    get(id) {
+      return tags.get(id) ?? null;
+    },
+
+    listByOwner(ownerId) {
+      return Array.from(tags.values())
+        .filter((tag) => tag.ownerId === ownerId)
+        .sort((a, b) =>
+          normalizeText(a.nome).localeCompare(normalizeText(b.nome))
+        );
+    },
+
+    insert(tag) {
+      if (tags.has(tag.id)) {
+        throw new Error(`Tag ${tag.id} already exists`);
+      }
+      tags.set(tag.id, tag);
+      return tag;
+    },
+
+    update(id, patch) {
+      const existing = tags.get(id);
+      if (!existing) return null;
+
+      const updated: Tag = { ...existing, ...patch, id };
+      tags.set(id, updated);
+      return updated;
+    },
+
+    delete(id) {
+      const existing = tags.get(id);
+      if (!existing) return null;
+
+      tags.delete(id);
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,186 @@
+import { normalizeText, toSearchTerms } from '../normalize';
+import {
+  defaultTaskSort,
+  type TaskCursor,
+  type TaskFilter,
+  type TaskListOptions,
+  type TaskRepository,
+  type TaskSort,
+  toTaskCursor,
+} from '../task.repository';
+import type { Task } from '../task.store';
+
+/**
+ * Orders (sort value, id) keys, using `id` as tie-breaker in the same
+ * direction as the sort field (matches the SQLite ORDER BY)
+ */
+function compareKeys(a: TaskCursor, b: TaskCursor, sort: TaskSort) {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  if (a.value !== b.value) return a.value < b.value ? -sign : sign;
+  if (a.id !== b.id) return a.id < b.id ? -sign : sign;
+  return 0;
+}
+
+function matchesFilter(task: Task, filter: TaskFilter) {
+  if (filter.ownerId !== undefined && task.ownerId !== filter.ownerId) {
+    return false;
+  }
+  if (filter.projectId !== undefined && task.projectId !== filter.projectId) {
+    return false;
+  }
+  if (filter.tagIds?.length) {
+    const hasTag = (tagId: string) => task.tagIds.includes(tagId);
+    const matches =
+      filter.tagMode === 'or'
+        ? filter.tagIds.some(hasTag)
+        : filter.tagIds.every(hasTag);
+    if (!matches) return false;
+  }
+
+  const terms = toSearchTerms(filter.query);
+  if (terms.length > 0) {
+    const text = normalizeText(`${task.titulo}\n${task.descricao ?? ''}`);
+    if (!terms.every((term) => text.includes(term))) return false;
+  }
+
+  if (filter.statuses?.length && !filter.statuses.includes(task.status)) {
+    return false;
+  }
+  if (
+    filter.createdFrom !== undefined &&
+    task.dataCriacao < filter.createdFrom
+  ) {
+    return false;
+  }
+  if (filter.createdTo !== undefined && task.dataCriacao > filter.createdTo) {
+    return false;
+  }
+
+  if (
+    filter.deleted !== undefined &&
+    (task.deletedAt !== null) !== filter.deleted
+  ) {
+    return false;
+  }
+  if (
+    filter.hasDueDate !== undefined &&
+    (task.dueDate !== null) !== filter.hasDueDate
+  ) {
+    return false;
+  }
+  if (
+    filter.dueFrom !== undefined &&
+    (task.dueDate === null || task.dueDate < filter.dueFrom)
+  ) {
+    return false;
+  }
+  if (
+    filter.dueTo !== undefined &&
+    (task.dueDate === null || task.dueDate > filter.dueTo)
+  ) {
+    return false;
+  }
+  if (
+    filter.boardColumnIds !== undefined &&
+    !filter.boardColumnIds.includes(task.boardColumnId)
+  ) {
+    return false;
+  }
+  if (
+    filter.deletedBefore !== undefined &&
+    (task.deletedAt === null || task.deletedAt > filter.deletedBefore)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * In-memory repository using Map
+ *
+ * Technical decision: Map chosen over array because:
+ * - O(1) lookup by ID (vs O(n) in array)
+ * - Simplifies update/delete operations without array rebuilding
+ * - API similar to key-value databases
+ *
+ * Trade-off: data is lost on server restart (no persistence)
+ * Transactions copy the Map and restore it if the callback throws, together
+ * with `related`: the Maps of the other stores written inside task
+ * transactions (projects, tags, board columns), so they roll back too
+ */
+export function createMemoryTaskRepository(
+  tasks = new Map<string, Task>(),
+  related: Map<string, unknown>[] = []
+): TaskRepository {
+  return {
+    get(id) {
+      return tasks.get(id) ?? null;
+    },
+
+    list({
+      filter = {},
+      sort = defaultTaskSort,
+      cursor,
+      limit,
+    }: TaskListOptions = {}) {
+      const sorted = Array.from(tasks.values())
+        .filter((task) => matchesFilter(task, filter))
+        .filter(
+          (task) =>
+            !cursor || compareKeys(toTaskCursor(task, sort), cursor, sort) > 0
+        )
+        .sort((a, b) =>
+          compareKeys(toTaskCursor(a, sort), toTaskCursor(b, sort), sort)
+        );
+
+      return limit === undefined ? sorted : sorted.slice(0, limit);
+    },
+
+    insert(task) {
+      if (tasks.has(task.id)) {
+        throw new Error(`Task ${task.id} already exists`);
+      }
+      tasks.set(task.id, task);
+      return task;
+    },
+
+    update(id, patch) {
+      const existing = tasks.get(id);
+      if (!existing) return null;
+
+      const updated: Task = {
+        ...existing,
+        ...patch,
+        id,
+        version: existing.version + 1,
+      };
+      tasks.set(id, updated);
+      return updated;
+    },
+
+    delete(id) {
+      const existing = tasks.get(id);
+      if (!existing) return null;
+
+      tasks.delete(id);
+      return existing;
+    },
+
+    transaction(fn) {
+      const snapshots = [tasks, ...related].map(
+        (map) => [map, new Map(map)] as const
+      );
+      try {
+        return fn();
+      } catch (error) {
+        snapshots.forEach(([map, snapshot]) => {
+          map.clear();
+          snapshot.forEach((value, id) => map.set(id, value));
+        });
+        throw error;
+      }
+    },
+  };
+}
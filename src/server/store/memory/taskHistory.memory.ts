@@ -0,0 +1,33 @@
+import type {
+  TaskHistoryEntry,
+  TaskHistoryRepository,
+} from '../taskHistory.repository';
+
+/**
+ * In-memory task history (array in insertion order)
+ */
+export function createMemoryTaskHistoryRepository(
+  entries: TaskHistoryEntry[] = []
+): TaskHistoryRepository {
+  return {
+    get(id) {
+      return entries.find((entry) => entry.id === id) ?? null;
+    },
+
+    listByTask(taskId) {
+      return entries.filter((entry) => entry.taskId === taskId).reverse();
+    },
+
+    insert(entry) {
+      entries.push(entry);
+      return entry;
+    },
+
+    deleteByTask(taskId) {
+      const remaining = entries.filter((entry) => entry.taskId !== taskId);
+      const count = entries.length - remaining.length;
+      entries.splice(0, entries.length, ...remaining);
+      return count;
+    },
+  };
+}
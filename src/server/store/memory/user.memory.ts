@@ -0,0 +1,31 @@
+import type { User, UserRepository } from '../user.repository';
+
+/**
+ * In-memory user repository (Map keyed by id)
+ * Email lookup is a linear scan: fine for the handful of demo accounts
+ */
+export function createMemoryUserRepository(
+  users = new Map<string, User>()
+): UserRepository {
+  return {
+    get(id) {
+      return users.get(id) ?? null;
+    },
+
+    getByEmail(email) {
+      const normalized = email.toLowerCase();
+      return (
+        Array.from(users.values()).find((user) => user.email === normalized) ??
+        null
+      );
+    },
+
+    insert(user) {
+      if (users.has(user.id) || this.getByEmail(user.email)) {
+        throw new Error(`User ${user.email} already exists`);
+      }
+      users.set(user.id, user);
+      return user;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Normalizes text for search and alphabetical sorting
+ *
+ * Decision: strip diacritics + lowercase (NFD decomposition)
+ * - Content is Portuguese: "Configuração" must match "configuracao"
+ * - Same function runs in JS (memory backend) and as a SQLite user function
+ *   (`normalize_text`), so both backends match and order identically
+ */
+export function normalizeText(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Splits a free-text query into normalized terms (every term must match)
+ */
+export function toSearchTerms(query: string | undefined) {
+  return normalizeText(query ?? '')
+    .split(/\s+/)
+    .filter(Boolean);
+}
@@ -0,0 +1,27 @@
+/**
+ * Project data model (groups tasks)
+ *
+ * Design decisions:
+ * - Owned by one user, like tasks (`ownerId`)
+ * - `archivedAt` hides the project from pickers without touching its tasks
+ */
+export type Project = {
+  id: string;
+  nome: string;
+  ownerId: string;
+  dataCriacao: number;
+  archivedAt: number | null;
+};
+
+/**
+ * Persistence contract for projects (same conventions as TaskRepository)
+ *
+ * `listByOwner` returns projects sorted by name (accent/case-insensitive)
+ */
+export interface ProjectRepository {
+  get(id: string): Project | null;
+  listByOwner(ownerId: string): Project[];
+  insert(project: Project): Project;
+  update(id: string, patch: Partial<Omit<Project, 'id'>>): Project | null;
+  delete(id: string): Project | null;
+}
@@ -0,0 +1,255 @@
+import { toDateOnly } from '../schemas/task.schema';
+import type { Project } from './project.repository';
+import type { Store } from './store';
+import type { Tag } from './tag.repository';
+import type { ChecklistItem, Task } from './task.store';
+import type { User } from './user.repository';
+
+/**
+ * Demo account that owns the seed tasks (login: demo@exemplo.com / demo1234)
+ *
+ * Decision: password hash is precomputed (scrypt) so seeding stays synchronous
+ * The SQLite migration that introduced users also inserts this account and
+ * assigns it every task created before authentication existed
+ */
+export const demoUser: User = {
+  id: '00000000-0000-4000-8000-000000000001',
+  nome: 'Usuário Demo',
+  email: 'demo@exemplo.com',
+  passwordHash:
+    'scrypt:9988634de1dc270c964e58e5a6d3e50f:454362e4cf5a00554f9624dc88d609def080f19bd4e256822791b090ca90f799ab347b0354da58a1ebdef39ce6dda30ddc4667f5a353d2817936d0943635bb64',
+  dataCriacao: 0,
+};
+
+/**
+ * Sample project grouping the infrastructure seed tasks
+ */
+export const demoProject: Project = {
+  id: '00000000-0000-4000-8000-000000000101',
+  nome: 'Infraestrutura',
+  ownerId: demoUser.id,
+  dataCriacao: 0,
+  archivedAt: null,
+};
+
+/**
+ * Sample tags (fixed ids, like the seed tasks)
+ */
+export const demoTags: Tag[] = [
+  {
+    id: '00000000-0000-4000-8000-000000000201',
+    nome: 'frontend',
+    cor: 'blue',
+    ownerId: demoUser.id,
+    dataCriacao: 0,
+  },
+  {
+    id: '00000000-0000-4000-8000-000000000202',
+    nome: 'infra',
+    cor: 'green',
+    ownerId: demoUser.id,
+    dataCriacao: 0,
+  },
+  {
+    id: '00000000-0000-4000-8000-000000000203',
+    nome: 'bug',
+    cor: 'red',
+    ownerId: demoUser.id,
+    dataCriacao: 0,
+  },
+];
+
+const [frontendTag, infraTag] = demoTags;
+
+/**
+ * Checklist with fixed item ids derived from the task id
+ */
+function seedChecklist(
+  taskId: string,
+  items: [titulo: string, done: boolean][]
+): ChecklistItem[] {
+  return items.map(([titulo, done], index) => ({
+    id: `${taskId}-${index + 1}`,
+    titulo,
+    done,
+  }));
+}
+
+/**
+ * Seed entries only declare what differs between tasks,
+ * remaining fields get the same defaults as a newly created task
+ */
+type SeedTask = Pick<Task, 'id' | 'titulo' | 'descricao' | 'dataCriacao'> &
+  Partial<Task>;
+
+/**
+ * Seed data for development
+ * Adds sample tasks when a store is created empty to facilitate testing
+ *
+ * Note: Uses fixed IDs to ensure consistency in serverless environments (Vercel)
+ * Without fixed IDs, each serverless function cold start would generate new UUIDs,
+ * breaking edit/delete functionality as IDs wouldn't match between requests
+ *
+ * Decision: timestamps are relative to `now` (the moment the store is seeded)
+ * instead of module evaluation, so seeding is an explicit step of store creation
+ */
+export function createSeedTasks(now = Date.now()): Task[] {
+  const daysFromNow = (days: number) => toDateOnly(now + days * 86400000);
+
+  const seedTasks: SeedTask[] = [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440001',
+      titulo: 'Implementar autenticação',
+      descricao: 'Adicionar sistema de login com NextAuth.js',
+      dataCriacao: now - 3600000, // 1 hora atrás
+      status: 'em_andamento',
+      dueDate: daysFromNow(1),
+      priority: 'alta',
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440002',
+      titulo: 'Criar documentação',
+      descricao: 'Documentar endpoints da API e componentes React',
+      dataCriacao: now - 7200000, // 2 horas atrás
+      dueDate: daysFromNow(3),
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440003',
+      titulo: 'Configurar CI/CD',
+      descricao: null,
+      dataCriacao: now - 10800000, // 3 horas atrás
+      status: 'concluida',
+      completedAt: now - 1800000, // 30 minutos atrás
+      projectId: demoProject.id,
+      tagIds: [infraTag.id],
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440004',
+      titulo: 'Implementar testes unitários',
+      descricao: 'Adicionar testes com Jest para componentes críticos',
+      dataCriacao: now - 14400000, // 4 horas atrás
+      dueDate: daysFromNow(7),
+      priority: 'alta',
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440005',
+      titulo: 'Otimizar performance',
+      descricao: 'Analisar bundle size e implementar code splitting',
+      dataCriacao: now - 18000000, // 5 horas atrás
+      tagIds: [frontendTag.id],
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440006',
+      titulo: 'Configurar Docker',
+      descricao:
+        'Criar Dockerfile e docker-compose para ambiente de desenvolvimento',
+      dataCriacao: now - 21600000, // 6 horas atrás
+      projectId: demoProject.id,
+      tagIds: [infraTag.id],
+      checklist: seedChecklist('550e8400-e29b-41d4-a716-446655440006', [
+        ['Escrever Dockerfile', true],
+        ['Criar docker-compose.yml', true],
+        ['Adicionar .dockerignore', false],
+        ['Documentar comandos no README', false],
+      ]),
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440007',
+      titulo: 'Implementar cache Redis',
+      descricao: 'Adicionar Redis para cache de queries frequentes',
+      dataCriacao: now - 25200000, // 7 horas atrás
+      tagIds: [infraTag.id],
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440008',
+      titulo: 'Migrar para PostgreSQL',
+      descricao: 'Substituir storage em memória por PostgreSQL com Prisma',
+      dataCriacao: now - 28800000, // 8 horas atrás
+      priority: 'baixa',
+      checklist: seedChecklist('550e8400-e29b-41d4-a716-446655440008', [
+        ['Definir schema no Prisma', false],
+        ['Criar migrations', false],
+        ['Implementar PostgresTaskRepository', false],
+        ['Migrar dados existentes', false],
+      ]),
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440009',
+      titulo: 'Adicionar validação avançada',
+      descricao: 'Implementar validação de campos com mensagens customizadas',
+      dataCriacao: now - 32400000, // 9 horas atrás
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440010',
+      titulo: 'Implementar notificações',
+      descricao: null,
+      dataCriacao: now - 36000000, // 10 horas atrás
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440011',
+      titulo: 'Criar dashboard analytics',
+      descricao: 'Adicionar gráficos e estatísticas de uso',
+      dataCriacao: now - 39600000, // 11 horas atrás
+      priority: 'baixa',
+      tagIds: [frontendTag.id],
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440012',
+      titulo: 'Implementar busca',
+      descricao: 'Adicionar funcionalidade de busca por título e descrição',
+      dataCriacao: now - 43200000, // 12 horas atrás
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440013',
+      titulo: 'Configurar monitoramento',
+      descricao: 'Integrar Sentry para tracking de erros em produção',
+      dataCriacao: now - 46800000, // 13 horas atrás
+      projectId: demoProject.id,
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440014',
+      titulo: 'Implementar filtros',
+      descricao: null,
+      dataCriacao: now - 50400000, // 14 horas atrás
+    },
+    {
+      id: '550e8400-e29b-41d4-a716-446655440015',
+      titulo: 'Adicionar exportação de dados',
+      descricao: 'Permitir exportar lista de tarefas em CSV e JSON',
+      dataCriacao: now - 54000000, // 15 horas atrás
+    },
+  ];
+
+  return seedTasks.map((task) => ({
+    status: 'pendente',
+    completedAt: null,
+    ownerId: demoUser.id,
+    deletedAt: null,
+    dueDate: null,
+    priority: 'media',
+    projectId: null,
+    tagIds: [],
+    checklist: [],
+    checklistAutoComplete: false,
+    series: null,
+    boardColumnId: null,
+    position: task.dataCriacao,
+    version: 1,
+    ...task,
+  }));
+}
+
+/**
+ * Inserts the demo user, project, tags and seed tasks into an empty store
+ */
+export function seedStore({ tasks, users, projects, tags }: Store) {
+  if (!users.get(demoUser.id)) users.insert(demoUser);
+  if (!projects.get(demoProject.id)) projects.insert(demoProject);
+  demoTags.forEach((tag) => {
+    if (!tags.get(tag.id)) tags.insert(tag);
+  });
+
+  tasks.transaction(() => {
+    createSeedTasks().forEach((task) => tasks.insert(task));
+  });
+}
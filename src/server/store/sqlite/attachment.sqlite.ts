@@ -0,0 +1,90 @@
+import type Database from 'better-sqlite3';
+import type {
+  Attachment,
+  AttachmentRepository,
+} from '../attachment.repository';
+
+type AttachmentRow = {
+  id: string;
+  task_id: string;
+  uploader_id: string;
+  nome: string;
+  size: number;
+  mime_type: string;
+  checksum: string;
+  data_criacao: number;
+};
+
+function toAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    uploaderId: row.uploader_id,
+    nome: row.nome,
+    size: row.size,
+    mimeType: row.mime_type,
+    checksum: row.checksum,
+    dataCriacao: row.data_criacao,
+  };
+}
+
+function toRow(attachment: Attachment): AttachmentRow {
+  return {
+    id: attachment.id,
+    task_id: attachment.taskId,
+    uploader_id: attachment.uploaderId,
+    nome: attachment.nome,
+    size: attachment.size,
+    mime_type: attachment.mimeType,
+    checksum: attachment.checksum,
+    data_criacao: attachment.dataCriacao,
+  };
+}
+
+/**
+ * SQLite attachment metadata
+ * Rows go away with their task (ON DELETE CASCADE); `rowid` keeps upload order
+ */
+export function createSqliteAttachmentRepository(
+  db: Database.Database
+): AttachmentRepository {
+  const selectById = db.prepare<[string], AttachmentRow>(
+    'SELECT * FROM attachments WHERE id = ?'
+  );
+  const selectByTask = db.prepare<[string], AttachmentRow>(
+    'SELECT * FROM attachments WHERE task_id = ? ORDER BY data_criacao, rowid'
+  );
+  const insertAttachment = db.prepare<[AttachmentRow]>(
+    `INSERT INTO attachments (id, task_id, uploader_id, nome, size, mime_type, checksum, data_criacao)
+     VALUES (@id, @task_id, @uploader_id, @nome, @size, @mime_type, @checksum, @data_criacao)`
+  );
+  const deleteById = db.prepare<[string]>(
+    'DELETE FROM attachments WHERE id = ?'
+  );
+
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? toAttachment(row) : null;
+  };
+
+  return {
+    get,
+
+    listByTask(taskId) {
+      return selectByTask.all(taskId).map(toAttachment);
+    },
+
+    insert(attachment) {
+      insertAttachment.run(toRow(attachment));
+      return attachment;
+    },
+
+    delete(id) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      deleteById.run(id);
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import type Database from 'better-sqlite3';
+import type {
+  BoardColumn,
+  BoardColumnRepository,
+} from '../boardColumn.repository';
+
+type BoardColumnRow = {
+  id: string;
+  nome: string;
+  owner_id: string;
+  position: number;
+  data_criacao: number;
+};
+
+function toBoardColumn(row: BoardColumnRow): BoardColumn {
+  return {
+    id: row.id,
+    nome: row.nome,
+    ownerId: row.owner_id,
+    position: row.position,
+    dataCriacao: row.data_criacao,
+  };
+}
+
+function toRow(column: BoardColumn): BoardColumnRow {
+  return {
+    id: column.id,
+    nome: column.nome,
+    owner_id: column.ownerId,
+    position: column.position,
+    data_criacao: column.dataCriacao,
+  };
+}
+
+/**
+ * SQLite board column repository
+ * Tasks of a deleted column fall back to no column (ON DELETE SET NULL)
+ */
+export function createSqliteBoardColumnRepository(
+  db: Database.Database
+): BoardColumnRepository {
+  const selectById = db.prepare<[string], BoardColumnRow>(
+    'SELECT * FROM board_columns WHERE id = ?'
+  );
+  const selectByOwner = db.prepare<[string], BoardColumnRow>(
+    'SELECT * FROM board_columns WHERE owner_id = ? ORDER BY position, id'
+  );
+  const insertColumn = db.prepare<[BoardColumnRow]>(
+    `INSERT INTO board_columns (id, nome, owner_id, position, data_criacao)
+     VALUES (@id, @nome, @owner_id, @position, @data_criacao)`
+  );
+  const updateColumn = db.prepare<[BoardColumnRow]>(
+    `UPDATE board_columns
+     SET nome = @nome, position = @position, data_criacao = @data_criacao
+     WHERE id = @id`
+  );
+  const deleteById = db.prepare<[string]>(
+    'DELETE FROM board_columns WHERE id = ?'
+  );
+
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? toBoardColumn(row) : null;
+  };
+
+  return {
+    get,
+
+    listByOwner(ownerId) {
+      return selectByOwner.all(ownerId).map(toBoardColumn);
+    },
+
+    insert(column) {
+      insertColumn.run(toRow(column));
+      return column;
+    },
+
+    update(id, patch) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      const updated: BoardColumn = { ...existing, ...patch, id };
+      updateColumn.run(toRow(updated));
+      return updated;
+    },
+
+    delete(id) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      deleteById.run(id);
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import type Database from 'better-sqlite3';
+import type { Comment, CommentRepository } from '../comment.repository';
+
+type CommentRow = {
+  id: string;
+  task_id: string;
+  author_id: string;
+  texto: string;
+  data_criacao: number;
+  edited_at: number | null;
+};
+
+function toComment(row: CommentRow): Comment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    authorId: row.author_id,
+    texto: row.texto,
+    dataCriacao: row.data_criacao,
+    editedAt: row.edited_at,
+  };
+}
+
+function toRow(comment: Comment): CommentRow {
+  return {
+    id: comment.id,
+    task_id: comment.taskId,
+    author_id: comment.authorId,
+    texto: comment.texto,
+    data_criacao: comment.dataCriacao,
+    edited_at: comment.editedAt,
+  };
+}
+
+/**
+ * SQLite comment repository
+ *
+ * Decisions:
+ * - Threads are paginated by `(data_criacao, id)`, served by the
+ *   `(task_id, data_criacao, id)` index
+ * - Counts for a page of tasks come from one grouped query
+ * - Comments go away with their task (ON DELETE CASCADE)
+ */
+export function createSqliteCommentRepository(
+  db: Database.Database
+): CommentRepository {
+  const selectById = db.prepare<[string], CommentRow>(
+    'SELECT * FROM comments WHERE id = ?'
+  );
+  const selectByTask = db.prepare<
+    { task_id: string; data_criacao: number | null; id: string; limit: number },
+    CommentRow
+  >(
+    `SELECT * FROM comments
+     WHERE task_id = @task_id
+       AND (@data_criacao IS NULL OR data_criacao > @data_criacao
+         OR (data_criacao = @data_criacao AND id > @id))
+     ORDER BY data_criacao, id
+     LIMIT @limit`
+  );
+  const insertComment = db.prepare<[CommentRow]>(
+    `INSERT INTO comments (id, task_id, author_id, texto, data_criacao, edited_at)
+     VALUES (@id, @task_id, @author_id, @texto, @data_criacao, @edited_at)`
+  );
+  const updateComment = db.prepare<[CommentRow]>(
+    `UPDATE comments SET texto = @texto, edited_at = @edited_at WHERE id = @id`
+  );
+  const deleteById = db.prepare<[string]>('DELETE FROM comments WHERE id = ?');
+
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? toComment(row) : null;
+  };
+
+  return {
+    get,
+
+    listByTask(taskId, { cursor, limit } = {}) {
+      return selectByTask
+        .all({
+          task_id: taskId,
+          data_criacao: cursor?.dataCriacao ?? null,
+          id: cursor?.id ?? '',
+          limit: limit ?? -1,
+        })
+        .map(toComment);
+    },
+
+    countByTasks(taskIds) {
+      if (taskIds.length === 0) return new Map();
+
+      // One placeholder per id (the list size varies, so not prepared once)
+      const rows = db
+        .prepare<string[], { task_id: string; count: number }>(
+          `SELECT task_id, COUNT(*) AS count FROM comments
+           WHERE task_id IN (${taskIds.map(() => '?').join(', ')})
+           GROUP BY task_id`
+        )
+        .all(...taskIds);
+      return new Map(rows.map((row) => [row.task_id, row.count]));
+    },
+
+    insert(comment) {
+      insertComment.run(toRow(comment));
+      return comment;
+    },
+
+    update(id, patch) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      const updated: Comment = { ...existing, ...patch, id };
+      updateComment.run(toRow(updated));
+      return updated;
+    },
+
+    delete(id) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      deleteById.run(id);
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import { normalizeText } from '../normalize';
+import { migrations } from './migrations';
+
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), 'data', 'tasks.db');
+
+/**
+ * Applies pending migrations, tracked through `PRAGMA user_version`
+ *
+ * Decision: user_version instead of a migrations table
+ * - Built into SQLite, no bookkeeping schema to create first
+ * - Migrations are strictly sequential, so a single number is enough
+ */
+function migrate(db: Database.Database) {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+
+  migrations
+    .filter((migration) => migration.version > currentVersion)
+    .forEach((migration) => {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    });
+
+  return currentVersion;
+}
+
+/**
+ * Opens (creating if needed) the SQLite file and brings its schema up to date
+ *
+ * Returns `isNew` so the caller can seed a database that was just created
+ */
+export function openDatabase(filename = DEFAULT_DATABASE_PATH) {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+
+  const db = new Database(filename);
+  // WAL allows readers while a write is in progress (dev server + route handlers)
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.function('normalize_text', { deterministic: true }, (value) =>
+    typeof value === 'string' ? normalizeText(value) : value
+  );
+
+  const previousVersion = migrate(db);
+
+  return { db, isNew: previousVersion === 0 };
+}
@@ -0,0 +1,219 @@
+/**
+ * Ordered schema migrations for the SQLite backend
+ *
+ * Rules:
+ * - Never edit a migration that was already released, append a new one
+ * - `version` must be sequential: it is compared with `PRAGMA user_version`
+ * - Each migration runs inside its own transaction
+ */
+export type Migration = {
+  version: number;
+  name: string;
+  sql: string;
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_tasks',
+    sql: `
+      CREATE TABLE tasks (
+        id TEXT PRIMARY KEY,
+        titulo TEXT NOT NULL,
+        descricao TEXT,
+        data_criacao INTEGER NOT NULL
+      );
+      CREATE INDEX tasks_data_criacao_idx ON tasks (data_criacao, id);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add_task_status',
+    sql: `
+      ALTER TABLE tasks ADD COLUMN status TEXT NOT NULL DEFAULT 'pendente';
+      ALTER TABLE tasks ADD COLUMN completed_at INTEGER;
+    `,
+  },
+  {
+    version: 3,
+    name: 'create_users_and_task_owner',
+    // Tasks created before authentication are adopted by the demo account
+    // (values written out: a released migration must not follow seed.ts)
+    sql: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        nome TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        data_criacao INTEGER NOT NULL
+      );
+      INSERT INTO users (id, nome, email, password_hash, data_criacao)
+      VALUES (
+        '00000000-0000-4000-8000-000000000001',
+        'Usuário Demo',
+        'demo@exemplo.com',
+        'scrypt:9988634de1dc270c964e58e5a6d3e50f:454362e4cf5a00554f9624dc88d609def080f19bd4e256822791b090ca90f799ab347b0354da58a1ebdef39ce6dda30ddc4667f5a353d2817936d0943635bb64',
+        0
+      );
+      ALTER TABLE tasks ADD COLUMN owner_id TEXT REFERENCES users (id);
+      UPDATE tasks SET owner_id = '00000000-0000-4000-8000-000000000001' WHERE owner_id IS NULL;
+      CREATE INDEX tasks_owner_idx ON tasks (owner_id, data_criacao, id);
+    `,
+  },
+  {
+    version: 4,
+    name: 'add_task_soft_delete',
+    sql: `
+      ALTER TABLE tasks ADD COLUMN deleted_at INTEGER;
+      CREATE INDEX tasks_deleted_at_idx ON tasks (deleted_at);
+    `,
+  },
+  {
+    version: 5,
+    name: 'add_task_due_date_and_priority',
+    sql: `
+      ALTER TABLE tasks ADD COLUMN due_date TEXT;
+      ALTER TABLE tasks ADD COLUMN priority TEXT NOT NULL DEFAULT 'media';
+    `,
+  },
+  {
+    version: 6,
+    name: 'create_projects',
+    sql: `
+      CREATE TABLE projects (
+        id TEXT PRIMARY KEY,
+        nome TEXT NOT NULL,
+        owner_id TEXT NOT NULL REFERENCES users (id),
+        data_criacao INTEGER NOT NULL,
+        archived_at INTEGER
+      );
+      CREATE INDEX projects_owner_idx ON projects (owner_id);
+      ALTER TABLE tasks ADD COLUMN project_id TEXT
+        REFERENCES projects (id) ON DELETE SET NULL;
+      CREATE INDEX tasks_project_idx ON tasks (project_id);
+    `,
+  },
+  {
+    version: 7,
+    name: 'create_tags',
+    sql: `
+      CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        nome TEXT NOT NULL,
+        cor TEXT NOT NULL DEFAULT 'gray',
+        owner_id TEXT NOT NULL REFERENCES users (id),
+        data_criacao INTEGER NOT NULL
+      );
+      CREATE INDEX tags_owner_idx ON tags (owner_id);
+      CREATE TABLE task_tags (
+        task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags (id) ON DELETE CASCADE,
+        PRIMARY KEY (task_id, tag_id)
+      );
+      CREATE INDEX task_tags_tag_idx ON task_tags (tag_id);
+    `,
+  },
+  {
+    version: 8,
+    name: 'create_checklist_items',
+    sql: `
+      CREATE TABLE checklist_items (
+        task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        titulo TEXT NOT NULL,
+        done INTEGER NOT NULL DEFAULT 0,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (task_id, id)
+      );
+      ALTER TABLE tasks ADD COLUMN checklist_auto_complete INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 9,
+    name: 'create_task_history',
+    sql: `
+      CREATE TABLE task_history (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        action TEXT NOT NULL,
+        actor_id TEXT REFERENCES users (id),
+        data_criacao INTEGER NOT NULL,
+        changes TEXT NOT NULL,
+        snapshot TEXT NOT NULL
+      );
+      CREATE INDEX task_history_task_idx ON task_history (task_id, data_criacao);
+    `,
+  },
+  {
+    version: 10,
+    name: 'add_task_version',
+    sql: `
+      ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    `,
+  },
+  {
+    version: 11,
+    name: 'add_task_series',
+    sql: `
+      ALTER TABLE tasks ADD COLUMN series TEXT;
+    `,
+  },
+  {
+    version: 12,
+    name: 'create_comments',
+    sql: `
+      CREATE TABLE comments (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        author_id TEXT NOT NULL REFERENCES users (id),
+        texto TEXT NOT NULL,
+        data_criacao INTEGER NOT NULL,
+        edited_at INTEGER
+      );
+      CREATE INDEX comments_task_idx ON comments (task_id, data_criacao, id);
+    `,
+  },
+  {
+    version: 13,
+    name: 'create_attachments',
+    sql: `
+      CREATE TABLE attachments (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        uploader_id TEXT NOT NULL REFERENCES users (id),
+        nome TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        mime_type TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        data_criacao INTEGER NOT NULL
+      );
+      CREATE INDEX attachments_task_idx ON attachments (task_id);
+    `,
+  },
+  {
+    version: 14,
+    name: 'create_board_columns',
+    sql: `
+      CREATE TABLE board_columns (
+        id TEXT PRIMARY KEY,
+        nome TEXT NOT NULL,
+        owner_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        data_criacao INTEGER NOT NULL
+      );
+      CREATE INDEX board_columns_owner_idx ON board_columns (owner_id, position);
+      ALTER TABLE tasks ADD COLUMN board_column_id TEXT
+        REFERENCES board_columns (id) ON DELETE SET NULL;
+      ALTER TABLE tasks ADD COLUMN position REAL NOT NULL DEFAULT 0;
+      UPDATE tasks SET position = data_criacao;
+      CREATE INDEX tasks_board_idx ON tasks (owner_id, board_column_id, position, id);
+    `,
+  },
+  {
+    version: 15,
+    name: 'add_tasks_due_date_index',
+    sql: `
+      CREATE INDEX tasks_due_date_idx ON tasks (owner_id, due_date);
+    `,
+  },
+];
@@ -0,0 +1,92 @@
+import type Database from 'better-sqlite3';
+import type { Project, ProjectRepository } from '../project.repository';
+
+type ProjectRow = {
+  id: string;
+  nome: string;
+  owner_id: string;
+  data_criacao: number;
+  archived_at: number | null;
+};
+
+function toProject(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    nome: row.nome,
+    ownerId: row.owner_id,
+    dataCriacao: row.data_criacao,
+    archivedAt: row.archived_at,
+  };
+}
+
+function toRow(project: Project): ProjectRow {
+  return {
+    id: project.id,
+    nome: project.nome,
+    owner_id: project.ownerId,
+    data_criacao: project.dataCriacao,
+    archived_at: project.archivedAt,
+  };
+}
+
+/**
+ * SQLite project repository
+ * Deleting a project clears `project_id` of its remaining tasks
+ * (ON DELETE SET NULL), the router decides what happens to them first
+ */
+export function createSqliteProjectRepository(
+  db: Database.Database
+): ProjectRepository {
+  const selectById = db.prepare<[string], ProjectRow>(
+    'SELECT * FROM projects WHERE id = ?'
+  );
+  const selectByOwner = db.prepare<[string], ProjectRow>(
+    'SELECT * FROM projects WHERE owner_id = ? ORDER BY normalize_text(nome), id'
+  );
+  const insertProject = db.prepare<[ProjectRow]>(
+    `INSERT INTO projects (id, nome, owner_id, data_criacao, archived_at)
+     VALUES (@id, @nome, @owner_id, @data_criacao, @archived_at)`
+  );
+  const updateProject = db.prepare<[ProjectRow]>(
+    `UPDATE projects
+     SET nome = @nome, owner_id = @owner_id, data_criacao = @data_criacao,
+       archived_at = @archived_at
+     WHERE id = @id`
+  );
+  const deleteById = db.prepare<[string]>('DELETE FROM projects WHERE id = ?');
+
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? toProject(row) : null;
+  };
+
+  return {
+    get,
+
+    listByOwner(ownerId) {
+      return selectByOwner.all(ownerId).map(toProject);
+    },
+
+    insert(project) {
+      insertProject.run(toRow(project));
+      return project;
+    },
+
+    update(id, patch) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      const updated: Project = { ...existing, ...patch, id };
+      updateProject.run(toRow(updated));
+      return updated;
+    },
+
+    delete(id) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      deleteById.run(id);
+      return existing;
+    },
+  };
+}
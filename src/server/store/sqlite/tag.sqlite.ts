@@ -0,0 +1,91 @@
+import type Database from 'better-sqlite3';
+import type { TagColor } from '../../schemas/tag.schema';
+import type { Tag, TagRepository } from '../tag.repository';
+
+type TagRow = {
+  id: string;
+  nome: string;
+  cor: TagColor;
+  owner_id: string;
+  data_criacao: number;
+};
+
+function toTag(row: TagRow): Tag {
+  return {
+    id: row.id,
+    nome: row.nome,
+    cor: row.cor,
+    ownerId: row.owner_id,
+    dataCriacao: row.data_criacao,
+  };
+}
+
+function toRow(tag: Tag): TagRow {
+  return {
+    id: tag.id,
+    nome: tag.nome,
+    cor: tag.cor,
+    owner_id: tag.ownerId,
+    data_criacao: tag.dataCriacao,
+  };
+}
+
+/**
+ * SQLite tag repository
+ * Task links live in `task_tags` (ON DELETE CASCADE on both sides)
+ */
+export function createSqliteTagRepository(
+  db: Database.Database
+): TagRepository {
+  const selectById = db.prepare<[string], TagRow>(
+    'SELECT * FROM tags WHERE id = ?'
+  );
+  const selectByOwner = db.prepare<[string], TagRow>(
+    'SELECT * FROM tags WHERE owner_id = ? ORDER BY normalize_text(nome), id'
+  );
+  const insertTag = db.prepare<[TagRow]>(
+    `INSERT INTO tags (id, nome, cor, owner_id, data_criacao)
+     VALUES (@id, @nome, @cor, @owner_id, @data_criacao)`
+  );
+  const updateTag = db.prepare<[TagRow]>(
+    `UPDATE tags
+     SET nome = @nome, cor = @cor, owner_id = @owner_id, data_criacao = @data_criacao
+     WHERE id = @id`
+  );
+  const deleteById = db.prepare<[string]>('DELETE FROM tags WHERE id = ?');
+
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? toTag(row) : null;
+  };
+
+  return {
+    get,
+
+    listByOwner(ownerId) {
+      return selectByOwner.all(ownerId).map(toTag);
+    },
+
+    insert(tag) {
+      insertTag.run(toRow(tag));
+      return tag;
+    },
+
+    update(id, patch) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      const updated: Tag = { ...existing, ...patch, id };
+      updateTag.run(toRow(updated));
+      return updated;
+    },
+
+    delete(id) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      deleteById.run(id);
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,361 @@
+import type Database from 'better-sqlite3';
+import {
+  taskPriorityRank,
+  type TaskPriority,
+  type TaskStatus,
+} from '../../schemas/task.schema';
+import { toSearchTerms } from '../normalize';
+import {
+  defaultTaskSort,
+  noDueDateSortValue,
+  type TaskFilter,
+  type TaskListOptions,
+  type TaskPatch,
+  type TaskRepository,
+  type TaskSortField,
+} from '../task.repository';
+import type { ChecklistItem, Task, TaskSeries } from '../task.store';
+
+type TaskRow = {
+  id: string;
+  titulo: string;
+  descricao: string | null;
+  data_criacao: number;
+  status: TaskStatus;
+  completed_at: number | null;
+  owner_id: string;
+  deleted_at: number | null;
+  due_date: string | null;
+  priority: TaskPriority;
+  project_id: string | null;
+  checklist_auto_complete: 0 | 1;
+  /** JSON of `Task['series']` (null for a task that doesn't repeat) */
+  series: string | null;
+  board_column_id: string | null;
+  position: number;
+  version: number;
+};
+
+/**
+ * Row as read by SELECTs:
+ * - tag links are aggregated from `task_tags` (comma-separated ids, in insertion order)
+ * - checklist items are aggregated from `checklist_items` (JSON array, by position)
+ */
+type TaskRowWithRelations = TaskRow & {
+  tag_ids: string | null;
+  checklist: string;
+};
+
+type ChecklistItemJson = { id: string; titulo: string; done: 0 | 1 };
+
+const selectTaskColumns = `tasks.*, (
+  SELECT group_concat(tag_id) FROM (
+    SELECT tag_id FROM task_tags WHERE task_id = tasks.id ORDER BY rowid
+  )
+) AS tag_ids, (
+  SELECT json_group_array(json_object('id', id, 'titulo', titulo, 'done', done)) FROM (
+    SELECT id, titulo, done FROM checklist_items WHERE task_id = tasks.id ORDER BY position
+  )
+) AS checklist`;
+
+/**
+ * SQL expression backing each sort field
+ * Decision: explicit whitelist, sort fields are never interpolated from input
+ * (`normalize_text` is registered in `openDatabase`, same as `taskSortValue`)
+ */
+const sortColumns: Record<TaskSortField, string> = {
+  dataCriacao: 'data_criacao',
+  titulo: 'normalize_text(titulo)',
+  dueDate: `coalesce(due_date, '${noDueDateSortValue}')`,
+  priority: `CASE priority ${Object.entries(taskPriorityRank)
+    .map(([priority, rank]) => `WHEN '${priority}' THEN ${rank}`)
+    .join(' ')} END`,
+  deletedAt: 'coalesce(deleted_at, 0)',
+  position: 'position',
+};
+
+/**
+ * Translates a TaskFilter into WHERE conditions + positional params
+ */
+function buildFilter(filter: TaskFilter) {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.ownerId !== undefined) {
+    conditions.push('owner_id = ?');
+    params.push(filter.ownerId);
+  }
+  if (filter.projectId !== undefined) {
+    conditions.push('project_id = ?');
+    params.push(filter.projectId);
+  }
+
+  const tagIds = Array.from(new Set(filter.tagIds ?? []));
+  if (tagIds.length > 0) {
+    const placeholders = tagIds.map(() => '?').join(', ');
+    conditions.push(
+      filter.tagMode === 'or'
+        ? `EXISTS (SELECT 1 FROM task_tags WHERE task_id = tasks.id AND tag_id IN (${placeholders}))`
+        : `(SELECT count(*) FROM task_tags WHERE task_id = tasks.id AND tag_id IN (${placeholders})) = ${tagIds.length}`
+    );
+    params.push(...tagIds);
+  }
+
+  toSearchTerms(filter.query).forEach((term) => {
+    conditions.push(
+      "instr(normalize_text(titulo || char(10) || coalesce(descricao, '')), ?) > 0"
+    );
+    params.push(term);
+  });
+
+  if (filter.statuses?.length) {
+    conditions.push(`status IN (${filter.statuses.map(() => '?').join(', ')})`);
+    params.push(...filter.statuses);
+  }
+  if (filter.createdFrom !== undefined) {
+    conditions.push('data_criacao >= ?');
+    params.push(filter.createdFrom);
+  }
+  if (filter.createdTo !== undefined) {
+    conditions.push('data_criacao <= ?');
+    params.push(filter.createdTo);
+  }
+
+  if (filter.deleted !== undefined) {
+    conditions.push(
+      filter.deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'
+    );
+  }
+  if (filter.deletedBefore !== undefined) {
+    conditions.push('deleted_at <= ?');
+    params.push(filter.deletedBefore);
+  }
+
+  if (filter.hasDueDate !== undefined) {
+    conditions.push(
+      filter.hasDueDate ? 'due_date IS NOT NULL' : 'due_date IS NULL'
+    );
+  }
+  if (filter.dueFrom !== undefined) {
+    conditions.push('due_date >= ?');
+    params.push(filter.dueFrom);
+  }
+  if (filter.dueTo !== undefined) {
+    conditions.push('due_date <= ?');
+    params.push(filter.dueTo);
+  }
+
+  if (filter.boardColumnIds !== undefined) {
+    const columnIds = filter.boardColumnIds.filter((id) => id !== null);
+    const matches = columnIds.length
+      ? [`board_column_id IN (${columnIds.map(() => '?').join(', ')})`]
+      : [];
+    if (filter.boardColumnIds.includes(null)) {
+      matches.push('board_column_id IS NULL');
+    }
+    conditions.push(matches.length ? `(${matches.join(' OR ')})` : '0');
+    params.push(...columnIds);
+  }
+
+  return { conditions, params };
+}
+
+function toTask(row: TaskRowWithRelations): Task {
+  return {
+    id: row.id,
+    titulo: row.titulo,
+    descricao: row.descricao,
+    dataCriacao: row.data_criacao,
+    status: row.status,
+    completedAt: row.completed_at,
+    ownerId: row.owner_id,
+    deletedAt: row.deleted_at,
+    dueDate: row.due_date,
+    priority: row.priority,
+    projectId: row.project_id,
+    tagIds: row.tag_ids ? row.tag_ids.split(',') : [],
+    checklist: (JSON.parse(row.checklist) as ChecklistItemJson[]).map(
+      (item): ChecklistItem => ({ ...item, done: item.done === 1 })
+    ),
+    checklistAutoComplete: row.checklist_auto_complete === 1,
+    series: row.series ? (JSON.parse(row.series) as TaskSeries) : null,
+    boardColumnId: row.board_column_id,
+    position: row.position,
+    version: row.version,
+  };
+}
+
+function toRow(task: Task): TaskRow {
+  return {
+    id: task.id,
+    titulo: task.titulo,
+    descricao: task.descricao,
+    data_criacao: task.dataCriacao,
+    status: task.status,
+    completed_at: task.completedAt,
+    owner_id: task.ownerId,
+    deleted_at: task.deletedAt,
+    due_date: task.dueDate,
+    priority: task.priority,
+    project_id: task.projectId,
+    checklist_auto_complete: task.checklistAutoComplete ? 1 : 0,
+    series: task.series ? JSON.stringify(task.series) : null,
+    board_column_id: task.boardColumnId,
+    position: task.position,
+    version: task.version,
+  };
+}
+
+/**
+ * SQLite repository backed by a local file (better-sqlite3)
+ *
+ * Decisions:
+ * - Prepared statements are created once per repository and reused
+ * - Keyset pagination done in SQL: `(column, id)` compared against the cursor,
+ *   served by the `(data_criacao, id)` index for the default sort
+ * - Search runs `normalize_text` per row: fine for a local single-user file,
+ *   a server database would use an unaccent/full-text index instead
+ * - `update` reads, merges and rewrites the whole row, mirroring the Map backend
+ * - Tag links and checklist items are rewritten together with the row
+ *   (delete + insert in order)
+ */
+export function createSqliteTaskRepository(
+  db: Database.Database
+): TaskRepository {
+  const selectById = db.prepare<[string], TaskRowWithRelations>(
+    `SELECT ${selectTaskColumns} FROM tasks WHERE id = ?`
+  );
+  const insertTask = db.prepare<[TaskRow]>(
+    `INSERT INTO tasks (id, titulo, descricao, data_criacao, status, completed_at, owner_id,
+       deleted_at, due_date, priority, project_id, checklist_auto_complete, series,
+       board_column_id, position, version)
+     VALUES (@id, @titulo, @descricao, @data_criacao, @status, @completed_at, @owner_id,
+       @deleted_at, @due_date, @priority, @project_id, @checklist_auto_complete, @series,
+       @board_column_id, @position, @version)`
+  );
+  const updateTask = db.prepare<[TaskRow]>(
+    `UPDATE tasks
+     SET titulo = @titulo, descricao = @descricao, data_criacao = @data_criacao,
+       status = @status, completed_at = @completed_at, owner_id = @owner_id,
+       deleted_at = @deleted_at, due_date = @due_date, priority = @priority,
+       project_id = @project_id, checklist_auto_complete = @checklist_auto_complete,
+       series = @series, board_column_id = @board_column_id, position = @position,
+       version = @version
+     WHERE id = @id`
+  );
+  const deleteById = db.prepare<[string]>('DELETE FROM tasks WHERE id = ?');
+  const deleteTagLinks = db.prepare<[string]>(
+    'DELETE FROM task_tags WHERE task_id = ?'
+  );
+  const insertTagLink = db.prepare<[string, string]>(
+    'INSERT INTO task_tags (task_id, tag_id) VALUES (?, ?)'
+  );
+
+  const deleteChecklistItems = db.prepare<[string]>(
+    'DELETE FROM checklist_items WHERE task_id = ?'
+  );
+  const insertChecklistItem = db.prepare<
+    [string, string, string, 0 | 1, number]
+  >(
+    'INSERT INTO checklist_items (task_id, id, titulo, done, position) VALUES (?, ?, ?, ?, ?)'
+  );
+
+  const writeRelations = (task: Task) => {
+    deleteTagLinks.run(task.id);
+    new Set(task.tagIds).forEach((tagId) => insertTagLink.run(task.id, tagId));
+
+    deleteChecklistItems.run(task.id);
+    task.checklist.forEach((item, position) =>
+      insertChecklistItem.run(
+        task.id,
+        item.id,
+        item.titulo,
+        item.done ? 1 : 0,
+        position
+      )
+    );
+  };
+
+  const get = (id: string) => {
+    const row = selectById.get(id);
+    return row ? toTask(row) : null;
+  };
+
+  return {
+    get,
+
+    list({
+      filter = {},
+      sort = defaultTaskSort,
+      cursor,
+      limit,
+    }: TaskListOptions = {}) {
+      const column = sortColumns[sort.field];
+      const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+      const comparison = sort.direction === 'asc' ? '>' : '<';
+
+      const { conditions, params } = buildFilter(filter);
+
+      if (cursor) {
+        conditions.push(
+          `(${column} ${comparison} ? OR (${column} = ? AND id ${comparison} ?))`
+        );
+        params.push(cursor.value, cursor.value, cursor.id);
+      }
+
+      let sql = `SELECT ${selectTaskColumns} FROM tasks`;
+      if (conditions.length > 0) {
+        sql += ` WHERE ${conditions.join(' AND ')}`;
+      }
+
+      sql += ` ORDER BY ${column} ${direction}, id ${direction}`;
+
+      if (limit !== undefined) {
+        sql += ' LIMIT ?';
+        params.push(limit);
+      }
+
+      return db
+        .prepare<unknown[], TaskRowWithRelations>(sql)
+        .all(...params)
+        .map(toTask);
+    },
+
+    insert(task) {
+      db.transaction(() => {
+        insertTask.run(toRow(task));
+        writeRelations(task);
+      })();
+      return task;
+    },
+
+    update(id, patch: TaskPatch) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      const updated: Task = {
+        ...existing,
+        ...patch,
+        id,
+        version: existing.version + 1,
+      };
+      db.transaction(() => {
+        updateTask.run(toRow(updated));
+        writeRelations(updated);
+      })();
+      return updated;
+    },
+
+    delete(id) {
+      const existing = get(id);
+      if (!existing) return null;
+
+      deleteById.run(id);
+      return existing;
+    },
+
+    transaction(fn) {
+      return db.transaction(fn)();
+    },
+  };
+}
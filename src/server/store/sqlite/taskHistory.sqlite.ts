@@ -0,0 +1,87 @@
+import type Database from 'better-sqlite3';
+import type {
+  TaskHistoryAction,
+  TaskHistoryEntry,
+  TaskHistoryRepository,
+} from '../taskHistory.repository';
+
+type TaskHistoryRow = {
+  id: string;
+  task_id: string;
+  action: TaskHistoryAction;
+  actor_id: string | null;
+  data_criacao: number;
+  changes: string;
+  snapshot: string;
+};
+
+function toEntry(row: TaskHistoryRow): TaskHistoryEntry {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    action: row.action,
+    actorId: row.actor_id,
+    dataCriacao: row.data_criacao,
+    changes: JSON.parse(row.changes),
+    snapshot: JSON.parse(row.snapshot),
+  };
+}
+
+function toRow(entry: TaskHistoryEntry): TaskHistoryRow {
+  return {
+    id: entry.id,
+    task_id: entry.taskId,
+    action: entry.action,
+    actor_id: entry.actorId,
+    data_criacao: entry.dataCriacao,
+    changes: JSON.stringify(entry.changes),
+    snapshot: JSON.stringify(entry.snapshot),
+  };
+}
+
+/**
+ * SQLite task history
+ *
+ * Decisions:
+ * - Diff and snapshot are stored as JSON text: they are only ever read
+ *   back whole, never queried by field
+ * - `rowid` breaks ties between entries written in the same millisecond
+ * - Entries go away with their task (ON DELETE CASCADE)
+ */
+export function createSqliteTaskHistoryRepository(
+  db: Database.Database
+): TaskHistoryRepository {
+  const selectById = db.prepare<[string], TaskHistoryRow>(
+    'SELECT * FROM task_history WHERE id = ?'
+  );
+  const selectByTask = db.prepare<[string], TaskHistoryRow>(
+    'SELECT * FROM task_history WHERE task_id = ? ORDER BY data_criacao DESC, rowid DESC'
+  );
+  const insertEntry = db.prepare<[TaskHistoryRow]>(
+    `INSERT INTO task_history (id, task_id, action, actor_id, data_criacao, changes, snapshot)
+     VALUES (@id, @task_id, @action, @actor_id, @data_criacao, @changes, @snapshot)`
+  );
+  const deleteByTask = db.prepare<[string]>(
+    'DELETE FROM task_history WHERE task_id = ?'
+  );
+
+  return {
+    get(id) {
+      const row = selectById.get(id);
+      return row ? toEntry(row) : null;
+    },
+
+    listByTask(taskId) {
+      return selectByTask.all(taskId).map(toEntry);
+    },
+
+    insert(entry) {
+      insertEntry.run(toRow(entry));
+      return entry;
+    },
+
+    deleteByTask(taskId) {
+      return deleteByTask.run(taskId).changes;
+    },
+  };
+}
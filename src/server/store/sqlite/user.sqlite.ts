@@ -0,0 +1,62 @@
+import type Database from 'better-sqlite3';
+import type { User, UserRepository } from '../user.repository';
+
+type UserRow = {
+  id: string;
+  nome: string;
+  email: string;
+  password_hash: string;
+  data_criacao: number;
+};
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    nome: row.nome,
+    email: row.email,
+    passwordHash: row.password_hash,
+    dataCriacao: row.data_criacao,
+  };
+}
+
+/**
+ * SQLite user repository
+ * `email` column is UNIQUE COLLATE NOCASE, so lookups ignore case
+ */
+export function createSqliteUserRepository(
+  db: Database.Database
+): UserRepository {
+  const selectById = db.prepare<[string], UserRow>(
+    'SELECT * FROM users WHERE id = ?'
+  );
+  const selectByEmail = db.prepare<[string], UserRow>(
+    'SELECT * FROM users WHERE email = ?'
+  );
+  const insertUser = db.prepare<[UserRow]>(
+    `INSERT INTO users (id, nome, email, password_hash, data_criacao)
+     VALUES (@id, @nome, @email, @password_hash, @data_criacao)`
+  );
+
+  return {
+    get(id) {
+      const row = selectById.get(id);
+      return row ? toUser(row) : null;
+    },
+
+    getByEmail(email) {
+      const row = selectByEmail.get(email);
+      return row ? toUser(row) : null;
+    },
+
+    insert(user) {
+      insertUser.run({
+        id: user.id,
+        nome: user.nome,
+        email: user.email.toLowerCase(),
+        password_hash: user.passwordHash,
+        data_criacao: user.dataCriacao,
+      });
+      return user;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import {
+  createTaskEventBus,
+  withTaskEvents,
+  type TaskEventBus,
+} from '../events/task.events';
+import type { AttachmentRepository } from './attachment.repository';
+import { withAttachmentCleanup } from './attachmentFiles';
+import type {
+  BoardColumn,
+  BoardColumnRepository,
+} from './boardColumn.repository';
+import type { CommentRepository } from './comment.repository';
+import { createMemoryAttachmentRepository } from './memory/attachment.memory';
+import { createMemoryBoardColumnRepository } from './memory/boardColumn.memory';
+import {
+  createMemoryCommentRepository,
+  withMemoryTaskComments,
+} from './memory/comment.memory';
+import { createMemoryProjectRepository } from './memory/project.memory';
+import { createMemoryTagRepository } from './memory/tag.memory';
+import { createMemoryTaskRepository } from './memory/task.memory';
+import { createMemoryTaskHistoryRepository } from './memory/taskHistory.memory';
+import { createMemoryUserRepository } from './memory/user.memory';
+import type { Project, ProjectRepository } from './project.repository';
+import { seedStore } from './seed';
+import { createSqliteAttachmentRepository } from './sqlite/attachment.sqlite';
+import { createSqliteBoardColumnRepository } from './sqlite/boardColumn.sqlite';
+import { createSqliteCommentRepository } from './sqlite/comment.sqlite';
+import { openDatabase } from './sqlite/database';
+import { createSqliteProjectRepository } from './sqlite/project.sqlite';
+import { createSqliteTagRepository } from './sqlite/tag.sqlite';
+import { createSqliteTaskRepository } from './sqlite/task.sqlite';
+import { createSqliteTaskHistoryRepository } from './sqlite/taskHistory.sqlite';
+import { createSqliteUserRepository } from './sqlite/user.sqlite';
+import type { Tag, TagRepository } from './tag.repository';
+import type { TaskRepository } from './task.repository';
+import { withTaskHistory } from './taskHistory';
+import type { TaskHistoryRepository } from './taskHistory.repository';
+import { scheduleTrashPurge } from './trash';
+import type { UserRepository } from './user.repository';
+
+/**
+ * All repositories of one storage backend
+ */
+export type Store = {
+  tasks: TaskRepository;
+  users: UserRepository;
+  projects: ProjectRepository;
+  tags: TagRepository;
+  taskHistory: TaskHistoryRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  boardColumns: BoardColumnRepository;
+  taskEvents: TaskEventBus;
+};
+
+/**
+ * Storage backend selection via `TASK_STORE` env var
+ *
+ * - `memory` (default): Map-based, data is lost on restart (demo/serverless)
+ * - `sqlite`: local file at `SQLITE_PATH` (default `data/tasks.db`)
+ */
+type StoreDriver = 'memory' | 'sqlite';
+
+function createStore(): Store {
+  const driver = (process.env.TASK_STORE ?? 'memory') as StoreDriver;
+  // Task writes are published to `task.onChange` subscribers
+  const taskEvents = createTaskEventBus();
+
+  if (driver === 'sqlite') {
+    const { db, isNew } = openDatabase(process.env.SQLITE_PATH);
+    const attachments = createSqliteAttachmentRepository(db);
+    const store: Store = {
+      tasks: withTaskEvents(
+        withAttachmentCleanup(createSqliteTaskRepository(db), attachments),
+        taskEvents
+      ),
+      users: createSqliteUserRepository(db),
+      projects: createSqliteProjectRepository(db),
+      tags: createSqliteTagRepository(db),
+      taskHistory: createSqliteTaskHistoryRepository(db),
+      comments: createSqliteCommentRepository(db),
+      attachments,
+      boardColumns: createSqliteBoardColumnRepository(db),
+      taskEvents,
+    };
+    // Seed only a freshly created database file, never an existing one
+    if (isNew) seedStore(store);
+    return store;
+  }
+
+  if (driver !== 'memory') {
+    throw new Error(`Unknown TASK_STORE driver: ${driver}`);
+  }
+
+  const comments = createMemoryCommentRepository();
+  const attachments = createMemoryAttachmentRepository();
+  // Written inside task transactions (project delete, tag merge, column
+  // moves): rolled back with the tasks
+  const projects = new Map<string, Project>();
+  const tags = new Map<string, Tag>();
+  const boardColumns = new Map<string, BoardColumn>();
+  const store: Store = {
+    tasks: withTaskEvents(
+      withAttachmentCleanup(
+        withMemoryTaskComments(
+          createMemoryTaskRepository(new Map(), [projects, tags, boardColumns]),
+          comments
+        ),
+        attachments
+      ),
+      taskEvents
+    ),
+    users: createMemoryUserRepository(),
+    projects: createMemoryProjectRepository(projects),
+    tags: createMemoryTagRepository(tags),
+    taskHistory: createMemoryTaskHistoryRepository(),
+    comments,
+    attachments,
+    boardColumns: createMemoryBoardColumnRepository(boardColumns),
+    taskEvents,
+  };
+  seedStore(store);
+  return store;
+}
+
+/**
+ * Process-wide store instance
+ *
+ * Decision: cached on globalThis instead of module scope
+ * - Next.js dev server re-evaluates modules on hot reload, which would
+ *   reset the Map (or reopen the SQLite file) on every code change
+ * - Creation is lazy: nothing is opened or seeded until the first request
+ * - The trash purge timer is started once, together with the store
+ *   (its deletions are made by the system: no actor in the history)
+ */
+const globalForStore = globalThis as unknown as {
+  store?: Store;
+};
+
+export function getStore(): Store {
+  if (!globalForStore.store) {
+    globalForStore.store = createStore();
+    const { tasks, taskHistory } = globalForStore.store;
+    scheduleTrashPurge(withTaskHistory(tasks, taskHistory, null));
+  }
+  return globalForStore.store;
+}
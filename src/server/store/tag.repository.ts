@@ -0,0 +1,32 @@
+import type { TagColor } from '../schemas/tag.schema';
+
+/**
+ * Tag data model (labels such as "frontend", "infra", "bug")
+ *
+ * Design decisions:
+ * - Owned by one user; names are unique per owner (accent/case-insensitive,
+ *   enforced by the router so renames can suggest a merge instead)
+ * - `cor` is a palette name, not a hex value: the UI owns the actual colors
+ * - Tasks reference tags by id (`Task.tagIds`), so renames need no task update
+ */
+export type Tag = {
+  id: string;
+  nome: string;
+  cor: TagColor;
+  ownerId: string;
+  dataCriacao: number;
+};
+
+/**
+ * Persistence contract for tags (same conventions as TaskRepository)
+ *
+ * `listByOwner` returns tags sorted by name (accent/case-insensitive)
+ * Deleting a tag doesn't touch tasks: the router removes it from them first
+ */
+export interface TagRepository {
+  get(id: string): Tag | null;
+  listByOwner(ownerId: string): Tag[];
+  insert(tag: Tag): Tag;
+  update(id: string, patch: Partial<Omit<Tag, 'id'>>): Tag | null;
+  delete(id: string): Tag | null;
+}
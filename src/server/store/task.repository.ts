@@ -0,0 +1,146 @@
+import { taskPriorityRank, type TaskStatus } from '../schemas/task.schema';
+import { normalizeText } from './normalize';
+import type { Task } from './task.store';
+
+/**
+ * Fields a task list can be ordered by
+ */
+export type TaskSortField =
+  | 'dataCriacao'
+  | 'titulo'
+  | 'dueDate'
+  | 'priority'
+  | 'deletedAt'
+  | 'position';
+
+export type TaskSort = {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+};
+
+/**
+ * Keyset cursor: sort value + id of the last task from the previous page
+ *
+ * Decision: `id` is used as tie-breaker
+ * - Two tasks may share the same sort value (e.g. same timestamp)
+ * - (value, id) is unique, so pages never skip or duplicate tasks
+ */
+export type TaskCursor = {
+  value: number | string;
+  id: string;
+};
+
+/**
+ * Criteria applied before sorting/pagination (all optional, combined with AND)
+ *
+ * - `query`: every whitespace-separated term must appear in titulo or descricao
+ *   (accent/case-insensitive, see `normalizeText`)
+ * - `createdFrom`/`createdTo`: inclusive timestamp bounds on `dataCriacao`
+ * - `ownerId`: restricts to one user's tasks (always set by the router)
+ * - `projectId`: restricts to one project's tasks
+ * - `tagIds` + `tagMode`: tasks with all (`and`, default) or any (`or`) of the tags
+ * - `deleted`: true = only trashed tasks, false = only active ones, unset = both
+ * - `deletedBefore`: inclusive upper bound on `deletedAt` (trash retention)
+ * - `boardColumnIds`: tasks in any of these board columns (`null` = tasks
+ *   without a column)
+ * - `dueFrom`/`dueTo`: inclusive calendar-day bounds on `dueDate` (tasks
+ *   without one never match)
+ * - `hasDueDate`: true = only tasks with a due date, false = only without
+ */
+export type TaskFilter = {
+  ownerId?: string;
+  projectId?: string;
+  tagIds?: string[];
+  tagMode?: 'and' | 'or';
+  query?: string;
+  statuses?: TaskStatus[];
+  createdFrom?: number;
+  createdTo?: number;
+  deleted?: boolean;
+  deletedBefore?: number;
+  boardColumnIds?: (string | null)[];
+  dueFrom?: string;
+  dueTo?: string;
+  hasDueDate?: boolean;
+};
+
+export type TaskListOptions = {
+  filter?: TaskFilter;
+  sort?: TaskSort;
+  cursor?: TaskCursor;
+  limit?: number;
+};
+
+/**
+ * Fields that can be changed after creation
+ * (`id` is immutable, `version` is managed by the repository)
+ */
+export type TaskPatch = Partial<Omit<Task, 'id' | 'version'>>;
+
+/**
+ * Persistence contract for tasks
+ *
+ * Architectural decisions:
+ * - Procedures only talk to this interface, never to a concrete backend
+ * - Synchronous API: both backends (Map and better-sqlite3) are synchronous,
+ *   which keeps transactions simple (no interleaving between awaits)
+ * - Mutations return the affected task (or null when it doesn't exist)
+ *   so the router decides how to report NOT_FOUND
+ * - `update` increments `version`, whatever the patch changes
+ */
+export interface TaskRepository {
+  get(id: string): Task | null;
+  list(options?: TaskListOptions): Task[];
+  insert(task: Task): Task;
+  update(id: string, patch: TaskPatch): Task | null;
+  delete(id: string): Task | null;
+  /**
+   * Runs `fn` atomically: if it throws, every change made inside is discarded
+   */
+  transaction<T>(fn: () => T): T;
+}
+
+export const defaultTaskSort: TaskSort = {
+  field: 'dataCriacao',
+  direction: 'desc',
+};
+
+/**
+ * Sort value of a task without due date: after every real day when sorting
+ * by closest due date first, before them when sorting by latest first
+ */
+export const noDueDateSortValue = '9999-12-31';
+
+/**
+ * Value a task is ordered by for the given sort field
+ *
+ * Decision: titles are compared normalized (no accents, lowercase)
+ * - "Árvore" sorts next to "arvore" instead of after "zebra"
+ * - Cursor stores this same value, so pagination stays stable
+ *
+ * Other fields map to a non-null comparable value (cursor values can't be null):
+ * - `dueDate`: tasks without one sort as `noDueDateSortValue` (furthest future)
+ * - `priority`: compared by rank, not alphabetically
+ * - `deletedAt`: only used to sort the trash; active tasks sort as 0
+ */
+export function taskSortValue(task: Task, field: TaskSortField) {
+  switch (field) {
+    case 'titulo':
+      return normalizeText(task.titulo);
+    case 'dueDate':
+      return task.dueDate ?? noDueDateSortValue;
+    case 'priority':
+      return taskPriorityRank[task.priority];
+    case 'deletedAt':
+      return task.deletedAt ?? 0;
+    default:
+      return task[field];
+  }
+}
+
+/**
+ * Builds the cursor pointing right after `task` for the given sort
+ */
+export function toTaskCursor(task: Task, sort: TaskSort): TaskCursor {
+  return { value: taskSortValue(task, sort.field), id: task.id };
+}
@@ -1,132 +1,93 @@
+import type {
+  TaskPriority,
+  TaskRecurrence,
+  TaskStatus,
+} from '../schemas/task.schema';
+
 /**
- * Task data model
+ * One step of a task's checklist
  *
- * Design decisions:
- * - `dataCriacao` uses timestamp (number) instead of Date for easier JSON serialization
- * - `descricao` is nullable to differentiate absence of value vs empty string
- * - `id` is string (UUID) for future database compatibility
+ * `id` is only unique within its task (items never move between tasks)
  */
-export type Task = {
+export type ChecklistItem = {
   id: string;
   titulo: string;
-  descricao: string | null;
-  dataCriacao: number;
+  done: boolean;
 };
 
 /**
- * In-memory storage using Map
- *
- * Technical decision: Map chosen over array because:
- * - O(1) lookup by ID (vs O(n) in array)
- * - Simplifies update/delete operations without array rebuilding
- * - API similar to key-value databases
- *
- * Trade-off: data is lost on server restart (no persistence)
- * For production: replace with Prisma/Drizzle + PostgreSQL keeping same interface
+ * Fields every new occurrence of a recurring task starts with
  */
-export const tasksStore = new Map<string, Task>();
+export type TaskSeriesTemplate = Pick<
+  Task,
+  'titulo' | 'descricao' | 'priority' | 'projectId' | 'tagIds'
+>;
 
 /**
- * Seed data for development
- * Adds sample tasks on server start to facilitate testing
+ * Recurrence of a task: which series it belongs to and how it repeats
  *
- * Note: Uses fixed IDs to ensure consistency in serverless environments (Vercel)
- * Without fixed IDs, each serverless function cold start would generate new UUIDs,
- * breaking edit/delete functionality as IDs wouldn't match between requests
+ * Decisions:
+ * - Occurrences are separate tasks, generated one at a time when the
+ *   previous one is completed (no precomputed future tasks)
+ * - Every occurrence carries the series (`id`, rule, `template`), so there
+ *   is no separate series table; "edit all future" rewrites it on this
+ *   occurrence and the ones linked after it through `nextId`
+ * - `occurrence` is 1-based (counted against `recurrence.count`);
+ *   `startDate` is the due date of the first one (anchors monthly rules)
+ * - `nextId` is set once the next occurrence was generated
  */
-const seedTasks: Task[] = [
-  {
-    id: '550e8400-e29b-41d4-a716-446655440001',
-    titulo: 'Implementar autenticação',
-    descricao: 'Adicionar sistema de login com NextAuth.js',
-    dataCriacao: Date.now() - 3600000, // 1 hora atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440002',
-    titulo: 'Criar documentação',
-    descricao: 'Documentar endpoints da API e componentes React',
-    dataCriacao: Date.now() - 7200000, // 2 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440003',
-    titulo: 'Configurar CI/CD',
-    descricao: null,
-    dataCriacao: Date.now() - 10800000, // 3 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440004',
-    titulo: 'Implementar testes unitários',
-    descricao: 'Adicionar testes com Jest para componentes críticos',
-    dataCriacao: Date.now() - 14400000, // 4 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440005',
-    titulo: 'Otimizar performance',
-    descricao: 'Analisar bundle size e implementar code splitting',
-    dataCriacao: Date.now() - 18000000, // 5 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440006',
-    titulo: 'Configurar Docker',
-    descricao:
-      'Criar Dockerfile e docker-compose para ambiente de desenvolvimento',
-    dataCriacao: Date.now() - 21600000, // 6 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440007',
-    titulo: 'Implementar cache Redis',
-    descricao: 'Adicionar Redis para cache de queries frequentes',
-    dataCriacao: Date.now() - 25200000, // 7 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440008',
-    titulo: 'Migrar para PostgreSQL',
-    descricao: 'Substituir storage em memória por PostgreSQL com Prisma',
-    dataCriacao: Date.now() - 28800000, // 8 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440009',
-    titulo: 'Adicionar validação avançada',
-    descricao: 'Implementar validação de campos com mensagens customizadas',
-    dataCriacao: Date.now() - 32400000, // 9 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440010',
-    titulo: 'Implementar notificações',
-    descricao: null,
-    dataCriacao: Date.now() - 36000000, // 10 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440011',
-    titulo: 'Criar dashboard analytics',
-    descricao: 'Adicionar gráficos e estatísticas de uso',
-    dataCriacao: Date.now() - 39600000, // 11 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440012',
-    titulo: 'Implementar busca',
-    descricao: 'Adicionar funcionalidade de busca por título e descrição',
-    dataCriacao: Date.now() - 43200000, // 12 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440013',
-    titulo: 'Configurar monitoramento',
-    descricao: 'Integrar Sentry para tracking de erros em produção',
-    dataCriacao: Date.now() - 46800000, // 13 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440014',
-    titulo: 'Implementar filtros',
-    descricao: null,
-    dataCriacao: Date.now() - 50400000, // 14 horas atrás
-  },
-  {
-    id: '550e8400-e29b-41d4-a716-446655440015',
-    titulo: 'Adicionar exportação de dados',
-    descricao: 'Permitir exportar lista de tarefas em CSV e JSON',
-    dataCriacao: Date.now() - 54000000, // 15 horas atrás
-  },
-];
+export type TaskSeries = {
+  id: string;
+  occurrence: number;
+  startDate: string;
+  recurrence: TaskRecurrence;
+  template: TaskSeriesTemplate;
+  nextId: string | null;
+};
 
-// Populate store with seed data
-seedTasks.forEach((task) => tasksStore.set(task.id, task));
+/**
+ * Task data model
+ *
+ * Design decisions:
+ * - `dataCriacao` uses timestamp (number) instead of Date for easier JSON serialization
+ * - `descricao` is nullable to differentiate absence of value vs empty string
+ * - `id` is string (UUID) for future database compatibility
+ * - `completedAt` is set when entering `concluida` and cleared when leaving it
+ * - `ownerId` scopes every read/write to the authenticated user
+ * - `deletedAt` marks a task as moved to the trash (soft delete), null otherwise
+ * - `dueDate` is a calendar day (AAAA-MM-DD), not a timestamp: "due tomorrow"
+ *   must not shift with the viewer's time zone
+ * - `projectId` groups tasks; null = not in any project
+ * - `tagIds` references tags by id (many-to-many), in the order they were added
+ * - `checklist` is owned by the task (ordered, saved and loaded with it);
+ *   `checklistAutoComplete` completes the task once every item is done
+ * - `version` starts at 1 and is bumped by the repository on every update;
+ *   `task.update` requires the version the client last saw (optimistic
+ *   concurrency: a stale edit is rejected instead of overwriting)
+ * - `series` is set on occurrences of a recurring task, null otherwise
+ * - `boardColumnId` is the task's column on the board; null = the first
+ *   column (new tasks, or tasks whose column was deleted)
+ * - `position` orders tasks within a column (ascending); fractional, so a
+ *   task dropped between two others gets their midpoint and no other task
+ *   has to move. New tasks start at `dataCriacao`: the end of the column
+ */
+export type Task = {
+  id: string;
+  titulo: string;
+  descricao: string | null;
+  dataCriacao: number;
+  status: TaskStatus;
+  completedAt: number | null;
+  ownerId: string;
+  deletedAt: number | null;
+  dueDate: string | null;
+  priority: TaskPriority;
+  projectId: string | null;
+  tagIds: string[];
+  checklist: ChecklistItem[];
+  checklistAutoComplete: boolean;
+  series: TaskSeries | null;
+  boardColumnId: string | null;
+  position: number;
+  version: number;
+};
@@ -0,0 +1,69 @@
+import type { Task } from './task.store';
+
+/**
+ * Task fields whose changes are recorded in the history
+ *
+ * `id`, `ownerId` and `dataCriacao` never change after creation
+ */
+export const trackedTaskFields = [
+  'titulo',
+  'descricao',
+  'status',
+  'completedAt',
+  'deletedAt',
+  'dueDate',
+  'priority',
+  'projectId',
+  'tagIds',
+  'checklist',
+  'checklistAutoComplete',
+] as const satisfies readonly (keyof Task)[];
+
+export type TrackedTaskField = (typeof trackedTaskFields)[number];
+
+/**
+ * Before/after values of one field (typed per field)
+ */
+export type TaskFieldChange = {
+  [F in TrackedTaskField]: { field: F; before: Task[F]; after: Task[F] };
+}[TrackedTaskField];
+
+/**
+ * - `create`/`update`: regular writes (a revert is recorded as an update)
+ * - `delete`/`restore`: task moved to/from the trash
+ */
+export type TaskHistoryAction = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * One immutable history event (revision) of a task
+ *
+ * Design decisions:
+ * - `changes` is the field-level diff shown in the timeline
+ *   (for `create`, every tracked field with `before: null`)
+ * - `snapshot` is the full task right after the event, so reverting to a
+ *   revision doesn't need to replay diffs
+ * - `actorId` is the user who made the change; null = the system
+ *   (e.g. the trash retention purge)
+ */
+export type TaskHistoryEntry = {
+  id: string;
+  taskId: string;
+  action: TaskHistoryAction;
+  actorId: string | null;
+  dataCriacao: number;
+  changes: TaskFieldChange[];
+  snapshot: Task;
+};
+
+/**
+ * Persistence contract for task history (append-only)
+ *
+ * - `listByTask` returns the newest entry first
+ * - `deleteByTask` only runs when the task itself is permanently deleted
+ */
+export interface TaskHistoryRepository {
+  get(id: string): TaskHistoryEntry | null;
+  listByTask(taskId: string): TaskHistoryEntry[];
+  insert(entry: TaskHistoryEntry): TaskHistoryEntry;
+  deleteByTask(taskId: string): number;
+}
@@ -0,0 +1,104 @@
+import { withDeferredEffects } from './deferredEffects';
+import type { TaskRepository } from './task.repository';
+import type { Task } from './task.store';
+import {
+  trackedTaskFields,
+  type TaskFieldChange,
+  type TaskHistoryAction,
+  type TaskHistoryRepository,
+} from './taskHistory.repository';
+
+function isSameValue(a: unknown, b: unknown) {
+  // Arrays (tagIds, checklist) are compared by content
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level diff between two versions of a task
+ * (`before: null` = the task didn't exist yet, every field is reported)
+ */
+export function diffTask(before: Task | null, after: Task): TaskFieldChange[] {
+  return trackedTaskFields
+    .filter((field) => !before || !isSameValue(before[field], after[field]))
+    .map(
+      (field) =>
+        ({
+          field,
+          before: before ? before[field] : null,
+          after: after[field],
+        } as TaskFieldChange)
+    );
+}
+
+/**
+ * Decorates a repository so every task write is recorded in the history
+ *
+ * Decisions:
+ * - Applied per request (see `createContext`), since the actor is the
+ *   session user; background jobs pass `actorId: null`
+ * - Writes inside `transaction` are recorded only after commit, nothing is
+ *   recorded for a rollback (see withDeferredEffects)
+ * - Updates that change no tracked field record nothing
+ * - Permanently deleting a task removes its history with it
+ */
+export function withTaskHistory(
+  repository: TaskRepository,
+  history: TaskHistoryRepository,
+  actorId: string | null
+): TaskRepository {
+  const { defer: run, transaction } = withDeferredEffects(
+    repository,
+    (write: () => void) => write()
+  );
+
+  const record = (
+    action: TaskHistoryAction,
+    before: Task | null,
+    after: Task
+  ) => {
+    const changes = diffTask(before, after);
+    if (changes.length === 0) return;
+
+    const entry = {
+      id: crypto.randomUUID(),
+      taskId: after.id,
+      action,
+      actorId,
+      dataCriacao: Date.now(),
+      changes,
+      snapshot: after,
+    };
+    run(() => history.insert(entry));
+  };
+
+  return {
+    ...repository,
+
+    insert(task) {
+      const created = repository.insert(task);
+      record('create', null, created);
+      return created;
+    },
+
+    update(id, patch) {
+      const existing = repository.get(id);
+      const updated = repository.update(id, patch);
+      if (!existing || !updated) return updated;
+
+      const wasDeleted = existing.deletedAt !== null;
+      const isDeleted = updated.deletedAt !== null;
+      const action: TaskHistoryAction =
+        wasDeleted === isDeleted ? 'update' : isDeleted ? 'delete' : 'restore';
+      record(action, existing, updated);
+      return updated;
+    },
+
+    delete(id) {
+      const deleted = repository.delete(id);
+      if (deleted) run(() => history.deleteByTask(id));
+      return deleted;
+    },
+
+    transaction,
+  };
+}
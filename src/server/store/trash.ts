@@ -0,0 +1,45 @@
+import type { TaskRepository } from './task.repository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hora
+
+/**
+ * Days a deleted task stays in the trash, via `TRASH_RETENTION_DAYS`
+ * (invalid or missing values fall back to 30)
+ */
+export function getTrashRetentionDays() {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Permanently removes every task trashed longer than the retention period
+ * Returns how many tasks were purged
+ */
+export function purgeExpiredTasks(tasks: TaskRepository, now = Date.now()) {
+  const expired = tasks.list({
+    filter: {
+      deleted: true,
+      deletedBefore: now - getTrashRetentionDays() * DAY_MS,
+    },
+  });
+
+  tasks.transaction(() => {
+    expired.forEach((task) => tasks.delete(task.id));
+  });
+
+  return expired.length;
+}
+
+/**
+ * Purges once on startup, then hourly for the lifetime of the process
+ *
+ * Decision: `unref` so the timer never keeps Node alive (scripts, build)
+ * Serverless instances may be frozen between requests, so `task.trash`
+ * also purges before listing
+ */
+export function scheduleTrashPurge(tasks: TaskRepository) {
+  purgeExpiredTasks(tasks);
+  setInterval(() => purgeExpiredTasks(tasks), PURGE_INTERVAL_MS).unref();
+}
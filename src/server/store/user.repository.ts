@@ -0,0 +1,32 @@
+/**
+ * User data model
+ *
+ * Design decisions:
+ * - `email` is stored lowercase (unique, used as login)
+ * - `passwordHash` never leaves the server: procedures expose `SessionUser`
+ */
+export type User = {
+  id: string;
+  nome: string;
+  email: string;
+  passwordHash: string;
+  dataCriacao: number;
+};
+
+/**
+ * Public user shape available as `ctx.user` and returned to the client
+ */
+export type SessionUser = Pick<User, 'id' | 'nome' | 'email'>;
+
+export function toSessionUser(user: User): SessionUser {
+  return { id: user.id, nome: user.nome, email: user.email };
+}
+
+/**
+ * Persistence contract for users (same conventions as TaskRepository)
+ */
+export interface UserRepository {
+  get(id: string): User | null;
+  getByEmail(email: string): User | null;
+  insert(user: User): User;
+}
@@ -0,0 +1,296 @@
+import { LocalizedError } from '../errors';
+import type { MessageKey } from '../../i18n/translator';
+import type { TaskImportFormat } from '../schemas/task.schema';
+import type { Task } from '../store/task.store';
+
+/**
+ * Flat representation of a task in exported files (CSV columns / JSON keys)
+ *
+ * Decisions:
+ * - References are exported as ids (`projectId`, `tagIds`) so a file can be
+ *   imported back into the same account without ambiguity
+ * - Dates are ISO strings (timestamps are unreadable in a spreadsheet)
+ * - `status`, `dataCriacao` and `completedAt` are informative: import
+ *   ignores them (status changes go through the workflow)
+ */
+export type TaskExportRecord = {
+  id: string;
+  titulo: string;
+  descricao: string | null;
+  status: Task['status'];
+  priority: Task['priority'];
+  dueDate: string | null;
+  projectId: string | null;
+  tagIds: string[];
+  dataCriacao: string;
+  completedAt: string | null;
+};
+
+const exportColumns: (keyof TaskExportRecord)[] = [
+  'id',
+  'titulo',
+  'descricao',
+  'status',
+  'priority',
+  'dueDate',
+  'projectId',
+  'tagIds',
+  'dataCriacao',
+  'completedAt',
+];
+
+/**
+ * Separator of `tagIds` inside one CSV cell (ids never contain it)
+ */
+const tagIdsSeparator = '|';
+
+export function toExportRecord(task: Task): TaskExportRecord {
+  return {
+    id: task.id,
+    titulo: task.titulo,
+    descricao: task.descricao,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    projectId: task.projectId,
+    tagIds: task.tagIds,
+    dataCriacao: new Date(task.dataCriacao).toISOString(),
+    completedAt: task.completedAt
+      ? new Date(task.completedAt).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Cells a spreadsheet would run as a formula (`=HYPERLINK(...)`, `+cmd|...`);
+ * leading `'`s are included so a `'` typed by the user is kept apart from
+ * the one added by `toCsvCell`
+ */
+const formulaCellPattern = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV cell when needed (RFC 4180: separators, quotes, line breaks)
+ *
+ * Decision: formula-like cells get a leading `'` (spreadsheets show the
+ * text instead of running it) and are quoted; `fromCsvCell` removes it,
+ * so export → import keeps the text as typed
+ */
+function toCsvCell(value: string) {
+  const cell = formulaCellPattern.test(value) ? `'${value}` : value;
+  return cell !== value || /[",;\r\n]/.test(cell)
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+}
+
+/**
+ * Cell text without the formula guard added by `toCsvCell`
+ */
+function fromCsvCell(cell: string) {
+  return cell.startsWith("'") && formulaCellPattern.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+}
+
+function toCsvLine(values: string[]) {
+  return `${values.map(toCsvCell).join(',')}\r\n`;
+}
+
+/**
+ * Export file as text chunks: one chunk per task, so the response can be
+ * streamed instead of building the whole file in memory
+ *
+ * Decisions:
+ * - CSV starts with a UTF-8 BOM: spreadsheet apps otherwise garble accents
+ * - JSON is a plain array of records (pretty enough to diff, one per line)
+ */
+export function* toExportChunks(
+  tasks: Iterable<Task>,
+  format: TaskImportFormat
+) {
+  if (format === 'csv') {
+    yield `\uFEFF${toCsvLine(exportColumns)}`;
+    for (const task of tasks) {
+      const record = toExportRecord(task);
+      yield toCsvLine(
+        exportColumns.map((column) => {
+          const value = record[column];
+          return Array.isArray(value)
+            ? value.join(tagIdsSeparator)
+            : value ?? '';
+        })
+      );
+    }
+    return;
+  }
+
+  yield '[';
+  let isFirst = true;
+  for (const task of tasks) {
+    yield `${isFirst ? '' : ','}\n${JSON.stringify(toExportRecord(task))}`;
+    isFirst = false;
+  }
+  yield '\n]\n';
+}
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180)
+ *
+ * Handles quoted cells with separators, escaped quotes and line breaks;
+ * the separator is `,` unless the header only uses `;` (spreadsheets in
+ * pt-BR locales save CSV with `;`)
+ */
+function parseCsv(text: string) {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerEnd = content.search(/\r?\n/);
+  const header = headerEnd === -1 ? content : content.slice(0, headerEnd);
+  const separator = !header.includes(',') && header.includes(';') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines (e.g. trailing ones) are not records
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Importable fields of one record, as found in the file
+ *
+ * Decision: a field absent from the file (no column / no key) is
+ * `undefined` and keeps the current value of an updated task, while an
+ * empty value is `null` / `[]` and clears it
+ */
+export type TaskImportRecord = {
+  id?: string;
+  titulo?: unknown;
+  descricao?: unknown;
+  dueDate?: unknown;
+  priority?: unknown;
+  projectId?: unknown;
+  tagIds?: unknown;
+};
+
+const importFields = [
+  'titulo',
+  'descricao',
+  'dueDate',
+  'priority',
+  'projectId',
+  'tagIds',
+] as const;
+
+/**
+ * Error in the file itself (not in one record): nothing can be previewed
+ */
+function fileError(key: MessageKey) {
+  return new LocalizedError('BAD_REQUEST', key);
+}
+
+function toNullable(value: string) {
+  const trimmed = value.trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+function fromCsv(text: string): TaskImportRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((column) => column.trim());
+
+  if (!columns.includes('titulo')) {
+    throw fileError('errors.importMissingTitulo');
+  }
+
+  return rows.map((cells) => {
+    const values = new Map(
+      columns.map((column, index) => [column, fromCsvCell(cells[index] ?? '')])
+    );
+    const record: TaskImportRecord = {};
+
+    const id = toNullable(values.get('id') ?? '');
+    if (id) record.id = id;
+
+    importFields.forEach((field) => {
+      const value = values.get(field);
+      if (value === undefined) return;
+
+      if (field === 'titulo') record.titulo = value.trim();
+      else if (field === 'tagIds') {
+        record.tagIds = value
+          .split(tagIdsSeparator)
+          .map((tagId) => tagId.trim())
+          .filter(Boolean);
+      } else record[field] = toNullable(value);
+    });
+
+    return record;
+  });
+}
+
+function fromJson(text: string): TaskImportRecord[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw fileError('errors.importInvalidJson');
+  }
+
+  if (!Array.isArray(data)) {
+    throw fileError('errors.importNotArray');
+  }
+
+  return data.map((item) => {
+    if (typeof item !== 'object' || item === null) return {};
+
+    const source = item as Record<string, unknown>;
+    const record: TaskImportRecord = {};
+    if (typeof source.id === 'string' && source.id) record.id = source.id;
+    importFields.forEach((field) => {
+      if (field in source) record[field] = source[field];
+    });
+    return record;
+  });
+}
+
+/**
+ * Reads the records of an import file (BAD_REQUEST when the file itself
+ * is unusable; invalid records are reported by the router, row by row)
+ */
+export function parseImportFile(
+  content: string,
+  format: TaskImportFormat
+): TaskImportRecord[] {
+  return format === 'csv' ? fromCsv(content) : fromJson(content);
+}
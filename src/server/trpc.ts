@@ -1,6 +1,51 @@
 import { initTRPC } from '@trpc/server';
+import { ZodError } from 'zod';
+import { defaultLocale } from '../i18n/locales';
+import { flattenZodError } from '../i18n/zodErrors';
+import type { Context } from './context';
+import { localizeError, LocalizedError } from './errors';
 
-const t = initTRPC.create();
+/**
+ * Decisions:
+ * - Error messages are translated to the caller's locale here, once for
+ *   every procedure (see `localizeError`); the rest of the error shape
+ *   (code, HTTP status) is tRPC's
+ * - Invalid input also carries every issue by field
+ *   (`data.zodError`, see `flattenZodError`), so forms can show each
+ *   message next to its input; `null` for any other error
+ */
+const t = initTRPC.context<Context>().create({
+  errorFormatter: ({ shape, error, ctx }) => {
+    const locale = ctx?.locale ?? defaultLocale;
+
+    return {
+      ...shape,
+      message: localizeError(locale, error),
+      data: {
+        ...shape.data,
+        zodError:
+          error.cause instanceof ZodError
+            ? flattenZodError(locale, error.cause)
+            : null,
+      },
+    };
+  },
+});
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
+
+/**
+ * Procedure that requires an authenticated user
+ *
+ * Decision: middleware narrows `ctx.user` to non-null
+ * - Procedures can use `ctx.user.id` without null checks
+ * - Anonymous calls fail with UNAUTHORIZED before reaching any logic
+ */
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new LocalizedError('UNAUTHORIZED', 'errors.authRequired');
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
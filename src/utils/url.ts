@@ -0,0 +1,25 @@
+/**
+ * Placeholder origin to resolve paths against: only whether the result
+ * stays on it matters, never the origin itself
+ */
+const baseOrigin = 'http://same-origin.invalid';
+
+/**
+ * Whether `value` is a path on the current origin (`/tasks/1?x=y`)
+ *
+ * Shared by the login redirect (server) and the Markdown links (client)
+ *
+ * Decision: resolved with `new URL` like a browser would, instead of
+ * checking prefixes only: browsers read `/\host` (and `/\t/host`, tabs and
+ * newlines are stripped) as `//host`, another origin
+ */
+export function isSameOriginPath(value: string) {
+  if (!value.startsWith('/') || value[1] === '/' || value[1] === '\\') {
+    return false;
+  }
+  try {
+    return new URL(value, baseOrigin).origin === baseOrigin;
+  } catch {
+    return false;
+  }
+}